@@ -1,17 +1,51 @@
 import { Module } from '@nestjs/common';
+import { AdminAddOnsController } from './controllers/add-ons.controller';
+import { AdminEventCancellationsController } from './controllers/event-cancellations.controller';
+import { AdminEventReschedulesController } from './controllers/event-reschedules.controller';
 import { AdminEventsController } from './controllers/events.controller';
+import { AdminInvitationsController } from './controllers/invitations.controller';
+import { AdminPromoCodesController } from './controllers/promo-codes.controller';
+import { AdminRiskController } from './controllers/risk.controller';
+import { AdminSeatingController } from './controllers/seating.controller';
 import { AdminTicketsController } from './controllers/tickets.controller';
+import { AdminUnlockCodesController } from './controllers/unlock-codes.controller';
+import { AdminAddOnsService } from './services/add-ons.service';
+import { AdminEventCancellationsService } from './services/event-cancellations.service';
+import { AdminEventReschedulesService } from './services/event-reschedules.service';
 import { AdminEventsService } from './services/events.service';
+import { AdminInvitationsService } from './services/invitations.service';
+import { AdminPromoCodesService } from './services/promo-codes.service';
+import { AdminRiskService } from './services/risk.service';
+import { AdminSeatingService } from './services/seating.service';
 import { AdminTicketsService } from './services/tickets.service';
+import { AdminUnlockCodesService } from './services/unlock-codes.service';
+import { JobsModule } from '../jobs/jobs.module';
 
 @Module({
+  imports: [JobsModule],
   controllers: [
     AdminEventsController,
     AdminTicketsController,
+    AdminPromoCodesController,
+    AdminSeatingController,
+    AdminAddOnsController,
+    AdminInvitationsController,
+    AdminUnlockCodesController,
+    AdminRiskController,
+    AdminEventCancellationsController,
+    AdminEventReschedulesController,
   ],
   providers: [
     AdminEventsService,
     AdminTicketsService,
+    AdminPromoCodesService,
+    AdminSeatingService,
+    AdminAddOnsService,
+    AdminInvitationsService,
+    AdminUnlockCodesService,
+    AdminRiskService,
+    AdminEventCancellationsService,
+    AdminEventReschedulesService,
   ],
 })
 export class AdminModule {} 
\ No newline at end of file
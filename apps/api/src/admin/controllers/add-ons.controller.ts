@@ -0,0 +1,46 @@
+import { Body, Controller, Get, Param, Patch, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, CreateAddOnRequest, UpdateAddOnRequest } from '@supafaya/core';
+import { AdminAddOnsService } from '../services/add-ons.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/admin/events/:eventId/add-ons')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminAddOnsController {
+  constructor(private readonly addOnsService: AdminAddOnsService) {}
+
+  @Get()
+  async listAddOns(@Param('eventId') eventId: string) {
+    const addOns = await this.addOnsService.listAddOns(eventId);
+    return {
+      data: addOns,
+      meta: {
+        total: addOns.length,
+      },
+    };
+  }
+
+  @Post()
+  async createAddOn(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body() request: CreateAddOnRequest,
+  ) {
+    const addOn = await this.addOnsService.createAddOn(req.user.id, eventId, request);
+    return { data: addOn };
+  }
+
+  @Patch(':addOnId')
+  async updateAddOn(
+    @Req() req: OrganizerRequest,
+    @Param('addOnId') addOnId: string,
+    @Body() request: Omit<UpdateAddOnRequest, 'id'>,
+  ) {
+    const addOn = await this.addOnsService.updateAddOn(req.user.id, { ...request, id: addOnId });
+    return { data: addOn };
+  }
+}
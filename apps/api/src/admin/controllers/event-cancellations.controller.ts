@@ -0,0 +1,49 @@
+import { BadRequestException, Body, Controller, Get, HttpCode, HttpStatus, Param, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest } from '@supafaya/core';
+import { AdminEventCancellationsService } from '../services/event-cancellations.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/admin/events/:eventId/cancellation')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminEventCancellationsController {
+  constructor(private readonly cancellationsService: AdminEventCancellationsService) {}
+
+  // Cancels the event now; refunds and notifications run in the background
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  async cancelEvent(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body('reason') reason?: string,
+  ) {
+    if (!reason?.trim()) {
+      throw new BadRequestException({
+        error: {
+          code: 'reason_required',
+          message: 'Attendees are told why the event was cancelled',
+        },
+      });
+    }
+
+    const cancellation = await this.cancellationsService.cancelEvent(req.user.id, eventId, reason.trim());
+    return { data: cancellation };
+  }
+
+  // Progress of the cascade and every refund that failed
+  @Get()
+  async getReport(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const report = await this.cancellationsService.getReport(req.user.id, eventId);
+    return { data: report };
+  }
+
+  @Post('refunds/retry')
+  async retryFailedRefunds(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const report = await this.cancellationsService.retryFailedRefunds(req.user.id, eventId);
+    return { data: report };
+  }
+}
@@ -0,0 +1,55 @@
+import { Body, Controller, Get, Param, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, RescheduleEventRequest } from '@supafaya/core';
+import { AdminEventReschedulesService } from '../services/event-reschedules.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/admin/events/:eventId/reschedules')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminEventReschedulesController {
+  constructor(private readonly reschedulesService: AdminEventReschedulesService) {}
+
+  // Moves the event now; ticket holders are notified in the background
+  @Post()
+  async rescheduleEvent(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body() request: Omit<RescheduleEventRequest, 'eventId'>,
+  ) {
+    const reschedule = await this.reschedulesService.rescheduleEvent(req.user.id, eventId, request);
+    return { data: reschedule };
+  }
+
+  @Get()
+  async listReschedules(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const reschedules = await this.reschedulesService.listReschedules(req.user.id, eventId);
+    return {
+      data: reschedules,
+      meta: {
+        total: reschedules.length,
+      },
+    };
+  }
+
+  // What every affected order chose, and the refunds that failed
+  @Get(':rescheduleId/responses')
+  async listResponses(@Req() req: OrganizerRequest, @Param('rescheduleId') rescheduleId: string) {
+    const responses = await this.reschedulesService.listResponses(req.user.id, rescheduleId);
+    return {
+      data: responses,
+      meta: {
+        total: responses.length,
+      },
+    };
+  }
+
+  @Post(':rescheduleId/refunds/retry')
+  async retryFailedRefunds(@Req() req: OrganizerRequest, @Param('rescheduleId') rescheduleId: string) {
+    const responses = await this.reschedulesService.retryFailedRefunds(req.user.id, rescheduleId);
+    return { data: responses };
+  }
+}
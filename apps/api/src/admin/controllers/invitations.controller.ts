@@ -0,0 +1,74 @@
+import { Body, Controller, Delete, Get, Param, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, CreateAccessCodeRequest } from '@supafaya/core';
+import { AdminInvitationsService } from '../services/invitations.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/admin/events/:eventId')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminInvitationsController {
+  constructor(private readonly invitationsService: AdminInvitationsService) {}
+
+  @Get('invitations')
+  async listInvitations(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const invitations = await this.invitationsService.listInvitations(req.user.id, eventId);
+    return {
+      data: invitations,
+      meta: {
+        total: invitations.length,
+      },
+    };
+  }
+
+  @Post('invitations')
+  async inviteGuests(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body('emails') emails: string[],
+  ) {
+    const invitations = await this.invitationsService.inviteGuests(req.user.id, eventId, emails ?? []);
+    return {
+      data: invitations,
+      meta: {
+        total: invitations.length,
+      },
+    };
+  }
+
+  @Delete('invitations/:invitationId')
+  async revokeInvitation(@Req() req: OrganizerRequest, @Param('invitationId') invitationId: string) {
+    const invitation = await this.invitationsService.revokeInvitation(req.user.id, invitationId);
+    return { data: invitation };
+  }
+
+  @Get('access-codes')
+  async listAccessCodes(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const accessCodes = await this.invitationsService.listAccessCodes(req.user.id, eventId);
+    return {
+      data: accessCodes,
+      meta: {
+        total: accessCodes.length,
+      },
+    };
+  }
+
+  @Post('access-codes')
+  async createAccessCode(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body() request: Omit<CreateAccessCodeRequest, 'eventId'>,
+  ) {
+    const accessCode = await this.invitationsService.createAccessCode(req.user.id, eventId, { ...request, eventId });
+    return { data: accessCode };
+  }
+
+  @Delete('access-codes/:accessCodeId')
+  async revokeAccessCode(@Req() req: OrganizerRequest, @Param('accessCodeId') accessCodeId: string) {
+    const accessCode = await this.invitationsService.revokeAccessCode(req.user.id, accessCodeId);
+    return { data: accessCode };
+  }
+}
@@ -0,0 +1,63 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, CreatePromoCodeRequest, UpdatePromoCodeRequest } from '@supafaya/core';
+import { AdminPromoCodesService } from '../services/promo-codes.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/admin/events/:eventId/promo-codes')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminPromoCodesController {
+  constructor(private readonly promoCodesService: AdminPromoCodesService) {}
+
+  @Get()
+  async listPromoCodes(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const promoCodes = await this.promoCodesService.listPromoCodes(req.user.id, eventId);
+    return {
+      data: promoCodes,
+      meta: {
+        total: promoCodes.length,
+      },
+    };
+  }
+
+  @Post()
+  async createPromoCode(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body() request: CreatePromoCodeRequest,
+  ) {
+    const promoCode = await this.promoCodesService.createPromoCode(req.user.id, eventId, request);
+    return { data: promoCode };
+  }
+
+  @Patch(':promoCodeId')
+  async updatePromoCode(
+    @Req() req: OrganizerRequest,
+    @Param('promoCodeId') promoCodeId: string,
+    @Body() request: Omit<UpdatePromoCodeRequest, 'id'>,
+  ) {
+    const promoCode = await this.promoCodesService.updatePromoCode(req.user.id, { ...request, id: promoCodeId });
+    return { data: promoCode };
+  }
+
+  @Delete(':promoCodeId')
+  async deactivatePromoCode(@Req() req: OrganizerRequest, @Param('promoCodeId') promoCodeId: string) {
+    const promoCode = await this.promoCodesService.deactivatePromoCode(req.user.id, promoCodeId);
+    return { data: promoCode };
+  }
+
+  @Get(':promoCodeId/redemptions')
+  async listRedemptions(@Req() req: OrganizerRequest, @Param('promoCodeId') promoCodeId: string) {
+    const redemptions = await this.promoCodesService.listRedemptions(req.user.id, promoCodeId);
+    return {
+      data: redemptions,
+      meta: {
+        total: redemptions.length,
+      },
+    };
+  }
+}
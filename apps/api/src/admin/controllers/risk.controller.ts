@@ -0,0 +1,92 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Put, Query, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, RiskPolicyScope, RiskReviewStatus, SaveRiskPolicyRequest } from '@supafaya/core';
+import { AdminRiskService } from '../services/risk.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+type RiskPolicyBody = Omit<SaveRiskPolicyRequest, 'scope' | 'scopeId'>;
+
+@Controller('api/v1/admin/risk')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminRiskController {
+  constructor(private readonly riskService: AdminRiskService) {}
+
+  // Organizer-wide policy, used by events without their own
+  @Get('policy')
+  async getOrganizerPolicy(@Req() req: OrganizerRequest) {
+    const policy = await this.riskService.getPolicy(req.user.id, RiskPolicyScope.ORGANIZER, req.user.id);
+    return { data: policy };
+  }
+
+  @Put('policy')
+  async saveOrganizerPolicy(@Req() req: OrganizerRequest, @Body() request: RiskPolicyBody) {
+    const policy = await this.riskService.savePolicy(req.user.id, RiskPolicyScope.ORGANIZER, req.user.id, request);
+    return { data: policy };
+  }
+
+  @Delete('policy')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteOrganizerPolicy(@Req() req: OrganizerRequest) {
+    await this.riskService.deletePolicy(req.user.id, RiskPolicyScope.ORGANIZER, req.user.id);
+  }
+
+  @Get('events/:eventId/policy')
+  async getEventPolicy(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const policy = await this.riskService.getPolicy(req.user.id, RiskPolicyScope.EVENT, eventId);
+    return { data: policy };
+  }
+
+  @Put('events/:eventId/policy')
+  async saveEventPolicy(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body() request: RiskPolicyBody,
+  ) {
+    const policy = await this.riskService.savePolicy(req.user.id, RiskPolicyScope.EVENT, eventId, request);
+    return { data: policy };
+  }
+
+  @Delete('events/:eventId/policy')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteEventPolicy(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    await this.riskService.deletePolicy(req.user.id, RiskPolicyScope.EVENT, eventId);
+  }
+
+  @Get('events/:eventId/reviews')
+  async listReviews(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Query('status') status?: RiskReviewStatus,
+  ) {
+    const reviews = await this.riskService.listReviews(req.user.id, eventId, status);
+    return {
+      data: reviews,
+      meta: {
+        total: reviews.length,
+      },
+    };
+  }
+
+  @Post('reviews/:orderId/approve')
+  async approveReview(
+    @Req() req: OrganizerRequest,
+    @Param('orderId') orderId: string,
+    @Body('note') note?: string,
+  ) {
+    const order = await this.riskService.approveReview(req.user.id, orderId, note);
+    return { data: order };
+  }
+
+  @Post('reviews/:orderId/reject')
+  async rejectReview(
+    @Req() req: OrganizerRequest,
+    @Param('orderId') orderId: string,
+    @Body('note') note?: string,
+  ) {
+    const order = await this.riskService.rejectReview(req.user.id, orderId, note);
+    return { data: order };
+  }
+}
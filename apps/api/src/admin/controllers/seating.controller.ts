@@ -0,0 +1,61 @@
+import { Body, Controller, Get, Param, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, CreateSeatMapRequest } from '@supafaya/core';
+import { AdminSeatingService } from '../services/seating.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/admin/events/:eventId/seat-map')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminSeatingController {
+  constructor(private readonly seatingService: AdminSeatingService) {}
+
+  @Get()
+  async getSeatMap(@Param('eventId') eventId: string) {
+    const seatMap = await this.seatingService.getSeatMap(eventId);
+    return { data: seatMap };
+  }
+
+  @Post()
+  async createSeatMap(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body() request: CreateSeatMapRequest,
+  ) {
+    const seatMap = await this.seatingService.createSeatMap(req.user.id, eventId, request);
+    return { data: seatMap };
+  }
+
+  @Post('block')
+  async blockSeats(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body('seatIds') seatIds: string[],
+  ) {
+    const seats = await this.seatingService.blockSeats(req.user.id, eventId, seatIds);
+    return {
+      data: seats,
+      meta: {
+        total: seats.length,
+      },
+    };
+  }
+
+  @Post('unblock')
+  async unblockSeats(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body('seatIds') seatIds: string[],
+  ) {
+    const seats = await this.seatingService.unblockSeats(req.user.id, eventId, seatIds);
+    return {
+      data: seats,
+      meta: {
+        total: seats.length,
+      },
+    };
+  }
+}
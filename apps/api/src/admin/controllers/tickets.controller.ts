@@ -0,0 +1,105 @@
+import { Body, Controller, Get, Param, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, SyncCheckInsRequest } from '@supafaya/core';
+import { AdminTicketsService } from '../services/tickets.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/admin/tickets')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminTicketsController {
+  constructor(private readonly ticketsService: AdminTicketsService) {}
+
+  @Post('check-in')
+  async checkIn(
+    @Req() req: OrganizerRequest,
+    @Body('token') token: string,
+    @Body('sessionId') sessionId?: string,
+  ) {
+    const result = await this.ticketsService.checkIn(req.user.id, token, sessionId);
+    return { data: result };
+  }
+
+  @Get('approvals/:eventId')
+  async listPendingApprovals(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const tickets = await this.ticketsService.listPendingApprovals(req.user.id, eventId);
+    return {
+      data: tickets,
+      meta: {
+        total: tickets.length,
+      },
+    };
+  }
+
+  @Post('approvals/approve')
+  async approveTickets(
+    @Req() req: OrganizerRequest,
+    @Body('ticketIds') ticketIds: string[],
+    @Body('reason') reason?: string,
+  ) {
+    const result = await this.ticketsService.approveTickets(req.user.id, ticketIds, reason);
+    return { data: result };
+  }
+
+  @Post('approvals/reject')
+  async rejectTickets(
+    @Req() req: OrganizerRequest,
+    @Body('ticketIds') ticketIds: string[],
+    @Body('reason') reason?: string,
+  ) {
+    const result = await this.ticketsService.rejectTickets(req.user.id, ticketIds, reason);
+    return { data: result };
+  }
+
+  @Get(':ticketId/history')
+  async listStatusHistory(@Req() req: OrganizerRequest, @Param('ticketId') ticketId: string) {
+    const history = await this.ticketsService.listStatusHistory(req.user.id, ticketId);
+    return {
+      data: history,
+      meta: {
+        total: history.length,
+      },
+    };
+  }
+
+  @Get('manifests/public-key')
+  getManifestPublicKey() {
+    return { data: { publicKey: this.ticketsService.getManifestPublicKey() } };
+  }
+
+  @Get('manifests/:eventId')
+  async exportManifest(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const manifest = await this.ticketsService.exportManifest(req.user.id, eventId);
+    return {
+      data: manifest,
+      meta: {
+        total: manifest.entries.length,
+        version: manifest.version,
+      },
+    };
+  }
+
+  @Post('manifests/:eventId/sync')
+  async syncCheckIns(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body() request: SyncCheckInsRequest,
+  ) {
+    const result = await this.ticketsService.syncCheckIns(req.user.id, eventId, request);
+    return { data: result };
+  }
+
+  @Get('manifests/:eventId/duplicates')
+  async listDuplicateScans(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const scans = await this.ticketsService.listDuplicateScans(req.user.id, eventId);
+    return {
+      data: scans,
+      meta: {
+        total: scans.length,
+      },
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { Body, Controller, Delete, Get, Param, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, CreateUnlockCodeRequest } from '@supafaya/core';
+import { AdminUnlockCodesService } from '../services/unlock-codes.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type OrganizerRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/admin/events/:eventId/unlock-codes')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class AdminUnlockCodesController {
+  constructor(private readonly unlockCodesService: AdminUnlockCodesService) {}
+
+  @Get()
+  async listUnlockCodes(@Req() req: OrganizerRequest, @Param('eventId') eventId: string) {
+    const unlockCodes = await this.unlockCodesService.listUnlockCodes(req.user.id, eventId);
+    return {
+      data: unlockCodes,
+      meta: {
+        total: unlockCodes.length,
+      },
+    };
+  }
+
+  @Post()
+  async createUnlockCode(
+    @Req() req: OrganizerRequest,
+    @Param('eventId') eventId: string,
+    @Body() request: CreateUnlockCodeRequest,
+  ) {
+    const unlockCode = await this.unlockCodesService.createUnlockCode(req.user.id, eventId, request);
+    return { data: unlockCode };
+  }
+
+  @Delete(':unlockCodeId')
+  async deactivateUnlockCode(@Req() req: OrganizerRequest, @Param('unlockCodeId') unlockCodeId: string) {
+    const unlockCode = await this.unlockCodesService.deactivateUnlockCode(req.user.id, unlockCodeId);
+    return { data: unlockCode };
+  }
+
+  @Get(':unlockCodeId/redemptions')
+  async listRedemptions(@Req() req: OrganizerRequest, @Param('unlockCodeId') unlockCodeId: string) {
+    const redemptions = await this.unlockCodesService.listRedemptions(req.user.id, unlockCodeId);
+    return {
+      data: redemptions,
+      meta: {
+        total: redemptions.length,
+      },
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { AddOn, CreateAddOnRequest, IAddOnService, UpdateAddOnRequest } from '@supafaya/core';
+
+@Injectable()
+export class AdminAddOnsService {
+  constructor(private readonly addOnService: IAddOnService) {}
+
+  async createAddOn(organizerId: string, eventId: string, request: CreateAddOnRequest): Promise<AddOn> {
+    return this.addOnService.createAddOn(organizerId, { ...request, eventId });
+  }
+
+  async listAddOns(eventId: string): Promise<AddOn[]> {
+    return this.addOnService.listEventAddOns(eventId);
+  }
+
+  async updateAddOn(organizerId: string, request: UpdateAddOnRequest): Promise<AddOn> {
+    return this.addOnService.updateAddOn(organizerId, request);
+  }
+}
@@ -0,0 +1,33 @@
+import { Injectable } from '@nestjs/common';
+import {
+  EventCancellation,
+  EventCancellationReport,
+  EventCancellationStatus,
+  IEventCancellationService,
+} from '@supafaya/core';
+import { EventCancellationProcessor } from '../../jobs/processors/event-cancellation.processor';
+
+@Injectable()
+export class AdminEventCancellationsService {
+  constructor(
+    private readonly cancellationService: IEventCancellationService,
+    private readonly cancellationProcessor: EventCancellationProcessor,
+  ) {}
+
+  // Calling it again for an event resumes a cascade that is still in progress
+  async cancelEvent(organizerId: string, eventId: string, reason: string): Promise<EventCancellation> {
+    const cancellation = await this.cancellationService.cancelEvent(organizerId, { eventId, reason });
+    if (cancellation.status === EventCancellationStatus.IN_PROGRESS) {
+      await this.cancellationProcessor.schedule(eventId);
+    }
+    return cancellation;
+  }
+
+  async getReport(organizerId: string, eventId: string): Promise<EventCancellationReport> {
+    return this.cancellationService.getCancellationReport(organizerId, eventId);
+  }
+
+  async retryFailedRefunds(organizerId: string, eventId: string): Promise<EventCancellationReport> {
+    return this.cancellationService.retryFailedRefunds(organizerId, eventId);
+  }
+}
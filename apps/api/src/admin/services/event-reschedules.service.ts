@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import {
+  EventReschedule,
+  IEventRescheduleService,
+  RescheduleEventRequest,
+  RescheduleResponse,
+} from '@supafaya/core';
+import { EventRescheduleProcessor } from '../../jobs/processors/event-reschedule.processor';
+
+@Injectable()
+export class AdminEventReschedulesService {
+  constructor(
+    private readonly rescheduleService: IEventRescheduleService,
+    private readonly rescheduleProcessor: EventRescheduleProcessor,
+  ) {}
+
+  async rescheduleEvent(
+    organizerId: string,
+    eventId: string,
+    request: Omit<RescheduleEventRequest, 'eventId'>,
+  ): Promise<EventReschedule> {
+    const reschedule = await this.rescheduleService.rescheduleEvent(organizerId, {
+      ...request,
+      eventId,
+      startDateTime: new Date(request.startDateTime),
+      endDateTime: new Date(request.endDateTime),
+      responseDeadline: request.responseDeadline ? new Date(request.responseDeadline) : undefined,
+    });
+    await this.rescheduleProcessor.schedule(reschedule);
+    return reschedule;
+  }
+
+  async listReschedules(organizerId: string, eventId: string): Promise<EventReschedule[]> {
+    return this.rescheduleService.listEventReschedules(organizerId, eventId);
+  }
+
+  async listResponses(organizerId: string, rescheduleId: string): Promise<RescheduleResponse[]> {
+    return this.rescheduleService.listRescheduleResponses(organizerId, rescheduleId);
+  }
+
+  async retryFailedRefunds(organizerId: string, rescheduleId: string): Promise<RescheduleResponse[]> {
+    return this.rescheduleService.retryFailedRefunds(organizerId, rescheduleId);
+  }
+}
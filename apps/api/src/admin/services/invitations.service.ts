@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AccessCode,
+  CreateAccessCodeRequest,
+  IInvitationService,
+  Invitation,
+} from '@supafaya/core';
+
+@Injectable()
+export class AdminInvitationsService {
+  constructor(private readonly invitationService: IInvitationService) {}
+
+  async inviteGuests(organizerId: string, eventId: string, emails: string[]): Promise<Invitation[]> {
+    return this.invitationService.inviteGuests(organizerId, { eventId, emails });
+  }
+
+  async listInvitations(organizerId: string, eventId: string): Promise<Invitation[]> {
+    return this.invitationService.listEventInvitations(organizerId, eventId);
+  }
+
+  async revokeInvitation(organizerId: string, invitationId: string): Promise<Invitation> {
+    return this.invitationService.revokeInvitation(organizerId, invitationId);
+  }
+
+  async createAccessCode(organizerId: string, eventId: string, request: CreateAccessCodeRequest): Promise<AccessCode> {
+    return this.invitationService.createAccessCode(organizerId, {
+      ...request,
+      eventId,
+      // Expiry arrives as an ISO string in the request body
+      expiresAt: request.expiresAt ? new Date(request.expiresAt) : undefined,
+    });
+  }
+
+  async listAccessCodes(organizerId: string, eventId: string): Promise<AccessCode[]> {
+    return this.invitationService.listEventAccessCodes(organizerId, eventId);
+  }
+
+  async revokeAccessCode(organizerId: string, accessCodeId: string): Promise<AccessCode> {
+    return this.invitationService.revokeAccessCode(organizerId, accessCodeId);
+  }
+}
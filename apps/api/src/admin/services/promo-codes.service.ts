@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import {
+  CreatePromoCodeRequest,
+  IPromoCodeService,
+  PromoCode,
+  PromoRedemption,
+  UpdatePromoCodeRequest,
+} from '@supafaya/core';
+
+@Injectable()
+export class AdminPromoCodesService {
+  constructor(private readonly promoCodeService: IPromoCodeService) {}
+
+  async createPromoCode(organizerId: string, eventId: string, request: CreatePromoCodeRequest): Promise<PromoCode> {
+    return this.promoCodeService.createPromoCode(organizerId, {
+      ...request,
+      eventId,
+      ...this.parseDates(request),
+    });
+  }
+
+  async listPromoCodes(organizerId: string, eventId: string): Promise<PromoCode[]> {
+    return this.promoCodeService.listEventPromoCodes(organizerId, eventId);
+  }
+
+  async updatePromoCode(organizerId: string, request: UpdatePromoCodeRequest): Promise<PromoCode> {
+    return this.promoCodeService.updatePromoCode(organizerId, {
+      ...request,
+      ...this.parseDates(request),
+    });
+  }
+
+  async deactivatePromoCode(organizerId: string, promoCodeId: string): Promise<PromoCode> {
+    return this.promoCodeService.deactivatePromoCode(organizerId, promoCodeId);
+  }
+
+  async listRedemptions(organizerId: string, promoCodeId: string): Promise<PromoRedemption[]> {
+    return this.promoCodeService.listPromoCodeRedemptions(organizerId, promoCodeId);
+  }
+
+  // Validity windows arrive as ISO strings in the request body
+  private parseDates(request: { validFrom?: Date | string; validUntil?: Date | string }) {
+    return {
+      validFrom: request.validFrom ? new Date(request.validFrom) : undefined,
+      validUntil: request.validUntil ? new Date(request.validUntil) : undefined,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import {
+  IRiskService,
+  ITicketService,
+  Order,
+  OrderStatus,
+  RiskPolicy,
+  RiskPolicyScope,
+  RiskReview,
+  RiskReviewStatus,
+  SaveRiskPolicyRequest,
+} from '@supafaya/core';
+import { ReservationExpiryProcessor } from '../../jobs/processors/reservation-expiry.processor';
+
+@Injectable()
+export class AdminRiskService {
+  constructor(
+    private readonly riskService: IRiskService,
+    private readonly ticketService: ITicketService,
+    private readonly reservationExpiry: ReservationExpiryProcessor,
+  ) {}
+
+  async getPolicy(organizerId: string, scope: RiskPolicyScope, scopeId: string): Promise<RiskPolicy | null> {
+    return this.riskService.getRiskPolicy(organizerId, scope, scopeId);
+  }
+
+  async savePolicy(
+    organizerId: string,
+    scope: RiskPolicyScope,
+    scopeId: string,
+    request: Omit<SaveRiskPolicyRequest, 'scope' | 'scopeId'>,
+  ): Promise<RiskPolicy> {
+    return this.riskService.saveRiskPolicy(organizerId, { ...request, scope, scopeId });
+  }
+
+  async deletePolicy(organizerId: string, scope: RiskPolicyScope, scopeId: string): Promise<void> {
+    return this.riskService.deleteRiskPolicy(organizerId, scope, scopeId);
+  }
+
+  async listReviews(organizerId: string, eventId: string, status?: RiskReviewStatus): Promise<RiskReview[]> {
+    return this.riskService.listRiskReviews(organizerId, eventId, status);
+  }
+
+  async approveReview(organizerId: string, orderId: string, note?: string): Promise<Order> {
+    const order = await this.ticketService.approveRiskReview(organizerId, orderId, note);
+    await this.rescheduleExpiry(order);
+    return order;
+  }
+
+  async rejectReview(organizerId: string, orderId: string, note?: string): Promise<Order> {
+    const order = await this.ticketService.rejectRiskReview(organizerId, orderId, note);
+    await this.rescheduleExpiry(order);
+    return order;
+  }
+
+  // Released orders get a new deadline; rejected or completed orders have nothing left to expire
+  private async rescheduleExpiry(order: Order): Promise<void> {
+    if (order.status === OrderStatus.RESERVED || order.status === OrderStatus.PENDING_PAYMENT) {
+      await this.reservationExpiry.schedule(order);
+    } else {
+      await this.reservationExpiry.unschedule(order.id);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { Injectable } from '@nestjs/common';
+import { CreateSeatMapRequest, ISeatingService, Seat, SeatMap } from '@supafaya/core';
+
+@Injectable()
+export class AdminSeatingService {
+  constructor(private readonly seatingService: ISeatingService) {}
+
+  async createSeatMap(organizerId: string, eventId: string, request: CreateSeatMapRequest): Promise<SeatMap> {
+    return this.seatingService.createSeatMap(organizerId, { ...request, eventId });
+  }
+
+  async getSeatMap(eventId: string): Promise<SeatMap> {
+    return this.seatingService.getSeatMap(eventId);
+  }
+
+  async blockSeats(organizerId: string, eventId: string, seatIds: string[]): Promise<Seat[]> {
+    return this.seatingService.blockSeats(organizerId, eventId, seatIds);
+  }
+
+  async unblockSeats(organizerId: string, eventId: string, seatIds: string[]): Promise<Seat[]> {
+    return this.seatingService.unblockSeats(organizerId, eventId, seatIds);
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable } from '@nestjs/common';
+import {
+  BulkApprovalResult,
+  CheckInManifest,
+  CheckInResult,
+  CheckInScan,
+  ICheckInService,
+  ITicketService,
+  OrderStatus,
+  SyncCheckInsRequest,
+  SyncCheckInsResult,
+  Ticket,
+  TicketStatusChange,
+} from '@supafaya/core';
+import { ReservationExpiryProcessor } from '../../jobs/processors/reservation-expiry.processor';
+
+@Injectable()
+export class AdminTicketsService {
+  constructor(
+    private readonly checkInService: ICheckInService,
+    private readonly ticketService: ITicketService,
+    private readonly reservationExpiry: ReservationExpiryProcessor,
+  ) {}
+
+  async checkIn(organizerId: string, token: string, sessionId?: string): Promise<CheckInResult> {
+    return this.checkInService.checkInWithCredential(organizerId, token, sessionId);
+  }
+
+  async exportManifest(organizerId: string, eventId: string): Promise<CheckInManifest> {
+    return this.checkInService.exportManifest(organizerId, eventId);
+  }
+
+  getManifestPublicKey(): string {
+    return this.checkInService.getManifestPublicKey();
+  }
+
+  async syncCheckIns(organizerId: string, eventId: string, request: SyncCheckInsRequest): Promise<SyncCheckInsResult> {
+    return this.checkInService.syncCheckIns(organizerId, eventId, {
+      ...request,
+      // Devices upload JSON, so scan times arrive as ISO strings
+      records: request.records.map((record) => ({
+        ...record,
+        scannedAt: new Date(record.scannedAt),
+      })),
+    });
+  }
+
+  async listPendingApprovals(organizerId: string, eventId: string): Promise<Ticket[]> {
+    return this.ticketService.listPendingApprovals(organizerId, eventId);
+  }
+
+  async listStatusHistory(organizerId: string, ticketId: string): Promise<TicketStatusChange[]> {
+    return this.ticketService.listTicketStatusHistory(organizerId, ticketId);
+  }
+
+  async approveTickets(organizerId: string, ticketIds: string[], reason?: string): Promise<BulkApprovalResult> {
+    const result = await this.ticketService.approveTickets(organizerId, ticketIds, reason);
+    await this.rescheduleExpiry(result);
+    return result;
+  }
+
+  async rejectTickets(organizerId: string, ticketIds: string[], reason?: string): Promise<BulkApprovalResult> {
+    const result = await this.ticketService.rejectTickets(organizerId, ticketIds, reason);
+    await this.rescheduleExpiry(result);
+    return result;
+  }
+
+  // Approved orders get a new deadline to pay; decided orders have nothing left to expire
+  private async rescheduleExpiry(result: BulkApprovalResult): Promise<void> {
+    for (const order of result.orders) {
+      if (order.status === OrderStatus.PENDING_PAYMENT) {
+        await this.reservationExpiry.schedule(order);
+      } else {
+        await this.reservationExpiry.unschedule(order.id);
+      }
+    }
+  }
+
+  async listDuplicateScans(organizerId: string, eventId: string): Promise<CheckInScan[]> {
+    return this.checkInService.listDuplicateScans(organizerId, eventId);
+  }
+}
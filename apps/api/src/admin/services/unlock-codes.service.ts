@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import {
+  CreateUnlockCodeRequest,
+  IPromoCodeService,
+  UnlockCode,
+  UnlockRedemption,
+} from '@supafaya/core';
+
+@Injectable()
+export class AdminUnlockCodesService {
+  constructor(private readonly promoCodeService: IPromoCodeService) {}
+
+  async createUnlockCode(organizerId: string, eventId: string, request: CreateUnlockCodeRequest): Promise<UnlockCode> {
+    return this.promoCodeService.createUnlockCode(organizerId, {
+      ...request,
+      eventId,
+      ticketTypeIds: request.ticketTypeIds ?? [],
+      // Expiry arrives as an ISO string in the request body
+      validUntil: request.validUntil ? new Date(request.validUntil) : undefined,
+    });
+  }
+
+  async listUnlockCodes(organizerId: string, eventId: string): Promise<UnlockCode[]> {
+    return this.promoCodeService.listEventUnlockCodes(organizerId, eventId);
+  }
+
+  async deactivateUnlockCode(organizerId: string, unlockCodeId: string): Promise<UnlockCode> {
+    return this.promoCodeService.deactivateUnlockCode(organizerId, unlockCodeId);
+  }
+
+  async listRedemptions(organizerId: string, unlockCodeId: string): Promise<UnlockRedemption[]> {
+    return this.promoCodeService.listUnlockCodeRedemptions(organizerId, unlockCodeId);
+  }
+}
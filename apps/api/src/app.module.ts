@@ -1,12 +1,15 @@
 import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtModule } from '@nestjs/jwt';
 import Redis from 'ioredis';
 
 import { ClientIdMiddleware } from './common/middleware/client-id.middleware';
+import { IdempotencyInterceptor } from './common/interceptors/idempotency.interceptor';
 import { PublicModule } from './public/public.module';
 import { UserModule } from './user/user.module';
 import { AdminModule } from './admin/admin.module';
+import { JobsModule } from './jobs/jobs.module';
 
 @Module({
   imports: [
@@ -40,11 +43,21 @@ import { AdminModule } from './admin/admin.module';
       inject: [ConfigService],
     },
 
+    // Background Jobs
+    JobsModule,
+
     // Route Modules
     PublicModule,
     UserModule,
     AdminModule,
   ],
+  providers: [
+    // Idempotency-Key support for mutating user and admin routes
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: IdempotencyInterceptor,
+    },
+  ],
 })
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
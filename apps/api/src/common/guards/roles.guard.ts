@@ -0,0 +1,34 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, SetMetadata } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { hasRole, RequestWithUser, UserRole } from '@supafaya/core';
+
+const ROLES_KEY = 'roles';
+
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+
+// Runs after JwtAuthGuard, which puts the user and their roles on the request
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithUser>();
+    if (!request.user || !hasRole(request.user.roles ?? [], roles)) {
+      throw new ForbiddenException({
+        error: {
+          code: 'forbidden',
+          message: `Requires one of the roles: ${roles.join(', ')}`,
+        },
+      });
+    }
+    return true;
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+
+// Enough of ioredis for the interceptor: SET with NX, GET and DEL
+class FakeRedis {
+  readonly values = new Map<string, string>();
+
+  async set(
+    key: string,
+    value: string,
+    ...args: unknown[]
+  ): Promise<'OK' | null> {
+    if (args.includes('NX') && this.values.has(key)) {
+      return null;
+    }
+    this.values.set(key, value);
+    return 'OK';
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async del(key: string): Promise<number> {
+    return this.values.delete(key) ? 1 : 0;
+  }
+}
+
+interface TestRequest {
+  method?: string;
+  path?: string;
+  body?: unknown;
+  key?: string;
+  userId?: string;
+}
+
+describe('IdempotencyInterceptor', () => {
+  let redis: FakeRedis;
+  let interceptor: IdempotencyInterceptor;
+  let headers: Record<string, string>;
+
+  const createContext = ({
+    method = 'POST',
+    path = '/api/v1/user/tickets/purchase',
+    body = { quantity: 1 },
+    key = 'key-1',
+    userId = 'user-1',
+  }: TestRequest = {}) => {
+    headers = {};
+    const req = {
+      method,
+      path,
+      originalUrl: path,
+      body,
+      user: { id: userId },
+      header: (name: string) => (name === 'Idempotency-Key' ? key : undefined),
+    };
+    const res = {
+      header: (name: string, value: string) => {
+        headers[name] = value;
+      },
+    };
+    return {
+      switchToHttp: () => ({ getRequest: () => req, getResponse: () => res }),
+    } as unknown as ExecutionContext;
+  };
+
+  const handler = (body: unknown) => {
+    const handle = jest.fn(() => of(body));
+    return { next: { handle } as CallHandler, handle };
+  };
+
+  const run = async (context: ExecutionContext, next: CallHandler) =>
+    lastValueFrom(await interceptor.intercept(context, next));
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    interceptor = new IdempotencyInterceptor(
+      redis as unknown as Redis,
+      new ConfigService(),
+    );
+  });
+
+  it('replays the stored response instead of running the handler again', async () => {
+    const first = handler({ orderId: 'order-1' });
+    const retry = handler({ orderId: 'order-2' });
+
+    expect(await run(createContext(), first.next)).toEqual({
+      orderId: 'order-1',
+    });
+    expect(headers['Idempotent-Replayed']).toBeUndefined();
+
+    expect(await run(createContext(), retry.next)).toEqual({
+      orderId: 'order-1',
+    });
+    expect(retry.handle).not.toHaveBeenCalled();
+    expect(headers['Idempotent-Replayed']).toBe('true');
+  });
+
+  it('refuses a key reused for a different request', async () => {
+    await run(createContext({ body: { quantity: 1 } }), handler({}).next);
+
+    await expect(
+      run(createContext({ body: { quantity: 2 } }), handler({}).next),
+    ).rejects.toThrow(UnprocessableEntityException);
+  });
+
+  it('refuses a retry while the first request is still running', async () => {
+    await redis.set(
+      'idempotency:user-1:key-1',
+      JSON.stringify({ state: 'processing', fingerprint: '' }),
+    );
+
+    await expect(run(createContext(), handler({}).next)).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('keeps keys apart per user', async () => {
+    await run(
+      createContext({ userId: 'user-1' }),
+      handler({ orderId: 'order-1' }).next,
+    );
+    const other = handler({ orderId: 'order-2' });
+
+    expect(await run(createContext({ userId: 'user-2' }), other.next)).toEqual({
+      orderId: 'order-2',
+    });
+    expect(other.handle).toHaveBeenCalled();
+  });
+
+  it('frees the key when the request fails', async () => {
+    const failing = {
+      handle: () => throwError(() => new Error('payment failed')),
+    } as CallHandler;
+
+    await expect(run(createContext(), failing)).rejects.toThrow(
+      'payment failed',
+    );
+    expect(redis.values.size).toBe(0);
+
+    expect(
+      await run(createContext(), handler({ orderId: 'order-1' }).next),
+    ).toEqual({ orderId: 'order-1' });
+  });
+
+  it.each<[string, TestRequest]>([
+    ['requests without a key', { key: '' }],
+    ['reads', { method: 'GET' }],
+    ['public routes', { path: '/api/v1/public/events' }],
+  ])('passes through %s', async (_reason, request) => {
+    const first = handler({});
+    const second = handler({});
+
+    await run(createContext(request), first.next);
+    await run(createContext(request), second.next);
+
+    expect(second.handle).toHaveBeenCalled();
+    expect(redis.values.size).toBe(0);
+  });
+
+  it('refuses malformed keys', async () => {
+    await expect(
+      run(createContext({ key: 'not a key!' }), handler({}).next),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
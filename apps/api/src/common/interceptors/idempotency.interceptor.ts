@@ -0,0 +1,111 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ConflictException,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { Redis } from 'ioredis';
+import { createHash } from 'crypto';
+import { Observable, catchError, from, mergeMap, of, throwError } from 'rxjs';
+import { AuthenticatedRequest } from '@supafaya/core';
+
+interface StoredResponse {
+  state: 'processing' | 'completed';
+  fingerprint: string;
+  body?: unknown;
+}
+
+/**
+ * Makes mutating user and admin routes safe to retry. The first request with an
+ * Idempotency-Key runs as usual and its response is kept for the retention window;
+ * retries get that response back instead of running the handler again.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly lockTtlMs = 60 * 1000; // Frees the key if the first request never finishes
+  private readonly mutatingMethods = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const req = http.getRequest<Request & Partial<AuthenticatedRequest>>();
+    const res = http.getResponse<Response>();
+
+    const key = req.header('Idempotency-Key');
+    const isScopedRoute = req.path.startsWith('/api/v1/user') || req.path.startsWith('/api/v1/admin');
+    if (!key || !isScopedRoute || !this.mutatingMethods.includes(req.method)) {
+      return next.handle();
+    }
+
+    if (!/^[A-Za-z0-9_-]{1,255}$/.test(key)) {
+      throw new BadRequestException({
+        error: {
+          code: 'invalid_idempotency_key',
+          message: 'Idempotency-Key must be 1-255 letters, digits, dashes or underscores',
+        },
+      });
+    }
+
+    // Keys are per user, so two users picking the same key never see each other's responses
+    const redisKey = `idempotency:${req.user?.id ?? 'anonymous'}:${key}`;
+    const fingerprint = createHash('sha256')
+      .update(`${req.method} ${req.originalUrl} ${JSON.stringify(req.body ?? {})}`)
+      .digest('hex');
+
+    const processing: StoredResponse = { state: 'processing', fingerprint };
+    const acquired = await this.redis.set(redisKey, JSON.stringify(processing), 'PX', this.lockTtlMs, 'NX');
+    if (!acquired) {
+      return of(await this.replay(redisKey, fingerprint, res));
+    }
+
+    return next.handle().pipe(
+      mergeMap(async body => {
+        const completed: StoredResponse = { state: 'completed', fingerprint, body };
+        await this.redis.set(redisKey, JSON.stringify(completed), 'EX', this.getRetentionSeconds());
+        return body;
+      }),
+      // Failed requests are not kept, so the client can retry them with the same key
+      catchError(error => from(this.redis.del(redisKey)).pipe(
+        mergeMap(() => throwError(() => error)),
+      )),
+    );
+  }
+
+  private async replay(redisKey: string, fingerprint: string, res: Response): Promise<unknown> {
+    const raw = await this.redis.get(redisKey);
+    const stored: StoredResponse | null = raw ? JSON.parse(raw) : null;
+
+    if (!stored || stored.state === 'processing') {
+      throw new ConflictException({
+        error: {
+          code: 'idempotency_request_in_progress',
+          message: 'A request with this Idempotency-Key is still being processed',
+        },
+      });
+    }
+    if (stored.fingerprint !== fingerprint) {
+      throw new UnprocessableEntityException({
+        error: {
+          code: 'idempotency_key_reused',
+          message: 'Idempotency-Key was already used for a different request',
+        },
+      });
+    }
+
+    res.header('Idempotent-Replayed', 'true');
+    return stored.body;
+  }
+
+  private getRetentionSeconds(): number {
+    return Number(this.configService.get<number>('IDEMPOTENCY_RETENTION_SECONDS', 24 * 60 * 60));
+  }
+}
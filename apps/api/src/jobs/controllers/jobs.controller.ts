@@ -0,0 +1,25 @@
+import { Controller, Get, Param, UseFilters, UseGuards } from '@nestjs/common';
+import { UserRole } from '@supafaya/core';
+import { JobMetricsService } from '../job-metrics.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { Roles, RolesGuard } from '../../common/guards/roles.guard';
+
+@Controller('api/v1/admin/jobs')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.OPERATOR)
+export class JobsController {
+  constructor(private readonly metrics: JobMetricsService) {}
+
+  @Get(':queue/metrics')
+  async getMetrics(@Param('queue') queue: string) {
+    const metrics = await this.metrics.getMetrics(queue);
+    return {
+      data: metrics,
+      meta: {
+        queue,
+      },
+    };
+  }
+}
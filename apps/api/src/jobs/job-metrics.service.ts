@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import { Redis } from 'ioredis';
+
+/**
+ * Per-queue counters kept in a Redis hash so every API instance reports into the same totals.
+ */
+@Injectable()
+export class JobMetricsService {
+  private getMetricsKey(queue: string) { return `metrics:jobs:${queue}`; }
+
+  constructor(private readonly redis: Redis) {}
+
+  async increment(queue: string, metric: string, by: number = 1): Promise<void> {
+    if (by === 0) return;
+    await this.redis.hincrby(this.getMetricsKey(queue), metric, by);
+  }
+
+  async getMetrics(queue: string): Promise<Record<string, number>> {
+    const raw = await this.redis.hgetall(this.getMetricsKey(queue));
+    return Object.fromEntries(
+      Object.entries(raw).map(([metric, value]) => [metric, parseInt(value, 10)]),
+    );
+  }
+}
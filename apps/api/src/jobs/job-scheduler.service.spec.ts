@@ -0,0 +1,270 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+import { JobMetricsService } from './job-metrics.service';
+import { JobSchedulerService } from './job-scheduler.service';
+
+// Enough of ioredis for the scheduler and its metrics: sorted sets and hashes
+class FakeRedis {
+  readonly sortedSets = new Map<string, Map<string, number>>();
+  readonly hashes = new Map<string, Map<string, number>>();
+
+  private sortedSet(key: string) {
+    if (!this.sortedSets.has(key)) this.sortedSets.set(key, new Map());
+    return this.sortedSets.get(key)!;
+  }
+
+  private hash(key: string) {
+    if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+    return this.hashes.get(key)!;
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<number> {
+    const added = this.sortedSet(key).has(member) ? 0 : 1;
+    this.sortedSet(key).set(member, score);
+    return added;
+  }
+
+  async zrem(key: string, member: string): Promise<number> {
+    return this.sortedSet(key).delete(member) ? 1 : 0;
+  }
+
+  async zrangebyscore(
+    key: string,
+    min: number,
+    max: number,
+    _limit: 'LIMIT',
+    offset: number,
+    count: number,
+  ): Promise<string[]> {
+    return [...this.sortedSet(key)]
+      .filter(([, score]) => score >= min && score <= max)
+      .sort(([, a], [, b]) => a - b)
+      .slice(offset, offset + count)
+      .map(([member]) => member);
+  }
+
+  async hincrby(key: string, field: string, by: number): Promise<number> {
+    const value = (this.hash(key).get(field) ?? 0) + by;
+    this.hash(key).set(field, value);
+    return value;
+  }
+
+  async hdel(key: string, field: string): Promise<number> {
+    return this.hash(key).delete(field) ? 1 : 0;
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(
+      [...this.hash(key)].map(([field, value]) => [field, String(value)]),
+    );
+  }
+}
+
+describe('JobSchedulerService', () => {
+  const now = new Date('2026-11-03T10:00:00Z');
+
+  let redis: FakeRedis;
+  let metrics: JobMetricsService;
+  let scheduler: JobSchedulerService;
+
+  const createScheduler = () =>
+    new JobSchedulerService(
+      redis as unknown as Redis,
+      new ConfigService({ JOBS_POLL_INTERVAL_MS: 1000 }),
+      metrics,
+    );
+
+  const scheduled = (queue: string) =>
+    Object.fromEntries(redis.sortedSets.get(`jobs:${queue}:scheduled`) ?? []);
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+    redis = new FakeRedis();
+    metrics = new JobMetricsService(redis as unknown as Redis);
+    scheduler = createScheduler();
+    scheduler.onModuleInit();
+  });
+
+  afterEach(() => {
+    scheduler.onModuleDestroy();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('runs a job once it is due and takes it off the queue', async () => {
+    const handler = jest.fn(async () => undefined);
+    scheduler.registerHandler('expiry', handler);
+    await scheduler.schedule(
+      'expiry',
+      'order-1',
+      new Date(now.getTime() + 5000),
+    );
+
+    await jest.advanceTimersByTimeAsync(4000);
+    expect(handler).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(handler).toHaveBeenCalledWith('order-1');
+    expect(scheduled('expiry')).toEqual({});
+    expect(await metrics.getMetrics('expiry')).toEqual({
+      scheduled: 1,
+      completed: 1,
+    });
+  });
+
+  it('runs a job on one instance only, the one whose ZREM claims it', async () => {
+    const other = createScheduler();
+    other.onModuleInit();
+    const handler = jest.fn(async () => undefined);
+    scheduler.registerHandler('expiry', handler);
+    other.registerHandler('expiry', handler);
+    await scheduler.schedule('expiry', 'order-1', now);
+
+    await jest.advanceTimersByTimeAsync(3000);
+    other.onModuleDestroy();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips jobs another instance claimed after they were listed', async () => {
+    const handler = jest.fn(async () => undefined);
+    scheduler.registerHandler('expiry', handler);
+    await scheduler.schedule('expiry', 'order-1', now);
+    const zrangebyscore = redis.zrangebyscore.bind(redis);
+    jest
+      .spyOn(redis, 'zrangebyscore')
+      .mockImplementationOnce(async (...args) => {
+        const jobs = await zrangebyscore(...args);
+        await redis.zrem('jobs:expiry:scheduled', 'order-1');
+        return jobs;
+      });
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed job with a growing delay', async () => {
+    const handler = jest.fn(async () => {
+      throw new Error('provider down');
+    });
+    scheduler.registerHandler('expiry', handler);
+    await scheduler.schedule('expiry', 'order-1', now);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(scheduled('expiry')).toEqual({ 'order-1': now.getTime() + 31000 });
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(scheduled('expiry')).toEqual({ 'order-1': now.getTime() + 91000 });
+    expect(redis.hashes.get('jobs:expiry:attempts')?.get('order-1')).toBe(2);
+  });
+
+  it('drops a job after five failed attempts', async () => {
+    const handler = jest.fn(async () => {
+      throw new Error('provider down');
+    });
+    scheduler.registerHandler('expiry', handler);
+    await scheduler.schedule('expiry', 'order-1', now);
+
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    expect(handler).toHaveBeenCalledTimes(5);
+    expect(scheduled('expiry')).toEqual({});
+    expect(redis.hashes.get('jobs:expiry:attempts')?.has('order-1')).toBe(
+      false,
+    );
+    expect(await metrics.getMetrics('expiry')).toMatchObject({
+      failed: 5,
+      dropped: 1,
+    });
+  });
+
+  it('forgets earlier failures once a retry succeeds', async () => {
+    const handler = jest
+      .fn(async () => undefined)
+      .mockRejectedValueOnce(new Error('provider down'));
+    scheduler.registerHandler('expiry', handler);
+    await scheduler.schedule('expiry', 'order-1', now);
+
+    await jest.advanceTimersByTimeAsync(31000);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(redis.hashes.get('jobs:expiry:attempts')?.has('order-1')).toBe(
+      false,
+    );
+    expect(await metrics.getMetrics('expiry')).toMatchObject({
+      failed: 1,
+      completed: 1,
+    });
+  });
+
+  it('does not hold up other queues while a handler is busy', async () => {
+    let finish: () => void = () => undefined;
+    const slow = jest.fn(
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    );
+    const fast = jest.fn(async () => undefined);
+    scheduler.registerHandler('cancellations', slow);
+    scheduler.registerHandler('expiry', fast);
+    await scheduler.schedule('cancellations', 'event-1', now);
+    await scheduler.schedule('cancellations', 'event-2', now);
+    await scheduler.schedule('expiry', 'order-1', now);
+
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(slow).toHaveBeenCalledTimes(1);
+    expect(fast).toHaveBeenCalledWith('order-1');
+
+    finish();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(slow).toHaveBeenCalledWith('event-2');
+  });
+
+  it('only counts cancelled jobs that were still scheduled', async () => {
+    await scheduler.schedule('expiry', 'order-1', now);
+
+    await scheduler.cancel('expiry', 'order-1');
+    await scheduler.cancel('expiry', 'order-1');
+
+    expect(scheduled('expiry')).toEqual({});
+    expect(await metrics.getMetrics('expiry')).toEqual({
+      scheduled: 1,
+      unscheduled: 1,
+    });
+  });
+
+  describe('sweeps', () => {
+    it('run on their interval until the module is destroyed', async () => {
+      const sweep = jest.fn(async () => undefined);
+      scheduler.registerSweep('cancellations', 60000, sweep);
+
+      await jest.advanceTimersByTimeAsync(180000);
+      expect(sweep).toHaveBeenCalledTimes(3);
+
+      scheduler.onModuleDestroy();
+      await jest.advanceTimersByTimeAsync(180000);
+      expect(sweep).toHaveBeenCalledTimes(3);
+      expect(await metrics.getMetrics('cancellations')).toEqual({ sweeps: 3 });
+    });
+
+    it('count failures and keep running', async () => {
+      const sweep = jest
+        .fn(async () => undefined)
+        .mockRejectedValueOnce(new Error('firestore unavailable'));
+      scheduler.registerSweep('cancellations', 60000, sweep);
+
+      await jest.advanceTimersByTimeAsync(120000);
+
+      expect(sweep).toHaveBeenCalledTimes(2);
+      expect(await metrics.getMetrics('cancellations')).toEqual({
+        sweep_failures: 1,
+        sweeps: 1,
+      });
+    });
+  });
+});
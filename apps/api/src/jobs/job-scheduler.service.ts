@@ -0,0 +1,135 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Redis } from 'ioredis';
+import { JobMetricsService } from './job-metrics.service';
+
+export type JobHandler = (jobId: string) => Promise<void>;
+
+/**
+ * Delayed job queues stored as Redis sorted sets scored by their due time.
+ * Every instance polls the queues, and a job is only run by the instance whose
+ * ZREM claims it, so a job runs once even with several API instances. Each queue
+ * is polled on its own, so a slow handler only holds up its own queue.
+ */
+@Injectable()
+export class JobSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobSchedulerService.name);
+  private readonly handlers = new Map<string, JobHandler>();
+  private readonly maxAttempts = 5;
+  private readonly retryDelayMs = 30 * 1000;
+  private timer?: NodeJS.Timeout;
+  private readonly sweepTimers: NodeJS.Timeout[] = [];
+  private readonly busyQueues = new Set<string>();
+
+  private getQueueKey(queue: string) { return `jobs:${queue}:scheduled`; }
+  private getAttemptsKey(queue: string) { return `jobs:${queue}:attempts`; }
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly configService: ConfigService,
+    private readonly metrics: JobMetricsService,
+  ) {}
+
+  onModuleInit() {
+    const interval = this.configService.get<number>('JOBS_POLL_INTERVAL_MS', 1000);
+    this.timer = setInterval(() => this.poll(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.sweepTimers.forEach(timer => clearInterval(timer));
+  }
+
+  registerHandler(queue: string, handler: JobHandler) {
+    this.handlers.set(queue, handler);
+  }
+
+  /**
+   * Run `sweep` every `intervalMs` as a safety net for jobs that were never scheduled or
+   * whose next run was lost. Failures are counted and logged, never thrown.
+   */
+  registerSweep(queue: string, intervalMs: number, sweep: () => Promise<void>) {
+    this.sweepTimers.push(setInterval(() => this.runSweep(queue, sweep), intervalMs));
+  }
+
+  private async runSweep(queue: string, sweep: () => Promise<void>) {
+    try {
+      await sweep();
+      await this.metrics.increment(queue, 'sweeps');
+    } catch (error) {
+      await this.metrics.increment(queue, 'sweep_failures');
+      this.logger.error(`Sweep of ${queue} failed`, error instanceof Error ? error.stack : error);
+    }
+  }
+
+  async schedule(queue: string, jobId: string, runAt: Date): Promise<void> {
+    await this.redis.zadd(this.getQueueKey(queue), runAt.getTime(), jobId);
+    await this.metrics.increment(queue, 'scheduled');
+  }
+
+  async cancel(queue: string, jobId: string): Promise<void> {
+    const removed = await this.redis.zrem(this.getQueueKey(queue), jobId);
+    if (removed) {
+      await this.metrics.increment(queue, 'unscheduled');
+    }
+  }
+
+  private poll() {
+    for (const [queue, handler] of this.handlers) {
+      void this.pollQueue(queue, handler);
+    }
+  }
+
+  private async pollQueue(queue: string, handler: JobHandler) {
+    // Skip a tick instead of overlapping when the queue's previous run is still busy
+    if (this.busyQueues.has(queue)) return;
+    this.busyQueues.add(queue);
+
+    try {
+      await this.runDueJobs(queue, handler);
+    } catch (error) {
+      this.logger.error(`Job polling failed for ${queue}`, error instanceof Error ? error.stack : error);
+    } finally {
+      this.busyQueues.delete(queue);
+    }
+  }
+
+  private async runDueJobs(queue: string, handler: JobHandler) {
+    const queueKey = this.getQueueKey(queue);
+    const dueJobs = await this.redis.zrangebyscore(queueKey, 0, Date.now(), 'LIMIT', 0, 100);
+
+    for (const jobId of dueJobs) {
+      // Claim the job; another instance may already have taken it
+      const claimed = await this.redis.zrem(queueKey, jobId);
+      if (!claimed) continue;
+
+      try {
+        await handler(jobId);
+        await this.redis.hdel(this.getAttemptsKey(queue), jobId);
+        await this.metrics.increment(queue, 'completed');
+      } catch (error) {
+        await this.handleFailure(queue, jobId, error);
+      }
+    }
+  }
+
+  private async handleFailure(queue: string, jobId: string, error: unknown) {
+    const attempts = await this.redis.hincrby(this.getAttemptsKey(queue), jobId, 1);
+    await this.metrics.increment(queue, 'failed');
+
+    if (attempts >= this.maxAttempts) {
+      await this.redis.hdel(this.getAttemptsKey(queue), jobId);
+      await this.metrics.increment(queue, 'dropped');
+      this.logger.error(
+        `Job ${queue}:${jobId} dropped after ${attempts} attempts`,
+        error instanceof Error ? error.stack : error,
+      );
+      return;
+    }
+
+    this.logger.warn(`Job ${queue}:${jobId} failed (attempt ${attempts}), retrying`);
+    await this.redis.zadd(this.getQueueKey(queue), Date.now() + this.retryDelayMs * attempts, jobId);
+  }
+}
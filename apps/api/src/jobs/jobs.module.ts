@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { JobsController } from './controllers/jobs.controller';
+import { JobSchedulerService } from './job-scheduler.service';
+import { JobMetricsService } from './job-metrics.service';
+import { ReservationExpiryProcessor } from './processors/reservation-expiry.processor';
+import { EventCancellationProcessor } from './processors/event-cancellation.processor';
+import { EventRescheduleProcessor } from './processors/event-reschedule.processor';
+
+@Module({
+  controllers: [JobsController],
+  providers: [
+    JobSchedulerService,
+    JobMetricsService,
+    ReservationExpiryProcessor,
+    EventCancellationProcessor,
+    EventRescheduleProcessor,
+  ],
+  exports: [
+    JobSchedulerService,
+    ReservationExpiryProcessor,
+    EventCancellationProcessor,
+    EventRescheduleProcessor,
+  ],
+})
+export class JobsModule {}
@@ -0,0 +1,56 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EventCancellationStatus, IEventCancellationService } from '@supafaya/core';
+import { JobSchedulerService } from '../job-scheduler.service';
+import { JobMetricsService } from '../job-metrics.service';
+
+export const EVENT_CANCELLATION_QUEUE = 'event-cancellation';
+
+@Injectable()
+export class EventCancellationProcessor implements OnModuleInit {
+  private readonly logger = new Logger(EventCancellationProcessor.name);
+  private readonly sweepIntervalMs = 10 * 60 * 1000; // Picks up cascades whose next batch was lost
+
+  constructor(
+    private readonly cancellationService: IEventCancellationService,
+    private readonly scheduler: JobSchedulerService,
+    private readonly metrics: JobMetricsService,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.registerHandler(EVENT_CANCELLATION_QUEUE, (eventId) => this.process(eventId));
+    this.scheduler.registerSweep(EVENT_CANCELLATION_QUEUE, this.sweepIntervalMs, () => this.sweep());
+  }
+
+  async schedule(eventId: string): Promise<void> {
+    await this.scheduler.schedule(EVENT_CANCELLATION_QUEUE, eventId, new Date());
+  }
+
+  // One batch per run, so other queues keep moving while a large event is cancelled
+  private async process(eventId: string): Promise<void> {
+    const cancellation = await this.cancellationService.processCancellation(eventId);
+    await this.metrics.increment(EVENT_CANCELLATION_QUEUE, 'batches');
+
+    if (cancellation.status === EventCancellationStatus.IN_PROGRESS) {
+      await this.schedule(eventId);
+      return;
+    }
+
+    await this.metrics.increment(EVENT_CANCELLATION_QUEUE, 'completed');
+    await this.metrics.increment(EVENT_CANCELLATION_QUEUE, 'refunds_issued', cancellation.stats.refundsIssued);
+    if (cancellation.stats.refundsFailed > 0) {
+      await this.metrics.increment(EVENT_CANCELLATION_QUEUE, 'refunds_failed', cancellation.stats.refundsFailed);
+      this.logger.warn(`Cancelled event ${eventId} with ${cancellation.stats.refundsFailed} failed refunds`);
+    } else {
+      this.logger.log(`Cancelled event ${eventId}`);
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    // Cascades that made progress recently still have their next batch queued
+    const active = await this.cancellationService.listActiveCancellations();
+    const stalled = active.filter(cancellation => cancellation.updatedAt.getTime() < Date.now() - this.sweepIntervalMs);
+    for (const cancellation of stalled) {
+      await this.schedule(cancellation.eventId);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { EventReschedule, EventRescheduleStatus, IEventRescheduleService } from '@supafaya/core';
+import { JobSchedulerService } from '../job-scheduler.service';
+import { JobMetricsService } from '../job-metrics.service';
+
+export const EVENT_RESCHEDULE_QUEUE = 'event-reschedule';
+
+@Injectable()
+export class EventRescheduleProcessor implements OnModuleInit {
+  private readonly logger = new Logger(EventRescheduleProcessor.name);
+  private readonly sweepIntervalMs = 10 * 60 * 1000; // Picks up reschedules whose next run was lost
+
+  constructor(
+    private readonly rescheduleService: IEventRescheduleService,
+    private readonly scheduler: JobSchedulerService,
+    private readonly metrics: JobMetricsService,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.registerHandler(EVENT_RESCHEDULE_QUEUE, (rescheduleId) => this.process(rescheduleId));
+    this.scheduler.registerSweep(EVENT_RESCHEDULE_QUEUE, this.sweepIntervalMs, () => this.sweep());
+  }
+
+  // Batches run back to back; an open reschedule waits for its response deadline
+  async schedule(reschedule: EventReschedule): Promise<void> {
+    const runAt = reschedule.status === EventRescheduleStatus.OPEN ? reschedule.responseDeadline : new Date();
+    await this.scheduler.schedule(EVENT_RESCHEDULE_QUEUE, reschedule.id, runAt);
+  }
+
+  private async process(rescheduleId: string): Promise<void> {
+    const reschedule = await this.rescheduleService.processReschedule(rescheduleId);
+    await this.metrics.increment(EVENT_RESCHEDULE_QUEUE, 'batches');
+
+    if (reschedule.status !== EventRescheduleStatus.CLOSED) {
+      await this.schedule(reschedule);
+      return;
+    }
+
+    await this.metrics.increment(EVENT_RESCHEDULE_QUEUE, 'closed');
+    await this.metrics.increment(EVENT_RESCHEDULE_QUEUE, 'refunds_issued', reschedule.stats.refunded);
+    if (reschedule.stats.refundsFailed > 0) {
+      await this.metrics.increment(EVENT_RESCHEDULE_QUEUE, 'refunds_failed', reschedule.stats.refundsFailed);
+      this.logger.warn(`Closed reschedule ${rescheduleId} with ${reschedule.stats.refundsFailed} failed refunds`);
+    } else {
+      this.logger.log(`Closed reschedule ${rescheduleId}`);
+    }
+  }
+
+  private async sweep(): Promise<void> {
+    // Batches that made progress recently still have their next run queued
+    const active = await this.rescheduleService.listActiveReschedules();
+    const stalled = active.filter(reschedule => reschedule.status === EventRescheduleStatus.OPEN
+      || reschedule.updatedAt.getTime() < Date.now() - this.sweepIntervalMs);
+    for (const reschedule of stalled) {
+      await this.schedule(reschedule);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ITicketService, Order, PaymentStatus } from '@supafaya/core';
+import { JobSchedulerService } from '../job-scheduler.service';
+import { JobMetricsService } from '../job-metrics.service';
+
+export const RESERVATION_EXPIRY_QUEUE = 'reservation-expiry';
+
+@Injectable()
+export class ReservationExpiryProcessor implements OnModuleInit {
+  private readonly logger = new Logger(ReservationExpiryProcessor.name);
+  private readonly sweepIntervalMs = 5 * 60 * 1000; // Safety net for orders that were never scheduled
+
+  constructor(
+    private readonly ticketService: ITicketService,
+    private readonly scheduler: JobSchedulerService,
+    private readonly metrics: JobMetricsService,
+  ) {}
+
+  onModuleInit() {
+    this.scheduler.registerHandler(RESERVATION_EXPIRY_QUEUE, (orderId) => this.expire(orderId));
+    this.scheduler.registerSweep(RESERVATION_EXPIRY_QUEUE, this.sweepIntervalMs, () =>
+      this.ticketService.cleanupExpiredReservations(),
+    );
+  }
+
+  async schedule(order: Order): Promise<void> {
+    await this.scheduler.schedule(RESERVATION_EXPIRY_QUEUE, order.id, order.expiresAt);
+  }
+
+  async unschedule(orderId: string): Promise<void> {
+    await this.scheduler.cancel(RESERVATION_EXPIRY_QUEUE, orderId);
+  }
+
+  private async expire(orderId: string): Promise<void> {
+    const expired = await this.ticketService.expireOrder(orderId);
+
+    if (!expired) {
+      // Paid, cancelled or already expired by someone else
+      await this.metrics.increment(RESERVATION_EXPIRY_QUEUE, 'skipped');
+      return;
+    }
+
+    const releasedTickets = expired.items.reduce((sum, item) => sum + item.quantity, 0);
+    await this.metrics.increment(RESERVATION_EXPIRY_QUEUE, 'expired');
+    await this.metrics.increment(RESERVATION_EXPIRY_QUEUE, 'tickets_released', releasedTickets);
+
+    if (expired.paymentStatus === PaymentStatus.CANCELLED) {
+      await this.metrics.increment(RESERVATION_EXPIRY_QUEUE, 'payments_cancelled');
+    }
+
+    this.logger.log(`Expired order ${orderId} and released ${releasedTickets} tickets`);
+  }
+}
@@ -1,4 +1,4 @@
-import { Controller, Get, Query, UseFilters } from '@nestjs/common';
+import { Controller, Get, Param, Query, UseFilters } from '@nestjs/common';
 import { PublicEventsService } from '../services/events.service';
 import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
 import { EventSearchParams } from '@supafaya/core';
@@ -30,4 +30,37 @@ export class PublicEventsController {
       },
     };
   }
-} 
\ No newline at end of file
+
+  @Get(':eventId/sessions')
+  async listEventSessions(@Param('eventId') eventId: string) {
+    const sessions = await this.eventsService.listEventSessions(eventId);
+    return {
+      data: sessions,
+      meta: {
+        total: sessions.length,
+      },
+    };
+  }
+
+  @Get(':eventId/add-ons')
+  async listEventAddOns(@Param('eventId') eventId: string) {
+    const addOns = await this.eventsService.listEventAddOns(eventId);
+    return {
+      data: addOns,
+      meta: {
+        total: addOns.length,
+      },
+    };
+  }
+
+  @Get(':eventId/seats')
+  async getSeatAvailability(@Param('eventId') eventId: string) {
+    const availability = await this.eventsService.getSeatAvailability(eventId);
+    return {
+      data: availability,
+      meta: {
+        total: availability.seats.length,
+      },
+    };
+  }
+}
\ No newline at end of file
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { PublicEventsController } from './controllers/events.controller';
 import { PublicEventsService } from './services/events.service';
+import { SearchIndexService } from './services/search-index.service';
 
 @Module({
   controllers: [PublicEventsController],
-  providers: [PublicEventsService],
+  providers: [PublicEventsService, SearchIndexService],
 })
 export class PublicModule {} 
\ No newline at end of file
@@ -1,15 +1,54 @@
 import { Injectable } from '@nestjs/common';
-import { IEventService, Event, EventSearchParams } from '@supafaya/core';
+import {
+  IAddOnService,
+  IEventService,
+  ISeatingService,
+  AddOn,
+  Event,
+  EventLocationType,
+  EventSearchParams,
+  EventSearchResult,
+  EventSession,
+  SeatAvailability,
+} from '@supafaya/core';
 
 @Injectable()
 export class PublicEventsService {
-  constructor(private readonly eventService: IEventService) {}
+  constructor(
+    private readonly eventService: IEventService,
+    private readonly seatingService: ISeatingService,
+    private readonly addOnService: IAddOnService,
+  ) {}
 
   async listEvents(params?: EventSearchParams): Promise<Event[]> {
-    return this.eventService.listEvents(params);
+    const events = await this.eventService.listEvents(params);
+    return events.map((event) => this.hideJoinUrl(event));
   }
 
-  async searchEvents(query: string, params?: EventSearchParams): Promise<Event[]> {
-    return this.eventService.searchEvents(query, params);
+  async searchEvents(query: string, params?: EventSearchParams): Promise<EventSearchResult[]> {
+    const results = await this.eventService.searchEvents(query, params);
+    return results.map((result) => ({ ...result, event: this.hideJoinUrl(result.event) }));
   }
-} 
\ No newline at end of file
+
+  // Join links of online events are for ticket holders, so listings leave them out
+  private hideJoinUrl(event: Event): Event {
+    if (event.location.type !== EventLocationType.VIRTUAL) {
+      return event;
+    }
+    const { joinUrl, ...location } = event.location;
+    return { ...event, location: location as Event['location'] };
+  }
+
+  async listEventSessions(eventId: string): Promise<EventSession[]> {
+    return this.eventService.listEventSessions(eventId);
+  }
+
+  async listEventAddOns(eventId: string): Promise<AddOn[]> {
+    const addOns = await this.addOnService.listEventAddOns(eventId);
+    return addOns.filter((addOn) => addOn.isActive);
+  }
+
+  async getSeatAvailability(eventId: string): Promise<SeatAvailability> {
+    return this.seatingService.getSeatAvailability(eventId);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IEventService } from '@supafaya/core';
+
+/**
+ * Every instance keeps its own search index, which starts empty and only sees the event
+ * changes made through it. Build it when the app starts and refresh it periodically so
+ * instances pick up each other's changes.
+ */
+@Injectable()
+export class SearchIndexService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SearchIndexService.name);
+  private refreshTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly eventService: IEventService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async onApplicationBootstrap() {
+    await this.refresh();
+    const interval = this.configService.get<number>('SEARCH_INDEX_REFRESH_MS', 10 * 60 * 1000);
+    this.refreshTimer = setInterval(() => this.refresh(), interval);
+  }
+
+  onModuleDestroy() {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const indexed = await this.eventService.rebuildSearchIndex();
+      this.logger.log(`Indexed ${indexed} events for search`);
+    } catch (error) {
+      this.logger.error('Search index rebuild failed', error instanceof Error ? error.stack : error);
+    }
+  }
+}
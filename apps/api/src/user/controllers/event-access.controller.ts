@@ -0,0 +1,45 @@
+import { Body, Controller, Get, Param, Post, Query, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest } from '@supafaya/core';
+import { UserEventAccessService } from '../services/event-access.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type UserRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/user/events/:eventId')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class UserEventAccessController {
+  constructor(private readonly eventAccessService: UserEventAccessService) {}
+
+  @Post('access-codes')
+  async redeemAccessCode(
+    @Req() req: UserRequest,
+    @Param('eventId') eventId: string,
+    @Body('code') code: string,
+  ) {
+    const grant = await this.eventAccessService.redeemAccessCode(req.user.id, eventId, code ?? '');
+    return { data: grant };
+  }
+
+  // Private events only list ticket types to invited guests and code holders, and
+  // hidden ticket types only show up with an unlock code
+  @Get('ticket-types')
+  async listTicketTypes(
+    @Req() req: UserRequest,
+    @Param('eventId') eventId: string,
+    @Query('unlockCode') unlockCode?: string,
+  ) {
+    const ticketTypes = await this.eventAccessService.listTicketTypes(eventId, {
+      userId: req.user.id,
+      email: req.user.email,
+    }, unlockCode);
+    return {
+      data: ticketTypes,
+      meta: {
+        total: ticketTypes.length,
+      },
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Controller, Get, Param, Post, Query, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest } from '@supafaya/core';
+import { UserNotificationsService } from '../services/notifications.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type UserRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/user/notifications')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class UserNotificationsController {
+  constructor(private readonly notificationsService: UserNotificationsService) {}
+
+  @Get()
+  async listNotifications(@Req() req: UserRequest, @Query('unread') unread?: string) {
+    const notifications = await this.notificationsService.listNotifications(req.user.id, unread === 'true');
+    return {
+      data: notifications,
+      meta: {
+        total: notifications.length,
+      },
+    };
+  }
+
+  @Post(':notificationId/read')
+  async markRead(@Req() req: UserRequest, @Param('notificationId') notificationId: string) {
+    const notification = await this.notificationsService.markRead(req.user.id, notificationId);
+    return { data: notification };
+  }
+}
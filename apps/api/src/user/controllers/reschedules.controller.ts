@@ -0,0 +1,52 @@
+import { BadRequestException, Body, Controller, Get, Param, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest, RescheduleOption } from '@supafaya/core';
+import { UserReschedulesService } from '../services/reschedules.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type UserRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/user/reschedules/:rescheduleId')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class UserReschedulesController {
+  constructor(private readonly reschedulesService: UserReschedulesService) {}
+
+  @Get()
+  async getReschedule(@Param('rescheduleId') rescheduleId: string) {
+    const reschedule = await this.reschedulesService.getReschedule(rescheduleId);
+    return { data: reschedule };
+  }
+
+  // Null until the buyer answers or the deadline applies the default
+  @Get('orders/:orderId')
+  async getResponse(
+    @Req() req: UserRequest,
+    @Param('rescheduleId') rescheduleId: string,
+    @Param('orderId') orderId: string,
+  ) {
+    const response = await this.reschedulesService.getResponse(req.user.id, rescheduleId, orderId);
+    return { data: response };
+  }
+
+  @Post('orders/:orderId')
+  async respond(
+    @Req() req: UserRequest,
+    @Param('rescheduleId') rescheduleId: string,
+    @Param('orderId') orderId: string,
+    @Body('option') option: RescheduleOption,
+  ) {
+    if (!Object.values(RescheduleOption).includes(option)) {
+      throw new BadRequestException({
+        error: {
+          code: 'invalid_option',
+          message: `Option must be one of ${Object.values(RescheduleOption).join(', ')}`,
+        },
+      });
+    }
+
+    const response = await this.reschedulesService.respond(req.user.id, rescheduleId, orderId, option);
+    return { data: response };
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Req,
+  StreamableFile,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { AddOnSelection, AuthenticatedRequest, PurchaseTicketRequest, ReserveTicketRequest } from '@supafaya/core';
+import { UserTicketsService } from '../services/tickets.service';
+import { UserTicketDocumentsService } from '../services/ticket-documents.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type UserRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/user/tickets')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class UserTicketsController {
+  constructor(
+    private readonly ticketsService: UserTicketsService,
+    private readonly documentsService: UserTicketDocumentsService,
+  ) {}
+
+  @Get()
+  async listTickets(@Req() req: UserRequest) {
+    const tickets = await this.ticketsService.listTickets(req.user.id);
+    return {
+      data: tickets,
+      meta: {
+        total: tickets.length,
+      },
+    };
+  }
+
+  @Get('orders')
+  async listOrders(@Req() req: UserRequest) {
+    const orders = await this.ticketsService.listOrders(req.user.id);
+    return {
+      data: orders,
+      meta: {
+        total: orders.length,
+      },
+    };
+  }
+
+  @Get('orders/:orderId/receipt')
+  async downloadReceipt(@Req() req: UserRequest, @Param('orderId') orderId: string) {
+    const pdf = await this.documentsService.renderReceipt(req.user.id, orderId);
+    if (!pdf) {
+      throw new NotFoundException({
+        error: {
+          code: 'receipt_not_available',
+          message: 'Order has no receipt until it is paid',
+        },
+      });
+    }
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="receipt-${orderId}.pdf"`,
+    });
+  }
+
+  @Get('transfers/incoming')
+  async listIncomingTransfers(@Req() req: UserRequest) {
+    const transfers = await this.ticketsService.listIncomingTransfers(req.user.email);
+    return {
+      data: transfers,
+      meta: {
+        total: transfers.length,
+      },
+    };
+  }
+
+  @Get(':ticketId/qr')
+  async getQrPayload(@Req() req: UserRequest, @Param('ticketId') ticketId: string) {
+    const payload = await this.ticketsService.getQrPayload(req.user.id, ticketId);
+    if (!payload) {
+      throw new NotFoundException({
+        error: {
+          code: 'credential_not_issued',
+          message: 'Ticket has no credential until it is purchased',
+        },
+      });
+    }
+    return { data: { ticketId, payload } };
+  }
+
+  @Get(':ticketId/pdf')
+  async downloadTicket(@Req() req: UserRequest, @Param('ticketId') ticketId: string) {
+    const pdf = await this.documentsService.renderTicket(req.user.id, ticketId);
+    if (!pdf) {
+      throw new NotFoundException({
+        error: {
+          code: 'credential_not_issued',
+          message: 'Ticket has no credential until it is purchased',
+        },
+      });
+    }
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="ticket-${ticketId}.pdf"`,
+    });
+  }
+
+  @Post('reservations')
+  async reserveTickets(@Req() req: UserRequest, @Body() request: ReserveTicketRequest) {
+    const order = await this.ticketsService.reserveTickets(
+      req.user.id,
+      { ...request, accountEmail: req.user.email },
+      req.ip ?? '',
+    );
+    return { data: order };
+  }
+
+  @Post(':ticketId/add-ons')
+  async reserveAddOns(
+    @Req() req: UserRequest,
+    @Param('ticketId') ticketId: string,
+    @Body('addOns') addOns: AddOnSelection[],
+  ) {
+    const order = await this.ticketsService.reserveAddOns(req.user.id, { ticketId, addOns }, req.ip ?? '');
+    return { data: order };
+  }
+
+  @Post('purchases')
+  async purchaseTickets(@Req() req: UserRequest, @Body() request: PurchaseTicketRequest) {
+    const order = await this.ticketsService.purchaseTickets(req.user.id, request, req.ip ?? '');
+    return { data: order };
+  }
+
+  @Delete('reservations/:orderId')
+  async cancelReservation(@Req() req: UserRequest, @Param('orderId') orderId: string) {
+    await this.ticketsService.cancelReservation(req.user.id, orderId);
+    return { data: { orderId, cancelled: true } };
+  }
+
+  @Post(':ticketId/transfers')
+  async initiateTransfer(
+    @Req() req: UserRequest,
+    @Param('ticketId') ticketId: string,
+    @Body('recipientEmail') recipientEmail: string,
+  ) {
+    const transfer = await this.ticketsService.initiateTransfer(req.user.id, ticketId, recipientEmail);
+    return { data: transfer };
+  }
+
+  @Post('transfers/:transferId/accept')
+  async acceptTransfer(
+    @Req() req: UserRequest,
+    @Param('transferId') transferId: string,
+    @Body('recipientName') recipientName: string,
+  ) {
+    // The recipient is identified by the email on their verified account, never by the request body
+    const ticket = await this.ticketsService.acceptTransfer(req.user.id, req.user.email, transferId, recipientName);
+    return { data: ticket };
+  }
+
+  @Delete('transfers/:transferId')
+  async cancelTransfer(@Req() req: UserRequest, @Param('transferId') transferId: string) {
+    const transfer = await this.ticketsService.cancelTransfer(req.user.id, transferId);
+    return { data: transfer };
+  }
+}
@@ -0,0 +1,34 @@
+import { Controller, Get, Param, Post, Req, UseFilters, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthenticatedRequest } from '@supafaya/core';
+import { UserWaitingRoomService } from '../services/waiting-room.service';
+import { HttpExceptionFilter } from '../../common/filters/http-exception.filter';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+
+type UserRequest = Request & AuthenticatedRequest;
+
+@Controller('api/v1/user/events/:eventId/waiting-room')
+@UseFilters(HttpExceptionFilter)
+@UseGuards(JwtAuthGuard)
+export class UserWaitingRoomController {
+  constructor(private readonly waitingRoomService: UserWaitingRoomService) {}
+
+  @Post()
+  async joinWaitingRoom(
+    @Req() req: UserRequest,
+    @Param('eventId') eventId: string,
+  ) {
+    const position = await this.waitingRoomService.joinWaitingRoom(req.user.id, eventId);
+    return { data: position };
+  }
+
+  // Polled while waiting; carries the admission token once the buyer is let in
+  @Get()
+  async getPosition(
+    @Req() req: UserRequest,
+    @Param('eventId') eventId: string,
+  ) {
+    const position = await this.waitingRoomService.getPosition(req.user.id, eventId);
+    return { data: position };
+  }
+}
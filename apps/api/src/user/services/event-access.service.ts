@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import {
+  EventAccessGrant,
+  EventViewer,
+  IInvitationService,
+  ITicketService,
+  TicketType,
+} from '@supafaya/core';
+
+@Injectable()
+export class UserEventAccessService {
+  constructor(
+    private readonly invitationService: IInvitationService,
+    private readonly ticketService: ITicketService,
+  ) {}
+
+  async redeemAccessCode(userId: string, eventId: string, code: string): Promise<EventAccessGrant> {
+    return this.invitationService.redeemAccessCode(userId, eventId, code);
+  }
+
+  async listTicketTypes(eventId: string, viewer: EventViewer, unlockCode?: string): Promise<TicketType[]> {
+    return this.ticketService.listEventTicketTypes(eventId, viewer, unlockCode);
+  }
+}
@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { INotificationService, Notification } from '@supafaya/core';
+
+@Injectable()
+export class UserNotificationsService {
+  constructor(private readonly notificationService: INotificationService) {}
+
+  async listNotifications(userId: string, unreadOnly: boolean): Promise<Notification[]> {
+    return this.notificationService.listUserNotifications(userId, unreadOnly);
+  }
+
+  async markRead(userId: string, notificationId: string): Promise<Notification> {
+    return this.notificationService.markNotificationRead(userId, notificationId);
+  }
+}
@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import {
+  EventReschedule,
+  IEventRescheduleService,
+  RescheduleOption,
+  RescheduleResponse,
+} from '@supafaya/core';
+
+@Injectable()
+export class UserReschedulesService {
+  constructor(private readonly rescheduleService: IEventRescheduleService) {}
+
+  async getReschedule(rescheduleId: string): Promise<EventReschedule> {
+    return this.rescheduleService.getReschedule(rescheduleId);
+  }
+
+  async getResponse(userId: string, rescheduleId: string, orderId: string): Promise<RescheduleResponse | null> {
+    return this.rescheduleService.getRescheduleResponse(userId, rescheduleId, orderId);
+  }
+
+  async respond(userId: string, rescheduleId: string, orderId: string, option: RescheduleOption): Promise<RescheduleResponse> {
+    return this.rescheduleService.respondToReschedule(userId, { rescheduleId, orderId, option });
+  }
+}
@@ -0,0 +1,191 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import PDFDocument = require('pdfkit');
+import * as QRCode from 'qrcode';
+import {
+  EventLocationType,
+  IEventService,
+  IPaymentService,
+  ITicketService,
+  Order,
+  OrderStatus,
+  Payment,
+  PaymentStatus,
+  defaultAddOnVariantName,
+  describeEventLocation,
+} from '@supafaya/core';
+
+@Injectable()
+export class UserTicketDocumentsService {
+  constructor(
+    private readonly ticketService: ITicketService,
+    private readonly eventService: IEventService,
+    private readonly paymentService: IPaymentService,
+  ) {}
+
+  /**
+   * Printable ticket with the QR credential. Returns undefined until the ticket is
+   * purchased, since there is no credential to print before that.
+   */
+  async renderTicket(userId: string, ticketId: string): Promise<Buffer | undefined> {
+    const ticket = await this.ticketService.getTicket(ticketId);
+    this.assertOwner(ticket.customerId, userId, 'Ticket belongs to another customer');
+    if (!ticket.credential) {
+      return undefined;
+    }
+
+    const [event, ticketType] = await Promise.all([
+      this.eventService.getEvent(ticket.eventId),
+      this.ticketService.getTicketType(ticket.ticketTypeId),
+    ]);
+    const session = ticket.sessionId ? await this.eventService.getEventSession(ticket.sessionId) : undefined;
+    const qrCode = await QRCode.toBuffer(ticket.credential, { errorCorrectionLevel: 'M', margin: 1, width: 360 });
+
+    return this.render((doc) => {
+      doc.fontSize(22).text(event.title);
+      doc.moveDown(0.5);
+      doc.fontSize(12).text(this.formatDate(session?.startDateTime ?? event.startDateTime, event.timezone));
+      doc.text(describeEventLocation(event.location));
+      // Only ticket holders get the link to join online events
+      if (event.location.type === EventLocationType.VIRTUAL) {
+        doc.text(event.location.joinUrl);
+      }
+      doc.moveDown();
+
+      this.field(doc, 'Ticket holder', ticket.customerName);
+      this.field(doc, 'Ticket', ticket.priceTier ? `${ticketType.name} (${ticket.priceTier})` : ticketType.name);
+      if (ticket.seatId) {
+        this.field(doc, 'Seat', ticket.seatId);
+      }
+      this.field(doc, 'Ticket ID', ticket.id);
+      doc.moveDown();
+
+      doc.image(qrCode, { fit: [180, 180] });
+      doc.moveDown();
+      doc.fontSize(9).fillColor('#666666').text('Show this code at the entrance. Each ticket can be scanned once.');
+    });
+  }
+
+  /**
+   * Receipt for an order's payment, including any refund. Returns undefined while the
+   * order has not been paid for.
+   */
+  async renderReceipt(userId: string, orderId: string): Promise<Buffer | undefined> {
+    const order = await this.ticketService.getOrder(orderId);
+    this.assertOwner(order.customerId, userId, 'Order belongs to another customer');
+
+    const payment = order.paymentId ? await this.paymentService.getPayment(order.paymentId) : undefined;
+    const paid = payment
+      ? payment.status === PaymentStatus.COMPLETED || payment.status === PaymentStatus.REFUNDED
+      : order.status === OrderStatus.COMPLETED;
+    if (!paid) {
+      return undefined;
+    }
+
+    const event = await this.eventService.getEvent(order.eventId);
+    const currency = order.total.currency;
+
+    return this.render((doc) => {
+      doc.fontSize(22).text('Receipt');
+      doc.moveDown(0.5);
+      doc.fontSize(12).text(event.title);
+      doc.text(this.formatDate(event.startDateTime, event.timezone));
+      doc.moveDown();
+
+      this.field(doc, 'Order', order.id);
+      if (payment) {
+        this.field(doc, 'Payment', payment.id);
+      }
+      this.field(doc, 'Billed to', `${order.customerName} <${order.customerEmail}>`);
+      const paidAt = payment?.completedAt ?? order.purchasedAt;
+      if (paidAt) {
+        this.field(doc, 'Paid on', this.formatDate(paidAt, event.timezone));
+      }
+      doc.moveDown();
+
+      for (const line of this.receiptLines(order)) {
+        this.field(doc, line.label, this.formatAmount(line.amount, currency));
+      }
+      if (order.discount) {
+        this.field(doc, `Promo code ${order.discount.code}`, this.formatAmount(-order.discount.amount, currency));
+      }
+      doc.moveDown(0.5);
+      doc.fontSize(14).text(`Total: ${this.formatAmount(order.total.amount, currency)}`);
+
+      if (payment?.status === PaymentStatus.REFUNDED) {
+        this.writeRefund(doc, payment, event.timezone);
+      }
+    });
+  }
+
+  private receiptLines(order: Order): { label: string; amount: number }[] {
+    return [
+      ...order.items.map((item) => ({
+        label: `${item.ticketTypeName}${item.priceTier ? ` (${item.priceTier})` : ''} x${item.quantity}`,
+        amount: item.subtotal,
+      })),
+      ...order.addOns.map((addOn) => ({
+        label: `${addOn.name}${addOn.variantName !== defaultAddOnVariantName ? ` (${addOn.variantName})` : ''} x${addOn.quantity}`,
+        amount: addOn.subtotal,
+      })),
+    ];
+  }
+
+  private writeRefund(doc: PDFKit.PDFDocument, payment: Payment, timeZone: string): void {
+    doc.moveDown();
+    doc.fontSize(12).fillColor('#b00020');
+    doc.text(`Refunded: ${this.formatAmount(payment.amount, payment.currency)}`);
+    if (payment.refundedAt) {
+      doc.text(`Refunded on ${this.formatDate(payment.refundedAt, timeZone)}`);
+    }
+    if (payment.refundReason) {
+      doc.text(`Reason: ${payment.refundReason}`);
+    }
+    doc.fillColor('#000000');
+  }
+
+  private assertOwner(customerId: string, userId: string, message: string): void {
+    if (customerId !== userId) {
+      throw new ForbiddenException({
+        error: {
+          code: 'forbidden',
+          message,
+        },
+      });
+    }
+  }
+
+  private field(doc: PDFKit.PDFDocument, label: string, value: string): void {
+    doc.fontSize(11).font('Helvetica-Bold').text(`${label}: `, { continued: true });
+    doc.font('Helvetica').text(value);
+  }
+
+  // Dates are printed in the event timezone, not the server's
+  private formatDate(date: Date, timeZone: string): string {
+    return new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short',
+    }).format(new Date(date));
+  }
+
+  private formatAmount(amount: number, currency: string): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  }
+
+  private render(draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 50 });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+      draw(doc);
+      doc.end();
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import {
+  ITicketService,
+  Order,
+  Ticket,
+  ReserveTicketRequest,
+  ReserveAddOnsRequest,
+  PurchaseTicketRequest,
+  TicketTransfer,
+} from '@supafaya/core';
+import { ReservationExpiryProcessor } from '../../jobs/processors/reservation-expiry.processor';
+
+@Injectable()
+export class UserTicketsService {
+  constructor(
+    private readonly ticketService: ITicketService,
+    private readonly reservationExpiry: ReservationExpiryProcessor,
+  ) {}
+
+  async reserveTickets(userId: string, request: ReserveTicketRequest, ip: string): Promise<Order> {
+    const order = await this.ticketService.reserveTickets(userId, request, ip);
+    await this.reservationExpiry.schedule(order);
+    return order;
+  }
+
+  async reserveAddOns(userId: string, request: ReserveAddOnsRequest, ip: string): Promise<Order> {
+    const order = await this.ticketService.reserveAddOns(userId, request, ip);
+    await this.reservationExpiry.schedule(order);
+    return order;
+  }
+
+  async purchaseTickets(userId: string, request: PurchaseTicketRequest, ip: string): Promise<Order> {
+    const order = await this.ticketService.purchaseTickets(userId, request, ip);
+    // Free orders complete immediately, so there is nothing left to expire
+    if (!order.paymentId) {
+      await this.reservationExpiry.unschedule(order.id);
+    }
+    return order;
+  }
+
+  async cancelReservation(userId: string, orderId: string): Promise<void> {
+    await this.ticketService.cancelReservation(userId, orderId);
+    await this.reservationExpiry.unschedule(orderId);
+  }
+
+  async listOrders(userId: string): Promise<Order[]> {
+    return this.ticketService.listCustomerOrders(userId);
+  }
+
+  async listTickets(userId: string): Promise<Ticket[]> {
+    return this.ticketService.listCustomerTickets(userId);
+  }
+
+  async getQrPayload(userId: string, ticketId: string): Promise<string | undefined> {
+    const ticket = await this.ticketService.getTicket(ticketId);
+    if (ticket.customerId !== userId) {
+      throw new ForbiddenException({
+        error: {
+          code: 'forbidden',
+          message: 'Ticket belongs to another customer',
+        },
+      });
+    }
+    return ticket.credential;
+  }
+
+  async initiateTransfer(userId: string, ticketId: string, recipientEmail: string): Promise<TicketTransfer> {
+    return this.ticketService.initiateTransfer(userId, { ticketId, recipientEmail });
+  }
+
+  async acceptTransfer(userId: string, userEmail: string, transferId: string, recipientName: string): Promise<Ticket> {
+    return this.ticketService.acceptTransfer(userId, {
+      transferId,
+      recipientName,
+      recipientEmail: userEmail,
+    });
+  }
+
+  async cancelTransfer(userId: string, transferId: string): Promise<TicketTransfer> {
+    return this.ticketService.cancelTransfer(userId, transferId);
+  }
+
+  async listIncomingTransfers(userEmail: string): Promise<TicketTransfer[]> {
+    return this.ticketService.listIncomingTransfers(userEmail);
+  }
+}
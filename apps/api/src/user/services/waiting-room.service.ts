@@ -0,0 +1,15 @@
+import { Injectable } from '@nestjs/common';
+import { IWaitingRoomService, WaitingRoomPosition } from '@supafaya/core';
+
+@Injectable()
+export class UserWaitingRoomService {
+  constructor(private readonly waitingRoomService: IWaitingRoomService) {}
+
+  async joinWaitingRoom(userId: string, eventId: string): Promise<WaitingRoomPosition> {
+    return this.waitingRoomService.joinWaitingRoom(userId, eventId);
+  }
+
+  async getPosition(userId: string, eventId: string): Promise<WaitingRoomPosition> {
+    return this.waitingRoomService.getWaitingRoomPosition(userId, eventId);
+  }
+}
@@ -1,17 +1,37 @@
 import { Module } from '@nestjs/common';
 import { UserEventsController } from './controllers/events.controller';
+import { UserEventAccessController } from './controllers/event-access.controller';
 import { UserTicketsController } from './controllers/tickets.controller';
+import { UserWaitingRoomController } from './controllers/waiting-room.controller';
+import { UserNotificationsController } from './controllers/notifications.controller';
+import { UserReschedulesController } from './controllers/reschedules.controller';
 import { UserEventsService } from './services/events.service';
+import { UserEventAccessService } from './services/event-access.service';
 import { UserTicketsService } from './services/tickets.service';
+import { UserTicketDocumentsService } from './services/ticket-documents.service';
+import { UserWaitingRoomService } from './services/waiting-room.service';
+import { UserNotificationsService } from './services/notifications.service';
+import { UserReschedulesService } from './services/reschedules.service';
+import { JobsModule } from '../jobs/jobs.module';
 
 @Module({
+  imports: [JobsModule],
   controllers: [
     UserEventsController,
     UserTicketsController,
+    UserEventAccessController,
+    UserWaitingRoomController,
+    UserNotificationsController,
+    UserReschedulesController,
   ],
   providers: [
     UserEventsService,
     UserTicketsService,
+    UserTicketDocumentsService,
+    UserEventAccessService,
+    UserWaitingRoomService,
+    UserNotificationsService,
+    UserReschedulesService,
   ],
 })
 export class UserModule {} 
\ No newline at end of file
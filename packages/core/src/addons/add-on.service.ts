@@ -0,0 +1,13 @@
+import {
+  AddOn,
+  CreateAddOnRequest,
+  UpdateAddOnRequest
+} from './types';
+
+export interface IAddOnService {
+  // Add-on Management
+  createAddOn(organizerId: string, request: CreateAddOnRequest): Promise<AddOn>;
+  getAddOn(addOnId: string): Promise<AddOn>;
+  updateAddOn(organizerId: string, request: UpdateAddOnRequest): Promise<AddOn>;
+  listEventAddOns(eventId: string): Promise<AddOn[]>;
+}
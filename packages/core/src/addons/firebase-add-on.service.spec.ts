@@ -0,0 +1,198 @@
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { AddOnAllocation, FirebaseAddOnService } from './firebase-add-on.service';
+import { AddOn, AddOnNotFoundError, AddOnSelection, AddOnSoldOutError, defaultAddOnVariantName } from './types';
+import { IEventService } from '../events';
+import { FakeFirestore } from '../testing/fake-firestore';
+import { createEvent } from '../testing/fixtures';
+
+describe('FirebaseAddOnService', () => {
+  const event = createEvent();
+
+  let firestore: FakeFirestore;
+  let service: FirebaseAddOnService;
+  let shirt: AddOn;
+  let tote: AddOn;
+
+  const prepare = (selections: AddOnSelection[], eventId = event.id) =>
+    firestore.runTransaction(transaction => service.prepareAddOns(transaction as unknown as Transaction, eventId, selections));
+
+  // Check and reserve stock the way the ticket service does for a new order
+  const reserve = (selections: AddOnSelection[]) => firestore.runTransaction(async transaction => {
+    const prepared = await service.prepareAddOns(transaction as unknown as Transaction, event.id, selections);
+    const allocations = prepared.map(line => ({ addOnId: line.addOn.id, variantId: line.variant.id, quantity: line.quantity }));
+    service.reserveAddOns(transaction as unknown as Transaction, allocations);
+    return allocations;
+  });
+
+  const settle = (allocations: AddOnAllocation[], sold: boolean) => firestore.runTransaction(async transaction => {
+    service.settleAddOns(transaction as unknown as Transaction, allocations, sold);
+  });
+
+  const getInventory = async (addOn: AddOn) => (await service.getAddOn(addOn.id)).inventory;
+
+  const captureError = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      return error as any;
+    }
+    return undefined;
+  };
+
+  beforeEach(async () => {
+    firestore = new FakeFirestore();
+    service = new FirebaseAddOnService(
+      firestore as unknown as Firestore,
+      { getEvent: jest.fn(async () => event) } as unknown as IEventService
+    );
+
+    shirt = await service.createAddOn(event.organizerId, {
+      eventId: event.id,
+      name: 'Event shirt',
+      price: { amount: 450, currency: 'PHP' },
+      maxPerOrder: 3,
+      variants: [{ name: 'S', quantity: 2 }, { name: 'M', quantity: 1 }],
+    });
+    tote = await service.createAddOn(event.organizerId, {
+      eventId: event.id,
+      name: 'Tote bag',
+      price: { amount: 200, currency: 'PHP' },
+      quantity: 5,
+    });
+  });
+
+  describe('createAddOn', () => {
+    it('starts every variant with its whole quantity available', () => {
+      const [small, medium] = shirt.variants;
+
+      expect(shirt.variants).toEqual([
+        { id: `${shirt.id}-1`, name: 'S', quantity: 2 },
+        { id: `${shirt.id}-2`, name: 'M', quantity: 1 },
+      ]);
+      expect(shirt.inventory).toEqual({
+        [small!.id]: { available: 2, reserved: 0, sold: 0 },
+        [medium!.id]: { available: 1, reserved: 0, sold: 0 },
+      });
+      expect(shirt.isActive).toBe(true);
+    });
+
+    it('gives add-ons without options a single default variant', () => {
+      expect(tote.variants).toEqual([{ id: `${tote.id}-1`, name: defaultAddOnVariantName, quantity: 5 }]);
+      expect(tote.inventory[`${tote.id}-1`]).toEqual({ available: 5, reserved: 0, sold: 0 });
+    });
+
+    it.each([
+      ['no quantity', { quantity: undefined }],
+      ['a variant without stock', { variants: [{ name: 'S', quantity: 0 }] }],
+    ])('refuses %s', async (_reason, overrides) => {
+      const error = await captureError(() => service.createAddOn(event.organizerId, {
+        eventId: event.id,
+        name: 'Lanyard',
+        price: { amount: 50, currency: 'PHP' },
+        ...overrides,
+      }));
+
+      expect(error?.code).toBe('add-on/invalid-quantity');
+    });
+
+    it('is only done by the organizer of the event', async () => {
+      const error = await captureError(() => service.createAddOn('organizer-2', {
+        eventId: event.id,
+        name: 'Lanyard',
+        price: { amount: 50, currency: 'PHP' },
+        quantity: 10,
+      }));
+
+      expect(error?.code).toBe('add-on/unauthorized');
+    });
+  });
+
+  describe('prepareAddOns', () => {
+    it('picks the only variant and merges repeated selections', async () => {
+      const prepared = await prepare([
+        { addOnId: tote.id, quantity: 1 },
+        { addOnId: tote.id, variantId: `${tote.id}-1`, quantity: 2 },
+      ]);
+
+      expect(prepared).toHaveLength(1);
+      expect(prepared[0]).toMatchObject({ variant: { id: `${tote.id}-1` }, quantity: 3 });
+    });
+
+    it('refuses more than the variant has in stock', async () => {
+      const error = await captureError(() => prepare([{ addOnId: shirt.id, variantId: `${shirt.id}-2`, quantity: 2 }]));
+
+      expect(error).toBeInstanceOf(AddOnSoldOutError);
+      expect(error.message).toBe('Event shirt (M) is sold out');
+    });
+
+    it('counts the limit per order across variants', async () => {
+      const error = await captureError(() => prepare([
+        { addOnId: shirt.id, variantId: `${shirt.id}-1`, quantity: 2 },
+        { addOnId: shirt.id, variantId: `${shirt.id}-2`, quantity: 2 },
+      ]));
+
+      expect(error?.code).toBe('add-on/limit-exceeded');
+      expect(error.message).toBe('At most 3 Event shirt per order');
+    });
+
+    it('asks for an option when the add-on has several', async () => {
+      expect((await captureError(() => prepare([{ addOnId: shirt.id, quantity: 1 }])))?.code).toBe('add-on/invalid-variant');
+      expect((await captureError(() => prepare([{ addOnId: shirt.id, variantId: 'other-1', quantity: 1 }])))?.code)
+        .toBe('add-on/invalid-variant');
+    });
+
+    it('refuses add-ons of other events and add-ons taken off sale', async () => {
+      expect((await captureError(() => prepare([{ addOnId: tote.id, quantity: 1 }], 'event-2')))?.code).toBe('add-on/not-available');
+
+      await service.updateAddOn(event.organizerId, { id: tote.id, isActive: false });
+
+      expect((await captureError(() => prepare([{ addOnId: tote.id, quantity: 1 }])))?.code).toBe('add-on/not-available');
+    });
+
+    it('refuses add-ons that do not exist', async () => {
+      expect(await captureError(() => prepare([{ addOnId: 'missing', quantity: 1 }]))).toBeInstanceOf(AddOnNotFoundError);
+    });
+  });
+
+  describe('stock', () => {
+    it('moves reserved add-ons out of the available stock', async () => {
+      await reserve([{ addOnId: shirt.id, variantId: `${shirt.id}-2`, quantity: 1 }]);
+
+      expect((await getInventory(shirt))[`${shirt.id}-2`]).toEqual({ available: 0, reserved: 1, sold: 0 });
+      expect(await captureError(() => reserve([{ addOnId: shirt.id, variantId: `${shirt.id}-2`, quantity: 1 }])))
+        .toBeInstanceOf(AddOnSoldOutError);
+    });
+
+    it('sells reserved add-ons once the order is paid', async () => {
+      const allocations = await reserve([
+        { addOnId: shirt.id, variantId: `${shirt.id}-1`, quantity: 2 },
+        { addOnId: tote.id, quantity: 1 },
+      ]);
+
+      await settle(allocations, true);
+
+      expect((await getInventory(shirt))[`${shirt.id}-1`]).toEqual({ available: 0, reserved: 0, sold: 2 });
+      expect((await getInventory(tote))[`${tote.id}-1`]).toEqual({ available: 4, reserved: 0, sold: 1 });
+    });
+
+    it('puts reserved add-ons back on sale when the order is released', async () => {
+      const allocations = await reserve([{ addOnId: shirt.id, variantId: `${shirt.id}-2`, quantity: 1 }]);
+
+      await settle(allocations, false);
+
+      expect((await getInventory(shirt))[`${shirt.id}-2`]).toEqual({ available: 1, reserved: 0, sold: 0 });
+      expect(await reserve([{ addOnId: shirt.id, variantId: `${shirt.id}-2`, quantity: 1 }])).toHaveLength(1);
+    });
+
+    it('keeps the total of every variant equal to its quantity', async () => {
+      const first = await reserve([{ addOnId: tote.id, quantity: 2 }]);
+      const second = await reserve([{ addOnId: tote.id, quantity: 3 }]);
+      await settle(first, true);
+      await settle(second, false);
+
+      const stock = (await getInventory(tote))[`${tote.id}-1`]!;
+      expect(stock).toEqual({ available: 3, reserved: 0, sold: 2 });
+      expect(stock.available + stock.reserved + stock.sold).toBe(5);
+    });
+  });
+});
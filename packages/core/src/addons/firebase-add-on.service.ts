@@ -0,0 +1,224 @@
+import { FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import {
+  AddOn,
+  AddOnVariant,
+  AddOnSelection,
+  AddOnError,
+  AddOnNotFoundError,
+  AddOnSoldOutError,
+  CreateAddOnRequest,
+  UpdateAddOnRequest,
+  addOnSchema,
+  defaultAddOnVariantName,
+} from './types';
+import { IAddOnService } from './add-on.service';
+import { IEventService } from '../events';
+import { OrderAddOn } from '../tickets/types';
+
+export interface PreparedAddOn {
+  addOn: AddOn;
+  variant: AddOnVariant;
+  quantity: number;
+}
+
+export type AddOnAllocation = Pick<OrderAddOn, 'addOnId' | 'variantId' | 'quantity'>;
+
+export class FirebaseAddOnService implements IAddOnService {
+  private readonly addOnsCollection = 'addOns';
+
+  constructor(
+    private firestore: Firestore,
+    private eventService: IEventService
+  ) {}
+
+  private async getAddOnDoc(addOnId: string) {
+    const doc = await this.firestore.collection(this.addOnsCollection).doc(addOnId).get();
+    if (!doc.exists) {
+      throw new AddOnNotFoundError(addOnId);
+    }
+    return doc;
+  }
+
+  private convertToAddOn(doc: FirebaseFirestore.DocumentSnapshot): AddOn {
+    const data = doc.data()!;
+    return addOnSchema.parse({
+      ...data,
+      id: doc.id,
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private async verifyOrganizerOwnsEvent(organizerId: string, eventId: string): Promise<void> {
+    const event = await this.eventService.getEvent(eventId);
+    if (event.organizerId !== organizerId) {
+      throw new AddOnError('Unauthorized: Not the event organizer', 'add-on/unauthorized');
+    }
+  }
+
+  async createAddOn(organizerId: string, request: CreateAddOnRequest): Promise<AddOn> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, request.eventId);
+
+      const variants = request.variants?.length
+        ? request.variants
+        : [{ name: defaultAddOnVariantName, quantity: request.quantity ?? 0 }];
+      if (variants.some(variant => !Number.isInteger(variant.quantity) || variant.quantity < 1)) {
+        throw new AddOnError('Every add-on variant needs a positive quantity', 'add-on/invalid-quantity');
+      }
+
+      const docRef = this.firestore.collection(this.addOnsCollection).doc();
+      const withIds = variants.map((variant, index) => ({ id: `${docRef.id}-${index + 1}`, ...variant }));
+
+      const now = Timestamp.now();
+      await docRef.set({
+        eventId: request.eventId,
+        name: request.name,
+        description: request.description,
+        price: request.price,
+        maxPerOrder: request.maxPerOrder,
+        variants: withIds,
+        inventory: Object.fromEntries(withIds.map(variant => [
+          variant.id,
+          { available: variant.quantity, reserved: 0, sold: 0 },
+        ])),
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      return this.convertToAddOn(await docRef.get());
+    } catch (error: any) {
+      if (error instanceof AddOnError) throw error;
+      throw new AddOnError('Failed to create add-on', 'add-on/creation-failed', error);
+    }
+  }
+
+  async getAddOn(addOnId: string): Promise<AddOn> {
+    try {
+      return this.convertToAddOn(await this.getAddOnDoc(addOnId));
+    } catch (error: any) {
+      if (error instanceof AddOnError) throw error;
+      throw new AddOnError('Failed to get add-on', 'add-on/get-failed', error);
+    }
+  }
+
+  async updateAddOn(organizerId: string, request: UpdateAddOnRequest): Promise<AddOn> {
+    try {
+      const doc = await this.getAddOnDoc(request.id);
+      const addOn = this.convertToAddOn(doc);
+      await this.verifyOrganizerOwnsEvent(organizerId, addOn.eventId);
+
+      const { id, ...changes } = request;
+      await doc.ref.update({
+        ...changes,
+        updatedAt: Timestamp.now(),
+      });
+
+      return this.convertToAddOn(await doc.ref.get());
+    } catch (error: any) {
+      if (error instanceof AddOnError) throw error;
+      throw new AddOnError('Failed to update add-on', 'add-on/update-failed', error);
+    }
+  }
+
+  async listEventAddOns(eventId: string): Promise<AddOn[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.addOnsCollection)
+        .where('eventId', '==', eventId)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToAddOn(doc));
+    } catch (error: any) {
+      throw new AddOnError('Failed to list add-ons', 'add-on/list-failed', error);
+    }
+  }
+
+  // Transactional helpers used by the ticket service
+
+  /**
+   * Read the selected add-ons inside an order transaction and check they can be sold.
+   * Only reads, so it must run before the transaction writes anything.
+   */
+  async prepareAddOns(transaction: Transaction, eventId: string, selections: AddOnSelection[]): Promise<PreparedAddOn[]> {
+    if (selections.length === 0) {
+      return [];
+    }
+
+    const addOnIds = [...new Set(selections.map(selection => selection.addOnId))];
+    const docs = await transaction.getAll(
+      ...addOnIds.map(id => this.firestore.collection(this.addOnsCollection).doc(id))
+    );
+    const addOns = new Map(docs.map((doc, index) => {
+      if (!doc.exists) {
+        throw new AddOnNotFoundError(addOnIds[index]!);
+      }
+      return [doc.id, this.convertToAddOn(doc)];
+    }));
+
+    const prepared: PreparedAddOn[] = [];
+    for (const selection of selections) {
+      const addOn = addOns.get(selection.addOnId)!;
+      if (addOn.eventId !== eventId || !addOn.isActive) {
+        throw new AddOnError(`${addOn.name} is not available for this event`, 'add-on/not-available');
+      }
+
+      const variant = selection.variantId
+        ? addOn.variants.find(variant => variant.id === selection.variantId)
+        : addOn.variants.length === 1 ? addOn.variants[0] : undefined;
+      if (!variant) {
+        throw new AddOnError(`Choose an option for ${addOn.name}`, 'add-on/invalid-variant');
+      }
+
+      const existing = prepared.find(line => line.variant.id === variant.id);
+      if (existing) {
+        existing.quantity += selection.quantity;
+      } else {
+        prepared.push({ addOn, variant, quantity: selection.quantity });
+      }
+    }
+
+    for (const line of prepared) {
+      const perAddOn = prepared
+        .filter(other => other.addOn.id === line.addOn.id)
+        .reduce((sum, other) => sum + other.quantity, 0);
+      if (line.addOn.maxPerOrder !== undefined && perAddOn > line.addOn.maxPerOrder) {
+        throw new AddOnError(`At most ${line.addOn.maxPerOrder} ${line.addOn.name} per order`, 'add-on/limit-exceeded');
+      }
+      if ((line.addOn.inventory[line.variant.id]?.available ?? 0) < line.quantity) {
+        throw new AddOnSoldOutError(line.addOn.variants.length > 1 ? `${line.addOn.name} (${line.variant.name})` : line.addOn.name);
+      }
+    }
+
+    return prepared;
+  }
+
+  reserveAddOns(transaction: Transaction, allocations: AddOnAllocation[]): void {
+    this.moveStock(transaction, allocations, 'available', 'reserved');
+  }
+
+  /**
+   * Sell reserved add-ons once their order is paid, or put them back on sale when the
+   * order is cancelled or expires. Writes only.
+   */
+  settleAddOns(transaction: Transaction, allocations: AddOnAllocation[], sold: boolean): void {
+    this.moveStock(transaction, allocations, 'reserved', sold ? 'sold' : 'available');
+  }
+
+  private moveStock(
+    transaction: Transaction,
+    allocations: AddOnAllocation[],
+    from: 'available' | 'reserved',
+    to: 'available' | 'reserved' | 'sold'
+  ): void {
+    const now = Timestamp.now();
+    for (const allocation of allocations) {
+      transaction.update(this.firestore.collection(this.addOnsCollection).doc(allocation.addOnId), {
+        [`inventory.${allocation.variantId}.${from}`]: FieldValue.increment(-allocation.quantity),
+        [`inventory.${allocation.variantId}.${to}`]: FieldValue.increment(allocation.quantity),
+        updatedAt: now,
+      });
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './types';
+export * from './add-on.service';
+export * from './firebase-add-on.service';
\ No newline at end of file
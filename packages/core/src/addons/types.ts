@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+// Stock of one variant, kept on the add-on document and only changed inside transactions
+export const addOnInventorySchema = z.object({
+  available: z.number().int().min(0),
+  reserved: z.number().int().min(0),
+  sold: z.number().int().min(0),
+});
+
+export type AddOnInventory = z.infer<typeof addOnInventorySchema>;
+
+// Variant created for add-ons that are not sold in sizes or options
+export const defaultAddOnVariantName = 'Default';
+
+export const addOnVariantSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1), // e.g. a T-shirt size
+  quantity: z.number().int().positive(),
+});
+
+export type AddOnVariant = z.infer<typeof addOnVariantSchema>;
+
+export const addOnSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  price: z.object({
+    amount: z.number().min(0),
+    currency: z.string().default('PHP'),
+  }),
+  // Add-ons without sizes or options have a single variant
+  variants: z.array(addOnVariantSchema).min(1),
+  inventory: z.record(addOnInventorySchema), // Variant ID -> stock
+  maxPerOrder: z.number().int().positive().optional(),
+  isActive: z.boolean().default(true),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type AddOn = z.infer<typeof addOnSchema>;
+
+export interface CreateAddOnRequest {
+  eventId: string;
+  name: string;
+  description?: string;
+  price: AddOn['price'];
+  maxPerOrder?: number;
+  // Either sized variants or a single quantity
+  variants?: { name: string; quantity: number }[];
+  quantity?: number;
+}
+
+export interface UpdateAddOnRequest {
+  id: string;
+  name?: string;
+  description?: string;
+  maxPerOrder?: number;
+  isActive?: boolean;
+}
+
+export interface AddOnSelection {
+  addOnId: string;
+  variantId?: string; // Required when the add-on has more than one variant
+  quantity: number;
+}
+
+export class AddOnError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'AddOnError';
+  }
+}
+
+export class AddOnNotFoundError extends AddOnError {
+  constructor(addOnId: string) {
+    super(`Add-on with ID ${addOnId} not found`, 'add-on/not-found');
+    this.name = 'AddOnNotFoundError';
+  }
+}
+
+export class AddOnSoldOutError extends AddOnError {
+  constructor(name: string) {
+    super(`${name} is sold out`, 'add-on/sold-out');
+    this.name = 'AddOnSoldOutError';
+  }
+}
@@ -4,6 +4,7 @@ export enum UserRole {
   USER = 'USER',
   ORGANIZER = 'ORGANIZER',
   CUSTOMER = 'CUSTOMER',
+  OPERATOR = 'OPERATOR', // Runs the platform: job queues and other internal tooling
   // Future roles - commented out for now
   // SPONSOR = 'SPONSOR',
   // ADMIN = 'ADMIN',
@@ -0,0 +1,12 @@
+import { CancelEventRequest, EventCancellation, EventCancellationReport } from './types';
+
+export interface IEventCancellationService {
+  // Cancels the event right away; orders, refunds and registrations follow in batches
+  cancelEvent(organizerId: string, request: CancelEventRequest): Promise<EventCancellation>;
+  processCancellation(eventId: string): Promise<EventCancellation>;
+  listActiveCancellations(): Promise<EventCancellation[]>;
+
+  // Reporting
+  getCancellationReport(organizerId: string, eventId: string): Promise<EventCancellationReport>;
+  retryFailedRefunds(organizerId: string, eventId: string): Promise<EventCancellationReport>;
+}
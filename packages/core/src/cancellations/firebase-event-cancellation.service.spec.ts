@@ -0,0 +1,270 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { FirebaseEventCancellationService } from './firebase-event-cancellation.service';
+import { EventCancellation, EventCancellationPhase, EventCancellationStatus, RefundFailureStatus } from './types';
+import { EventParticipation, EventParticipationStatus, EventParticipationType, EventStatus, FirebaseEventService } from '../events';
+import { FirebaseTicketService, Order, OrderStatus, Ticket } from '../tickets';
+import { INotificationService, NotificationType } from '../notifications';
+import { PaymentError } from '../payments';
+import { FakeFirestore } from '../testing/fake-firestore';
+import { createEvent, createOrder, createTicket } from '../testing/fixtures';
+
+describe('FirebaseEventCancellationService', () => {
+  const startedAt = new Date('2026-11-20T09:00:00Z');
+  const event = createEvent({ status: EventStatus.CANCELLED });
+
+  let firestore: FakeFirestore;
+  let orders: Order[];
+  let tickets: Ticket[];
+  let participants: EventParticipation[];
+  let eventService: Record<'getEvent' | 'markEventCancelled' | 'cancelEventParticipations' | 'listEventParticipants', jest.Mock>;
+  let ticketService: Record<'listEventOrdersPage' | 'cancelUnpaidOrder' | 'refundOrderPayment' | 'releaseCancelledOrder' | 'getOrder', jest.Mock>;
+  let notificationService: { sendNotification: jest.Mock };
+  let service: FirebaseEventCancellationService;
+
+  const createParticipation = (overrides: Partial<EventParticipation> = {}): EventParticipation => ({
+    id: 'participation-1',
+    eventId: event.id,
+    userId: 'guest-1',
+    type: EventParticipationType.FREE,
+    status: EventParticipationStatus.CANCELLED,
+    registeredAt: new Date('2026-11-01T00:00:00Z'),
+    cancelledAt: startedAt,
+    createdAt: new Date('2026-11-01T00:00:00Z'),
+    updatedAt: startedAt,
+    ...overrides,
+  });
+
+  const paidOrders = (count: number) => Array.from({ length: count }, (_, index) => {
+    const id = `order-${String(index + 1).padStart(3, '0')}`;
+    return createOrder({ id, customerId: `buyer-${index + 1}`, paymentId: `payment-${index + 1}` });
+  });
+
+  const getCancellation = async () => (await firestore.collection('eventCancellations').doc(event.id).get()).data()!;
+
+  const getRefundFailure = async (orderId: string) =>
+    (await firestore.collection('eventCancellations').doc(event.id).collection('refundFailures').doc(orderId).get()).data();
+
+  const notifiedUsers = () => notificationService.sendNotification.mock.calls.map(([request]) => request.userId);
+
+  // Keep running batches the way the background job does
+  const runCascade = async (): Promise<EventCancellation> => {
+    for (let batch = 0; batch < 10; batch++) {
+      const cancellation = await service.processCancellation(event.id);
+      if (cancellation.status !== EventCancellationStatus.IN_PROGRESS) {
+        return cancellation;
+      }
+    }
+    throw new Error('Cancellation did not finish');
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(startedAt);
+
+    firestore = new FakeFirestore();
+    orders = [];
+    tickets = [];
+    participants = [];
+    eventService = {
+      getEvent: jest.fn(async () => event),
+      markEventCancelled: jest.fn(async () => undefined),
+      cancelEventParticipations: jest.fn(async () => []),
+      listEventParticipants: jest.fn(async () => participants),
+    };
+    ticketService = {
+      listEventOrdersPage: jest.fn(async (_eventId: string, cursor: string | undefined, limit: number) => {
+        const start = cursor ? orders.findIndex(order => order.id === cursor) + 1 : 0;
+        return orders.slice(start, start + limit);
+      }),
+      cancelUnpaidOrder: jest.fn(async (orderId: string) => ({
+        ...orders.find(order => order.id === orderId)!,
+        status: OrderStatus.CANCELLED,
+      })),
+      refundOrderPayment: jest.fn(async () => true),
+      releaseCancelledOrder: jest.fn(async (orderId: string) => tickets.filter(ticket => ticket.orderId === orderId)),
+      getOrder: jest.fn(async (orderId: string) => orders.find(order => order.id === orderId)),
+    };
+    notificationService = { sendNotification: jest.fn(async () => ({})) };
+
+    service = new FirebaseEventCancellationService(
+      firestore as unknown as Firestore,
+      eventService as unknown as FirebaseEventService,
+      ticketService as unknown as FirebaseTicketService,
+      notificationService as unknown as INotificationService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stops sales before the cascade starts and starts it once', async () => {
+    const first = await service.cancelEvent(event.organizerId, { eventId: event.id, reason: 'Venue flooded' });
+    const again = await service.cancelEvent(event.organizerId, { eventId: event.id, reason: 'Another reason' });
+
+    expect(eventService.markEventCancelled).toHaveBeenCalledTimes(1);
+    expect(first).toMatchObject({ status: EventCancellationStatus.IN_PROGRESS, phase: EventCancellationPhase.ORDERS });
+    expect(again.reason).toBe('Venue flooded');
+  });
+
+  it('processes orders across batches, resuming from the saved cursor', async () => {
+    orders = paidOrders(52);
+    await service.cancelEvent(event.organizerId, { eventId: event.id, reason: 'Venue flooded' });
+
+    const firstBatch = await service.processCancellation(event.id);
+    expect(firstBatch).toMatchObject({ phase: EventCancellationPhase.ORDERS, cursor: 'order-050' });
+    expect(firstBatch.stats.ordersProcessed).toBe(50);
+
+    const cancellation = await runCascade();
+    expect(ticketService.listEventOrdersPage.mock.calls.map(([, cursor]) => cursor)).toEqual([undefined, 'order-050']);
+    expect(ticketService.refundOrderPayment).toHaveBeenCalledTimes(52);
+    expect(cancellation).toMatchObject({
+      status: EventCancellationStatus.COMPLETED,
+      phase: EventCancellationPhase.PARTICIPANTS,
+      cursor: 'order-052',
+    });
+    expect(cancellation.stats).toMatchObject({ ordersProcessed: 52, refundsIssued: 52, refundsFailed: 0 });
+    expect(cancellation.completedAt).toEqual(startedAt);
+  });
+
+  describe('refund failures', () => {
+    beforeEach(async () => {
+      orders = paidOrders(2);
+      ticketService.refundOrderPayment.mockImplementation(async (order: Order) => {
+        if (order.id === 'order-002') {
+          throw new PaymentError('Card network unavailable', 'payment/refund-failed');
+        }
+        return true;
+      });
+      await service.cancelEvent(event.organizerId, { eventId: event.id, reason: 'Venue flooded' });
+    });
+
+    it('records a failed refund for the report and finishes with failures', async () => {
+      const cancellation = await runCascade();
+
+      expect(cancellation.status).toBe(EventCancellationStatus.COMPLETED_WITH_FAILURES);
+      expect(cancellation.stats).toMatchObject({ refundsIssued: 1, refundsFailed: 1 });
+      expect(await getRefundFailure('order-002')).toMatchObject({
+        status: RefundFailureStatus.FAILED,
+        paymentId: 'payment-2',
+        code: 'payment/refund-failed',
+        message: 'Card network unavailable',
+        attempts: 1,
+      });
+      expect(ticketService.releaseCancelledOrder).toHaveBeenCalledWith('order-002', false, 'Event cancelled');
+    });
+
+    it('refuses to retry while the cascade is still running', async () => {
+      let error: any;
+      try {
+        await service.retryFailedRefunds(event.organizerId, event.id);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error?.code).toBe('cancellation/in-progress');
+    });
+
+    it('resolves a failure once a retry gets the refund through', async () => {
+      await runCascade();
+      ticketService.refundOrderPayment.mockResolvedValue(true);
+
+      const report = await service.retryFailedRefunds(event.organizerId, event.id);
+
+      expect(ticketService.refundOrderPayment).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'order-002' }),
+        'event-cancel_order-002_2'
+      );
+      expect(report.refundFailures).toEqual([
+        expect.objectContaining({ orderId: 'order-002', status: RefundFailureStatus.RESOLVED, attempts: 2 }),
+      ]);
+      expect(report.cancellation.status).toBe(EventCancellationStatus.COMPLETED);
+      expect(report.cancellation.stats).toMatchObject({ refundsIssued: 2, refundsFailed: 0 });
+    });
+
+    it('keeps a failure open and counts the attempt when the retry fails again', async () => {
+      await runCascade();
+
+      const report = await service.retryFailedRefunds(event.organizerId, event.id);
+
+      expect(report.refundFailures).toEqual([
+        expect.objectContaining({ orderId: 'order-002', status: RefundFailureStatus.FAILED, attempts: 2 }),
+      ]);
+      expect(report.cancellation.status).toBe(EventCancellationStatus.COMPLETED_WITH_FAILURES);
+      expect((await getCancellation()).stats).toMatchObject({ refundsIssued: 1, refundsFailed: 1 });
+    });
+
+    it('only lets the organizer retry', async () => {
+      await runCascade();
+
+      let error: any;
+      try {
+        await service.retryFailedRefunds('organizer-2', event.id);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error?.code).toBe('cancellation/unauthorized');
+    });
+  });
+
+  describe('attendee notifications', () => {
+    const sentTo = (userId: string) =>
+      notificationService.sendNotification.mock.calls.map(([request]) => request).filter(request => request.userId === userId);
+
+    beforeEach(async () => {
+      await service.cancelEvent(event.organizerId, { eventId: event.id, reason: 'Venue flooded' });
+    });
+
+    it('tells buyers about their refund and guests holding transferred tickets about the event', async () => {
+      orders = [createOrder()];
+      tickets = [createTicket(), createTicket({ id: 'ticket-2', customerId: 'guest-1', customerEmail: 'guest@example.com' })];
+
+      await runCascade();
+
+      expect(sentTo('buyer-1')).toEqual([expect.objectContaining({
+        key: `event-cancelled_${event.id}_buyer-1`,
+        type: NotificationType.EVENT_CANCELLED,
+        title: `${event.title} has been cancelled`,
+        body: 'Venue flooded\n\nYour payment of 1000 PHP has been refunded.',
+      })]);
+      expect(sentTo('guest-1')).toEqual([expect.objectContaining({
+        email: 'guest@example.com',
+        body: 'Venue flooded',
+      })]);
+    });
+
+    it('tells buyers when their refund has to be followed up', async () => {
+      orders = [createOrder()];
+      ticketService.refundOrderPayment.mockRejectedValue(new PaymentError('Card network unavailable', 'payment/refund-failed'));
+
+      await runCascade();
+
+      expect(sentTo('buyer-1')[0]!.body).toContain('We could not refund your payment automatically.');
+    });
+
+    it('tells holders of unpaid reservations without mentioning a refund', async () => {
+      orders = [createOrder({ status: OrderStatus.RESERVED, paymentId: undefined })];
+
+      const cancellation = await runCascade();
+
+      expect(ticketService.refundOrderPayment).not.toHaveBeenCalled();
+      expect(sentTo('buyer-1')).toEqual([expect.objectContaining({ body: 'Venue flooded' })]);
+      expect(cancellation.stats).toMatchObject({ ordersCancelled: 1, ticketsCancelled: 2 });
+    });
+
+    it('tells each registered participant once, leaving out earlier cancellations', async () => {
+      participants = [
+        createParticipation({ id: 'participation-1', userId: 'guest-1' }),
+        createParticipation({ id: 'participation-2', userId: 'guest-1' }),
+        createParticipation({ id: 'participation-3', userId: 'guest-2', cancelledAt: new Date('2026-11-10T00:00:00Z') }),
+        createParticipation({ id: 'participation-4', userId: 'guest-3', status: EventParticipationStatus.REGISTERED, cancelledAt: undefined }),
+      ];
+      eventService.cancelEventParticipations.mockResolvedValue(participants.slice(0, 2));
+
+      const cancellation = await runCascade();
+
+      expect(notifiedUsers()).toEqual(['guest-1']);
+      expect(cancellation.stats.participationsCancelled).toBe(2);
+    });
+  });
+});
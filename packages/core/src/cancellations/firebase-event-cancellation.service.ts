@@ -0,0 +1,383 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import {
+  CancelEventRequest,
+  EventCancellation,
+  EventCancellationError,
+  EventCancellationNotFoundError,
+  EventCancellationPhase,
+  EventCancellationReport,
+  EventCancellationStats,
+  EventCancellationStatus,
+  RefundFailure,
+  RefundFailureStatus,
+  eventCancellationSchema,
+  refundFailureSchema,
+} from './types';
+import { IEventCancellationService } from './event-cancellation.service';
+import { Event, EventError, EventStatus, FirebaseEventService } from '../events';
+import {
+  FirebaseTicketService,
+  Order,
+  OrderRefundOutcome,
+  OrderStatus,
+  TicketError,
+  getStatsIncrements,
+  processOrderBatch,
+  refundOrderAttempt,
+} from '../tickets';
+import { INotificationService, NotificationType } from '../notifications';
+
+interface Recipient {
+  userId: string;
+  email?: string;
+}
+
+export class FirebaseEventCancellationService implements IEventCancellationService {
+  private readonly collectionName = 'eventCancellations';
+  private readonly refundFailuresCollection = 'refundFailures'; // Subcollection of each cancellation
+
+  constructor(
+    private firestore: Firestore,
+    private eventService: FirebaseEventService,
+    private ticketService: FirebaseTicketService,
+    private notificationService: INotificationService
+  ) {}
+
+  private getCancellationRef(eventId: string) {
+    return this.firestore.collection(this.collectionName).doc(eventId);
+  }
+
+  private async getCancellationDoc(eventId: string) {
+    const doc = await this.getCancellationRef(eventId).get();
+    if (!doc.exists) {
+      throw new EventCancellationNotFoundError(eventId);
+    }
+    return doc;
+  }
+
+  private convertToCancellation(doc: FirebaseFirestore.DocumentSnapshot): EventCancellation {
+    const data = doc.data()!;
+    return eventCancellationSchema.parse({
+      ...data,
+      id: doc.id,
+      startedAt: data.startedAt.toDate(),
+      completedAt: data.completedAt?.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToRefundFailure(doc: FirebaseFirestore.DocumentSnapshot): RefundFailure {
+    const data = doc.data()!;
+    return refundFailureSchema.parse({
+      ...data,
+      id: doc.id,
+      failedAt: data.failedAt.toDate(),
+      resolvedAt: data.resolvedAt?.toDate(),
+    });
+  }
+
+  private async getOwnedCancellationDoc(organizerId: string, eventId: string) {
+    const doc = await this.getCancellationDoc(eventId);
+    if (doc.get('organizerId') !== organizerId) {
+      throw new EventCancellationError('Unauthorized', 'cancellation/unauthorized');
+    }
+    return doc;
+  }
+
+  private async buildReport(doc: FirebaseFirestore.DocumentSnapshot): Promise<EventCancellationReport> {
+    const snapshot = await doc.ref.collection(this.refundFailuresCollection).orderBy('failedAt').get();
+    return {
+      cancellation: this.convertToCancellation(doc),
+      refundFailures: snapshot.docs.map(failure => this.convertToRefundFailure(failure)),
+    };
+  }
+
+  // Notification helpers
+
+  // One notification per attendee and event, however many orders or registrations they had
+  private async notifyAttendee(event: Event, cancellation: EventCancellation, recipient: Recipient, detail?: string): Promise<void> {
+    await this.notificationService.sendNotification({
+      key: `event-cancelled_${event.id}_${recipient.userId}`,
+      userId: recipient.userId,
+      email: recipient.email,
+      type: NotificationType.EVENT_CANCELLED,
+      title: `${event.title} has been cancelled`,
+      body: [cancellation.reason, detail].filter(Boolean).join('\n\n'),
+      data: { eventId: event.id },
+    });
+  }
+
+  private getRefundDetail(order: Order, outcome: OrderRefundOutcome | null): string | undefined {
+    if (outcome === 'refunded' || outcome === 'already-refunded') {
+      return `Your payment of ${order.total.amount} ${order.total.currency} has been refunded.`;
+    }
+    if (outcome === 'failed') {
+      return 'We could not refund your payment automatically. The organizer will follow up with you.';
+    }
+    return undefined;
+  }
+
+  // Order helpers
+
+  // Refund a paid order, recording a failure for the report instead of throwing
+  private async refundOrder(cancellation: EventCancellation, order: Order, attempt = 1): Promise<OrderRefundOutcome> {
+    const { outcome, error } = await refundOrderAttempt(this.ticketService, order, 'event-cancel', attempt);
+    if (outcome === 'failed') {
+      await this.getCancellationRef(cancellation.eventId)
+        .collection(this.refundFailuresCollection)
+        .doc(order.id)
+        .set({
+          eventId: cancellation.eventId,
+          orderId: order.id,
+          paymentId: order.paymentId,
+          customerId: order.customerId,
+          customerEmail: order.customerEmail,
+          amount: order.total,
+          status: RefundFailureStatus.FAILED,
+          code: error?.code ?? 'payment/refund-failed',
+          message: error!.message,
+          attempts: attempt,
+          failedAt: Timestamp.now(),
+        });
+    }
+    return outcome;
+  }
+
+  private async cancelOrder(event: Event, cancellation: EventCancellation, listed: Order): Promise<Partial<EventCancellationStats>> {
+    const reason = 'Event cancelled';
+
+    let order = listed;
+    if (order.status === OrderStatus.RESERVED || order.status === OrderStatus.PENDING_PAYMENT) {
+      const settled = await this.ticketService.cancelUnpaidOrder(order.id, reason);
+      // Orders paid before their checkout could be stopped are refunded below like any other
+      if (settled?.status === OrderStatus.COMPLETED) {
+        order = settled;
+      } else {
+        if (settled) {
+          await this.notifyAttendee(event, cancellation, { userId: order.customerId, email: order.customerEmail });
+        }
+        return {
+          ordersProcessed: 1,
+          ordersCancelled: settled ? 1 : 0,
+          ticketsCancelled: settled ? order.items.reduce((sum, item) => sum + item.quantity, 0) : 0,
+        };
+      }
+    }
+
+    if (order.status !== OrderStatus.COMPLETED) {
+      return { ordersProcessed: 1 };
+    }
+
+    const outcome = order.paymentId && order.total.amount > 0
+      ? await this.refundOrder(cancellation, order)
+      : null;
+    const refunded = outcome === 'refunded' || outcome === 'already-refunded';
+    const tickets = await this.ticketService.releaseCancelledOrder(order.id, refunded, reason);
+
+    // The buyer hears about the refund; guests holding transferred tickets hear about the event
+    const detail = this.getRefundDetail(order, outcome);
+    await this.notifyAttendee(event, cancellation, { userId: order.customerId, email: order.customerEmail }, detail);
+    for (const ticket of tickets.filter(ticket => ticket.customerId !== order.customerId)) {
+      await this.notifyAttendee(event, cancellation, { userId: ticket.customerId, email: ticket.customerEmail });
+    }
+
+    return {
+      ordersProcessed: 1,
+      ticketsRefunded: refunded ? tickets.length : 0,
+      ticketsCancelled: refunded ? 0 : tickets.length,
+      refundsIssued: outcome === 'refunded' ? 1 : 0,
+      refundsFailed: outcome === 'failed' ? 1 : 0,
+    };
+  }
+
+  private async processOrders(event: Event, cancellation: EventCancellation): Promise<void> {
+    const ref = this.getCancellationRef(cancellation.eventId);
+    const done = await processOrderBatch(
+      this.ticketService,
+      { eventId: cancellation.eventId, cursor: cancellation.cursor, progressRef: ref },
+      async order => getStatsIncrements(await this.cancelOrder(event, cancellation, order))
+    );
+
+    if (done) {
+      await ref.update({
+        phase: EventCancellationPhase.PARTICIPANTS,
+        updatedAt: Timestamp.now(),
+      });
+    }
+  }
+
+  private async processParticipants(event: Event, cancellation: EventCancellation): Promise<void> {
+    const cancelled = await this.eventService.cancelEventParticipations(cancellation.eventId);
+    await this.getCancellationRef(cancellation.eventId).update({
+      ...getStatsIncrements({ participationsCancelled: cancelled.length }),
+      updatedAt: Timestamp.now(),
+    });
+
+    // Everyone whose registration ended with the event, including those of an interrupted run
+    const participants = await this.eventService.listEventParticipants(cancellation.eventId);
+    const userIds = new Set(
+      participants
+        .filter(participation => participation.cancelledAt && participation.cancelledAt >= cancellation.startedAt)
+        .map(participation => participation.userId)
+    );
+    for (const userId of userIds) {
+      await this.notifyAttendee(event, cancellation, { userId });
+    }
+
+    const doc = await this.getCancellationDoc(cancellation.eventId);
+    const now = Timestamp.now();
+    await doc.ref.update({
+      status: doc.get('stats.refundsFailed') > 0
+        ? EventCancellationStatus.COMPLETED_WITH_FAILURES
+        : EventCancellationStatus.COMPLETED,
+      completedAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async cancelEvent(organizerId: string, request: CancelEventRequest): Promise<EventCancellation> {
+    try {
+      const event = await this.eventService.getEvent(request.eventId);
+      if (event.organizerId !== organizerId) {
+        throw new EventCancellationError('Unauthorized event cancellation', 'cancellation/unauthorized');
+      }
+
+      const ref = this.getCancellationRef(request.eventId);
+      const existing = await ref.get();
+      if (existing.exists) {
+        return this.convertToCancellation(existing);
+      }
+      if (event.status === EventStatus.COMPLETED) {
+        throw new EventCancellationError('Completed events cannot be cancelled', 'cancellation/event-completed');
+      }
+
+      // Sales stop before the cascade starts, so no new order appears behind it
+      await this.eventService.markEventCancelled(request.eventId);
+
+      const now = Timestamp.now();
+      try {
+        await ref.create({
+          eventId: request.eventId,
+          organizerId,
+          status: EventCancellationStatus.IN_PROGRESS,
+          phase: EventCancellationPhase.ORDERS,
+          reason: request.reason,
+          stats: {},
+          startedAt: now,
+          updatedAt: now,
+        });
+      } catch (error: any) {
+        // A concurrent request started the cancellation first
+        const concurrent = await ref.get();
+        if (!concurrent.exists) {
+          throw error;
+        }
+      }
+
+      return this.convertToCancellation(await ref.get());
+    } catch (error: any) {
+      if (error instanceof EventCancellationError || error instanceof EventError) throw error;
+      throw new EventCancellationError('Failed to cancel event', 'cancellation/cancel-failed', error);
+    }
+  }
+
+  /**
+   * Run one batch of the cascade and return the progress. Callers keep calling it until
+   * the cancellation is no longer in progress; every step is safe to run again.
+   */
+  async processCancellation(eventId: string): Promise<EventCancellation> {
+    try {
+      const cancellation = this.convertToCancellation(await this.getCancellationDoc(eventId));
+      if (cancellation.status !== EventCancellationStatus.IN_PROGRESS) {
+        return cancellation;
+      }
+
+      const event = await this.eventService.getEvent(eventId);
+      if (cancellation.phase === EventCancellationPhase.ORDERS) {
+        await this.processOrders(event, cancellation);
+      } else {
+        await this.processParticipants(event, cancellation);
+      }
+
+      return this.convertToCancellation(await this.getCancellationDoc(eventId));
+    } catch (error: any) {
+      if (error instanceof EventCancellationError || error instanceof EventError || error instanceof TicketError) throw error;
+      throw new EventCancellationError('Failed to process event cancellation', 'cancellation/process-failed', error);
+    }
+  }
+
+  async listActiveCancellations(): Promise<EventCancellation[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.collectionName)
+        .where('status', '==', EventCancellationStatus.IN_PROGRESS)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToCancellation(doc));
+    } catch (error: any) {
+      throw new EventCancellationError('Failed to list cancellations', 'cancellation/list-failed', error);
+    }
+  }
+
+  async getCancellationReport(organizerId: string, eventId: string): Promise<EventCancellationReport> {
+    try {
+      const doc = await this.getOwnedCancellationDoc(organizerId, eventId);
+      return await this.buildReport(doc);
+    } catch (error: any) {
+      if (error instanceof EventCancellationError) throw error;
+      throw new EventCancellationError('Failed to get cancellation report', 'cancellation/get-failed', error);
+    }
+  }
+
+  /**
+   * Try every failed refund again. Tickets of those orders stay cancelled; the payment
+   * webhook marks the order refunded once the provider confirms.
+   */
+  async retryFailedRefunds(organizerId: string, eventId: string): Promise<EventCancellationReport> {
+    try {
+      const doc = await this.getOwnedCancellationDoc(organizerId, eventId);
+      const cancellation = this.convertToCancellation(doc);
+      if (cancellation.status === EventCancellationStatus.IN_PROGRESS) {
+        throw new EventCancellationError('Cancellation is still in progress', 'cancellation/in-progress');
+      }
+
+      const snapshot = await doc.ref
+        .collection(this.refundFailuresCollection)
+        .where('status', '==', RefundFailureStatus.FAILED)
+        .get();
+
+      for (const failureDoc of snapshot.docs) {
+        const failure = this.convertToRefundFailure(failureDoc);
+        const order = await this.ticketService.getOrder(failure.orderId);
+        const outcome = await this.refundOrder(cancellation, order, failure.attempts + 1);
+        if (outcome === 'failed') {
+          continue;
+        }
+
+        const now = Timestamp.now();
+        await failureDoc.ref.update({
+          status: RefundFailureStatus.RESOLVED,
+          attempts: failure.attempts + 1,
+          resolvedAt: now,
+        });
+        await doc.ref.update({
+          ...getStatsIncrements({ refundsFailed: -1, refundsIssued: outcome === 'refunded' ? 1 : 0 }),
+          updatedAt: now,
+        });
+      }
+
+      const updated = await doc.ref.get();
+      await doc.ref.update({
+        status: updated.get('stats.refundsFailed') > 0
+          ? EventCancellationStatus.COMPLETED_WITH_FAILURES
+          : EventCancellationStatus.COMPLETED,
+        updatedAt: Timestamp.now(),
+      });
+
+      return await this.buildReport(await doc.ref.get());
+    } catch (error: any) {
+      if (error instanceof EventCancellationError || error instanceof TicketError) throw error;
+      throw new EventCancellationError('Failed to retry refunds', 'cancellation/retry-failed', error);
+    }
+  }
+}
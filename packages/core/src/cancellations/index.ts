@@ -0,0 +1,3 @@
+export * from './types';
+export * from './event-cancellation.service';
+export * from './firebase-event-cancellation.service';
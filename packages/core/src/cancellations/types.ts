@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { ticketPriceSchema } from '../tickets/types';
+
+export enum EventCancellationStatus {
+  IN_PROGRESS = 'IN_PROGRESS',
+  COMPLETED = 'COMPLETED',
+  COMPLETED_WITH_FAILURES = 'COMPLETED_WITH_FAILURES', // Some refunds still need attention
+}
+
+// The cascade settles every order first, then closes the remaining registrations
+export enum EventCancellationPhase {
+  ORDERS = 'ORDERS',
+  PARTICIPANTS = 'PARTICIPANTS',
+}
+
+export enum RefundFailureStatus {
+  FAILED = 'FAILED',
+  RESOLVED = 'RESOLVED', // Refunded by a later retry
+}
+
+export const eventCancellationStatsSchema = z.object({
+  ordersProcessed: z.number().int().min(0).default(0),
+  ordersCancelled: z.number().int().min(0).default(0), // Unpaid reservations
+  ticketsCancelled: z.number().int().min(0).default(0),
+  ticketsRefunded: z.number().int().min(0).default(0),
+  refundsIssued: z.number().int().min(0).default(0),
+  refundsFailed: z.number().int().min(0).default(0), // Failures not yet resolved by a retry
+  participationsCancelled: z.number().int().min(0).default(0),
+});
+
+export type EventCancellationStats = z.infer<typeof eventCancellationStatsSchema>;
+
+export const eventCancellationSchema = z.object({
+  id: z.string(), // Same as the event id, so an event is cancelled once
+  eventId: z.string(),
+  organizerId: z.string(),
+  status: z.nativeEnum(EventCancellationStatus),
+  phase: z.nativeEnum(EventCancellationPhase),
+  reason: z.string(),
+  cursor: z.string().optional(), // Last order handled, where the next batch starts
+  stats: eventCancellationStatsSchema,
+  startedAt: z.date(),
+  completedAt: z.date().optional(),
+  updatedAt: z.date(),
+});
+
+export type EventCancellation = z.infer<typeof eventCancellationSchema>;
+
+export const refundFailureSchema = z.object({
+  id: z.string(), // Same as the order id
+  eventId: z.string(),
+  orderId: z.string(),
+  paymentId: z.string(),
+  customerId: z.string(),
+  customerEmail: z.string().email(),
+  amount: ticketPriceSchema,
+  status: z.nativeEnum(RefundFailureStatus),
+  code: z.string(),
+  message: z.string(),
+  attempts: z.number().int().positive(),
+  failedAt: z.date(),
+  resolvedAt: z.date().optional(),
+});
+
+export type RefundFailure = z.infer<typeof refundFailureSchema>;
+
+export interface EventCancellationReport {
+  cancellation: EventCancellation;
+  refundFailures: RefundFailure[];
+}
+
+export interface CancelEventRequest {
+  eventId: string;
+  reason: string; // Shown to attendees
+}
+
+// Error types
+export class EventCancellationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'EventCancellationError';
+  }
+}
+
+export class EventCancellationNotFoundError extends EventCancellationError {
+  constructor(eventId: string) {
+    super(
+      `Cancellation of event ${eventId} not found`,
+      'cancellation/not-found'
+    );
+    this.name = 'EventCancellationNotFoundError';
+  }
+}
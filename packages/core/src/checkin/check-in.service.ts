@@ -0,0 +1,18 @@
+import {
+  CheckInResult,
+  CheckInManifest,
+  CheckInScan,
+  SyncCheckInsRequest,
+  SyncCheckInsResult
+} from './types';
+
+export interface ICheckInService {
+  // Door check-in
+  checkInWithCredential(organizerId: string, token: string, sessionId?: string): Promise<CheckInResult>;
+
+  // Offline scanning
+  exportManifest(organizerId: string, eventId: string): Promise<CheckInManifest>;
+  getManifestPublicKey(): string;
+  syncCheckIns(organizerId: string, eventId: string, request: SyncCheckInsRequest): Promise<SyncCheckInsResult>;
+  listDuplicateScans(organizerId: string, eventId: string): Promise<CheckInScan[]>;
+}
@@ -0,0 +1,361 @@
+import { createHash } from 'crypto';
+import { Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import {
+  CheckInResult,
+  CheckInError,
+  CredentialMismatchError,
+  CheckInManifest,
+  CheckInManifestEntry,
+  CheckInScan,
+  CheckInScanOutcome,
+  CheckInScanRecord,
+  SyncCheckInsRequest,
+  SyncCheckInsResult,
+  checkInScanSchema,
+} from './types';
+import { ICheckInService } from './check-in.service';
+import { ManifestSigner } from './manifest-signer';
+import {
+  ITicketService,
+  Ticket,
+  TicketCredentialSigner,
+  TicketError,
+  TicketAlreadyUsedError,
+  TicketStatus,
+} from '../tickets';
+import { IEventService, Event, EventError, EventParticipation } from '../events';
+import { defaultAddOnVariantName } from '../addons';
+
+export class FirebaseCheckInService implements ICheckInService {
+  private readonly manifestsCollection = 'checkInManifests';
+  private readonly manifestVersionsCollection = 'versions';
+  private readonly scansCollection = 'checkInScans';
+
+  constructor(
+    private firestore: Firestore,
+    private ticketService: ITicketService,
+    private eventService: IEventService,
+    private credentialSigner: TicketCredentialSigner,
+    private manifestSigner: ManifestSigner
+  ) {}
+
+  private async verifyOrganizerOwnsEvent(organizerId: string, eventId: string): Promise<Event> {
+    const event = await this.eventService.getEvent(eventId);
+    if (event.organizerId !== organizerId) {
+      throw new CheckInError('Unauthorized: Not the event organizer', 'check-in/unauthorized');
+    }
+    return event;
+  }
+
+  private hashCredential(credential: string): string {
+    return createHash('sha256').update(credential).digest('hex');
+  }
+
+  private getManifestPayload(manifest: Omit<CheckInManifest, 'signature'>): string {
+    return JSON.stringify({
+      eventId: manifest.eventId,
+      version: manifest.version,
+      generatedAt: manifest.generatedAt.toISOString(),
+      entries: manifest.entries.map(entry => ({
+        ...entry,
+        checkedInAt: entry.checkedInAt?.toISOString(),
+      })),
+    });
+  }
+
+  private convertToScan(doc: FirebaseFirestore.DocumentSnapshot): CheckInScan {
+    const data = doc.data()!;
+    return checkInScanSchema.parse({
+      ...data,
+      id: doc.id,
+      scannedAt: data.scannedAt.toDate(),
+      syncedAt: data.syncedAt.toDate(),
+    });
+  }
+
+  /**
+   * Mark the ticket used and confirm the holder's participation, for the event or one of
+   * its sessions. The mark is undone when the participation step fails, so a failed
+   * check-in never leaves the ticket burned.
+   */
+  private async admitTicket(
+    organizerId: string,
+    ticket: Ticket,
+    checkedInAt: Date,
+    sessionId?: string
+  ): Promise<{ ticket: Ticket; participation: EventParticipation }> {
+    const checkedIn = await this.ticketService.markTicketCheckedIn(ticket.id, checkedInAt, sessionId);
+
+    try {
+      const participation = sessionId
+        ? await this.eventService.checkInSession(organizerId, sessionId, checkedIn.customerId, checkedIn.id, checkedInAt)
+        : await this.eventService.checkInParticipant(organizerId, checkedIn.eventId, checkedIn.customerId, checkedIn.id, checkedInAt);
+      return { ticket: checkedIn, participation };
+    } catch (error) {
+      await this.ticketService.revertTicketCheckIn(ticket.id, checkedInAt, sessionId);
+      throw error;
+    }
+  }
+
+  async checkInWithCredential(organizerId: string, token: string, sessionId?: string): Promise<CheckInResult> {
+    try {
+      const claims = this.credentialSigner.verify(token);
+
+      // Check the organizer before touching the ticket so a foreign scan cannot burn it
+      const event = await this.verifyOrganizerOwnsEvent(organizerId, claims.eid);
+
+      const ticket = await this.ticketService.getTicket(claims.tid);
+
+      // Reject credentials issued to a previous holder or for another event/ticket type
+      if (
+        ticket.eventId !== claims.eid ||
+        ticket.ticketTypeId !== claims.ttid ||
+        ticket.customerId !== claims.hid ||
+        ticket.credentialVersion !== claims.ver
+      ) {
+        throw new CredentialMismatchError(ticket.id);
+      }
+
+      // Multi-session events admit per session; single-session tickets know theirs
+      const session = sessionId ?? ticket.sessionId;
+      if (!session && event.schedule) {
+        throw new CheckInError('Choose the session to check in to', 'check-in/session-required');
+      }
+
+      const { ticket: checkedIn, participation } = await this.admitTicket(organizerId, ticket, new Date(), session);
+
+      return {
+        ticket: checkedIn,
+        participation,
+        ...(session ? { sessionId: session } : {}),
+        addOns: await this.ticketService.listTicketAddOns(checkedIn.id),
+        checkedInAt: session ? checkedIn.sessionCheckIns[session]! : checkedIn.checkedInAt!,
+      };
+    } catch (error: any) {
+      if (error instanceof CheckInError || error instanceof TicketError || error instanceof EventError) throw error;
+      throw new CheckInError('Failed to check in ticket', 'check-in/failed', error);
+    }
+  }
+
+  async exportManifest(organizerId: string, eventId: string): Promise<CheckInManifest> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
+      const tickets = await this.ticketService.listEventTickets(eventId);
+      const addOns = await this.ticketService.listEventTicketAddOns(eventId);
+      const entries: CheckInManifestEntry[] = tickets
+        .filter((ticket): ticket is Ticket & { credential: string } =>
+          ticket.status === TicketStatus.SOLD && !!ticket.credential
+        )
+        .map(ticket => ({
+          ticketId: ticket.id,
+          ticketTypeId: ticket.ticketTypeId,
+          holderName: ticket.customerName,
+          credentialHash: this.hashCredential(ticket.credential),
+          credentialVersion: ticket.credentialVersion ?? 1,
+          addOns: (addOns.get(ticket.id) ?? []).map(addOn =>
+            `${addOn.name}${addOn.variantName === defaultAddOnVariantName ? '' : ` (${addOn.variantName})`} x${addOn.quantity}`
+          ),
+          checkedInAt: ticket.checkedInAt,
+        }));
+
+      // Versions only move forward so devices can tell whether their copy is stale
+      const manifestRef = this.firestore.collection(this.manifestsCollection).doc(eventId);
+      const generatedAt = new Date();
+      const version = await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const doc = await transaction.get(manifestRef);
+        const next = (doc.exists ? doc.get('version') : 0) + 1;
+        const manifestData = {
+          eventId,
+          version: next,
+          entryCount: entries.length,
+          generatedAt: Timestamp.fromDate(generatedAt),
+          generatedBy: organizerId,
+        };
+        transaction.set(manifestRef, manifestData);
+        // Every version is kept so scans uploaded from an older copy can still be checked
+        transaction.set(manifestRef.collection(this.manifestVersionsCollection).doc(String(next)), manifestData);
+        return next as number;
+      });
+
+      const manifest = { eventId, version, generatedAt, entries };
+      return {
+        ...manifest,
+        signature: this.manifestSigner.sign(this.getManifestPayload(manifest)),
+      };
+    } catch (error: any) {
+      if (error instanceof CheckInError || error instanceof EventError) throw error;
+      throw new CheckInError('Failed to export check-in manifest', 'check-in/manifest-failed', error);
+    }
+  }
+
+  getManifestPublicKey(): string {
+    return this.manifestSigner.getPublicKeyPem();
+  }
+
+  async syncCheckIns(organizerId: string, eventId: string, request: SyncCheckInsRequest): Promise<SyncCheckInsResult> {
+    try {
+      const event = await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
+      // The latest version is read from the manifest itself, which predates the version history
+      const manifestRef = this.firestore.collection(this.manifestsCollection).doc(eventId);
+      const latest = await manifestRef.get();
+      const manifestDoc = latest.get('version') === request.manifestVersion
+        ? latest
+        : await manifestRef.collection(this.manifestVersionsCollection).doc(String(request.manifestVersion)).get();
+      if (!manifestDoc.exists) {
+        throw new CheckInError(`Unknown manifest version ${request.manifestVersion}`, 'check-in/unknown-manifest');
+      }
+      const manifestGeneratedAt: Date = manifestDoc.get('generatedAt').toDate();
+
+      const result: SyncCheckInsResult = { accepted: 0, duplicates: 0, rejected: 0, scans: [] };
+
+      // Oldest scans first so the earliest admission wins when devices disagree
+      const records = [...request.records].sort((a, b) => a.scannedAt.getTime() - b.scannedAt.getTime());
+
+      for (const record of records) {
+        const scan = await this.reconcileScan(organizerId, event, request, manifestGeneratedAt, record);
+        result.scans.push(scan);
+
+        switch (scan.outcome) {
+          case CheckInScanOutcome.ACCEPTED:
+            result.accepted++;
+            break;
+          case CheckInScanOutcome.DUPLICATE:
+            result.duplicates++;
+            break;
+          case CheckInScanOutcome.REJECTED:
+            result.rejected++;
+            break;
+        }
+      }
+
+      return result;
+    } catch (error: any) {
+      if (error instanceof CheckInError || error instanceof EventError) throw error;
+      throw new CheckInError('Failed to sync check-ins', 'check-in/sync-failed', error);
+    }
+  }
+
+  async listDuplicateScans(organizerId: string, eventId: string): Promise<CheckInScan[]> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
+      const snapshot = await this.firestore
+        .collection(this.scansCollection)
+        .where('eventId', '==', eventId)
+        .where('outcome', '==', CheckInScanOutcome.DUPLICATE)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToScan(doc));
+    } catch (error: any) {
+      if (error instanceof CheckInError || error instanceof EventError) throw error;
+      throw new CheckInError('Failed to list duplicate scans', 'check-in/list-failed', error);
+    }
+  }
+
+  /**
+   * Devices only hold the manifest, so a scan is trusted as far as the ticket still matches
+   * the entry the device saw: same event, still sold, sold before the manifest was exported,
+   * and the credential that was current then.
+   */
+  private validateScannedTicket(ticket: Ticket, eventId: string, manifestGeneratedAt: Date, record: CheckInScanRecord): void {
+    if (ticket.eventId !== eventId) {
+      throw new CheckInError('Ticket belongs to another event', 'check-in/event-mismatch');
+    }
+    if (ticket.status !== TicketStatus.SOLD) {
+      throw new CheckInError(`Ticket is ${ticket.status.toLowerCase()}`, 'check-in/invalid-status');
+    }
+    if (!ticket.purchasedAt || ticket.purchasedAt > manifestGeneratedAt) {
+      throw new CheckInError('Ticket is not in the manifest', 'check-in/not-in-manifest');
+    }
+    if ((ticket.credentialVersion ?? 1) !== record.credentialVersion) {
+      throw new CredentialMismatchError(ticket.id);
+    }
+  }
+
+  private async reconcileScan(
+    organizerId: string,
+    event: Event,
+    request: SyncCheckInsRequest,
+    manifestGeneratedAt: Date,
+    record: CheckInScanRecord
+  ): Promise<CheckInScan> {
+    // Scan IDs are per device, so the pair identifies a scan across re-uploads
+    const scanRef = this.firestore.collection(this.scansCollection).doc(`${request.deviceId}_${record.scanId}`);
+    const existing = await scanRef.get();
+    if (existing.exists) {
+      return this.convertToScan(existing);
+    }
+
+    const eventId = event.id;
+    let outcome = CheckInScanOutcome.ACCEPTED;
+    let reason: string | undefined;
+    let duplicateOfDeviceId: string | undefined;
+    let sessionId = record.sessionId;
+
+    try {
+      const ticket = await this.ticketService.getTicket(record.ticketId);
+      this.validateScannedTicket(ticket, eventId, manifestGeneratedAt, record);
+
+      // Same session rules as the door: passes need the session, single-session tickets know theirs
+      sessionId = record.sessionId ?? ticket.sessionId;
+      if (!sessionId && event.schedule) {
+        throw new CheckInError('Scan has no session', 'check-in/session-required');
+      }
+
+      await this.admitTicket(organizerId, ticket, record.scannedAt, sessionId);
+    } catch (error: any) {
+      if (error instanceof TicketAlreadyUsedError) {
+        outcome = CheckInScanOutcome.DUPLICATE;
+        reason = error.message;
+        duplicateOfDeviceId = await this.findAcceptingDevice(eventId, record.ticketId, sessionId);
+      } else if (error instanceof CheckInError || error instanceof TicketError || error instanceof EventError) {
+        outcome = CheckInScanOutcome.REJECTED;
+        reason = error.message;
+      } else {
+        throw error;
+      }
+    }
+
+    const now = Timestamp.now();
+    const scanData = {
+      eventId,
+      deviceId: request.deviceId,
+      scanId: record.scanId,
+      ticketId: record.ticketId,
+      ...(sessionId ? { sessionId } : {}),
+      manifestVersion: request.manifestVersion,
+      outcome,
+      ...(reason ? { reason } : {}),
+      ...(duplicateOfDeviceId ? { duplicateOfDeviceId } : {}),
+      scannedAt: Timestamp.fromDate(record.scannedAt),
+      syncedAt: now,
+    };
+
+    try {
+      await scanRef.create(scanData);
+    } catch (error: any) {
+      // A concurrent upload of the same batch recorded this scan first; report its outcome
+      const concurrent = await scanRef.get();
+      if (concurrent.exists) {
+        return this.convertToScan(concurrent);
+      }
+      throw error;
+    }
+
+    return this.convertToScan(await scanRef.get());
+  }
+
+  private async findAcceptingDevice(eventId: string, ticketId: string, sessionId?: string): Promise<string | undefined> {
+    const snapshot = await this.firestore
+      .collection(this.scansCollection)
+      .where('eventId', '==', eventId)
+      .where('ticketId', '==', ticketId)
+      .where('outcome', '==', CheckInScanOutcome.ACCEPTED)
+      .get();
+
+    // Tickets admitted online have no scan record, so there may be no device to point at
+    return snapshot.docs.find(doc => doc.get('sessionId') === sessionId)?.get('deviceId');
+  }
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './check-in.service';
+export * from './firebase-check-in.service';
+export * from './manifest-signer';
\ No newline at end of file
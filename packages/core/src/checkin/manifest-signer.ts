@@ -0,0 +1,27 @@
+import { createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+
+/**
+ * Signs check-in manifests with an Ed25519 key. Scanner devices only ever receive the
+ * public key, so they can verify a manifest offline without being able to forge one.
+ */
+export class ManifestSigner {
+  private privateKey: KeyObject;
+  private publicKey: KeyObject;
+
+  constructor(privateKeyPem: string) {
+    this.privateKey = createPrivateKey(privateKeyPem);
+    this.publicKey = createPublicKey(this.privateKey);
+  }
+
+  getPublicKeyPem(): string {
+    return this.publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  sign(payload: string): string {
+    return sign(null, Buffer.from(payload), this.privateKey).toString('base64url');
+  }
+
+  verify(payload: string, signature: string): boolean {
+    return verify(null, Buffer.from(payload), this.publicKey, Buffer.from(signature, 'base64url'));
+  }
+}
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { OrderAddOn, Ticket } from '../tickets';
+import { EventParticipation } from '../events';
+
+export enum CheckInScanOutcome {
+  ACCEPTED = 'ACCEPTED',    // First valid scan, guest admitted
+  DUPLICATE = 'DUPLICATE',  // Ticket was already admitted, possibly by another device
+  REJECTED = 'REJECTED',    // Ticket unknown, cancelled or for another event
+}
+
+export interface CheckInResult {
+  ticket: Ticket;
+  participation: EventParticipation;
+  sessionId?: string;
+  addOns: OrderAddOn[]; // To hand over at the door
+  checkedInAt: Date;
+}
+
+export const checkInManifestEntrySchema = z.object({
+  ticketId: z.string(),
+  ticketTypeId: z.string(),
+  holderName: z.string(),
+  // sha256 of the QR credential, so devices can match scans without holding the signing secret
+  credentialHash: z.string(),
+  credentialVersion: z.number().int(),
+  addOns: z.array(z.string()).default([]), // e.g. "T-Shirt (L) x1"
+  checkedInAt: z.date().optional(),
+});
+
+export type CheckInManifestEntry = z.infer<typeof checkInManifestEntrySchema>;
+
+export const checkInManifestSchema = z.object({
+  eventId: z.string(),
+  version: z.number().int().positive(),
+  generatedAt: z.date(),
+  entries: z.array(checkInManifestEntrySchema),
+  signature: z.string(),
+});
+
+export type CheckInManifest = z.infer<typeof checkInManifestSchema>;
+
+export const checkInScanSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  deviceId: z.string(),
+  scanId: z.string(),
+  ticketId: z.string(),
+  sessionId: z.string().optional(),
+  manifestVersion: z.number().int(),
+  outcome: z.nativeEnum(CheckInScanOutcome),
+  reason: z.string().optional(),
+  // Device that admitted the guest first, set on duplicates
+  duplicateOfDeviceId: z.string().optional(),
+  scannedAt: z.date(),
+  syncedAt: z.date(),
+});
+
+export type CheckInScan = z.infer<typeof checkInScanSchema>;
+
+export interface CheckInScanRecord {
+  scanId: string; // Generated on the device, makes re-uploads idempotent
+  ticketId: string;
+  credentialVersion: number; // From the manifest entry the scanned credential matched
+  sessionId?: string; // Session the device was admitting to, for multi-session events
+  scannedAt: Date;
+}
+
+export interface SyncCheckInsRequest {
+  deviceId: string;
+  manifestVersion: number;
+  records: CheckInScanRecord[];
+}
+
+export interface SyncCheckInsResult {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  scans: CheckInScan[];
+}
+
+// Error types
+export class CheckInError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'CheckInError';
+  }
+}
+
+export class CredentialMismatchError extends CheckInError {
+  constructor(ticketId: string) {
+    super(
+      `Credential does not match the current holder of ticket ${ticketId}`,
+      'check-in/credential-mismatch'
+    );
+    this.name = 'CredentialMismatchError';
+  }
+}
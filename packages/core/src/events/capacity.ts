@@ -0,0 +1,18 @@
+import { EventCapacityStatus, EventCapacityUsage } from './types';
+
+/**
+ * Remaining places in the event's shared pool. Counters of events created before the
+ * pool existed can drift below zero as old tickets are cancelled, so they are clamped.
+ */
+export function getCapacityStatus(capacity: number, usage: EventCapacityUsage): EventCapacityStatus {
+  const reserved = Math.max(usage.reserved, 0);
+  const sold = Math.max(usage.sold, 0);
+  const registered = Math.max(usage.registered, 0);
+  return {
+    total: capacity,
+    reserved,
+    sold,
+    registered,
+    available: Math.max(capacity - reserved - sold - registered, 0),
+  };
+}
@@ -3,11 +3,14 @@ import {
   CreateEventRequest, 
   UpdateEventRequest, 
   EventSearchParams,
+  EventSession,
   EventParticipation,
   EventParticipationType,
   EventStats,
+  EventCapacityStatus,
   UserEventHistory
 } from './types';
+import { EventSearchResult } from '../search/types';
 
 export interface IEventService {
   // Event CRUD
@@ -19,35 +22,42 @@ export interface IEventService {
   // Event Listing & Search
   listEvents(params?: EventSearchParams): Promise<Event[]>;
   listOrganizerEvents(organizerId: string): Promise<Event[]>;
-  searchEvents(query: string, params?: EventSearchParams): Promise<Event[]>;
+  searchEvents(query: string, params?: EventSearchParams): Promise<EventSearchResult[]>;
+  rebuildSearchIndex(): Promise<number>;
   
   // Event Stats
   getEventStats(eventId: string): Promise<EventStats>;
   getEventAttendeeCount(eventId: string): Promise<number>;
-  getEventCapacityStatus(eventId: string): Promise<{
-    total: number;
-    reserved: number;
-    available: number;
-  }>;
+  getEventCapacityStatus(eventId: string): Promise<EventCapacityStatus>;
   
   // Event Validation
   validateEventDates(startDateTime: Date, endDateTime: Date): Promise<void>;
   validateEventCapacity(eventId: string): Promise<void>;
   
   // Event Access
-  isEventVisible(eventId: string, userId?: string): Promise<boolean>;
-  canUserAccessEvent(eventId: string, userId: string): Promise<boolean>;
+  // email is the viewer's verified account email, matched against invitations
+  isEventVisible(eventId: string, userId?: string, email?: string): Promise<boolean>;
+  canUserAccessEvent(eventId: string, userId: string, email?: string): Promise<boolean>;
+
+  // Event Sessions
+  listEventSessions(eventId: string): Promise<EventSession[]>;
+  getEventSession(sessionId: string): Promise<EventSession>;
+  cancelEventSession(organizerId: string, sessionId: string): Promise<EventSession>;
+  checkInSession(organizerId: string, sessionId: string, userId: string, ticketId: string, checkedInAt?: Date): Promise<EventParticipation>;
 
   // Event Participation
   registerForEvent(userId: string, eventId: string, type: EventParticipationType): Promise<EventParticipation>;
+  registerTicketHolder(userId: string, eventId: string, ticketId: string): Promise<EventParticipation>;
+  transferTicketParticipation(ticketId: string, userId: string): Promise<EventParticipation>;
   cancelParticipation(userId: string, eventId: string): Promise<void>;
-  checkInParticipant(organizerId: string, eventId: string, userId: string): Promise<EventParticipation>;
+  checkInParticipant(organizerId: string, eventId: string, userId: string, ticketId?: string, checkedInAt?: Date): Promise<EventParticipation>;
   markNoShow(organizerId: string, eventId: string, userId: string): Promise<EventParticipation>;
   
   // User Event History
   getUserEventHistory(userId: string): Promise<UserEventHistory>;
   listEventParticipants(eventId: string): Promise<EventParticipation[]>;
   getParticipation(eventId: string, userId: string): Promise<EventParticipation | null>;
+  getTicketParticipation(ticketId: string): Promise<EventParticipation | null>;
   
   // Waitlist Management
   joinWaitlist(userId: string, eventId: string): Promise<EventParticipation>;
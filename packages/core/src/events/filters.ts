@@ -0,0 +1,30 @@
+import { Event, EventLocationType, EventSearchParams } from './types';
+import { getEventCoordinates, getGeoSearchArea } from './location';
+
+/**
+ * Check an event against search params in memory, for results that could not be
+ * filtered by the query itself. Only published events match, as when listing.
+ */
+export function matchesEventSearchParams(event: Event, params: EventSearchParams): boolean {
+  if (!event.isPublished) return false;
+  if (params.organizerId && event.organizerId !== params.organizerId) return false;
+  if (params.status && event.status !== params.status) return false;
+  if (params.visibility && event.visibility !== params.visibility) return false;
+  if (params.startDate && event.startDateTime < new Date(params.startDate)) return false;
+  if (params.endDate && event.endDateTime > new Date(params.endDate)) return false;
+  if (params.categories?.length && !params.categories.some(category => event.categories.includes(category))) return false;
+  if (params.tags?.length && !params.tags.some(tag => event.tags.includes(tag))) return false;
+
+  if (params.city) {
+    const city = event.location.type === EventLocationType.OFFLINE ? event.location.address.city : undefined;
+    if (city?.toLowerCase() !== params.city.toLowerCase()) return false;
+  }
+
+  const area = getGeoSearchArea(params);
+  if (area) {
+    const coordinates = getEventCoordinates(event);
+    if (!coordinates || !area.contains(coordinates)) return false;
+  }
+
+  return true;
+}
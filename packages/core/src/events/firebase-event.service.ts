@@ -1,8 +1,10 @@
-import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
 import { 
   Event,
+  EventStatus,
   EventError,
   EventNotFoundError,
+  EventRescheduleRequiredError,
   InvalidEventDatesError,
   EventCapacityError,
   CreateEventRequest,
@@ -10,20 +12,41 @@ import {
   EventSearchParams,
   eventSchema,
   EventVisibility,
+  EventSession,
+  EventSessionStatus,
+  EventSessionNotFoundError,
   EventParticipation,
   EventParticipationType,
   EventParticipationStatus,
   EventStats,
+  EventCapacityStatus,
   UserEventHistory,
-  eventParticipationSchema
+  eventParticipationSchema,
+  eventSessionSchema
 } from './types';
 import { IEventService } from './event.service';
+import { expandRecurrence } from './recurrence';
+import { getCapacityStatus } from './capacity';
+import { distanceMeters, fromLegacyLocation, getEventCoordinates, getGeoSearchArea, getGeohashCoverage, prepareEventLocation } from './location';
+import { matchesEventSearchParams } from './filters';
+import { InvitationStatus } from '../invitations/types';
+import { TicketStatus } from '../tickets/types';
+import { EventSearchResult, IEventSearchEngine } from '../search';
 
 export class FirebaseEventService implements IEventService {
   private readonly collectionName = 'events';
   private readonly participationsCollection = 'eventParticipations';
-
-  constructor(private firestore: Firestore) {}
+  private readonly sessionsCollection = 'eventSessions';
+  private readonly invitationsCollection = 'eventInvitations';
+  private readonly accessGrantsCollection = 'eventAccessGrants';
+  private readonly ticketsCollection = 'tickets'; // Owned by the ticket service, only read here
+  private readonly batchSize = 500; // Firestore write limit per batch
+  private readonly reindexPageSize = 500;
+
+  constructor(
+    private firestore: Firestore,
+    private searchEngine: IEventSearchEngine
+  ) {}
 
   private async getEventDoc(eventId: string) {
     const doc = await this.firestore.collection(this.collectionName).doc(eventId).get();
@@ -36,6 +59,53 @@ export class FirebaseEventService implements IEventService {
   private convertToEvent(doc: FirebaseFirestore.DocumentSnapshot): Event {
     const data = doc.data()!;
     return eventSchema.parse({
+      ...data,
+      id: doc.id,
+      location: fromLegacyLocation(data.location),
+      startDateTime: data.startDateTime.toDate(),
+      endDateTime: data.endDateTime.toDate(),
+      schedule: data.schedule ? {
+        ...data.schedule,
+        sessions: data.schedule.sessions?.map((session: FirebaseFirestore.DocumentData) => ({
+          ...session,
+          startDateTime: session.startDateTime.toDate(),
+          endDateTime: session.endDateTime.toDate(),
+        })),
+      } : undefined,
+      waitingRoom: data.waitingRoom ? {
+        ...data.waitingRoom,
+        opensAt: data.waitingRoom.opensAt?.toDate(),
+      } : undefined,
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  // Free registrations take a place from the pool; ticket holders are counted by their tickets
+  private takesCapacity(participation: EventParticipation): boolean {
+    return participation.type !== EventParticipationType.WAITLIST && !participation.ticketId;
+  }
+
+  /**
+   * Read the event inside a transaction and make sure one more place can be taken from
+   * its capacity pool. Only reads, so it must run before the transaction writes anything.
+   */
+  private async checkCapacity(transaction: Transaction, eventId: string): Promise<FirebaseFirestore.DocumentReference> {
+    const doc = await transaction.get(this.firestore.collection(this.collectionName).doc(eventId));
+    if (!doc.exists) {
+      throw new EventNotFoundError(eventId);
+    }
+
+    const event = this.convertToEvent(doc);
+    if (getCapacityStatus(event.capacity, event.capacityUsage).available <= 0) {
+      throw new EventError('Event is at capacity', 'event/capacity-reached');
+    }
+    return doc.ref;
+  }
+
+  private convertToEventSession(doc: FirebaseFirestore.DocumentSnapshot): EventSession {
+    const data = doc.data()!;
+    return eventSessionSchema.parse({
       ...data,
       id: doc.id,
       startDateTime: data.startDateTime.toDate(),
@@ -45,6 +115,76 @@ export class FirebaseEventService implements IEventService {
     });
   }
 
+  /**
+   * Replace the sessions of an event with the ones described by its schedule. Refuses
+   * once tickets have been sold for a session, since they would lose their date.
+   */
+  private async syncEventSessions(event: Event): Promise<void> {
+    const existing = await this.firestore
+      .collection(this.sessionsCollection)
+      .where('eventId', '==', event.id)
+      .get();
+    if (existing.docs.some(doc => (doc.get('allocated') ?? 0) > 0)) {
+      throw new EventError('Sessions with tickets cannot be rescheduled', 'event/sessions-in-use');
+    }
+
+    const schedule = event.schedule;
+    const occurrences: { startDateTime: Date; endDateTime: Date; capacity?: number }[] = !schedule
+      ? []
+      : schedule.rrule
+        ? expandRecurrence(schedule.rrule, event.startDateTime, event.endDateTime, event.timezone)
+        : (schedule.sessions ?? []).map(session => ({
+          startDateTime: session.startDateTime,
+          endDateTime: session.endDateTime,
+          capacity: session.capacity,
+        }));
+    for (const occurrence of occurrences) {
+      if (occurrence.endDateTime <= occurrence.startDateTime) {
+        throw new InvalidEventDatesError('Session must end after it starts');
+      }
+    }
+
+    for (let i = 0; i < existing.docs.length; i += this.batchSize) {
+      const batch = this.firestore.batch();
+      existing.docs.slice(i, i + this.batchSize).forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+    }
+
+    const now = Timestamp.now();
+    for (let i = 0; i < occurrences.length; i += this.batchSize) {
+      const batch = this.firestore.batch();
+      for (const occurrence of occurrences.slice(i, i + this.batchSize)) {
+        batch.set(this.firestore.collection(this.sessionsCollection).doc(), {
+          eventId: event.id,
+          startDateTime: Timestamp.fromDate(occurrence.startDateTime),
+          endDateTime: Timestamp.fromDate(occurrence.endDateTime),
+          status: EventSessionStatus.SCHEDULED,
+          capacity: occurrence.capacity ?? schedule?.sessionCapacity ?? event.capacity,
+          allocated: 0,
+          checkedIn: 0,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      await batch.commit();
+    }
+  }
+
+  // Events created before the capacity counters existed report nothing sold, so their tickets are looked up
+  private async hasSoldTickets(event: Event): Promise<boolean> {
+    if (event.capacityUsage.sold > 0) {
+      return true;
+    }
+
+    const snapshot = await this.firestore
+      .collection(this.ticketsCollection)
+      .where('eventId', '==', event.id)
+      .where('status', '==', TicketStatus.SOLD)
+      .limit(1)
+      .get();
+    return !snapshot.empty;
+  }
+
   async createEvent(organizerId: string, request: CreateEventRequest): Promise<Event> {
     try {
       await this.validateEventDates(request.startDateTime, request.endDateTime);
@@ -52,17 +192,25 @@ export class FirebaseEventService implements IEventService {
       const now = Timestamp.now();
       const eventData = {
         ...request,
+        location: prepareEventLocation(request.location),
         organizerId,
         startDateTime: Timestamp.fromDate(request.startDateTime),
         endDateTime: Timestamp.fromDate(request.endDateTime),
+        capacityUsage: { reserved: 0, sold: 0, registered: 0 },
         createdAt: now,
         updatedAt: now,
       };
 
       const docRef = await this.firestore.collection(this.collectionName).add(eventData);
       const doc = await docRef.get();
+      const event = this.convertToEvent(doc);
 
-      return this.convertToEvent(doc);
+      if (event.schedule) {
+        await this.syncEventSessions(event);
+      }
+      await this.searchEngine.indexEvent(event);
+
+      return event;
     } catch (error: any) {
       if (error instanceof EventError) throw error;
       throw new EventError('Failed to create event', 'event/creation-failed', error);
@@ -92,8 +240,16 @@ export class FirebaseEventService implements IEventService {
         await this.validateEventDates(request.startDateTime, request.endDateTime);
       }
 
+      // Ticket holders get a say when a published event moves, through the reschedule flow
+      const movesDates = (request.startDateTime && request.startDateTime.getTime() !== event.startDateTime.getTime())
+        || (request.endDateTime && request.endDateTime.getTime() !== event.endDateTime.getTime());
+      if (movesDates && event.status === EventStatus.PUBLISHED && await this.hasSoldTickets(event)) {
+        throw new EventRescheduleRequiredError(event.id);
+      }
+
       const updateData = {
         ...request,
+        location: request.location ? prepareEventLocation(request.location) : undefined,
         startDateTime: request.startDateTime ? Timestamp.fromDate(request.startDateTime) : undefined,
         endDateTime: request.endDateTime ? Timestamp.fromDate(request.endDateTime) : undefined,
         updatedAt: Timestamp.now(),
@@ -101,8 +257,16 @@ export class FirebaseEventService implements IEventService {
 
       await doc.ref.update(updateData);
       const updatedDoc = await doc.ref.get();
+      const updated = this.convertToEvent(updatedDoc);
+
+      // Recurring sessions are anchored on the event dates, so they move with them
+      const datesChanged = request.startDateTime || request.endDateTime || request.timezone;
+      if (request.schedule !== undefined || (updated.schedule?.rrule && datesChanged)) {
+        await this.syncEventSessions(updated);
+      }
+      await this.searchEngine.indexEvent(updated);
 
-      return this.convertToEvent(updatedDoc);
+      return updated;
     } catch (error: any) {
       if (error instanceof EventError) throw error;
       throw new EventError('Failed to update event', 'event/update-failed', error);
@@ -119,14 +283,69 @@ export class FirebaseEventService implements IEventService {
       }
 
       await doc.ref.delete();
+      await this.searchEngine.removeEvent(eventId);
     } catch (error: any) {
       if (error instanceof EventError) throw error;
       throw new EventError('Failed to delete event', 'event/deletion-failed', error);
     }
   }
 
+  /**
+   * Take the event off sale as part of its cancellation. The cancellation service owns the
+   * rest of the cascade, so this only flips the status and keeps search in step.
+   */
+  async markEventCancelled(eventId: string): Promise<Event> {
+    try {
+      const doc = await this.getEventDoc(eventId);
+      if (doc.get('status') !== EventStatus.CANCELLED) {
+        await doc.ref.update({
+          status: EventStatus.CANCELLED,
+          updatedAt: Timestamp.now(),
+        });
+      }
+
+      const event = this.convertToEvent(await doc.ref.get());
+      await this.searchEngine.indexEvent(event);
+      return event;
+    } catch (error: any) {
+      if (error instanceof EventError) throw error;
+      throw new EventError('Failed to cancel event', 'event/update-failed', error);
+    }
+  }
+
+  /**
+   * Move the event to new dates as part of a reschedule, which owns the holder side of it.
+   * Recurring sessions are anchored on the event dates, so they move too.
+   */
+  async moveEventDates(eventId: string, startDateTime: Date, endDateTime: Date): Promise<Event> {
+    try {
+      await this.validateEventDates(startDateTime, endDateTime);
+
+      const doc = await this.getEventDoc(eventId);
+      await doc.ref.update({
+        startDateTime: Timestamp.fromDate(startDateTime),
+        endDateTime: Timestamp.fromDate(endDateTime),
+        updatedAt: Timestamp.now(),
+      });
+
+      const event = this.convertToEvent(await doc.ref.get());
+      if (event.schedule?.rrule) {
+        await this.syncEventSessions(event);
+      }
+      await this.searchEngine.indexEvent(event);
+      return event;
+    } catch (error: any) {
+      if (error instanceof EventError) throw error;
+      throw new EventError('Failed to move event dates', 'event/update-failed', error);
+    }
+  }
+
   async listEvents(params?: EventSearchParams): Promise<Event[]> {
     try {
+      if (params && getGeoSearchArea(params)) {
+        return await this.listNearbyEvents(params);
+      }
+
       let query = this.firestore.collection(this.collectionName).where('isPublished', '==', true);
 
       if (params) {
@@ -136,8 +355,8 @@ export class FirebaseEventService implements IEventService {
         if (params.endDate) {
           query = query.where('endDateTime', '<=', params.endDate);
         }
-        if (params.location) {
-          query = query.where('location', '==', params.location);
+        if (params.city) {
+          query = query.where('location.address.city', '==', params.city);
         }
         if (params.status) {
           query = query.where('status', '==', params.status);
@@ -162,34 +381,114 @@ export class FirebaseEventService implements IEventService {
       const snapshot = await query.get();
       return snapshot.docs.map(doc => this.convertToEvent(doc));
     } catch (error: any) {
+      if (error instanceof EventError) throw error;
       throw new EventError('Failed to list events', 'event/list-failed', error);
     }
   }
 
+  /**
+   * Events within a radius or box, nearest first. Firestore can only range over the
+   * geohash, so each covering cell is read and the other params are applied in memory.
+   */
+  private async listNearbyEvents(params: EventSearchParams): Promise<Event[]> {
+    const area = getGeoSearchArea(params)!;
+    const snapshots = await Promise.all(getGeohashCoverage(area.center, area.radiusMeters).map(prefix =>
+      this.firestore
+        .collection(this.collectionName)
+        .where('isPublished', '==', true)
+        .orderBy('location.geohash')
+        .startAt(prefix)
+        .endAt(`${prefix}\uf8ff`)
+        .get()
+    ));
+
+    const events = new Map<string, { event: Event; distance: number }>();
+    for (const doc of snapshots.flatMap(snapshot => snapshot.docs)) {
+      const event = this.convertToEvent(doc);
+      if (events.has(event.id) || !matchesEventSearchParams(event, params)) continue;
+      events.set(event.id, { event, distance: distanceMeters(area.center, getEventCoordinates(event)!) });
+    }
+
+    const offset = Number(params.offset ?? 0);
+    const limit = params.limit ? Number(params.limit) : undefined;
+    return [...events.values()]
+      .sort((a, b) => a.distance - b.distance)
+      .slice(offset, limit !== undefined ? offset + limit : undefined)
+      .map(({ event }) => event);
+  }
+
   async listOrganizerEvents(organizerId: string): Promise<Event[]> {
     return this.listEvents({ organizerId });
   }
 
-  async searchEvents(query: string, params?: EventSearchParams): Promise<Event[]> {
-    // TODO: Implement full-text search (consider using Algolia or ElasticSearch)
-    // For now, just return all events matching the params
-    return this.listEvents(params);
+  /**
+   * Full-text search over title, description, tags, categories and location, best match
+   * first. Without a query this is the same as listing events.
+   */
+  async searchEvents(query: string, params?: EventSearchParams): Promise<EventSearchResult[]> {
+    try {
+      if (!query?.trim()) {
+        const events = await this.listEvents(params);
+        return events.map(event => ({ event, score: 0, highlights: {} }));
+      }
+
+      const hits = await this.searchEngine.searchEvents({ ...params, text: query });
+      if (hits.length === 0) {
+        return [];
+      }
+
+      const docs = await this.firestore.getAll(
+        ...hits.map(hit => this.firestore.collection(this.collectionName).doc(hit.eventId))
+      );
+      // Events deleted since they were indexed are left out
+      return hits.flatMap((hit, index) => docs[index]!.exists
+        ? [{ event: this.convertToEvent(docs[index]!), score: hit.score, highlights: hit.highlights }]
+        : []);
+    } catch (error: any) {
+      if (error instanceof EventError) throw error;
+      throw new EventError('Failed to search events', 'event/search-failed', error);
+    }
+  }
+
+  /**
+   * Index every event and drop the ones that are gone, e.g. when an in-memory index starts
+   * empty or missed changes made elsewhere. The index is updated in place, so searches keep
+   * working while it runs. Returns how many events were indexed.
+   */
+  async rebuildSearchIndex(): Promise<number> {
+    try {
+      const eventIds = new Set<string>();
+      let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+      while (true) {
+        let query = this.firestore.collection(this.collectionName).orderBy('__name__').limit(this.reindexPageSize);
+        if (last) {
+          query = query.startAfter(last);
+        }
+        const snapshot = await query.get();
+        for (const doc of snapshot.docs) {
+          await this.searchEngine.indexEvent(this.convertToEvent(doc));
+          eventIds.add(doc.id);
+        }
+        if (snapshot.size < this.reindexPageSize) {
+          await this.searchEngine.retainEvents(eventIds);
+          return eventIds.size;
+        }
+        last = snapshot.docs[snapshot.docs.length - 1];
+      }
+    } catch (error: any) {
+      throw new EventError('Failed to rebuild search index', 'event/reindex-failed', error);
+    }
   }
 
+  // Guests holding a paid ticket or a free registration; unpaid reservations are not attendees yet
   async getEventAttendeeCount(eventId: string): Promise<number> {
-    // TODO: Implement when we create the ticket/booking system
-    return 0;
+    const status = await this.getEventCapacityStatus(eventId);
+    return status.sold + status.registered;
   }
 
-  async getEventCapacityStatus(eventId: string): Promise<{ total: number; reserved: number; available: number; }> {
+  async getEventCapacityStatus(eventId: string): Promise<EventCapacityStatus> {
     const event = await this.getEvent(eventId);
-    const reserved = await this.getEventAttendeeCount(eventId);
-    
-    return {
-      total: event.capacity,
-      reserved,
-      available: event.capacity - reserved
-    };
+    return getCapacityStatus(event.capacity, event.capacityUsage);
   }
 
   async validateEventDates(startDateTime: Date, endDateTime: Date): Promise<void> {
@@ -212,7 +511,7 @@ export class FirebaseEventService implements IEventService {
     }
   }
 
-  async isEventVisible(eventId: string, userId?: string): Promise<boolean> {
+  async isEventVisible(eventId: string, userId?: string, email?: string): Promise<boolean> {
     const event = await this.getEvent(eventId);
     
     if (event.visibility === EventVisibility.PUBLIC) {
@@ -223,11 +522,11 @@ export class FirebaseEventService implements IEventService {
       return false;
     }
     
-    // Private events are visible to organizers
-    return event.organizerId === userId;
+    // Private events are visible to organizers and to invited guests
+    return event.organizerId === userId || this.hasEventAccess(eventId, userId, email);
   }
 
-  async canUserAccessEvent(eventId: string, userId: string): Promise<boolean> {
+  async canUserAccessEvent(eventId: string, userId: string, email?: string): Promise<boolean> {
     const event = await this.getEvent(eventId);
     
     // Organizers can always access their events
@@ -235,15 +534,34 @@ export class FirebaseEventService implements IEventService {
       return true;
     }
     
-    // For private events, implement access control (e.g., invite system)
+    // Private events need an invitation or a redeemed access code
     if (event.visibility === EventVisibility.PRIVATE) {
-      // TODO: Check if user is invited when we implement the invite system
-      return false;
+      return this.hasEventAccess(eventId, userId, email);
     }
     
     return true;
   }
 
+  // Reads the invitation collections directly so the event service does not depend on them
+  private async hasEventAccess(eventId: string, userId: string, email?: string): Promise<boolean> {
+    const grant = await this.firestore
+      .collection(this.accessGrantsCollection)
+      .doc(`${eventId}_${userId}`)
+      .get();
+    if (grant.exists) {
+      return true;
+    }
+
+    if (!email) {
+      return false;
+    }
+    const invitation = await this.firestore
+      .collection(this.invitationsCollection)
+      .doc(`${eventId}_${email.trim().toLowerCase()}`)
+      .get();
+    return invitation.exists && invitation.data()!.status === InvitationStatus.ACTIVE;
+  }
+
   // Event Stats
   async getEventStats(eventId: string): Promise<EventStats> {
     try {
@@ -291,29 +609,60 @@ export class FirebaseEventService implements IEventService {
   async registerForEvent(userId: string, eventId: string, type: EventParticipationType): Promise<EventParticipation> {
     try {
       const event = await this.getEvent(eventId);
-      
+      if (event.status === EventStatus.CANCELLED) {
+        throw new EventError('Event has been cancelled', 'event/cancelled');
+      }
+
       // Check if user is already registered
       const existingParticipation = await this.getParticipation(eventId, userId);
       if (existingParticipation) {
         throw new EventError('Already registered for event', 'event/already-registered');
       }
 
-      // Check event capacity for non-waitlist registrations
-      if (type !== EventParticipationType.WAITLIST) {
-        const stats = await this.getEventStats(eventId);
-        const activeParticipants = stats.totalParticipants - stats.cancelled - stats.waitlist;
-        
-        if (activeParticipants >= event.capacity) {
-          throw new EventError('Event is at capacity', 'event/capacity-reached');
+      const now = Timestamp.now();
+      const participationData = {
+        eventId: event.id,
+        userId,
+        type,
+        status: EventParticipationStatus.REGISTERED,
+        registeredAt: now,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      // Non-waitlist registrations share the capacity pool with ticket reservations
+      const docRef = this.firestore.collection(this.participationsCollection).doc();
+      await this.firestore.runTransaction(async (transaction: Transaction) => {
+        if (type !== EventParticipationType.WAITLIST) {
+          const eventRef = await this.checkCapacity(transaction, eventId);
+          transaction.update(eventRef, { 'capacityUsage.registered': FieldValue.increment(1) });
         }
+        transaction.set(docRef, participationData);
+      });
+
+      const doc = await docRef.get();
+      return this.convertToEventParticipation(doc);
+    } catch (error: any) {
+      if (error instanceof EventError) throw error;
+      throw new EventError('Failed to register for event', 'event/registration-failed', error);
+    }
+  }
+
+  async registerTicketHolder(userId: string, eventId: string, ticketId: string): Promise<EventParticipation> {
+    try {
+      // Each ticket gets its own participation, so a buyer with several tickets can check in every guest
+      const existingParticipation = await this.getTicketParticipation(ticketId);
+      if (existingParticipation) {
+        return existingParticipation;
       }
 
       const now = Timestamp.now();
       const participationData = {
         eventId,
         userId,
-        type,
+        type: EventParticipationType.TICKET,
         status: EventParticipationStatus.REGISTERED,
+        ticketId,
         registeredAt: now,
         createdAt: now,
         updatedAt: now,
@@ -327,41 +676,123 @@ export class FirebaseEventService implements IEventService {
       return this.convertToEventParticipation(doc);
     } catch (error: any) {
       if (error instanceof EventError) throw error;
-      throw new EventError('Failed to register for event', 'event/registration-failed', error);
+      throw new EventError('Failed to register ticket holder', 'event/registration-failed', error);
     }
   }
 
-  async cancelParticipation(userId: string, eventId: string): Promise<void> {
+  async transferTicketParticipation(ticketId: string, userId: string): Promise<EventParticipation> {
     try {
-      const participation = await this.getParticipation(eventId, userId);
+      const participation = await this.getTicketParticipation(ticketId);
       if (!participation) {
-        throw new EventError('Not registered for event', 'event/not-registered');
+        throw new EventError('No participation for ticket', 'event/not-registered');
       }
 
-      const now = Timestamp.now();
       await this.firestore
         .collection(this.participationsCollection)
         .doc(participation.id)
         .update({
+          userId,
+          updatedAt: Timestamp.now(),
+        });
+
+      return { ...participation, userId };
+    } catch (error: any) {
+      if (error instanceof EventError) throw error;
+      throw new EventError('Failed to transfer participation', 'event/transfer-failed', error);
+    }
+  }
+
+  async cancelParticipation(userId: string, eventId: string): Promise<void> {
+    try {
+      const participation = await this.getParticipation(eventId, userId);
+      if (!participation) {
+        throw new EventError('Not registered for event', 'event/not-registered');
+      }
+
+      const now = Timestamp.now();
+      const docRef = this.firestore.collection(this.participationsCollection).doc(participation.id);
+      await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const current = this.convertToEventParticipation(await transaction.get(docRef));
+        if (current.status === EventParticipationStatus.CANCELLED) {
+          return;
+        }
+
+        transaction.update(docRef, {
           status: EventParticipationStatus.CANCELLED,
           cancelledAt: now,
           updatedAt: now,
         });
+        if (this.takesCapacity(current)) {
+          transaction.update(this.firestore.collection(this.collectionName).doc(eventId), {
+            'capacityUsage.registered': FieldValue.increment(-1),
+          });
+        }
+      });
     } catch (error: any) {
       if (error instanceof EventError) throw error;
       throw new EventError('Failed to cancel participation', 'event/cancellation-failed', error);
     }
   }
 
-  async checkInParticipant(organizerId: string, eventId: string, userId: string): Promise<EventParticipation> {
+  /**
+   * Cancel every registration still open for a cancelled event, waitlist included, and
+   * give back the places they held. Returns the participations that were cancelled.
+   */
+  async cancelEventParticipations(eventId: string): Promise<EventParticipation[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.participationsCollection)
+        .where('eventId', '==', eventId)
+        .where('status', '==', EventParticipationStatus.REGISTERED)
+        .get();
+
+      const now = Timestamp.now();
+      const cancelled: EventParticipation[] = [];
+      const pageSize = this.batchSize - 1; // One write left for the event counters
+      for (let i = 0; i < snapshot.docs.length; i += pageSize) {
+        const docs = snapshot.docs.slice(i, i + pageSize);
+        const participations = docs.map(doc => this.convertToEventParticipation(doc));
+        const batch = this.firestore.batch();
+        for (const doc of docs) {
+          batch.update(doc.ref, {
+            status: EventParticipationStatus.CANCELLED,
+            cancelledAt: now,
+            updatedAt: now,
+          });
+        }
+
+        const released = participations.filter(participation => this.takesCapacity(participation)).length;
+        if (released > 0) {
+          batch.update(this.firestore.collection(this.collectionName).doc(eventId), {
+            'capacityUsage.registered': FieldValue.increment(-released),
+          });
+        }
+        await batch.commit();
+        cancelled.push(...participations.map(participation => ({
+          ...participation,
+          status: EventParticipationStatus.CANCELLED,
+          cancelledAt: now.toDate(),
+          updatedAt: now.toDate(),
+        })));
+      }
+
+      return cancelled;
+    } catch (error: any) {
+      throw new EventError('Failed to cancel event participations', 'event/cancellation-failed', error);
+    }
+  }
+
+  async checkInParticipant(organizerId: string, eventId: string, userId: string, ticketId?: string, checkedInAt?: Date): Promise<EventParticipation> {
     try {
       const event = await this.getEvent(eventId);
       if (event.organizerId !== organizerId) {
         throw new EventError('Unauthorized', 'event/unauthorized');
       }
 
-      const participation = await this.getParticipation(eventId, userId);
-      if (!participation) {
+      const participation = ticketId
+        ? await this.getTicketParticipation(ticketId)
+        : await this.getParticipation(eventId, userId);
+      if (!participation || participation.eventId !== eventId || participation.userId !== userId) {
         throw new EventError('Not registered for event', 'event/not-registered');
       }
 
@@ -375,11 +806,16 @@ export class FirebaseEventService implements IEventService {
         .doc(participation.id)
         .update({
           status: EventParticipationStatus.CONFIRMED,
-          checkedInAt: now,
+          // Offline scans are reconciled later but keep the time the guest was actually admitted
+          checkedInAt: checkedInAt ? Timestamp.fromDate(checkedInAt) : now,
           updatedAt: now,
         });
 
-      return this.getParticipation(eventId, userId) as Promise<EventParticipation>;
+      const updatedDoc = await this.firestore
+        .collection(this.participationsCollection)
+        .doc(participation.id)
+        .get();
+      return this.convertToEventParticipation(updatedDoc);
     } catch (error: any) {
       if (error instanceof EventError) throw error;
       throw new EventError('Failed to check in participant', 'event/check-in-failed', error);
@@ -483,6 +919,24 @@ export class FirebaseEventService implements IEventService {
     }
   }
 
+  async getTicketParticipation(ticketId: string): Promise<EventParticipation | null> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.participationsCollection)
+        .where('ticketId', '==', ticketId)
+        .limit(1)
+        .get();
+
+      if (snapshot.empty || !snapshot.docs[0]) {
+        return null;
+      }
+
+      return this.convertToEventParticipation(snapshot.docs[0]);
+    } catch (error: any) {
+      throw new EventError('Failed to get ticket participation', 'event/get-failed', error);
+    }
+  }
+
   // Waitlist Management
   async joinWaitlist(userId: string, eventId: string): Promise<EventParticipation> {
     return this.registerForEvent(userId, eventId, EventParticipationType.WAITLIST);
@@ -522,18 +976,24 @@ export class FirebaseEventService implements IEventService {
       }
 
       const participation = await this.getParticipation(eventId, userId);
-      if (!participation || participation.type !== EventParticipationType.WAITLIST) {
+      if (
+        !participation ||
+        participation.type !== EventParticipationType.WAITLIST ||
+        participation.status !== EventParticipationStatus.REGISTERED
+      ) {
         throw new EventError('Not on waitlist', 'event/not-waitlisted');
       }
 
+      // Promoted guests take a place like any other free registration
       const now = Timestamp.now();
-      await this.firestore
-        .collection(this.participationsCollection)
-        .doc(participation.id)
-        .update({
+      await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const eventRef = await this.checkCapacity(transaction, eventId);
+        transaction.update(this.firestore.collection(this.participationsCollection).doc(participation.id), {
           type: EventParticipationType.FREE,
           updatedAt: now,
         });
+        transaction.update(eventRef, { 'capacityUsage.registered': FieldValue.increment(1) });
+      });
 
       return this.getParticipation(eventId, userId) as Promise<EventParticipation>;
     } catch (error: any) {
@@ -542,6 +1002,79 @@ export class FirebaseEventService implements IEventService {
     }
   }
 
+  // Event Sessions
+  async listEventSessions(eventId: string): Promise<EventSession[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.sessionsCollection)
+        .where('eventId', '==', eventId)
+        .orderBy('startDateTime', 'asc')
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToEventSession(doc));
+    } catch (error: any) {
+      throw new EventError('Failed to list event sessions', 'event/list-failed', error);
+    }
+  }
+
+  async getEventSession(sessionId: string): Promise<EventSession> {
+    try {
+      const doc = await this.firestore.collection(this.sessionsCollection).doc(sessionId).get();
+      if (!doc.exists) {
+        throw new EventSessionNotFoundError(sessionId);
+      }
+      return this.convertToEventSession(doc);
+    } catch (error: any) {
+      if (error instanceof EventError) throw error;
+      throw new EventError('Failed to get event session', 'event/get-failed', error);
+    }
+  }
+
+  async cancelEventSession(organizerId: string, sessionId: string): Promise<EventSession> {
+    try {
+      const session = await this.getEventSession(sessionId);
+      const event = await this.getEvent(session.eventId);
+      if (event.organizerId !== organizerId) {
+        throw new EventError('Unauthorized', 'event/unauthorized');
+      }
+
+      await this.firestore.collection(this.sessionsCollection).doc(sessionId).update({
+        status: EventSessionStatus.CANCELLED,
+        updatedAt: Timestamp.now(),
+      });
+
+      return this.getEventSession(sessionId);
+    } catch (error: any) {
+      if (error instanceof EventError) throw error;
+      throw new EventError('Failed to cancel event session', 'event/update-failed', error);
+    }
+  }
+
+  async checkInSession(organizerId: string, sessionId: string, userId: string, ticketId: string, checkedInAt?: Date): Promise<EventParticipation> {
+    try {
+      const session = await this.getEventSession(sessionId);
+      if (session.status === EventSessionStatus.CANCELLED) {
+        throw new EventError('Session has been cancelled', 'event/session-cancelled');
+      }
+
+      // The first session attended confirms the participation; later ones only count
+      const participation = await this.getTicketParticipation(ticketId);
+      const confirmed = participation?.status === EventParticipationStatus.CONFIRMED
+        ? participation
+        : await this.checkInParticipant(organizerId, session.eventId, userId, ticketId, checkedInAt);
+
+      await this.firestore.collection(this.sessionsCollection).doc(sessionId).update({
+        checkedIn: FieldValue.increment(1),
+        updatedAt: Timestamp.now(),
+      });
+
+      return confirmed;
+    } catch (error: any) {
+      if (error instanceof EventError) throw error;
+      throw new EventError('Failed to check in to session', 'event/check-in-failed', error);
+    }
+  }
+
   private convertToEventParticipation(doc: FirebaseFirestore.DocumentSnapshot): EventParticipation {
     const data = doc.data()!;
     return eventParticipationSchema.parse({
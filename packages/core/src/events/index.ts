@@ -1,3 +1,6 @@
 export * from './types';
 export * from './event.service';
-export * from './firebase-event.service'; 
\ No newline at end of file
+export * from './firebase-event.service'; 
+export * from './recurrence';export * from './capacity';
+export * from './location';
+export * from './filters';
\ No newline at end of file
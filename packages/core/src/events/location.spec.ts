@@ -0,0 +1,171 @@
+import { distanceMeters, encodeGeohash, getGeoSearchArea, getGeohashCoverage, prepareEventLocation } from './location';
+import { EventLocationType, GeoPoint, InvalidEventLocationError } from './types';
+
+// Point at a distance and bearing from the center, on a sphere
+const offset = (center: GeoPoint, meters: number, bearingDegrees: number): GeoPoint => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const angle = meters / 6371008.8;
+  const bearing = toRadians(bearingDegrees);
+  const latitude = toRadians(center.latitude);
+  const toLatitude = Math.asin(Math.sin(latitude) * Math.cos(angle) + Math.cos(latitude) * Math.sin(angle) * Math.cos(bearing));
+  const toLongitude = toRadians(center.longitude) + Math.atan2(
+    Math.sin(bearing) * Math.sin(angle) * Math.cos(latitude),
+    Math.cos(angle) - Math.sin(latitude) * Math.sin(toLatitude)
+  );
+  return {
+    latitude: toLatitude * 180 / Math.PI,
+    longitude: ((toLongitude * 180 / Math.PI + 540) % 360) - 180,
+  };
+};
+
+describe('event locations', () => {
+  const manila = { latitude: 14.5547, longitude: 121.0244 };
+
+  describe('encodeGeohash', () => {
+    it.each([
+      [{ latitude: 57.64911, longitude: 10.40744 }, 10, 'u4pruydqqv'],
+      [{ latitude: 42.6, longitude: -5.6 }, 5, 'ezs42'],
+      [{ latitude: -90, longitude: -180 }, 3, '000'],
+    ])('encodes %j at precision %i as %s', (point, precision, hash) => {
+      expect(encodeGeohash(point, precision)).toBe(hash);
+    });
+
+    it('uses ten characters by default, each one refining the last', () => {
+      const hash = encodeGeohash(manila);
+
+      expect(hash).toHaveLength(10);
+      expect(hash.startsWith(encodeGeohash(manila, 6))).toBe(true);
+    });
+  });
+
+  describe('distanceMeters', () => {
+    it('is zero between a point and itself', () => {
+      expect(distanceMeters(manila, manila)).toBe(0);
+    });
+
+    it('measures a degree of latitude as about 111km', () => {
+      expect(distanceMeters({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 })).toBeCloseTo(111195, 0);
+    });
+
+    it('takes the short way across the antimeridian', () => {
+      const distance = distanceMeters({ latitude: 0, longitude: 179.5 }, { latitude: 0, longitude: -179.5 });
+
+      expect(distance).toBeCloseTo(111195, 0);
+    });
+
+    it('is the same in both directions', () => {
+      const cebu = { latitude: 10.3157, longitude: 123.8854 };
+
+      expect(distanceMeters(manila, cebu)).toBeCloseTo(distanceMeters(cebu, manila), 6);
+      expect(distanceMeters(manila, cebu)).toBeGreaterThan(560000);
+      expect(distanceMeters(manila, cebu)).toBeLessThan(575000);
+    });
+  });
+
+  describe('getGeohashCoverage', () => {
+    it('uses the finest cells that are still larger than the radius', () => {
+      expect(getGeohashCoverage(manila, 1000).every(prefix => prefix.length === 5)).toBe(true);
+      expect(getGeohashCoverage(manila, 500).every(prefix => prefix.length === 6)).toBe(true);
+      expect(getGeohashCoverage(manila, 100).every(prefix => prefix.length === 7)).toBe(true);
+    });
+
+    it('covers the center cell and its eight neighbours', () => {
+      const prefixes = getGeohashCoverage(manila, 1000);
+
+      expect(prefixes).toHaveLength(9);
+      expect(new Set(prefixes).size).toBe(9);
+      expect(prefixes).toContain(encodeGeohash(manila, 5));
+    });
+
+    it.each([
+      ['a city', manila, 5000],
+      ['the antimeridian', { latitude: -17.7, longitude: 179.99 }, 2000],
+      ['the far north', { latitude: 78.22, longitude: 15.65 }, 3000],
+    ])('finds every point within the radius near %s', (_place, center, radiusMeters) => {
+      const prefixes = getGeohashCoverage(center, radiusMeters);
+      const points = [0, 45, 90, 135, 180, 225, 270, 315].map(bearing => offset(center, radiusMeters * 0.99, bearing));
+
+      for (const point of points) {
+        const hash = encodeGeohash(point);
+        expect(prefixes.some(prefix => hash.startsWith(prefix))).toBe(true);
+      }
+    });
+
+    it('falls back to matching everything for circles larger than any cell', () => {
+      expect(getGeohashCoverage(manila, 6000 * 1000)).toEqual(['']);
+    });
+  });
+
+  describe('getGeoSearchArea', () => {
+    it('returns null without a nearby search', () => {
+      expect(getGeoSearchArea({ categories: ['music'] })).toBeNull();
+    });
+
+    it('reads a radius given as query string text', () => {
+      const area = getGeoSearchArea({ near: { latitude: '14.5547', longitude: '121.0244', radiusKm: '2' } as any })!;
+
+      expect(area.center).toEqual(manila);
+      expect(area.radiusMeters).toBe(2000);
+      expect(area.contains(offset(manila, 1900, 90))).toBe(true);
+      expect(area.contains(offset(manila, 2100, 90))).toBe(false);
+    });
+
+    it.each([
+      ['a missing radius', { near: { latitude: 14.5, longitude: 121 } as any }],
+      ['a negative radius', { near: { latitude: 14.5, longitude: 121, radiusKm: -1 } }],
+      ['a south edge above the north edge', { bounds: { north: 10, south: 11, east: 122, west: 120 } }],
+      ['a missing edge', { bounds: { north: 10, south: 9, east: 122 } as any }],
+    ])('refuses %s', (_reason, params) => {
+      expect(() => getGeoSearchArea(params)).toThrow(InvalidEventLocationError);
+    });
+
+    it('contains the points inside a box and reaches its corners', () => {
+      const bounds = { north: 14.7, south: 14.4, east: 121.1, west: 120.9 };
+      const area = getGeoSearchArea({ bounds })!;
+
+      expect(area.center.latitude).toBeCloseTo(14.55, 10);
+      expect(area.center.longitude).toBeCloseTo(121, 10);
+      expect(area.contains(manila)).toBe(true);
+      expect(area.contains({ latitude: 14.8, longitude: 121 })).toBe(false);
+      for (const [latitude, longitude] of [[14.7, 121.1], [14.7, 120.9], [14.4, 121.1], [14.4, 120.9]] as const) {
+        expect(distanceMeters(area.center, { latitude, longitude })).toBeLessThanOrEqual(area.radiusMeters);
+      }
+    });
+
+    it('handles boxes that cross the antimeridian', () => {
+      const area = getGeoSearchArea({ bounds: { north: -15, south: -20, east: -178, west: 177 } })!;
+
+      expect(area.center.latitude).toBe(-17.5);
+      expect(area.center.longitude).toBeCloseTo(179.5, 10);
+      expect(area.contains({ latitude: -17.7, longitude: 179.99 })).toBe(true);
+      expect(area.contains({ latitude: -17.7, longitude: -179 })).toBe(true);
+      expect(area.contains({ latitude: -17.7, longitude: 0 })).toBe(false);
+      expect(area.radiusMeters).toBeLessThan(400 * 1000);
+    });
+  });
+
+  describe('prepareEventLocation', () => {
+    it('adds the geohash of the venue', () => {
+      const location = prepareEventLocation({
+        type: EventLocationType.OFFLINE,
+        address: { formatted: 'Bonifacio Global City, Taguig' },
+        coordinates: manila,
+      });
+
+      expect(location).toMatchObject({ geohash: encodeGeohash(manila) });
+    });
+
+    it('refuses offline events without coordinates', () => {
+      expect(() => prepareEventLocation({
+        type: EventLocationType.OFFLINE,
+        address: { formatted: 'Bonifacio Global City, Taguig' },
+      })).toThrow('Offline events need the coordinates of their venue');
+    });
+
+    it('leaves virtual events without a geohash', () => {
+      const location = { type: EventLocationType.VIRTUAL as const, platform: 'Zoom', joinUrl: 'https://zoom.us/j/1' };
+
+      expect(prepareEventLocation(location)).toEqual(location);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  Event,
+  EventLocation,
+  EventLocationType,
+  EventSearchParams,
+  GeoBounds,
+  GeoPoint,
+  InvalidEventLocationError,
+  eventLocationSchema,
+} from './types';
+
+const geohashAlphabet = '0123456789bcdefghjkmnpqrstuvwxyz';
+const geohashPrecision = 10; // Cells of about 1.2m x 0.6m
+const earthRadiusMeters = 6371008.8;
+const metersPerDegreeLatitude = 111320;
+
+export function encodeGeohash(point: GeoPoint, precision: number = geohashPrecision): string {
+  const latitude: [number, number] = [-90, 90];
+  const longitude: [number, number] = [-180, 180];
+  let hash = '';
+  let value = 0;
+  let bits = 0;
+  let isLongitude = true;
+
+  while (hash.length < precision) {
+    const range = isLongitude ? longitude : latitude;
+    const coordinate = isLongitude ? point.longitude : point.latitude;
+    const middle = (range[0] + range[1]) / 2;
+    value = value * 2 + (coordinate >= middle ? 1 : 0);
+    range[coordinate >= middle ? 0 : 1] = middle;
+    isLongitude = !isLongitude;
+
+    if (++bits === 5) {
+      hash += geohashAlphabet[value];
+      value = 0;
+      bits = 0;
+    }
+  }
+  return hash;
+}
+
+// Great-circle distance using the haversine formula
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLatitude = toRadians(b.latitude - a.latitude);
+  const dLongitude = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * earthRadiusMeters * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function wrapLongitude(longitude: number): number {
+  return ((longitude + 540) % 360) - 180;
+}
+
+function getCellDegrees(precision: number): { latitude: number; longitude: number } {
+  return {
+    latitude: 180 / 2 ** Math.floor(precision * 5 / 2),
+    longitude: 360 / 2 ** Math.ceil(precision * 5 / 2),
+  };
+}
+
+/**
+ * Geohash prefixes whose cells cover a circle: the cell holding the center and its eight
+ * neighbours, at the finest precision whose cells are still larger than the radius.
+ * Circles too large for that fall back to the empty prefix, which matches everything.
+ */
+export function getGeohashCoverage(center: GeoPoint, radiusMeters: number): string[] {
+  const longitudeScale = Math.cos(center.latitude * Math.PI / 180);
+  const precision = [...Array(geohashPrecision).keys()]
+    .map(index => geohashPrecision - index)
+    .find(precision => {
+      const cell = getCellDegrees(precision);
+      return cell.latitude * metersPerDegreeLatitude >= radiusMeters &&
+        cell.longitude * metersPerDegreeLatitude * longitudeScale >= radiusMeters;
+    });
+  if (!precision) {
+    return [''];
+  }
+
+  const cell = getCellDegrees(precision);
+  const prefixes = new Set<string>();
+  for (const dLatitude of [-1, 0, 1]) {
+    for (const dLongitude of [-1, 0, 1]) {
+      prefixes.add(encodeGeohash({
+        latitude: Math.max(-90, Math.min(90, center.latitude + dLatitude * cell.latitude)),
+        longitude: wrapLongitude(center.longitude + dLongitude * cell.longitude),
+      }, precision));
+    }
+  }
+  return [...prefixes];
+}
+
+function isWithinBounds(point: GeoPoint, bounds: GeoBounds): boolean {
+  if (point.latitude < bounds.south || point.latitude > bounds.north) {
+    return false;
+  }
+  return bounds.west <= bounds.east
+    ? point.longitude >= bounds.west && point.longitude <= bounds.east
+    : point.longitude >= bounds.west || point.longitude <= bounds.east;
+}
+
+export interface GeoSearchArea {
+  center: GeoPoint; // Results are sorted by distance from here
+  radiusMeters: number; // Circle around the center that holds the whole area
+  contains(point: GeoPoint): boolean;
+}
+
+/**
+ * The area a nearby search covers, or null when the params have none. Query strings
+ * carry numbers as text, so every coordinate is read with Number().
+ */
+export function getGeoSearchArea(params: EventSearchParams): GeoSearchArea | null {
+  if (params.near) {
+    const center = { latitude: Number(params.near.latitude), longitude: Number(params.near.longitude) };
+    const radiusMeters = Number(params.near.radiusKm) * 1000;
+    if (![center.latitude, center.longitude, radiusMeters].every(Number.isFinite) || radiusMeters <= 0) {
+      throw new InvalidEventLocationError('Nearby searches need a latitude, longitude and positive radiusKm');
+    }
+    return {
+      center,
+      radiusMeters,
+      contains: point => distanceMeters(center, point) <= radiusMeters,
+    };
+  }
+
+  if (params.bounds) {
+    const bounds = {
+      north: Number(params.bounds.north),
+      south: Number(params.bounds.south),
+      east: Number(params.bounds.east),
+      west: Number(params.bounds.west),
+    };
+    if (!Object.values(bounds).every(Number.isFinite) || bounds.south > bounds.north) {
+      throw new InvalidEventLocationError('Bounds need a north, south, east and west edge');
+    }
+    const center = {
+      latitude: (bounds.north + bounds.south) / 2,
+      longitude: bounds.west <= bounds.east
+        ? (bounds.west + bounds.east) / 2
+        : wrapLongitude((bounds.west + bounds.east + 360) / 2),
+    };
+    const corners = [
+      { latitude: bounds.north, longitude: bounds.west },
+      { latitude: bounds.north, longitude: bounds.east },
+      { latitude: bounds.south, longitude: bounds.west },
+      { latitude: bounds.south, longitude: bounds.east },
+    ];
+    return {
+      center,
+      radiusMeters: Math.max(...corners.map(corner => distanceMeters(center, corner))),
+      contains: point => isWithinBounds(point, bounds),
+    };
+  }
+
+  return null;
+}
+
+export function getEventCoordinates(event: Event): GeoPoint | undefined {
+  return event.location.type === EventLocationType.OFFLINE ? event.location.coordinates : undefined;
+}
+
+/**
+ * Validate a location before it is saved. Offline events need coordinates, from which
+ * the geohash used by nearby searches is derived.
+ */
+export function prepareEventLocation(location: EventLocation): EventLocation {
+  const result = eventLocationSchema.safeParse(location);
+  if (!result.success) {
+    throw new InvalidEventLocationError(`Invalid location: ${result.error.issues[0]?.message}`);
+  }
+  if (result.data.type === EventLocationType.VIRTUAL) {
+    return result.data;
+  }
+  if (!result.data.coordinates) {
+    throw new InvalidEventLocationError('Offline events need the coordinates of their venue');
+  }
+  return { ...result.data, geohash: encodeGeohash(result.data.coordinates) };
+}
+
+// Events saved before locations were structured only have the address as text
+export function fromLegacyLocation(location: unknown): unknown {
+  return typeof location === 'string'
+    ? { type: EventLocationType.OFFLINE, address: { formatted: location } }
+    : location;
+}
+
+// One line for listings, tickets and search
+export function describeEventLocation(location: EventLocation): string {
+  if (location.type === EventLocationType.VIRTUAL) {
+    return `Online on ${location.platform}`;
+  }
+  return location.venue ? `${location.venue}, ${location.address.formatted}` : location.address.formatted;
+}
@@ -0,0 +1,91 @@
+import { expandRecurrence } from './recurrence';
+import { InvalidRecurrenceError } from './types';
+
+const starts = (rrule: string, firstStart: Date, timeZone = 'Asia/Manila') =>
+  expandRecurrence(rrule, firstStart, new Date(firstStart.getTime() + 2 * 60 * 60 * 1000), timeZone)
+    .map(occurrence => occurrence.startDateTime.toISOString());
+
+describe('expandRecurrence', () => {
+  // Tuesday, 18:00 in Manila
+  const firstStart = new Date('2026-11-03T10:00:00Z');
+
+  it('repeats daily sessions with the length of the first one', () => {
+    const occurrences = expandRecurrence(
+      'RRULE:FREQ=DAILY;COUNT=3',
+      firstStart,
+      new Date('2026-11-03T12:30:00Z'),
+      'Asia/Manila'
+    );
+
+    expect(occurrences).toEqual([
+      { startDateTime: new Date('2026-11-03T10:00:00Z'), endDateTime: new Date('2026-11-03T12:30:00Z') },
+      { startDateTime: new Date('2026-11-04T10:00:00Z'), endDateTime: new Date('2026-11-04T12:30:00Z') },
+      { startDateTime: new Date('2026-11-05T10:00:00Z'), endDateTime: new Date('2026-11-05T12:30:00Z') },
+    ]);
+  });
+
+  it('skips periods according to the interval', () => {
+    expect(starts('FREQ=WEEKLY;INTERVAL=2;COUNT=3', firstStart)).toEqual([
+      '2026-11-03T10:00:00.000Z',
+      '2026-11-17T10:00:00.000Z',
+      '2026-12-01T10:00:00.000Z',
+    ]);
+  });
+
+  it('repeats weekly sessions on every listed day', () => {
+    expect(starts('FREQ=WEEKLY;BYDAY=TH,TU;COUNT=4', firstStart)).toEqual([
+      '2026-11-03T10:00:00.000Z',
+      '2026-11-05T10:00:00.000Z',
+      '2026-11-10T10:00:00.000Z',
+      '2026-11-12T10:00:00.000Z',
+    ]);
+  });
+
+  it('leaves out days of the first week before the first session', () => {
+    expect(starts('FREQ=WEEKLY;BYDAY=MO,TH;COUNT=3', firstStart)).toEqual([
+      '2026-11-05T10:00:00.000Z',
+      '2026-11-09T10:00:00.000Z',
+      '2026-11-12T10:00:00.000Z',
+    ]);
+  });
+
+  it('skips months that do not have the day of the first session', () => {
+    expect(starts('FREQ=MONTHLY;COUNT=3', new Date('2026-01-31T10:00:00Z'))).toEqual([
+      '2026-01-31T10:00:00.000Z',
+      '2026-03-31T10:00:00.000Z',
+      '2026-05-31T10:00:00.000Z',
+    ]);
+  });
+
+  it('includes the whole day given as UNTIL', () => {
+    expect(starts('FREQ=DAILY;UNTIL=20261105', firstStart)).toEqual([
+      '2026-11-03T10:00:00.000Z',
+      '2026-11-04T10:00:00.000Z',
+      '2026-11-05T10:00:00.000Z',
+    ]);
+    expect(starts('FREQ=DAILY;UNTIL=20261105T095959Z', firstStart)).toHaveLength(2);
+  });
+
+  it('keeps the local start time across daylight saving changes', () => {
+    // 19:00 in New York, which leaves daylight saving time on 1 November 2026
+    expect(starts('FREQ=WEEKLY;COUNT=3', new Date('2026-10-24T23:00:00Z'), 'America/New_York')).toEqual([
+      '2026-10-24T23:00:00.000Z',
+      '2026-10-31T23:00:00.000Z',
+      '2026-11-08T00:00:00.000Z',
+    ]);
+  });
+
+  it.each([
+    ['FREQ=YEARLY;COUNT=2', 'DAILY, WEEKLY or MONTHLY'],
+    ['COUNT=2', 'DAILY, WEEKLY or MONTHLY'],
+    ['FREQ=DAILY;INTERVAL=0;COUNT=2', 'INTERVAL'],
+    ['FREQ=DAILY', 'COUNT or UNTIL'],
+    ['FREQ=DAILY;COUNT=367', 'COUNT must be between'],
+    ['FREQ=DAILY;UNTIL=tomorrow', 'Invalid UNTIL'],
+    ['FREQ=WEEKLY;BYDAY=XX;COUNT=2', 'Invalid BYDAY'],
+    ['FREQ=DAILY;COUNT', 'Malformed'],
+  ])('refuses %s', (rrule, message) => {
+    expect(() => starts(rrule, firstStart)).toThrow(InvalidRecurrenceError);
+    expect(() => starts(rrule, firstStart)).toThrow(message);
+  });
+});
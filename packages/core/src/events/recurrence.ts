@@ -0,0 +1,166 @@
+import { InvalidRecurrenceError } from './types';
+
+export interface SessionOccurrence {
+  startDateTime: Date;
+  endDateTime: Date;
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const maxOccurrences = 366;
+const weekdays = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// Wall-clock time of an instant in the given IANA timezone
+function toLocal(date: Date, timeZone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)!.value);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+function asUtc(local: LocalDateTime): number {
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+}
+
+/**
+ * Instant at which the wall clock in the timezone shows the given time. The offset is
+ * checked twice so sessions on either side of a DST change keep their local start time.
+ */
+function fromLocal(local: LocalDateTime, timeZone: string): Date {
+  const guess = asUtc(local);
+  const offset = asUtc(toLocal(new Date(guess), timeZone)) - guess;
+  const adjusted = guess - offset;
+  const adjustedOffset = asUtc(toLocal(new Date(adjusted), timeZone)) - adjusted;
+  return new Date(adjustedOffset === offset ? adjusted : guess - adjustedOffset);
+}
+
+// Calendar arithmetic on local dates, done in UTC so the host timezone never leaks in
+function addDays(local: LocalDateTime, days: number): LocalDateTime {
+  const date = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return { ...local, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function weekdayIndex(local: LocalDateTime): number {
+  return (new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay() + 6) % 7; // Monday = 0
+}
+
+function parseRule(rrule: string): Map<string, string> {
+  const rule = new Map<string, string>();
+  for (const part of rrule.replace(/^RRULE:/i, '').split(';').filter(Boolean)) {
+    const [key, value] = part.split('=');
+    if (!key || !value) {
+      throw new InvalidRecurrenceError(`Malformed recurrence rule part "${part}"`);
+    }
+    rule.set(key.toUpperCase(), value.toUpperCase());
+  }
+  return rule;
+}
+
+function parseUntil(value: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw new InvalidRecurrenceError(`Invalid UNTIL value "${value}"`);
+  }
+  const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+  return new Date(Date.UTC(+year!, +month! - 1, +day!, +hour, +minute, +second));
+}
+
+/**
+ * Expand an RFC 5545 recurrence rule into sessions. Supports FREQ=DAILY|WEEKLY|MONTHLY
+ * with INTERVAL, COUNT, UNTIL and (weekly) BYDAY. Occurrences keep the local start time
+ * of the first session in the event timezone.
+ */
+export function expandRecurrence(
+  rrule: string,
+  firstStart: Date,
+  firstEnd: Date,
+  timeZone: string
+): SessionOccurrence[] {
+  const rule = parseRule(rrule);
+  const frequency = rule.get('FREQ');
+  const interval = Number(rule.get('INTERVAL') ?? '1');
+  const count = rule.has('COUNT') ? Number(rule.get('COUNT')) : undefined;
+  const until = rule.has('UNTIL') ? parseUntil(rule.get('UNTIL')!) : undefined;
+
+  if (!frequency || !['DAILY', 'WEEKLY', 'MONTHLY'].includes(frequency)) {
+    throw new InvalidRecurrenceError('Recurrence must be DAILY, WEEKLY or MONTHLY');
+  }
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new InvalidRecurrenceError('INTERVAL must be a positive whole number');
+  }
+  if (count === undefined && !until) {
+    throw new InvalidRecurrenceError('Recurrence must end with COUNT or UNTIL');
+  }
+  if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > maxOccurrences)) {
+    throw new InvalidRecurrenceError(`COUNT must be between 1 and ${maxOccurrences}`);
+  }
+
+  const duration = firstEnd.getTime() - firstStart.getTime();
+  const first = toLocal(firstStart, timeZone);
+
+  const byDay = (rule.get('BYDAY')?.split(',') ?? [weekdays[weekdayIndex(first)]!]).map(day => {
+    const index = weekdays.indexOf(day);
+    if (index === -1) {
+      throw new InvalidRecurrenceError(`Invalid BYDAY value "${day}"`);
+    }
+    return index;
+  }).sort((a, b) => a - b);
+
+  // Local dates for the k-th period of the rule, before COUNT/UNTIL are applied
+  const datesForPeriod = (period: number): LocalDateTime[] => {
+    switch (frequency) {
+      case 'DAILY':
+        return [addDays(first, period * interval)];
+      case 'WEEKLY': {
+        const weekStart = addDays(first, period * interval * 7 - weekdayIndex(first));
+        return byDay.map(day => addDays(weekStart, day));
+      }
+      default: {
+        const monthIndex = first.month - 1 + period * interval;
+        const local = { ...first, year: first.year + Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1 };
+        // Skip months that do not have the day, e.g. the 31st
+        const check = new Date(Date.UTC(local.year, local.month - 1, local.day));
+        return check.getUTCDate() === local.day ? [local] : [];
+      }
+    }
+  };
+
+  const occurrences: SessionOccurrence[] = [];
+  for (let period = 0; occurrences.length < (count ?? maxOccurrences); period++) {
+    for (const local of datesForPeriod(period)) {
+      if (asUtc(local) < asUtc(first)) continue;
+
+      const startDateTime = fromLocal(local, timeZone);
+      if (until && startDateTime > until) {
+        return occurrences;
+      }
+      occurrences.push({ startDateTime, endDateTime: new Date(startDateTime.getTime() + duration) });
+      if (occurrences.length === (count ?? maxOccurrences)) {
+        return occurrences;
+      }
+    }
+  }
+  return occurrences;
+}
@@ -30,35 +30,149 @@ export enum EventParticipationStatus {
   NO_SHOW = 'NO_SHOW'        // Didn't attend
 }
 
-// TODO: Integrate with Google Location API
-export const eventLocationSchema = z.object({
-  type: z.nativeEnum(EventLocationType),
-  // For now, just store as string. Later will be replaced with proper location data
-  value: z.string(),
+export const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
 });
 
+export type GeoPoint = z.infer<typeof geoPointSchema>;
+
+export const eventAddressSchema = z.object({
+  formatted: z.string().min(1), // Full address on one line, as shown to buyers
+  street: z.string().optional(),
+  city: z.string().optional(),
+  region: z.string().optional(), // State or province
+  postalCode: z.string().optional(),
+  country: z.string().optional(), // ISO 3166-1 alpha-2 code
+});
+
+export type EventAddress = z.infer<typeof eventAddressSchema>;
+
+export const offlineEventLocationSchema = z.object({
+  type: z.literal(EventLocationType.OFFLINE),
+  venue: z.string().optional(),
+  address: eventAddressSchema,
+  // Required for new events. Events from before locations were structured only have
+  // an address, and never match nearby searches.
+  coordinates: geoPointSchema.optional(),
+  geohash: z.string().optional(), // Set from the coordinates when the event is saved
+});
+
+export const virtualEventLocationSchema = z.object({
+  type: z.literal(EventLocationType.VIRTUAL),
+  platform: z.string().min(1), // e.g. Zoom, Google Meet
+  joinUrl: z.string().url(),
+});
+
+export const eventLocationSchema = z.discriminatedUnion('type', [
+  offlineEventLocationSchema,
+  virtualEventLocationSchema,
+]);
+
+export type OfflineEventLocation = z.infer<typeof offlineEventLocationSchema>;
+export type VirtualEventLocation = z.infer<typeof virtualEventLocationSchema>;
 export type EventLocation = z.infer<typeof eventLocationSchema>;
 
+export enum EventSessionStatus {
+  SCHEDULED = 'SCHEDULED',
+  CANCELLED = 'CANCELLED',
+}
+
+// Sessions are either listed explicitly or expanded from an RRULE starting at the event's
+// startDateTime/endDateTime, in the event timezone
+export const eventScheduleSchema = z.object({
+  sessions: z.array(z.object({
+    startDateTime: z.date(),
+    endDateTime: z.date(),
+    capacity: z.number().int().positive().optional(),
+  })).optional(),
+  rrule: z.string().optional(),
+  sessionCapacity: z.number().int().positive().optional(), // Defaults to the event capacity
+});
+
+export type EventSchedule = z.infer<typeof eventScheduleSchema>;
+
+// Places taken from the event capacity. Tickets and free registrations share one pool,
+// and the counters are only changed inside transactions.
+export const eventCapacityUsageSchema = z.object({
+  reserved: z.number().int().default(0), // Tickets held by unpaid orders
+  sold: z.number().int().default(0),
+  registered: z.number().int().default(0), // Free registrations without a ticket
+});
+
+export type EventCapacityUsage = z.infer<typeof eventCapacityUsageSchema>;
+
+export interface EventCapacityStatus {
+  total: number;
+  reserved: number;
+  sold: number;
+  registered: number;
+  available: number;
+}
+
+// Queues buyers before they can reserve tickets, for on-sales with more demand than the site can take
+export const eventWaitingRoomSchema = z.object({
+  enabled: z.boolean().default(false),
+  opensAt: z.date().optional(), // Buyers can queue before this, admissions start at it
+  admissionsPerMinute: z.number().int().positive().default(60),
+  admissionTtlMinutes: z.number().int().positive().default(10), // How long an admission token is valid
+});
+
+export type EventWaitingRoom = z.infer<typeof eventWaitingRoomSchema>;
+
+// What a ticket holder can do when the event moves to new dates
+export enum RescheduleOption {
+  KEEP = 'KEEP',
+  REFUND = 'REFUND',
+}
+
+export const eventReschedulePolicySchema = z.object({
+  defaultOption: z.nativeEnum(RescheduleOption).default(RescheduleOption.KEEP), // For holders who do not answer
+  responseWindowDays: z.number().int().positive().default(14), // Never past the new start
+});
+
+export type EventReschedulePolicy = z.infer<typeof eventReschedulePolicySchema>;
+
 export const eventSchema = z.object({
   id: z.string(),
   organizerId: z.string(),
   title: z.string(),
   description: z.string(),
-  location: z.string(),
+  location: eventLocationSchema,
   startDateTime: z.date(),
   endDateTime: z.date(),
   timezone: z.string(),
   capacity: z.number(),
+  capacityUsage: eventCapacityUsageSchema.default({}),
   status: z.nativeEnum(EventStatus),
   visibility: z.nativeEnum(EventVisibility),
   isPublished: z.boolean(),
   tags: z.array(z.string()),
   categories: z.array(z.string()),
   coverImage: z.string().optional(),
+  schedule: eventScheduleSchema.optional(),
+  waitingRoom: eventWaitingRoomSchema.optional(),
+  reschedulePolicy: eventReschedulePolicySchema.optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
+export const eventSessionSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  startDateTime: z.date(),
+  endDateTime: z.date(),
+  status: z.nativeEnum(EventSessionStatus),
+  capacity: z.number().int().positive(),
+  // Tickets reserved or sold for this session only; passes are counted on their ticket type
+  allocated: z.number().int().min(0).default(0),
+  checkedIn: z.number().int().min(0).default(0),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type EventSession = z.infer<typeof eventSessionSchema>;
+
 export const eventParticipationSchema = z.object({
   id: z.string(),
   eventId: z.string(),
@@ -77,17 +191,31 @@ export type Event = z.infer<typeof eventSchema>;
 export type EventParticipation = z.infer<typeof eventParticipationSchema>;
 
 export type CreateEventRequest = Omit<Event, 
-  'id' | 'status' | 'isPublished' | 'createdAt' | 'updatedAt'
+  'id' | 'status' | 'isPublished' | 'capacityUsage' | 'createdAt' | 'updatedAt'
 >;
 
 export type UpdateEventRequest = Partial<CreateEventRequest> & { id: string };
 
+export interface GeoRadius extends GeoPoint {
+  radiusKm: number;
+}
+
+// Boxes crossing the antimeridian have their west edge east of their east edge
+export interface GeoBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
 export interface EventSearchParams {
   categories?: string[];
   tags?: string[];
   startDate?: Date;
   endDate?: Date;
-  location?: string;
+  city?: string; // Matched against the address of offline events
+  near?: GeoRadius; // Only events within the radius, nearest first
+  bounds?: GeoBounds; // Only events inside the box, nearest to its center first
   status?: EventStatus;
   visibility?: EventVisibility;
   limit?: number;
@@ -95,6 +223,12 @@ export interface EventSearchParams {
   organizerId?: string;
 }
 
+// Who is looking at an event, used to honor invitations and access codes on private events
+export interface EventViewer {
+  userId?: string;
+  email?: string; // Verified account email
+}
+
 export class EventError extends Error {
   constructor(
     message: string,
@@ -116,6 +250,26 @@ export class EventNotFoundError extends EventError {
   }
 }
 
+export class EventSessionNotFoundError extends EventError {
+  constructor(sessionId: string) {
+    super(
+      `Session with ID ${sessionId} not found`,
+      'event/session-not-found'
+    );
+    this.name = 'EventSessionNotFoundError';
+  }
+}
+
+export class EventSessionFullError extends EventError {
+  constructor(sessionId: string) {
+    super(
+      `Session with ID ${sessionId} has reached capacity`,
+      'event/session-full'
+    );
+    this.name = 'EventSessionFullError';
+  }
+}
+
 export class EventCapacityError extends EventError {
   constructor(eventId: string) {
     super(
@@ -136,6 +290,36 @@ export class InvalidEventDatesError extends EventError {
   }
 }
 
+export class InvalidEventLocationError extends EventError {
+  constructor(message: string) {
+    super(
+      message,
+      'event/invalid-location'
+    );
+    this.name = 'InvalidEventLocationError';
+  }
+}
+
+export class EventRescheduleRequiredError extends EventError {
+  constructor(eventId: string) {
+    super(
+      `Event ${eventId} has sold tickets; its dates can only change through a reschedule`,
+      'event/reschedule-required'
+    );
+    this.name = 'EventRescheduleRequiredError';
+  }
+}
+
+export class InvalidRecurrenceError extends EventError {
+  constructor(message: string) {
+    super(
+      message,
+      'event/invalid-recurrence'
+    );
+    this.name = 'InvalidRecurrenceError';
+  }
+}
+
 export interface EventStats {
   totalParticipants: number;
   checkedIn: number;
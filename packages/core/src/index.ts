@@ -1,4 +1,15 @@
 export * from './auth';
 export * from './events';
 export * from './tickets';
-export * from './payments'; 
\ No newline at end of file
+export * from './payments';
+export * from './checkin';
+export * from './promotions';
+export * from './seating';
+export * from './addons';
+export * from './invitations';
+export * from './risk';
+export * from './waiting-room';
+export * from './search';
+export * from './notifications';
+export * from './cancellations';
+export * from './reschedules';
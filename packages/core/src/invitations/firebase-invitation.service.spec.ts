@@ -0,0 +1,149 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { FirebaseInvitationService } from './firebase-invitation.service';
+import { InvalidAccessCodeError, InvitationStatus } from './types';
+import { EventVisibility, FirebaseEventService } from '../events';
+import { IEventSearchEngine } from '../search';
+import { FakeFirestore } from '../testing/fake-firestore';
+import { createEvent } from '../testing/fixtures';
+
+describe('FirebaseInvitationService', () => {
+  const now = new Date('2026-11-03T10:00:00Z');
+  const event = createEvent({ visibility: EventVisibility.PRIVATE });
+
+  let firestore: FakeFirestore;
+  let eventService: FirebaseEventService;
+  let service: FirebaseInvitationService;
+
+  const captureError = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      return error as any;
+    }
+    return undefined;
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(now);
+
+    firestore = new FakeFirestore();
+    const { id, ...data } = event;
+    await firestore.collection('events').doc(id).set({
+      ...data,
+      startDateTime: Timestamp.fromDate(event.startDateTime),
+      endDateTime: Timestamp.fromDate(event.endDateTime),
+      createdAt: Timestamp.fromDate(event.createdAt),
+      updatedAt: Timestamp.fromDate(event.updatedAt),
+    });
+
+    // The event service checks access by reading the invitation collections itself
+    eventService = new FirebaseEventService(firestore as unknown as Firestore, {} as IEventSearchEngine);
+    service = new FirebaseInvitationService(firestore as unknown as Firestore, eventService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('private event access', () => {
+    it('is open to the organizer and closed to everyone else', async () => {
+      expect(await eventService.canUserAccessEvent(event.id, event.organizerId)).toBe(true);
+      expect(await eventService.canUserAccessEvent(event.id, 'guest-1', 'guest@example.com')).toBe(false);
+      expect(await eventService.isEventVisible(event.id, 'guest-1', 'guest@example.com')).toBe(false);
+      expect(await eventService.isEventVisible(event.id)).toBe(false);
+    });
+
+    it('is given to invited emails whatever their case', async () => {
+      const [invitation] = await service.inviteGuests(event.organizerId, {
+        eventId: event.id,
+        emails: [' Guest@Example.com', 'guest@example.com'],
+      });
+
+      expect(invitation).toMatchObject({ id: `${event.id}_guest@example.com`, status: InvitationStatus.ACTIVE });
+      expect(await eventService.canUserAccessEvent(event.id, 'guest-1', 'GUEST@example.com')).toBe(true);
+      expect(await eventService.isEventVisible(event.id, 'guest-1', 'guest@example.com')).toBe(true);
+      expect(await eventService.canUserAccessEvent(event.id, 'guest-1')).toBe(false);
+    });
+
+    it('is taken back when the invitation is revoked and given again by a new invitation', async () => {
+      const [invitation] = await service.inviteGuests(event.organizerId, { eventId: event.id, emails: ['guest@example.com'] });
+
+      await service.revokeInvitation(event.organizerId, invitation!.id);
+      expect(await eventService.canUserAccessEvent(event.id, 'guest-1', 'guest@example.com')).toBe(false);
+
+      const [restored] = await service.inviteGuests(event.organizerId, { eventId: event.id, emails: ['guest@example.com'] });
+      expect(restored!.revokedAt).toBeUndefined();
+      expect(await eventService.canUserAccessEvent(event.id, 'guest-1', 'guest@example.com')).toBe(true);
+    });
+
+    it('is given to accounts that redeem an access code until the code is revoked', async () => {
+      const accessCode = await service.createAccessCode(event.organizerId, { eventId: event.id, code: 'vip-2026' });
+
+      const grant = await service.redeemAccessCode('guest-1', event.id, ' vip-2026 ');
+
+      expect(grant).toMatchObject({ id: `${event.id}_guest-1`, accessCodeId: accessCode.id, code: 'VIP-2026' });
+      expect(await eventService.canUserAccessEvent(event.id, 'guest-1')).toBe(true);
+      expect(await eventService.canUserAccessEvent(event.id, 'guest-2')).toBe(false);
+
+      await service.revokeAccessCode(event.organizerId, accessCode.id);
+
+      expect(await eventService.canUserAccessEvent(event.id, 'guest-1')).toBe(false);
+      expect(await captureError(() => service.redeemAccessCode('guest-2', event.id, 'VIP-2026'))).toBeInstanceOf(InvalidAccessCodeError);
+    });
+
+    it('is only managed by the organizer', async () => {
+      const error = await captureError(() => service.inviteGuests('organizer-2', { eventId: event.id, emails: ['guest@example.com'] }));
+
+      expect(error?.code).toBe('invitation/unauthorized');
+    });
+  });
+
+  describe('redeemAccessCode', () => {
+    it('stops giving access once the code is used up', async () => {
+      const accessCode = await service.createAccessCode(event.organizerId, { eventId: event.id, code: 'PRESS', maxUses: 2 });
+
+      await service.redeemAccessCode('guest-1', event.id, 'PRESS');
+      await service.redeemAccessCode('guest-2', event.id, 'PRESS');
+      const error = await captureError(() => service.redeemAccessCode('guest-3', event.id, 'PRESS'));
+
+      expect(error).toBeInstanceOf(InvalidAccessCodeError);
+      expect(error.message).toBe('Access code cannot be used: code has been used up');
+      expect((await service.listEventAccessCodes(event.organizerId, event.id))[0]).toMatchObject({ id: accessCode.id, uses: 2 });
+    });
+
+    it('counts a second redemption by the same account once', async () => {
+      await service.createAccessCode(event.organizerId, { eventId: event.id, code: 'PRESS', maxUses: 1 });
+
+      const first = await service.redeemAccessCode('guest-1', event.id, 'PRESS');
+      const second = await service.redeemAccessCode('guest-1', event.id, 'press');
+
+      expect(second).toEqual(first);
+      expect((await service.listEventAccessCodes(event.organizerId, event.id))[0]!.uses).toBe(1);
+    });
+
+    it('refuses codes after they expire', async () => {
+      await service.createAccessCode(event.organizerId, {
+        eventId: event.id,
+        code: 'EARLY',
+        expiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+      });
+      await service.redeemAccessCode('guest-1', event.id, 'EARLY');
+
+      jest.setSystemTime(new Date(now.getTime() + 60 * 60 * 1000));
+      const error = await captureError(() => service.redeemAccessCode('guest-2', event.id, 'EARLY'));
+
+      expect(error?.message).toBe('Access code cannot be used: code has expired');
+    });
+
+    it.each([
+      ['codes of another event', 'event-2', 'PRESS'],
+      ['unknown codes', event.id, 'BACKSTAGE'],
+    ])('refuses %s', async (_reason, eventId, code) => {
+      await service.createAccessCode(event.organizerId, { eventId: event.id, code: 'PRESS' });
+
+      const error = await captureError(() => service.redeemAccessCode('guest-1', eventId, code));
+
+      expect(error?.message).toBe('Access code cannot be used: code not found');
+    });
+  });
+});
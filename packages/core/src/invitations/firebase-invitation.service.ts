@@ -0,0 +1,307 @@
+import { randomBytes } from 'crypto';
+import { FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import {
+  Invitation,
+  InvitationStatus,
+  InvitationError,
+  InvitationNotFoundError,
+  AccessCode,
+  AccessCodeNotFoundError,
+  InvalidAccessCodeError,
+  EventAccessGrant,
+  InviteGuestsRequest,
+  CreateAccessCodeRequest,
+  invitationSchema,
+  accessCodeSchema,
+  eventAccessGrantSchema,
+} from './types';
+import { IInvitationService } from './invitation.service';
+import { IEventService } from '../events';
+
+export function normalizeInvitationEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function normalizeAccessCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export class FirebaseInvitationService implements IInvitationService {
+  private readonly invitationsCollection = 'eventInvitations';
+  private readonly accessCodesCollection = 'eventAccessCodes';
+  private readonly accessGrantsCollection = 'eventAccessGrants';
+  private readonly batchSize = 500; // Firestore write limit per batch
+  private readonly maxInvitesPerRequest = 500;
+
+  constructor(
+    private firestore: Firestore,
+    private eventService: IEventService
+  ) {}
+
+  private convertToInvitation(doc: FirebaseFirestore.DocumentSnapshot): Invitation {
+    const data = doc.data()!;
+    return invitationSchema.parse({
+      ...data,
+      id: doc.id,
+      revokedAt: data.revokedAt?.toDate(),
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToAccessCode(doc: FirebaseFirestore.DocumentSnapshot): AccessCode {
+    const data = doc.data()!;
+    return accessCodeSchema.parse({
+      ...data,
+      id: doc.id,
+      expiresAt: data.expiresAt?.toDate(),
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToGrant(doc: FirebaseFirestore.DocumentSnapshot): EventAccessGrant {
+    const data = doc.data()!;
+    return eventAccessGrantSchema.parse({
+      ...data,
+      id: doc.id,
+      createdAt: data.createdAt.toDate(),
+    });
+  }
+
+  private async verifyOrganizerOwnsEvent(organizerId: string, eventId: string): Promise<void> {
+    const event = await this.eventService.getEvent(eventId);
+    if (event.organizerId !== organizerId) {
+      throw new InvitationError('Unauthorized: Not the event organizer', 'invitation/unauthorized');
+    }
+  }
+
+  async inviteGuests(organizerId: string, request: InviteGuestsRequest): Promise<Invitation[]> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, request.eventId);
+
+      const emails = [...new Set(request.emails.map(normalizeInvitationEmail))];
+      if (emails.length === 0 || emails.length > this.maxInvitesPerRequest) {
+        throw new InvitationError(
+          `Invite between 1 and ${this.maxInvitesPerRequest} guests at a time`,
+          'invitation/invalid-request'
+        );
+      }
+      const invalid = emails.find(email => !invitationSchema.shape.email.safeParse(email).success);
+      if (invalid) {
+        throw new InvitationError(`${invalid} is not a valid email address`, 'invitation/invalid-email');
+      }
+
+      // Inviting someone again restores a revoked invitation
+      const refs = emails.map(email => this.firestore.collection(this.invitationsCollection).doc(`${request.eventId}_${email}`));
+      const now = Timestamp.now();
+      for (let i = 0; i < refs.length; i += this.batchSize) {
+        const batch = this.firestore.batch();
+        for (const [offset, ref] of refs.slice(i, i + this.batchSize).entries()) {
+          batch.set(ref, {
+            eventId: request.eventId,
+            email: emails[i + offset],
+            status: InvitationStatus.ACTIVE,
+            invitedBy: organizerId,
+            revokedAt: FieldValue.delete(),
+            createdAt: now,
+            updatedAt: now,
+          }, { merge: true });
+        }
+        await batch.commit();
+      }
+
+      const docs = await this.firestore.getAll(...refs);
+      return docs.map(doc => this.convertToInvitation(doc));
+    } catch (error: any) {
+      if (error instanceof InvitationError) throw error;
+      throw new InvitationError('Failed to invite guests', 'invitation/creation-failed', error);
+    }
+  }
+
+  async listEventInvitations(organizerId: string, eventId: string): Promise<Invitation[]> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
+      const snapshot = await this.firestore
+        .collection(this.invitationsCollection)
+        .where('eventId', '==', eventId)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToInvitation(doc));
+    } catch (error: any) {
+      if (error instanceof InvitationError) throw error;
+      throw new InvitationError('Failed to list invitations', 'invitation/list-failed', error);
+    }
+  }
+
+  async revokeInvitation(organizerId: string, invitationId: string): Promise<Invitation> {
+    try {
+      const doc = await this.firestore.collection(this.invitationsCollection).doc(invitationId).get();
+      if (!doc.exists) {
+        throw new InvitationNotFoundError(invitationId);
+      }
+      const invitation = this.convertToInvitation(doc);
+      await this.verifyOrganizerOwnsEvent(organizerId, invitation.eventId);
+
+      const now = Timestamp.now();
+      await doc.ref.update({
+        status: InvitationStatus.REVOKED,
+        revokedAt: now,
+        updatedAt: now,
+      });
+
+      return this.convertToInvitation(await doc.ref.get());
+    } catch (error: any) {
+      if (error instanceof InvitationError) throw error;
+      throw new InvitationError('Failed to revoke invitation', 'invitation/revoke-failed', error);
+    }
+  }
+
+  async createAccessCode(organizerId: string, request: CreateAccessCodeRequest): Promise<AccessCode> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, request.eventId);
+
+      const code = normalizeAccessCode(request.code ?? randomBytes(4).toString('hex'));
+      if (!/^[A-Z0-9_-]{4,32}$/.test(code)) {
+        throw new InvitationError(
+          'Access codes must be 4 to 32 letters, digits, dashes or underscores',
+          'invitation/invalid-access-code-format'
+        );
+      }
+
+      const existing = await this.firestore
+        .collection(this.accessCodesCollection)
+        .where('eventId', '==', request.eventId)
+        .where('code', '==', code)
+        .where('isActive', '==', true)
+        .limit(1)
+        .get();
+      if (!existing.empty) {
+        throw new InvitationError(`Access code ${code} is already in use for this event`, 'invitation/duplicate-access-code');
+      }
+
+      const now = Timestamp.now();
+      const docRef = await this.firestore.collection(this.accessCodesCollection).add({
+        eventId: request.eventId,
+        code,
+        maxUses: request.maxUses,
+        uses: 0,
+        expiresAt: request.expiresAt ? Timestamp.fromDate(request.expiresAt) : null,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      return this.convertToAccessCode(await docRef.get());
+    } catch (error: any) {
+      if (error instanceof InvitationError) throw error;
+      throw new InvitationError('Failed to create access code', 'invitation/creation-failed', error);
+    }
+  }
+
+  async listEventAccessCodes(organizerId: string, eventId: string): Promise<AccessCode[]> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
+      const snapshot = await this.firestore
+        .collection(this.accessCodesCollection)
+        .where('eventId', '==', eventId)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToAccessCode(doc));
+    } catch (error: any) {
+      if (error instanceof InvitationError) throw error;
+      throw new InvitationError('Failed to list access codes', 'invitation/list-failed', error);
+    }
+  }
+
+  /**
+   * Stop a code from being redeemed and take back the access it already gave.
+   */
+  async revokeAccessCode(organizerId: string, accessCodeId: string): Promise<AccessCode> {
+    try {
+      const doc = await this.firestore.collection(this.accessCodesCollection).doc(accessCodeId).get();
+      if (!doc.exists) {
+        throw new AccessCodeNotFoundError(accessCodeId);
+      }
+      const accessCode = this.convertToAccessCode(doc);
+      await this.verifyOrganizerOwnsEvent(organizerId, accessCode.eventId);
+
+      await doc.ref.update({
+        isActive: false,
+        updatedAt: Timestamp.now(),
+      });
+
+      const grants = await this.firestore
+        .collection(this.accessGrantsCollection)
+        .where('accessCodeId', '==', accessCodeId)
+        .get();
+      for (let i = 0; i < grants.docs.length; i += this.batchSize) {
+        const batch = this.firestore.batch();
+        grants.docs.slice(i, i + this.batchSize).forEach(grant => batch.delete(grant.ref));
+        await batch.commit();
+      }
+
+      return this.convertToAccessCode(await doc.ref.get());
+    } catch (error: any) {
+      if (error instanceof InvitationError) throw error;
+      throw new InvitationError('Failed to revoke access code', 'invitation/revoke-failed', error);
+    }
+  }
+
+  async redeemAccessCode(userId: string, eventId: string, code: string): Promise<EventAccessGrant> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.accessCodesCollection)
+        .where('eventId', '==', eventId)
+        .where('code', '==', normalizeAccessCode(code))
+        .where('isActive', '==', true)
+        .limit(1)
+        .get();
+      const codeDoc = snapshot.docs[0];
+      if (!codeDoc) {
+        throw new InvalidAccessCodeError('code not found');
+      }
+
+      const grantRef = this.firestore.collection(this.accessGrantsCollection).doc(`${eventId}_${userId}`);
+
+      // Uses are counted in a transaction so a limited code is never redeemed too often
+      await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const [currentCode, existingGrant] = await transaction.getAll(codeDoc.ref, grantRef);
+        if (existingGrant!.exists) {
+          return;
+        }
+
+        const accessCode = this.convertToAccessCode(currentCode!);
+        if (!accessCode.isActive) {
+          throw new InvalidAccessCodeError('code has been revoked');
+        }
+        if (accessCode.expiresAt && accessCode.expiresAt <= new Date()) {
+          throw new InvalidAccessCodeError('code has expired');
+        }
+        if (accessCode.maxUses !== undefined && accessCode.uses >= accessCode.maxUses) {
+          throw new InvalidAccessCodeError('code has been used up');
+        }
+
+        const now = Timestamp.now();
+        transaction.update(codeDoc.ref, {
+          uses: FieldValue.increment(1),
+          updatedAt: now,
+        });
+        transaction.set(grantRef, {
+          eventId,
+          userId,
+          accessCodeId: accessCode.id,
+          code: accessCode.code,
+          createdAt: now,
+        });
+      });
+
+      return this.convertToGrant(await grantRef.get());
+    } catch (error: any) {
+      if (error instanceof InvitationError) throw error;
+      throw new InvitationError('Failed to redeem access code', 'invitation/redeem-failed', error);
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export * from './types';
+export * from './invitation.service';
+export * from './firebase-invitation.service';
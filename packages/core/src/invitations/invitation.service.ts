@@ -0,0 +1,20 @@
+import {
+  Invitation,
+  AccessCode,
+  EventAccessGrant,
+  InviteGuestsRequest,
+  CreateAccessCodeRequest
+} from './types';
+
+export interface IInvitationService {
+  // Invitations
+  inviteGuests(organizerId: string, request: InviteGuestsRequest): Promise<Invitation[]>;
+  listEventInvitations(organizerId: string, eventId: string): Promise<Invitation[]>;
+  revokeInvitation(organizerId: string, invitationId: string): Promise<Invitation>;
+
+  // Access Codes
+  createAccessCode(organizerId: string, request: CreateAccessCodeRequest): Promise<AccessCode>;
+  listEventAccessCodes(organizerId: string, eventId: string): Promise<AccessCode[]>;
+  revokeAccessCode(organizerId: string, accessCodeId: string): Promise<AccessCode>;
+  redeemAccessCode(userId: string, eventId: string, code: string): Promise<EventAccessGrant>;
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+export enum InvitationStatus {
+  ACTIVE = 'ACTIVE',
+  REVOKED = 'REVOKED',
+}
+
+// Invitations are matched against the verified email of the guest's account
+export const invitationSchema = z.object({
+  id: z.string(), // `${eventId}_${email}`, so an email is invited once per event
+  eventId: z.string(),
+  email: z.string().email(),
+  status: z.nativeEnum(InvitationStatus),
+  invitedBy: z.string(),
+  revokedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Invitation = z.infer<typeof invitationSchema>;
+
+export const accessCodeSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  code: z.string().min(1), // Stored uppercase
+  maxUses: z.number().int().positive().optional(),
+  uses: z.number().int().min(0).default(0),
+  expiresAt: z.date().optional(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type AccessCode = z.infer<typeof accessCodeSchema>;
+
+// Access given to one account by redeeming a code; removed when the code is revoked
+export const eventAccessGrantSchema = z.object({
+  id: z.string(), // `${eventId}_${userId}`
+  eventId: z.string(),
+  userId: z.string(),
+  accessCodeId: z.string(),
+  code: z.string(),
+  createdAt: z.date(),
+});
+
+export type EventAccessGrant = z.infer<typeof eventAccessGrantSchema>;
+
+export interface InviteGuestsRequest {
+  eventId: string;
+  emails: string[];
+}
+
+export interface CreateAccessCodeRequest {
+  eventId: string;
+  code?: string; // Generated when omitted
+  maxUses?: number;
+  expiresAt?: Date;
+}
+
+// Error types
+export class InvitationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'InvitationError';
+  }
+}
+
+export class InvitationNotFoundError extends InvitationError {
+  constructor(invitationId: string) {
+    super(
+      `Invitation with ID ${invitationId} not found`,
+      'invitation/not-found'
+    );
+    this.name = 'InvitationNotFoundError';
+  }
+}
+
+export class AccessCodeNotFoundError extends InvitationError {
+  constructor(accessCodeId: string) {
+    super(
+      `Access code with ID ${accessCodeId} not found`,
+      'invitation/access-code-not-found'
+    );
+    this.name = 'AccessCodeNotFoundError';
+  }
+}
+
+export class InvalidAccessCodeError extends InvitationError {
+  constructor(reason: string) {
+    super(
+      `Access code cannot be used: ${reason}`,
+      'invitation/invalid-access-code'
+    );
+    this.name = 'InvalidAccessCodeError';
+  }
+}
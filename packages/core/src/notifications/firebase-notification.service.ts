@@ -0,0 +1,110 @@
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import {
+  Notification,
+  NotificationError,
+  NotificationNotFoundError,
+  NotificationSender,
+  SendNotificationRequest,
+  notificationSchema,
+} from './types';
+import { INotificationService } from './notification.service';
+
+export class FirebaseNotificationService implements INotificationService {
+  private readonly collectionName = 'notifications';
+
+  constructor(
+    private firestore: Firestore,
+    private sender?: NotificationSender
+  ) {}
+
+  private convertToNotification(doc: FirebaseFirestore.DocumentSnapshot): Notification {
+    const data = doc.data()!;
+    return notificationSchema.parse({
+      ...data,
+      id: doc.id,
+      emailedAt: data.emailedAt?.toDate(),
+      readAt: data.readAt?.toDate(),
+      createdAt: data.createdAt.toDate(),
+    });
+  }
+
+  // Email delivery is best effort: a failure is kept on the notification instead of thrown
+  private async deliver(doc: FirebaseFirestore.DocumentSnapshot): Promise<Notification> {
+    const notification = this.convertToNotification(doc);
+    if (!this.sender || !notification.email || notification.emailedAt) {
+      return notification;
+    }
+
+    try {
+      await this.sender(notification);
+      await doc.ref.update({ emailedAt: Timestamp.now() });
+    } catch (error: any) {
+      await doc.ref.update({ deliveryError: error?.message ?? String(error) });
+    }
+    return this.convertToNotification(await doc.ref.get());
+  }
+
+  async sendNotification(request: SendNotificationRequest): Promise<Notification> {
+    try {
+      const collection = this.firestore.collection(this.collectionName);
+      const ref = request.key ? collection.doc(request.key) : collection.doc();
+
+      try {
+        await ref.create({
+          userId: request.userId,
+          type: request.type,
+          title: request.title,
+          body: request.body,
+          data: request.data ?? {},
+          ...(request.email ? { email: request.email } : {}),
+          createdAt: Timestamp.now(),
+        });
+      } catch (error: any) {
+        // Already sent under this key; only retry an email that did not go out
+        const existing = await ref.get();
+        if (!existing.exists) {
+          throw error;
+        }
+        return await this.deliver(existing);
+      }
+
+      return await this.deliver(await ref.get());
+    } catch (error: any) {
+      if (error instanceof NotificationError) throw error;
+      throw new NotificationError('Failed to send notification', 'notification/send-failed', error);
+    }
+  }
+
+  async listUserNotifications(userId: string, unreadOnly = false): Promise<Notification[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.collectionName)
+        .where('userId', '==', userId)
+        .orderBy('createdAt', 'desc')
+        .get();
+
+      const notifications = snapshot.docs.map(doc => this.convertToNotification(doc));
+      return unreadOnly ? notifications.filter(notification => !notification.readAt) : notifications;
+    } catch (error: any) {
+      throw new NotificationError('Failed to list notifications', 'notification/list-failed', error);
+    }
+  }
+
+  async markNotificationRead(userId: string, notificationId: string): Promise<Notification> {
+    try {
+      const ref = this.firestore.collection(this.collectionName).doc(notificationId);
+      const doc = await ref.get();
+      if (!doc.exists || doc.get('userId') !== userId) {
+        throw new NotificationNotFoundError(notificationId);
+      }
+
+      if (!doc.get('readAt')) {
+        await ref.update({ readAt: Timestamp.now() });
+      }
+      return this.convertToNotification(await ref.get());
+    } catch (error: any) {
+      if (error instanceof NotificationError) throw error;
+      throw new NotificationError('Failed to mark notification as read', 'notification/update-failed', error);
+    }
+  }
+}
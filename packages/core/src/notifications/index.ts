@@ -0,0 +1,3 @@
+export * from './types';
+export * from './notification.service';
+export * from './firebase-notification.service';
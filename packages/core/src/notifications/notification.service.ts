@@ -0,0 +1,7 @@
+import { Notification, SendNotificationRequest } from './types';
+
+export interface INotificationService {
+  sendNotification(request: SendNotificationRequest): Promise<Notification>;
+  listUserNotifications(userId: string, unreadOnly?: boolean): Promise<Notification[]>;
+  markNotificationRead(userId: string, notificationId: string): Promise<Notification>;
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+export enum NotificationType {
+  EVENT_CANCELLED = 'EVENT_CANCELLED',
+  EVENT_RESCHEDULED = 'EVENT_RESCHEDULED',
+}
+
+export const notificationSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  type: z.nativeEnum(NotificationType),
+  title: z.string(),
+  body: z.string(),
+  data: z.record(z.string()).default({}), // Ids the client needs to link to, e.g. eventId
+  email: z.string().email().optional(), // Also delivered here when a sender is configured
+  emailedAt: z.date().optional(),
+  deliveryError: z.string().optional(), // Last failed email delivery; the notification is still listed
+  readAt: z.date().optional(),
+  createdAt: z.date(),
+});
+
+export type Notification = z.infer<typeof notificationSchema>;
+
+export interface SendNotificationRequest {
+  key?: string; // Stable id, so a job that runs again does not notify the same user twice
+  userId: string;
+  email?: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+}
+
+// Delivers a notification outside the app, e.g. by email
+export type NotificationSender = (notification: Notification) => Promise<void>;
+
+// Error types
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'NotificationError';
+  }
+}
+
+export class NotificationNotFoundError extends NotificationError {
+  constructor(notificationId: string) {
+    super(
+      `Notification with ID ${notificationId} not found`,
+      'notification/not-found'
+    );
+    this.name = 'NotificationNotFoundError';
+  }
+}
@@ -46,6 +46,11 @@ export class StripePaymentService implements IPaymentService {
     });
   }
 
+  // Stripe replays the original response for a key it has seen, so retries do not charge twice
+  private getRequestOptions(idempotencyKey?: string): Stripe.RequestOptions | undefined {
+    return idempotencyKey ? { idempotencyKey } : undefined;
+  }
+
   async createPayment(request: CreatePaymentRequest): Promise<Payment> {
     try {
       // Get or create Stripe customer
@@ -60,7 +65,7 @@ export class StripePaymentService implements IPaymentService {
           ...request.metadata,
           customerId: request.customerId,
         },
-      });
+      }, this.getRequestOptions(request.idempotencyKey));
 
       // Store payment record
       const now = Timestamp.now();
@@ -78,7 +83,14 @@ export class StripePaymentService implements IPaymentService {
         updatedAt: now,
       };
 
-      const docRef = await this.firestore.collection(this.paymentsCollection).add(paymentData);
+      // Keyed by the intent, so a request Stripe replayed maps to the record stored the first time
+      const docRef = this.firestore.collection(this.paymentsCollection).doc(paymentIntent.id);
+      await this.firestore.runTransaction(async (transaction) => {
+        const existing = await transaction.get(docRef);
+        if (!existing.exists) {
+          transaction.create(docRef, paymentData);
+        }
+      });
       const doc = await docRef.get();
 
       return this.convertToPayment(doc);
@@ -205,7 +217,7 @@ export class StripePaymentService implements IPaymentService {
       const refund = await this.stripe.refunds.create({
         payment_intent: payment.providerPaymentId,
         reason: request.reason as Stripe.RefundCreateParams.Reason || 'requested_by_customer',
-      });
+      }, this.getRequestOptions(request.idempotencyKey));
 
       if (refund.status !== 'succeeded') {
         throw new RefundError(
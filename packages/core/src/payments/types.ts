@@ -48,11 +48,13 @@ export interface CreatePaymentRequest {
   customerId: string;
   customerEmail: string;
   metadata?: Record<string, string>;
+  idempotencyKey?: string; // Retrying with the same key returns the original payment
 }
 
 export interface RefundRequest {
   paymentId: string;
   reason?: string;
+  idempotencyKey?: string; // Retrying with the same key never refunds twice
 }
 
 // Error types
@@ -0,0 +1,104 @@
+import { assertPromoCodeApplicable, calculateDiscount } from './discount';
+import { DiscountLine, DiscountType, InvalidPromoCodeError, PromoCode } from './types';
+
+function createPromoCode(overrides: Partial<PromoCode> = {}): PromoCode {
+  return {
+    id: 'promo-1',
+    eventId: 'event-1',
+    organizerId: 'organizer-1',
+    code: 'EARLY',
+    discountType: DiscountType.PERCENTAGE,
+    discountValue: 10,
+    usageCount: 0,
+    ticketTypeIds: [],
+    isActive: true,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('promo code discounts', () => {
+  const now = new Date('2026-10-15T12:00:00Z');
+  const lines: DiscountLine[] = [
+    { ticketTypeId: 'general', unitPrice: 30, quantity: 2 },
+    { ticketTypeId: 'student', unitPrice: 10, quantity: 1 },
+  ];
+
+  describe('assertPromoCodeApplicable', () => {
+    it('accepts a code that is active, in its window and under its limits', () => {
+      const promoCode = createPromoCode({
+        validFrom: new Date('2026-10-01T00:00:00Z'),
+        validUntil: new Date('2026-10-31T00:00:00Z'),
+        maxUses: 5,
+        usageCount: 4,
+        maxUsesPerCustomer: 2,
+      });
+
+      expect(() => assertPromoCodeApplicable(promoCode, lines, 1, now)).not.toThrow();
+    });
+
+    it.each<[string, Partial<PromoCode>, number]>([
+      ['code is no longer active', { isActive: false }, 0],
+      ['code is not valid yet', { validFrom: new Date('2026-10-16T00:00:00Z') }, 0],
+      ['code has expired', { validUntil: new Date('2026-10-15T11:59:59Z') }, 0],
+      ['usage limit reached', { maxUses: 5, usageCount: 5 }, 0],
+      ['you have already used this code', { maxUsesPerCustomer: 1 }, 1],
+      ['code does not apply to these tickets', { ticketTypeIds: ['vip'] }, 0],
+    ])('refuses the code: %s', (reason, overrides, customerUses) => {
+      const promoCode = createPromoCode(overrides);
+
+      expect(() => assertPromoCodeApplicable(promoCode, lines, customerUses, now)).toThrow(InvalidPromoCodeError);
+      expect(() => assertPromoCodeApplicable(promoCode, lines, customerUses, now)).toThrow(reason);
+    });
+  });
+
+  describe('calculateDiscount', () => {
+    it('takes a percentage off every eligible ticket', () => {
+      const promoCode = createPromoCode({ discountValue: 10, ticketTypeIds: ['general'] });
+
+      expect(calculateDiscount(promoCode, lines)).toEqual({ amount: 6, perTicket: [3, 0] });
+    });
+
+    it('never takes more than 100 percent', () => {
+      const promoCode = createPromoCode({ discountValue: 150 });
+
+      expect(calculateDiscount(promoCode, lines)).toEqual({ amount: 70, perTicket: [30, 10] });
+    });
+
+    it('spreads a fixed amount over eligible tickets by price', () => {
+      const promoCode = createPromoCode({ discountType: DiscountType.FIXED, discountValue: 14 });
+
+      expect(calculateDiscount(promoCode, lines)).toEqual({ amount: 14, perTicket: [6, 2] });
+    });
+
+    it('caps a fixed amount at what the eligible tickets cost', () => {
+      const promoCode = createPromoCode({ discountType: DiscountType.FIXED, discountValue: 100 });
+
+      expect(calculateDiscount(promoCode, lines)).toEqual({ amount: 70, perTicket: [30, 10] });
+    });
+
+    it('rounds each ticket to the cent', () => {
+      const promoCode = createPromoCode({ discountType: DiscountType.FIXED, discountValue: 10 });
+
+      expect(calculateDiscount(promoCode, [{ ticketTypeId: 'general', unitPrice: 10, quantity: 3 }])).toEqual({
+        amount: 9.99,
+        perTicket: [3.33],
+      });
+    });
+
+    it('leaves free and ineligible tickets alone', () => {
+      const promoCode = createPromoCode({
+        discountType: DiscountType.FIXED,
+        discountValue: 5,
+        ticketTypeIds: ['general', 'guest'],
+      });
+
+      expect(calculateDiscount(promoCode, [
+        { ticketTypeId: 'guest', unitPrice: 0, quantity: 2 },
+        { ticketTypeId: 'general', unitPrice: 20, quantity: 1 },
+        { ticketTypeId: 'student', unitPrice: 10, quantity: 1 },
+      ])).toEqual({ amount: 5, perTicket: [0, 5, 0] });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { DiscountLine, DiscountResult, DiscountType, InvalidPromoCodeError, PromoCode } from './types';
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Throws when a promo code cannot be used for an order right now.
+ */
+export function assertPromoCodeApplicable(
+  promoCode: PromoCode,
+  lines: DiscountLine[],
+  customerUses: number,
+  now: Date = new Date()
+): void {
+  if (!promoCode.isActive) {
+    throw new InvalidPromoCodeError(promoCode.code, 'code is no longer active');
+  }
+  if (promoCode.validFrom && promoCode.validFrom > now) {
+    throw new InvalidPromoCodeError(promoCode.code, 'code is not valid yet');
+  }
+  if (promoCode.validUntil && promoCode.validUntil < now) {
+    throw new InvalidPromoCodeError(promoCode.code, 'code has expired');
+  }
+  if (promoCode.maxUses !== undefined && promoCode.usageCount >= promoCode.maxUses) {
+    throw new InvalidPromoCodeError(promoCode.code, 'usage limit reached');
+  }
+  if (promoCode.maxUsesPerCustomer !== undefined && customerUses >= promoCode.maxUsesPerCustomer) {
+    throw new InvalidPromoCodeError(promoCode.code, 'you have already used this code');
+  }
+  if (!lines.some(line => isEligible(promoCode, line.ticketTypeId))) {
+    throw new InvalidPromoCodeError(promoCode.code, 'code does not apply to these tickets');
+  }
+}
+
+function isEligible(promoCode: PromoCode, ticketTypeId: string): boolean {
+  return promoCode.ticketTypeIds.length === 0 || promoCode.ticketTypeIds.includes(ticketTypeId);
+}
+
+/**
+ * Work out the discount per ticket for each line. Fixed discounts are spread over the
+ * eligible tickets in proportion to their price and never exceed what those tickets cost.
+ */
+export function calculateDiscount(promoCode: PromoCode, lines: DiscountLine[]): DiscountResult {
+  const isDiscounted = (line: DiscountLine) => isEligible(promoCode, line.ticketTypeId) && line.unitPrice > 0;
+  const eligibleSubtotal = lines
+    .filter(isDiscounted)
+    .reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+  const perTicket = lines.map(line => {
+    if (!isDiscounted(line)) {
+      return 0;
+    }
+    const discount = promoCode.discountType === DiscountType.PERCENTAGE
+      ? line.unitPrice * Math.min(promoCode.discountValue, 100) / 100
+      : Math.min(promoCode.discountValue, eligibleSubtotal) * line.unitPrice / eligibleSubtotal;
+    return Math.min(roundAmount(discount), line.unitPrice);
+  });
+
+  const amount = roundAmount(lines.reduce((sum, line, index) => sum + perTicket[index]! * line.quantity, 0));
+  return { amount, perTicket };
+}
@@ -0,0 +1,198 @@
+import { Firestore, Transaction } from 'firebase-admin/firestore';
+import { FirebasePromoCodeService } from './firebase-promo-code.service';
+import {
+  CreateUnlockCodeRequest,
+  InvalidUnlockCodeError,
+  PromoRedemptionStatus,
+  UnlockCode,
+  UnlockCodeNotFoundError,
+  UnlockLine,
+} from './types';
+import { IEventService } from '../events';
+import { FakeFirestore } from '../testing/fake-firestore';
+import { createEvent } from '../testing/fixtures';
+
+describe('FirebasePromoCodeService', () => {
+  const now = new Date('2026-11-03T10:00:00Z');
+  const event = createEvent();
+
+  let firestore: FakeFirestore;
+  let service: FirebasePromoCodeService;
+
+  const createUnlockCode = (overrides: Partial<CreateUnlockCodeRequest> = {}) =>
+    service.createUnlockCode(event.organizerId, {
+      eventId: event.id,
+      code: 'press-2026',
+      ticketTypeIds: ['press', 'sponsor'],
+      maxUses: 5,
+      ...overrides,
+    });
+
+  // Reserve hidden tickets with a code the way the ticket service does
+  const unlock = (orderId: string, lines: UnlockLine[], code = 'PRESS-2026') => firestore.runTransaction(async transaction => {
+    const prepared = await service.prepareUnlock(transaction as unknown as Transaction, event.id, code, lines);
+    service.recordUnlock(transaction as unknown as Transaction, prepared, orderId, 'buyer-1');
+    return prepared;
+  });
+
+  const release = (unlockCode: UnlockCode, orderId: string, quantity: number) => firestore.runTransaction(async transaction => {
+    service.releaseUnlock(transaction as unknown as Transaction, unlockCode.id, orderId, quantity);
+  });
+
+  const getUsageCount = async (unlockCode: UnlockCode) =>
+    (await firestore.collection('unlockCodes').doc(unlockCode.id).get()).get('usageCount');
+
+  const captureError = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      return error as any;
+    }
+    return undefined;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+
+    firestore = new FakeFirestore();
+    service = new FirebasePromoCodeService(
+      firestore as unknown as Firestore,
+      { getEvent: jest.fn(async () => event) } as unknown as IEventService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('createUnlockCode', () => {
+    it('stores the code uppercase with nothing used yet', async () => {
+      const unlockCode = await createUnlockCode({ ticketTypeIds: ['press', 'press'] });
+
+      expect(unlockCode).toMatchObject({
+        code: 'PRESS-2026',
+        organizerId: event.organizerId,
+        ticketTypeIds: ['press'],
+        usageCount: 0,
+        isActive: true,
+      });
+      expect(unlockCode.validUntil).toBeUndefined();
+    });
+
+    it.each([
+      ['a code already used for the event', { code: ' Press-2026 ' }, 'promo/already-exists'],
+      ['a code without ticket types', { code: 'SPONSOR', ticketTypeIds: [] }, 'promo/invalid-ticket-types'],
+    ])('refuses %s', async (_reason, overrides, code) => {
+      await createUnlockCode();
+
+      expect((await captureError(() => createUnlockCode(overrides)))?.code).toBe(code);
+    });
+  });
+
+  describe('redemption limits', () => {
+    it('counts every ticket reserved with the code against its limit', async () => {
+      const unlockCode = await createUnlockCode();
+
+      const prepared = await unlock('order-1', [{ ticketTypeId: 'press', quantity: 2 }, { ticketTypeId: 'sponsor', quantity: 1 }]);
+
+      expect(prepared.quantity).toBe(3);
+      expect(await getUsageCount(unlockCode)).toBe(3);
+      expect(await service.listUnlockCodeRedemptions(event.organizerId, unlockCode.id)).toEqual([
+        expect.objectContaining({
+          id: 'order-1',
+          code: 'PRESS-2026',
+          customerId: 'buyer-1',
+          status: PromoRedemptionStatus.ACTIVE,
+          quantity: 3,
+        }),
+      ]);
+    });
+
+    it('refuses orders that need more tickets than the code has left', async () => {
+      const unlockCode = await createUnlockCode();
+      await unlock('order-1', [{ ticketTypeId: 'press', quantity: 4 }]);
+
+      const error = await captureError(() => unlock('order-2', [{ ticketTypeId: 'press', quantity: 2 }]));
+
+      expect(error).toBeInstanceOf(InvalidUnlockCodeError);
+      expect(error.message).toBe('Unlock code PRESS-2026 cannot be used: only 1 tickets left on this code');
+      expect(await getUsageCount(unlockCode)).toBe(4);
+
+      await unlock('order-2', [{ ticketTypeId: 'press', quantity: 1 }]);
+      expect(await getUsageCount(unlockCode)).toBe(5);
+    });
+
+    it('gives the tickets of a released order back to the code', async () => {
+      const unlockCode = await createUnlockCode();
+      await unlock('order-1', [{ ticketTypeId: 'press', quantity: 5 }]);
+
+      await release(unlockCode, 'order-1', 5);
+
+      expect(await getUsageCount(unlockCode)).toBe(0);
+      expect((await service.listUnlockCodeRedemptions(event.organizerId, unlockCode.id))[0])
+        .toMatchObject({ status: PromoRedemptionStatus.RELEASED });
+      await unlock('order-2', [{ ticketTypeId: 'sponsor', quantity: 5 }]);
+    });
+
+    it('has no limit when the code has no maximum', async () => {
+      const unlockCode = await createUnlockCode({ maxUses: undefined });
+
+      await unlock('order-1', [{ ticketTypeId: 'press', quantity: 50 }]);
+
+      expect(await getUsageCount(unlockCode)).toBe(50);
+    });
+
+    it.each([
+      ['ticket types it does not unlock', {}, 'general', 'code does not unlock these tickets'],
+      ['an expired code', { validUntil: new Date(now.getTime() - 1000) }, 'press', 'code has expired'],
+    ])('refuses %s', async (_case, overrides, ticketTypeId, reason) => {
+      await createUnlockCode(overrides);
+
+      const error = await captureError(() => unlock('order-1', [{ ticketTypeId, quantity: 1 }]));
+
+      expect(error?.message).toBe(`Unlock code PRESS-2026 cannot be used: ${reason}`);
+    });
+
+    it('refuses codes that were deactivated or never existed', async () => {
+      const unlockCode = await createUnlockCode();
+      await service.deactivateUnlockCode(event.organizerId, unlockCode.id);
+
+      expect((await captureError(() => unlock('order-1', [{ ticketTypeId: 'press', quantity: 1 }])))?.message)
+        .toBe('Unlock code PRESS-2026 cannot be used: code is no longer active');
+      expect(await captureError(() => unlock('order-1', [{ ticketTypeId: 'press', quantity: 1 }], 'BACKSTAGE')))
+        .toBeInstanceOf(UnlockCodeNotFoundError);
+    });
+  });
+
+  describe('getUnlockedTicketTypeIds', () => {
+    it('shows the hidden ticket types of a usable code', async () => {
+      await createUnlockCode();
+
+      expect(await service.getUnlockedTicketTypeIds(event.id, ' press-2026')).toEqual(['press', 'sponsor']);
+    });
+
+    it('shows nothing once the code is used up, and again after a release', async () => {
+      const unlockCode = await createUnlockCode();
+      await unlock('order-1', [{ ticketTypeId: 'press', quantity: 5 }]);
+
+      expect(await service.getUnlockedTicketTypeIds(event.id, 'PRESS-2026')).toEqual([]);
+
+      await release(unlockCode, 'order-1', 2);
+      expect(await service.getUnlockedTicketTypeIds(event.id, 'PRESS-2026')).toEqual(['press', 'sponsor']);
+    });
+
+    it('shows nothing for unknown, deactivated or expired codes', async () => {
+      const unlockCode = await createUnlockCode();
+      await createUnlockCode({ code: 'SPONSOR', validUntil: new Date(now.getTime() + 1000) });
+
+      expect(await service.getUnlockedTicketTypeIds(event.id, 'BACKSTAGE')).toEqual([]);
+      expect(await service.getUnlockedTicketTypeIds('event-2', 'PRESS-2026')).toEqual([]);
+
+      await service.deactivateUnlockCode(event.organizerId, unlockCode.id);
+      jest.setSystemTime(new Date(now.getTime() + 2000));
+
+      expect(await service.getUnlockedTicketTypeIds(event.id, 'PRESS-2026')).toEqual([]);
+      expect(await service.getUnlockedTicketTypeIds(event.id, 'SPONSOR')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,478 @@
+import { FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import {
+  PromoCode,
+  PromoCodeError,
+  PromoCodeNotFoundError,
+  PromoRedemption,
+  PromoRedemptionStatus,
+  CreatePromoCodeRequest,
+  UpdatePromoCodeRequest,
+  DiscountLine,
+  DiscountResult,
+  promoCodeSchema,
+  promoRedemptionSchema,
+  UnlockCode,
+  UnlockCodeNotFoundError,
+  UnlockRedemption,
+  UnlockLine,
+  CreateUnlockCodeRequest,
+  unlockCodeSchema,
+  unlockRedemptionSchema,
+} from './types';
+import { IPromoCodeService } from './promo-code.service';
+import { assertPromoCodeApplicable, calculateDiscount, normalizePromoCode } from './discount';
+import { assertUnlockCodeApplicable, isUnlockCodeUsable } from './unlock-codes';
+import { IEventService } from '../events';
+
+export interface PreparedRedemption {
+  promoCode: PromoCode;
+  discount: DiscountResult;
+}
+
+export interface PreparedUnlock {
+  unlockCode: UnlockCode;
+  quantity: number;
+}
+
+export class FirebasePromoCodeService implements IPromoCodeService {
+  private readonly promoCodesCollection = 'promoCodes';
+  private readonly redemptionsCollection = 'promoRedemptions';
+  private readonly unlockCodesCollection = 'unlockCodes';
+  private readonly unlockRedemptionsCollection = 'unlockRedemptions';
+
+  constructor(
+    private firestore: Firestore,
+    private eventService: IEventService
+  ) {}
+
+  private async getPromoCodeDoc(promoCodeId: string) {
+    const doc = await this.firestore.collection(this.promoCodesCollection).doc(promoCodeId).get();
+    if (!doc.exists) {
+      throw new PromoCodeNotFoundError(promoCodeId);
+    }
+    return doc;
+  }
+
+  private convertToPromoCode(doc: FirebaseFirestore.DocumentSnapshot): PromoCode {
+    const data = doc.data()!;
+    return promoCodeSchema.parse({
+      ...data,
+      id: doc.id,
+      validFrom: data.validFrom?.toDate(),
+      validUntil: data.validUntil?.toDate(),
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToRedemption(doc: FirebaseFirestore.DocumentSnapshot): PromoRedemption {
+    const data = doc.data()!;
+    return promoRedemptionSchema.parse({
+      ...data,
+      id: doc.id,
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToUnlockCode(doc: FirebaseFirestore.DocumentSnapshot): UnlockCode {
+    const data = doc.data()!;
+    return unlockCodeSchema.parse({
+      ...data,
+      id: doc.id,
+      validUntil: data.validUntil?.toDate(),
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToUnlockRedemption(doc: FirebaseFirestore.DocumentSnapshot): UnlockRedemption {
+    const data = doc.data()!;
+    return unlockRedemptionSchema.parse({
+      ...data,
+      id: doc.id,
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private async getUnlockCodeDoc(unlockCodeId: string) {
+    const doc = await this.firestore.collection(this.unlockCodesCollection).doc(unlockCodeId).get();
+    if (!doc.exists) {
+      throw new UnlockCodeNotFoundError(unlockCodeId);
+    }
+    return doc;
+  }
+
+  private findUnlockCodeQuery(eventId: string, code: string) {
+    return this.firestore
+      .collection(this.unlockCodesCollection)
+      .where('eventId', '==', eventId)
+      .where('code', '==', normalizePromoCode(code))
+      .limit(1);
+  }
+
+  private async verifyOrganizerOwnsEvent(organizerId: string, eventId: string): Promise<void> {
+    const event = await this.eventService.getEvent(eventId);
+    if (event.organizerId !== organizerId) {
+      throw new PromoCodeError('Unauthorized: Not the event organizer', 'promo/unauthorized');
+    }
+  }
+
+  private validateDiscount(request: Partial<CreatePromoCodeRequest>): void {
+    if (request.discountType === 'PERCENTAGE' && request.discountValue !== undefined && request.discountValue > 100) {
+      throw new PromoCodeError('Percentage discounts cannot exceed 100%', 'promo/invalid-discount');
+    }
+    if (request.validFrom && request.validUntil && request.validUntil <= request.validFrom) {
+      throw new PromoCodeError('Promo code must end after it starts', 'promo/invalid-dates');
+    }
+  }
+
+  async createPromoCode(organizerId: string, request: CreatePromoCodeRequest): Promise<PromoCode> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, request.eventId);
+      this.validateDiscount(request);
+
+      const code = normalizePromoCode(request.code);
+      const existing = await this.firestore
+        .collection(this.promoCodesCollection)
+        .where('eventId', '==', request.eventId)
+        .where('code', '==', code)
+        .limit(1)
+        .get();
+      if (!existing.empty) {
+        throw new PromoCodeError(`Promo code ${code} already exists for this event`, 'promo/already-exists');
+      }
+
+      const now = Timestamp.now();
+      const promoCodeData = {
+        ...request,
+        code,
+        organizerId,
+        ticketTypeIds: request.ticketTypeIds ?? [],
+        usageCount: 0,
+        isActive: true,
+        validFrom: request.validFrom ? Timestamp.fromDate(request.validFrom) : null,
+        validUntil: request.validUntil ? Timestamp.fromDate(request.validUntil) : null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const docRef = await this.firestore.collection(this.promoCodesCollection).add(promoCodeData);
+      return this.convertToPromoCode(await docRef.get());
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to create promo code', 'promo/creation-failed', error);
+    }
+  }
+
+  async getPromoCode(promoCodeId: string): Promise<PromoCode> {
+    try {
+      const doc = await this.getPromoCodeDoc(promoCodeId);
+      return this.convertToPromoCode(doc);
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to get promo code', 'promo/get-failed', error);
+    }
+  }
+
+  async updatePromoCode(organizerId: string, request: UpdatePromoCodeRequest): Promise<PromoCode> {
+    try {
+      const doc = await this.getPromoCodeDoc(request.id);
+      const promoCode = this.convertToPromoCode(doc);
+
+      await this.verifyOrganizerOwnsEvent(organizerId, promoCode.eventId);
+      this.validateDiscount({
+        discountType: request.discountType ?? promoCode.discountType,
+        discountValue: request.discountValue ?? promoCode.discountValue,
+        validFrom: request.validFrom ?? promoCode.validFrom,
+        validUntil: request.validUntil ?? promoCode.validUntil,
+      });
+
+      const { id, ...changes } = request;
+      await doc.ref.update({
+        ...changes,
+        validFrom: request.validFrom ? Timestamp.fromDate(request.validFrom) : doc.get('validFrom'),
+        validUntil: request.validUntil ? Timestamp.fromDate(request.validUntil) : doc.get('validUntil'),
+        updatedAt: Timestamp.now(),
+      });
+
+      return this.convertToPromoCode(await doc.ref.get());
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to update promo code', 'promo/update-failed', error);
+    }
+  }
+
+  async deactivatePromoCode(organizerId: string, promoCodeId: string): Promise<PromoCode> {
+    return this.updatePromoCode(organizerId, { id: promoCodeId, isActive: false });
+  }
+
+  async listEventPromoCodes(organizerId: string, eventId: string): Promise<PromoCode[]> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
+      const snapshot = await this.firestore
+        .collection(this.promoCodesCollection)
+        .where('eventId', '==', eventId)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToPromoCode(doc));
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to list promo codes', 'promo/list-failed', error);
+    }
+  }
+
+  async listPromoCodeRedemptions(organizerId: string, promoCodeId: string): Promise<PromoRedemption[]> {
+    try {
+      const promoCode = await this.getPromoCode(promoCodeId);
+      await this.verifyOrganizerOwnsEvent(organizerId, promoCode.eventId);
+
+      const snapshot = await this.firestore
+        .collection(this.redemptionsCollection)
+        .where('promoCodeId', '==', promoCodeId)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToRedemption(doc));
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to list promo code redemptions', 'promo/list-failed', error);
+    }
+  }
+
+  async createUnlockCode(organizerId: string, request: CreateUnlockCodeRequest): Promise<UnlockCode> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, request.eventId);
+      if (request.ticketTypeIds.length === 0) {
+        throw new PromoCodeError('Unlock codes must unlock at least one ticket type', 'promo/invalid-ticket-types');
+      }
+
+      const code = normalizePromoCode(request.code);
+      const existing = await this.findUnlockCodeQuery(request.eventId, code).get();
+      if (!existing.empty) {
+        throw new PromoCodeError(`Unlock code ${code} already exists for this event`, 'promo/already-exists');
+      }
+
+      const now = Timestamp.now();
+      const unlockCodeData = {
+        ...request,
+        code,
+        organizerId,
+        ticketTypeIds: [...new Set(request.ticketTypeIds)],
+        usageCount: 0,
+        isActive: true,
+        validUntil: request.validUntil ? Timestamp.fromDate(request.validUntil) : null,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const docRef = await this.firestore.collection(this.unlockCodesCollection).add(unlockCodeData);
+      return this.convertToUnlockCode(await docRef.get());
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to create unlock code', 'promo/creation-failed', error);
+    }
+  }
+
+  async listEventUnlockCodes(organizerId: string, eventId: string): Promise<UnlockCode[]> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
+      const snapshot = await this.firestore
+        .collection(this.unlockCodesCollection)
+        .where('eventId', '==', eventId)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToUnlockCode(doc));
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to list unlock codes', 'promo/list-failed', error);
+    }
+  }
+
+  async deactivateUnlockCode(organizerId: string, unlockCodeId: string): Promise<UnlockCode> {
+    try {
+      const doc = await this.getUnlockCodeDoc(unlockCodeId);
+      await this.verifyOrganizerOwnsEvent(organizerId, doc.get('eventId'));
+
+      await doc.ref.update({
+        isActive: false,
+        updatedAt: Timestamp.now(),
+      });
+
+      return this.convertToUnlockCode(await doc.ref.get());
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to deactivate unlock code', 'promo/update-failed', error);
+    }
+  }
+
+  async listUnlockCodeRedemptions(organizerId: string, unlockCodeId: string): Promise<UnlockRedemption[]> {
+    try {
+      const doc = await this.getUnlockCodeDoc(unlockCodeId);
+      await this.verifyOrganizerOwnsEvent(organizerId, doc.get('eventId'));
+
+      const snapshot = await this.firestore
+        .collection(this.unlockRedemptionsCollection)
+        .where('unlockCodeId', '==', unlockCodeId)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToUnlockRedemption(doc));
+    } catch (error: any) {
+      if (error instanceof PromoCodeError) throw error;
+      throw new PromoCodeError('Failed to list unlock code redemptions', 'promo/list-failed', error);
+    }
+  }
+
+  /**
+   * Hidden ticket types a buyer may see with this code. Unknown or unusable codes
+   * unlock nothing rather than failing the listing.
+   */
+  async getUnlockedTicketTypeIds(eventId: string, code: string): Promise<string[]> {
+    const snapshot = await this.findUnlockCodeQuery(eventId, code).get();
+    const doc = snapshot.docs[0];
+    if (!doc) {
+      return [];
+    }
+
+    const unlockCode = this.convertToUnlockCode(doc);
+    const exhausted = unlockCode.maxUses !== undefined && unlockCode.usageCount >= unlockCode.maxUses;
+    return isUnlockCodeUsable(unlockCode) && !exhausted ? unlockCode.ticketTypeIds : [];
+  }
+
+  // Transactional helpers used by the ticket service while reserving
+
+  /**
+   * Read and validate a promo code inside a reservation transaction. Only reads, so it
+   * must be called before the transaction performs any write.
+   */
+  async prepareRedemption(
+    transaction: Transaction,
+    eventId: string,
+    code: string,
+    customerId: string,
+    lines: DiscountLine[]
+  ): Promise<PreparedRedemption> {
+    const normalized = normalizePromoCode(code);
+    const snapshot = await transaction.get(
+      this.firestore
+        .collection(this.promoCodesCollection)
+        .where('eventId', '==', eventId)
+        .where('code', '==', normalized)
+        .limit(1)
+    );
+    const doc = snapshot.docs[0];
+    if (!doc) {
+      throw new PromoCodeNotFoundError(normalized);
+    }
+
+    const promoCode = this.convertToPromoCode(doc);
+    const customerRedemptions = await transaction.get(
+      this.firestore
+        .collection(this.redemptionsCollection)
+        .where('promoCodeId', '==', promoCode.id)
+        .where('customerId', '==', customerId)
+        .where('status', '==', PromoRedemptionStatus.ACTIVE)
+    );
+
+    assertPromoCodeApplicable(promoCode, lines, customerRedemptions.size);
+    return { promoCode, discount: calculateDiscount(promoCode, lines) };
+  }
+
+  recordRedemption(
+    transaction: Transaction,
+    redemption: PreparedRedemption,
+    orderId: string,
+    customerId: string,
+    currency: string
+  ): void {
+    const now = Timestamp.now();
+    transaction.update(this.firestore.collection(this.promoCodesCollection).doc(redemption.promoCode.id), {
+      usageCount: FieldValue.increment(1),
+      updatedAt: now,
+    });
+    transaction.set(this.firestore.collection(this.redemptionsCollection).doc(orderId), {
+      promoCodeId: redemption.promoCode.id,
+      code: redemption.promoCode.code,
+      eventId: redemption.promoCode.eventId,
+      orderId,
+      customerId,
+      status: PromoRedemptionStatus.ACTIVE,
+      discountAmount: redemption.discount.amount,
+      currency,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Give a use back when an unpaid order is cancelled or expires. Writes only.
+   */
+  releaseRedemption(transaction: Transaction, promoCodeId: string, orderId: string): void {
+    const now = Timestamp.now();
+    transaction.update(this.firestore.collection(this.promoCodesCollection).doc(promoCodeId), {
+      usageCount: FieldValue.increment(-1),
+      updatedAt: now,
+    });
+    transaction.update(this.firestore.collection(this.redemptionsCollection).doc(orderId), {
+      status: PromoRedemptionStatus.RELEASED,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Read and validate an unlock code inside a reservation transaction. Lines are the
+   * hidden ticket types of the order. Only reads, so it must run before any write.
+   */
+  async prepareUnlock(
+    transaction: Transaction,
+    eventId: string,
+    code: string,
+    lines: UnlockLine[]
+  ): Promise<PreparedUnlock> {
+    const snapshot = await transaction.get(this.findUnlockCodeQuery(eventId, code));
+    const doc = snapshot.docs[0];
+    if (!doc) {
+      throw new UnlockCodeNotFoundError(normalizePromoCode(code));
+    }
+
+    const unlockCode = this.convertToUnlockCode(doc);
+    assertUnlockCodeApplicable(unlockCode, lines);
+    return { unlockCode, quantity: lines.reduce((sum, line) => sum + line.quantity, 0) };
+  }
+
+  recordUnlock(transaction: Transaction, unlock: PreparedUnlock, orderId: string, customerId: string): void {
+    const now = Timestamp.now();
+    transaction.update(this.firestore.collection(this.unlockCodesCollection).doc(unlock.unlockCode.id), {
+      usageCount: FieldValue.increment(unlock.quantity),
+      updatedAt: now,
+    });
+    transaction.set(this.firestore.collection(this.unlockRedemptionsCollection).doc(orderId), {
+      unlockCodeId: unlock.unlockCode.id,
+      code: unlock.unlockCode.code,
+      eventId: unlock.unlockCode.eventId,
+      orderId,
+      customerId,
+      status: PromoRedemptionStatus.ACTIVE,
+      quantity: unlock.quantity,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Give the allocation back when an unpaid order is cancelled or expires. Writes only.
+   */
+  releaseUnlock(transaction: Transaction, unlockCodeId: string, orderId: string, quantity: number): void {
+    const now = Timestamp.now();
+    transaction.update(this.firestore.collection(this.unlockCodesCollection).doc(unlockCodeId), {
+      usageCount: FieldValue.increment(-quantity),
+      updatedAt: now,
+    });
+    transaction.update(this.firestore.collection(this.unlockRedemptionsCollection).doc(orderId), {
+      status: PromoRedemptionStatus.RELEASED,
+      updatedAt: now,
+    });
+  }
+}
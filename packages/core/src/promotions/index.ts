@@ -0,0 +1,5 @@
+export * from './types';
+export * from './discount';
+export * from './unlock-codes';
+export * from './promo-code.service';
+export * from './firebase-promo-code.service';
\ No newline at end of file
@@ -0,0 +1,27 @@
+import {
+  PromoCode,
+  PromoRedemption,
+  CreatePromoCodeRequest,
+  UpdatePromoCodeRequest,
+  UnlockCode,
+  UnlockRedemption,
+  CreateUnlockCodeRequest
+} from './types';
+
+export interface IPromoCodeService {
+  // Promo Code Management
+  createPromoCode(organizerId: string, request: CreatePromoCodeRequest): Promise<PromoCode>;
+  getPromoCode(promoCodeId: string): Promise<PromoCode>;
+  updatePromoCode(organizerId: string, request: UpdatePromoCodeRequest): Promise<PromoCode>;
+  deactivatePromoCode(organizerId: string, promoCodeId: string): Promise<PromoCode>;
+  listEventPromoCodes(organizerId: string, eventId: string): Promise<PromoCode[]>;
+
+  // Reporting
+  listPromoCodeRedemptions(organizerId: string, promoCodeId: string): Promise<PromoRedemption[]>;
+
+  // Unlock Codes
+  createUnlockCode(organizerId: string, request: CreateUnlockCodeRequest): Promise<UnlockCode>;
+  listEventUnlockCodes(organizerId: string, eventId: string): Promise<UnlockCode[]>;
+  deactivateUnlockCode(organizerId: string, unlockCodeId: string): Promise<UnlockCode>;
+  listUnlockCodeRedemptions(organizerId: string, unlockCodeId: string): Promise<UnlockRedemption[]>;
+}
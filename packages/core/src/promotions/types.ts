@@ -0,0 +1,181 @@
+import { z } from 'zod';
+
+export enum DiscountType {
+  PERCENTAGE = 'PERCENTAGE',  // discountValue is a percentage of each eligible ticket
+  FIXED = 'FIXED',            // discountValue is an amount off the eligible part of the order
+}
+
+export enum PromoRedemptionStatus {
+  ACTIVE = 'ACTIVE',
+  RELEASED = 'RELEASED',  // Order was cancelled or expired before payment
+}
+
+export const promoCodeSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  organizerId: z.string(),
+  code: z.string().min(3),
+  description: z.string().optional(),
+  discountType: z.nativeEnum(DiscountType),
+  discountValue: z.number().positive(),
+  // Usage caps
+  maxUses: z.number().int().positive().optional(),
+  maxUsesPerCustomer: z.number().int().positive().optional(),
+  usageCount: z.number().int().min(0).default(0),
+  // Empty means every ticket type of the event
+  ticketTypeIds: z.array(z.string()).default([]),
+  isActive: z.boolean().default(true),
+  // Dates
+  validFrom: z.date().optional(),
+  validUntil: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type PromoCode = z.infer<typeof promoCodeSchema>;
+
+export const promoRedemptionSchema = z.object({
+  id: z.string(), // Same as the order ID
+  promoCodeId: z.string(),
+  code: z.string(),
+  eventId: z.string(),
+  orderId: z.string(),
+  customerId: z.string(),
+  status: z.nativeEnum(PromoRedemptionStatus),
+  discountAmount: z.number().min(0),
+  currency: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type PromoRedemption = z.infer<typeof promoRedemptionSchema>;
+
+// Lets buyers see and reserve hidden ticket types, such as press or sponsor allocations
+export const unlockCodeSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  organizerId: z.string(),
+  code: z.string().min(3),
+  description: z.string().optional(),
+  ticketTypeIds: z.array(z.string()).min(1), // Hidden ticket types the code unlocks
+  // Counted in tickets, so a code can carry a fixed allocation
+  maxUses: z.number().int().positive().optional(),
+  usageCount: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+  validUntil: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type UnlockCode = z.infer<typeof unlockCodeSchema>;
+
+export const unlockRedemptionSchema = z.object({
+  id: z.string(), // Same as the order ID
+  unlockCodeId: z.string(),
+  code: z.string(),
+  eventId: z.string(),
+  orderId: z.string(),
+  customerId: z.string(),
+  status: z.nativeEnum(PromoRedemptionStatus),
+  quantity: z.number().int().positive(), // Hidden tickets reserved with the code
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type UnlockRedemption = z.infer<typeof unlockRedemptionSchema>;
+
+export interface CreatePromoCodeRequest {
+  eventId: string;
+  code: string;
+  description?: string;
+  discountType: DiscountType;
+  discountValue: number;
+  maxUses?: number;
+  maxUsesPerCustomer?: number;
+  ticketTypeIds?: string[];
+  validFrom?: Date;
+  validUntil?: Date;
+}
+
+export interface UpdatePromoCodeRequest extends Partial<Omit<CreatePromoCodeRequest, 'eventId' | 'code'>> {
+  id: string;
+  isActive?: boolean;
+}
+
+export interface CreateUnlockCodeRequest {
+  eventId: string;
+  code: string;
+  description?: string;
+  ticketTypeIds: string[];
+  maxUses?: number;
+  validUntil?: Date;
+}
+
+export interface UnlockLine {
+  ticketTypeId: string;
+  quantity: number;
+}
+
+export interface DiscountLine {
+  ticketTypeId: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface DiscountResult {
+  amount: number;
+  // Discount applied to each ticket of the line at the same index
+  perTicket: number[];
+}
+
+// Error types
+export class PromoCodeError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+export class PromoCodeNotFoundError extends PromoCodeError {
+  constructor(code: string) {
+    super(
+      `Promo code ${code} not found`,
+      'promo/not-found'
+    );
+    this.name = 'PromoCodeNotFoundError';
+  }
+}
+
+export class InvalidPromoCodeError extends PromoCodeError {
+  constructor(code: string, reason: string) {
+    super(
+      `Promo code ${code} cannot be used: ${reason}`,
+      'promo/not-applicable'
+    );
+    this.name = 'InvalidPromoCodeError';
+  }
+}
+
+export class UnlockCodeNotFoundError extends PromoCodeError {
+  constructor(code: string) {
+    super(
+      `Unlock code ${code} not found`,
+      'promo/unlock-code-not-found'
+    );
+    this.name = 'UnlockCodeNotFoundError';
+  }
+}
+
+export class InvalidUnlockCodeError extends PromoCodeError {
+  constructor(code: string, reason: string) {
+    super(
+      `Unlock code ${code} cannot be used: ${reason}`,
+      'promo/unlock-code-not-applicable'
+    );
+    this.name = 'InvalidUnlockCodeError';
+  }
+}
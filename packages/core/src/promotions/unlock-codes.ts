@@ -0,0 +1,35 @@
+import { InvalidUnlockCodeError, UnlockCode, UnlockLine } from './types';
+
+/**
+ * Whether a code can currently be used, ignoring how many tickets it has left.
+ */
+export function isUnlockCodeUsable(unlockCode: UnlockCode, now: Date = new Date()): boolean {
+  return unlockCode.isActive && (!unlockCode.validUntil || unlockCode.validUntil >= now);
+}
+
+/**
+ * Throws when a code cannot unlock the hidden ticket types of an order right now.
+ */
+export function assertUnlockCodeApplicable(
+  unlockCode: UnlockCode,
+  lines: UnlockLine[],
+  now: Date = new Date()
+): void {
+  if (!unlockCode.isActive) {
+    throw new InvalidUnlockCodeError(unlockCode.code, 'code is no longer active');
+  }
+  if (unlockCode.validUntil && unlockCode.validUntil < now) {
+    throw new InvalidUnlockCodeError(unlockCode.code, 'code has expired');
+  }
+  if (lines.some(line => !unlockCode.ticketTypeIds.includes(line.ticketTypeId))) {
+    throw new InvalidUnlockCodeError(unlockCode.code, 'code does not unlock these tickets');
+  }
+
+  const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  if (unlockCode.maxUses !== undefined && unlockCode.usageCount + quantity > unlockCode.maxUses) {
+    throw new InvalidUnlockCodeError(
+      unlockCode.code,
+      `only ${Math.max(unlockCode.maxUses - unlockCode.usageCount, 0)} tickets left on this code`
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import {
+  EventReschedule,
+  RescheduleEventRequest,
+  RescheduleResponse,
+  RespondToRescheduleRequest,
+} from './types';
+
+export interface IEventRescheduleService {
+  // Moves the event right away; holders are notified and answered in batches
+  rescheduleEvent(organizerId: string, request: RescheduleEventRequest): Promise<EventReschedule>;
+  processReschedule(rescheduleId: string): Promise<EventReschedule>;
+  listActiveReschedules(): Promise<EventReschedule[]>;
+
+  // Ticket holders
+  getReschedule(rescheduleId: string): Promise<EventReschedule>;
+  getRescheduleResponse(customerId: string, rescheduleId: string, orderId: string): Promise<RescheduleResponse | null>;
+  respondToReschedule(customerId: string, request: RespondToRescheduleRequest): Promise<RescheduleResponse>;
+
+  // Reporting
+  listEventReschedules(organizerId: string, eventId: string): Promise<EventReschedule[]>;
+  listRescheduleResponses(organizerId: string, rescheduleId: string): Promise<RescheduleResponse[]>;
+  retryFailedRefunds(organizerId: string, rescheduleId: string): Promise<RescheduleResponse[]>;
+}
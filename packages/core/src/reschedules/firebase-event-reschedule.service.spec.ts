@@ -0,0 +1,244 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { FirebaseEventRescheduleService } from './firebase-event-reschedule.service';
+import {
+  EventReschedule,
+  EventRescheduleStatus,
+  RescheduleDeadlinePassedError,
+  RescheduleRefundStatus,
+  RescheduleResponseSource,
+} from './types';
+import { FirebaseEventService, RescheduleOption } from '../events';
+import { FirebaseTicketService, Order, Ticket } from '../tickets';
+import { INotificationService } from '../notifications';
+import { PaymentError } from '../payments';
+import { FakeFirestore } from '../testing/fake-firestore';
+import { createEvent, createOrder, createTicket } from '../testing/fixtures';
+
+describe('FirebaseEventRescheduleService', () => {
+  const now = new Date('2026-11-05T00:00:00Z');
+  const responseDeadline = new Date('2026-11-10T00:00:00Z');
+  const event = createEvent();
+
+  let firestore: FakeFirestore;
+  let orders: Order[];
+  let tickets: Ticket[];
+  let eventService: Record<'getEvent' | 'validateEventDates' | 'moveEventDates', jest.Mock>;
+  let ticketService: Record<'listEventOrdersPage' | 'listOrderTickets' | 'refundOrderPayment' | 'releaseCancelledOrder' | 'getOrder', jest.Mock>;
+  let service: FirebaseEventRescheduleService;
+
+  const getResponse = async (reschedule: EventReschedule, orderId: string) =>
+    (await firestore.collection('eventReschedules').doc(reschedule.id).collection('responses').doc(orderId).get()).data();
+
+  const captureError = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      return error as any;
+    }
+    return undefined;
+  };
+
+  // Move the event and tell every holder, leaving the reschedule open for answers
+  const startReschedule = async (defaultOption: RescheduleOption): Promise<EventReschedule> => {
+    const reschedule = await service.rescheduleEvent(event.organizerId, {
+      eventId: event.id,
+      startDateTime: new Date('2026-12-15T18:00:00Z'),
+      endDateTime: new Date('2026-12-15T22:00:00Z'),
+      reason: 'The venue needs repairs',
+      defaultOption,
+      responseDeadline,
+    });
+    return service.processReschedule(reschedule.id);
+  };
+
+  // Run the job after the deadline until the reschedule is closed
+  const closeReschedule = async (reschedule: EventReschedule): Promise<EventReschedule> => {
+    jest.setSystemTime(new Date(responseDeadline.getTime() + 60 * 1000));
+    let current = reschedule;
+    for (let step = 0; step < 10 && current.status !== EventRescheduleStatus.CLOSED; step++) {
+      current = await service.processReschedule(reschedule.id);
+    }
+    return current;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(now);
+
+    firestore = new FakeFirestore();
+    orders = [
+      createOrder(),
+      createOrder({ id: 'order-2', customerId: 'buyer-2', customerEmail: 'buyer2@example.com', paymentId: 'payment-2' }),
+    ];
+    tickets = [
+      createTicket(),
+      createTicket({ id: 'ticket-3', orderId: 'order-2', customerId: 'buyer-2', customerEmail: 'buyer2@example.com' }),
+    ];
+    eventService = {
+      getEvent: jest.fn(async () => event),
+      validateEventDates: jest.fn(async () => undefined),
+      moveEventDates: jest.fn(async () => undefined),
+    };
+    ticketService = {
+      listEventOrdersPage: jest.fn(async (_eventId: string, cursor: string | undefined, limit: number) => {
+        const start = cursor ? orders.findIndex(order => order.id === cursor) + 1 : 0;
+        return orders.slice(start, start + limit);
+      }),
+      listOrderTickets: jest.fn(async (orderId: string) => tickets.filter(ticket => ticket.orderId === orderId)),
+      refundOrderPayment: jest.fn(async () => true),
+      releaseCancelledOrder: jest.fn(async () => []),
+      getOrder: jest.fn(async (orderId: string) => orders.find(order => order.id === orderId)),
+    };
+
+    service = new FirebaseEventRescheduleService(
+      firestore as unknown as Firestore,
+      eventService as unknown as FirebaseEventService,
+      ticketService as unknown as FirebaseTicketService,
+      { sendNotification: jest.fn(async () => ({})) } as unknown as INotificationService
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('after the response window closes', () => {
+    it('waits for the deadline before settling', async () => {
+      const reschedule = await startReschedule(RescheduleOption.REFUND);
+
+      expect(reschedule.status).toBe(EventRescheduleStatus.OPEN);
+      expect((await service.processReschedule(reschedule.id)).status).toBe(EventRescheduleStatus.OPEN);
+      expect(ticketService.refundOrderPayment).not.toHaveBeenCalled();
+    });
+
+    it('refunds holders who did not answer when the default is a refund', async () => {
+      const closed = await closeReschedule(await startReschedule(RescheduleOption.REFUND));
+
+      expect(closed.status).toBe(EventRescheduleStatus.CLOSED);
+      expect(closed.stats).toMatchObject({ defaultsApplied: 2, refundRequests: 2, refunded: 2, kept: 0 });
+      expect(await getResponse(closed, 'order-1')).toMatchObject({
+        option: RescheduleOption.REFUND,
+        source: RescheduleResponseSource.DEFAULT,
+        refundStatus: RescheduleRefundStatus.REFUNDED,
+      });
+      expect(ticketService.releaseCancelledOrder).toHaveBeenCalledWith('order-1', true, expect.any(String));
+    });
+
+    it('keeps the tickets of holders who did not answer when the default is to keep them', async () => {
+      const closed = await closeReschedule(await startReschedule(RescheduleOption.KEEP));
+
+      expect(closed.stats).toMatchObject({ defaultsApplied: 2, kept: 2, refundRequests: 0 });
+      expect(await getResponse(closed, 'order-2')).toMatchObject({
+        option: RescheduleOption.KEEP,
+        source: RescheduleResponseSource.DEFAULT,
+      });
+      expect(ticketService.refundOrderPayment).not.toHaveBeenCalled();
+    });
+
+    it('leaves the answers holders gave alone', async () => {
+      const reschedule = await startReschedule(RescheduleOption.REFUND);
+      await service.respondToReschedule('buyer-1', { rescheduleId: reschedule.id, orderId: 'order-1', option: RescheduleOption.KEEP });
+
+      const closed = await closeReschedule(reschedule);
+
+      expect(await getResponse(closed, 'order-1')).toMatchObject({
+        option: RescheduleOption.KEEP,
+        source: RescheduleResponseSource.HOLDER,
+      });
+      expect(closed.stats).toMatchObject({ defaultsApplied: 1, kept: 1, refunded: 1 });
+      expect(ticketService.refundOrderPayment).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps orders with transferred tickets even when the default is a refund', async () => {
+      tickets.push(createTicket({ id: 'ticket-2', customerId: 'guest-1', customerEmail: 'guest@example.com' }));
+
+      const closed = await closeReschedule(await startReschedule(RescheduleOption.REFUND));
+
+      expect(await getResponse(closed, 'order-1')).toMatchObject({ option: RescheduleOption.KEEP });
+      expect(ticketService.refundOrderPayment).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'order-1' }), expect.any(String));
+    });
+
+    it('refuses answers once the deadline has passed', async () => {
+      const reschedule = await startReschedule(RescheduleOption.KEEP);
+      jest.setSystemTime(responseDeadline);
+
+      const error = await captureError(() =>
+        service.respondToReschedule('buyer-1', { rescheduleId: reschedule.id, orderId: 'order-1', option: RescheduleOption.REFUND })
+      );
+
+      expect(error).toBeInstanceOf(RescheduleDeadlinePassedError);
+      expect(ticketService.refundOrderPayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refund settlement', () => {
+    const requestRefund = (reschedule: EventReschedule, orderId = 'order-1') =>
+      service.respondToReschedule('buyer-1', { rescheduleId: reschedule.id, orderId, option: RescheduleOption.REFUND });
+
+    it('refunds the order and releases its tickets', async () => {
+      const reschedule = await startReschedule(RescheduleOption.KEEP);
+
+      const response = await requestRefund(reschedule);
+
+      expect(response).toMatchObject({ refundStatus: RescheduleRefundStatus.REFUNDED, refundAttempts: 1 });
+      expect(ticketService.refundOrderPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1' }),
+        `event-reschedule_${reschedule.id}_order-1_1`
+      );
+      expect(ticketService.releaseCancelledOrder).toHaveBeenCalledWith('order-1', true, expect.any(String));
+      expect((await service.getReschedule(reschedule.id)).stats).toMatchObject({ refundRequests: 1, refunded: 1 });
+    });
+
+    it('only releases the tickets of free orders', async () => {
+      orders[0] = createOrder({ paymentId: undefined, total: { amount: 0, currency: 'PHP' } });
+      const reschedule = await startReschedule(RescheduleOption.KEEP);
+
+      expect(await requestRefund(reschedule)).toMatchObject({ refundStatus: RescheduleRefundStatus.REFUNDED });
+      expect(ticketService.refundOrderPayment).not.toHaveBeenCalled();
+      expect(ticketService.releaseCancelledOrder).toHaveBeenCalledWith('order-1', false, expect.any(String));
+    });
+
+    it('records a failed refund, keeps the tickets and settles it on retry', async () => {
+      const reschedule = await startReschedule(RescheduleOption.KEEP);
+      ticketService.refundOrderPayment.mockRejectedValueOnce(new PaymentError('Card network unavailable', 'payment/refund-failed'));
+
+      expect(await requestRefund(reschedule)).toMatchObject({
+        refundStatus: RescheduleRefundStatus.FAILED,
+        refundAttempts: 1,
+        refundError: 'Card network unavailable',
+      });
+      expect(ticketService.releaseCancelledOrder).not.toHaveBeenCalled();
+      expect((await service.getReschedule(reschedule.id)).stats).toMatchObject({ refundsFailed: 1, refunded: 0 });
+
+      const [retried] = await service.retryFailedRefunds(event.organizerId, reschedule.id);
+
+      expect(retried).toMatchObject({ refundStatus: RescheduleRefundStatus.REFUNDED, refundAttempts: 2 });
+      expect(retried!.refundError).toBeUndefined();
+      expect(ticketService.refundOrderPayment).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 'order-1' }),
+        `event-reschedule_${reschedule.id}_order-1_2`
+      );
+      expect((await service.getReschedule(reschedule.id)).stats).toMatchObject({ refundsFailed: 0, refunded: 1 });
+    });
+
+    it('never takes a refund request back', async () => {
+      const reschedule = await startReschedule(RescheduleOption.KEEP);
+      await requestRefund(reschedule);
+
+      const error = await captureError(() =>
+        service.respondToReschedule('buyer-1', { rescheduleId: reschedule.id, orderId: 'order-1', option: RescheduleOption.KEEP })
+      );
+
+      expect(error?.code).toBe('reschedule/refund-requested');
+    });
+
+    it('refuses refunds of orders whose tickets were transferred', async () => {
+      tickets.push(createTicket({ id: 'ticket-2', customerId: 'guest-1', customerEmail: 'guest@example.com' }));
+      const reschedule = await startReschedule(RescheduleOption.KEEP);
+
+      const error = await captureError(() => requestRefund(reschedule));
+
+      expect(error?.code).toBe('reschedule/tickets-transferred');
+      expect(ticketService.refundOrderPayment).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,547 @@
+import { FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import {
+  EventReschedule,
+  EventRescheduleError,
+  EventRescheduleNotFoundError,
+  EventRescheduleStatus,
+  RescheduleDeadlinePassedError,
+  RescheduleEventRequest,
+  RescheduleRefundStatus,
+  RescheduleResponse,
+  RescheduleResponseSource,
+  RespondToRescheduleRequest,
+  eventRescheduleSchema,
+  rescheduleResponseSchema,
+} from './types';
+import { IEventRescheduleService } from './event-reschedule.service';
+import {
+  Event,
+  EventError,
+  EventStatus,
+  FirebaseEventService,
+  RescheduleOption,
+  eventReschedulePolicySchema,
+} from '../events';
+import {
+  FirebaseTicketService,
+  Order,
+  OrderRefundError,
+  OrderStatus,
+  TicketError,
+  getStatsIncrements,
+  processOrderBatch,
+  refundOrderAttempt,
+} from '../tickets';
+import { PaymentStatus } from '../payments';
+import { INotificationService, NotificationType } from '../notifications';
+
+const activeStatuses = [
+  EventRescheduleStatus.NOTIFYING,
+  EventRescheduleStatus.OPEN,
+  EventRescheduleStatus.SETTLING,
+];
+
+// Dates are written in the event timezone, not the server's
+function formatEventDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    dateStyle: 'full',
+    timeStyle: 'short',
+  }).format(date);
+}
+
+export class FirebaseEventRescheduleService implements IEventRescheduleService {
+  private readonly collectionName = 'eventReschedules';
+  private readonly responsesCollection = 'responses'; // Subcollection of each reschedule, keyed by order
+  private readonly dayMs = 24 * 60 * 60 * 1000;
+
+  constructor(
+    private firestore: Firestore,
+    private eventService: FirebaseEventService,
+    private ticketService: FirebaseTicketService,
+    private notificationService: INotificationService
+  ) {}
+
+  private getRescheduleRef(rescheduleId: string) {
+    return this.firestore.collection(this.collectionName).doc(rescheduleId);
+  }
+
+  private getResponseRef(rescheduleId: string, orderId: string) {
+    return this.getRescheduleRef(rescheduleId).collection(this.responsesCollection).doc(orderId);
+  }
+
+  private async getRescheduleDoc(rescheduleId: string) {
+    const doc = await this.getRescheduleRef(rescheduleId).get();
+    if (!doc.exists) {
+      throw new EventRescheduleNotFoundError(rescheduleId);
+    }
+    return doc;
+  }
+
+  private async getOwnedReschedule(organizerId: string, rescheduleId: string): Promise<EventReschedule> {
+    const reschedule = this.convertToReschedule(await this.getRescheduleDoc(rescheduleId));
+    if (reschedule.organizerId !== organizerId) {
+      throw new EventRescheduleError('Unauthorized', 'reschedule/unauthorized');
+    }
+    return reschedule;
+  }
+
+  private convertToReschedule(doc: FirebaseFirestore.DocumentSnapshot): EventReschedule {
+    const data = doc.data()!;
+    return eventRescheduleSchema.parse({
+      ...data,
+      id: doc.id,
+      previousStartDateTime: data.previousStartDateTime.toDate(),
+      previousEndDateTime: data.previousEndDateTime.toDate(),
+      startDateTime: data.startDateTime.toDate(),
+      endDateTime: data.endDateTime.toDate(),
+      responseDeadline: data.responseDeadline.toDate(),
+      createdAt: data.createdAt.toDate(),
+      closedAt: data.closedAt?.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToResponse(doc: FirebaseFirestore.DocumentSnapshot): RescheduleResponse {
+    const data = doc.data()!;
+    return rescheduleResponseSchema.parse({
+      ...data,
+      id: doc.id,
+      respondedAt: data.respondedAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  // Only orders paid for before the move have a choice; later buyers knew the new dates
+  private isEligible(reschedule: EventReschedule, order: Order): boolean {
+    return order.eventId === reschedule.eventId
+      && order.status === OrderStatus.COMPLETED
+      && order.items.length > 0
+      && order.paymentStatus !== PaymentStatus.REFUNDED
+      && !!order.purchasedAt
+      && order.purchasedAt < reschedule.createdAt;
+  }
+
+  /**
+   * A refund gives back the whole order's payment, so it would cancel tickets the buyer
+   * gave away. Orders with transferred tickets are kept for the new dates instead.
+   */
+  private async hasTransferredTickets(order: Order): Promise<boolean> {
+    const tickets = await this.ticketService.listOrderTickets(order.id);
+    return tickets.some(ticket => ticket.customerId !== order.customerId);
+  }
+
+  private isAcceptingResponses(reschedule: EventReschedule): boolean {
+    return (reschedule.status === EventRescheduleStatus.NOTIFYING || reschedule.status === EventRescheduleStatus.OPEN)
+      && reschedule.responseDeadline > new Date();
+  }
+
+  // Notification helpers
+
+  private async notifyHolders(event: Event, reschedule: EventReschedule, order: Order): Promise<void> {
+    const timeZone = event.timezone;
+    const moved = `${event.title} has moved from ${formatEventDate(reschedule.previousStartDateTime, timeZone)} `
+      + `to ${formatEventDate(reschedule.startDateTime, timeZone)}.`;
+    const fallback = reschedule.defaultOption === RescheduleOption.KEEP
+      ? 'you keep your tickets for the new dates'
+      : 'your order will be refunded';
+
+    const tickets = await this.ticketService.listOrderTickets(order.id);
+    const guests = new Map(tickets
+      .filter(ticket => ticket.customerId !== order.customerId)
+      .map(ticket => [ticket.customerId, ticket.customerEmail]));
+
+    // The buyer chooses for the whole order unless tickets were given away; guests are told about the move
+    await this.notificationService.sendNotification({
+      key: `event-rescheduled_${reschedule.id}_${order.id}`,
+      userId: order.customerId,
+      email: order.customerEmail,
+      type: NotificationType.EVENT_RESCHEDULED,
+      title: `${event.title} has new dates`,
+      body: [
+        moved,
+        reschedule.reason,
+        guests.size > 0
+          ? 'Tickets you transferred stay valid, so this order keeps its tickets for the new dates.'
+          : `Keep your tickets or request a refund before ${formatEventDate(reschedule.responseDeadline, timeZone)}. `
+            + `If we do not hear from you, ${fallback}.`,
+      ].filter(Boolean).join('\n\n'),
+      data: { eventId: event.id, rescheduleId: reschedule.id, orderId: order.id },
+    });
+
+    for (const [userId, email] of guests) {
+      await this.notificationService.sendNotification({
+        key: `event-rescheduled_${reschedule.id}_${userId}`,
+        userId,
+        email,
+        type: NotificationType.EVENT_RESCHEDULED,
+        title: `${event.title} has new dates`,
+        body: [moved, reschedule.reason].filter(Boolean).join('\n\n'),
+        data: { eventId: event.id, rescheduleId: reschedule.id },
+      });
+    }
+  }
+
+  // Response helpers
+
+  /**
+   * Record the option for an order inside a transaction, keeping the counters in step.
+   * Returns the response that stands: a refund, once asked for, is never taken back.
+   */
+  private async recordResponse(
+    reschedule: EventReschedule,
+    order: Order,
+    option: RescheduleOption,
+    source: RescheduleResponseSource
+  ): Promise<RescheduleResponse> {
+    const rescheduleRef = this.getRescheduleRef(reschedule.id);
+    const responseRef = this.getResponseRef(reschedule.id, order.id);
+
+    await this.firestore.runTransaction(async (transaction: Transaction) => {
+      const rescheduleDoc = await transaction.get(rescheduleRef);
+      const existingDoc = await transaction.get(responseRef);
+      const current = this.convertToReschedule(rescheduleDoc);
+      const existing = existingDoc.exists ? this.convertToResponse(existingDoc) : null;
+
+      if (source === RescheduleResponseSource.HOLDER && !this.isAcceptingResponses(current)) {
+        throw new RescheduleDeadlinePassedError(reschedule.id);
+      }
+      // The deadline only fills in orders nobody answered for
+      if (existing && (source === RescheduleResponseSource.DEFAULT || existing.option === option)) {
+        return;
+      }
+      if (existing?.option === RescheduleOption.REFUND) {
+        throw new EventRescheduleError('A refund was already requested for this order', 'reschedule/refund-requested');
+      }
+
+      const now = Timestamp.now();
+      transaction.set(responseRef, {
+        rescheduleId: reschedule.id,
+        eventId: reschedule.eventId,
+        orderId: order.id,
+        customerId: order.customerId,
+        option,
+        source,
+        ...(option === RescheduleOption.REFUND ? { refundStatus: RescheduleRefundStatus.PENDING } : {}),
+        refundAttempts: 0,
+        respondedAt: now,
+        updatedAt: now,
+      });
+      transaction.update(rescheduleRef, {
+        ...getStatsIncrements({
+          kept: (option === RescheduleOption.KEEP ? 1 : 0) - (existing ? 1 : 0),
+          refundRequests: option === RescheduleOption.REFUND ? 1 : 0,
+          defaultsApplied: source === RescheduleResponseSource.DEFAULT ? 1 : 0,
+        }),
+        updatedAt: now,
+      });
+    });
+
+    return this.convertToResponse(await responseRef.get());
+  }
+
+  /**
+   * Refund an order whose holder asked for it. A failure is recorded, not thrown, and the
+   * holder keeps the tickets until a retry goes through.
+   */
+  private async settleRefund(reschedule: EventReschedule, order: Order, response: RescheduleResponse): Promise<RescheduleResponse> {
+    if (response.option !== RescheduleOption.REFUND || response.refundStatus === RescheduleRefundStatus.REFUNDED) {
+      return response;
+    }
+
+    const responseRef = this.getResponseRef(reschedule.id, order.id);
+    const rescheduleRef = this.getRescheduleRef(reschedule.id);
+    const attempt = response.refundAttempts + 1;
+    const wasFailed = response.refundStatus === RescheduleRefundStatus.FAILED;
+
+    const paid = !!order.paymentId && order.total.amount > 0;
+    const refund = paid
+      ? await refundOrderAttempt(this.ticketService, order, `event-reschedule_${reschedule.id}`, attempt)
+      : null;
+    let failure: OrderRefundError | null = refund?.outcome === 'failed' ? refund.error! : null;
+    if (!failure) {
+      try {
+        await this.ticketService.releaseCancelledOrder(order.id, paid, 'Refund requested after the event was rescheduled');
+      } catch (error: any) {
+        failure = { code: error?.code, message: error?.message ?? 'Refund failed' };
+      }
+    }
+
+    const now = Timestamp.now();
+    if (failure) {
+      await responseRef.update({
+        refundStatus: RescheduleRefundStatus.FAILED,
+        refundAttempts: attempt,
+        refundError: failure.message,
+        updatedAt: now,
+      });
+      await rescheduleRef.update({
+        ...getStatsIncrements({ refundsFailed: wasFailed ? 0 : 1 }),
+        updatedAt: now,
+      });
+    } else {
+      await responseRef.update({
+        refundStatus: RescheduleRefundStatus.REFUNDED,
+        refundAttempts: attempt,
+        refundError: FieldValue.delete(),
+        updatedAt: now,
+      });
+      await rescheduleRef.update({
+        ...getStatsIncrements({ refunded: 1, refundsFailed: wasFailed ? -1 : 0 }),
+        updatedAt: now,
+      });
+    }
+
+    return this.convertToResponse(await responseRef.get());
+  }
+
+  // Batch helpers
+
+  // One page of orders; only the eligible ones are handed to `handle`
+  private async forEachOrder(reschedule: EventReschedule, handle: (order: Order) => Promise<Record<string, unknown> | void>): Promise<boolean> {
+    return processOrderBatch(
+      this.ticketService,
+      {
+        eventId: reschedule.eventId,
+        cursor: reschedule.cursor,
+        progressRef: this.getRescheduleRef(reschedule.id),
+      },
+      async order => this.isEligible(reschedule, order) ? handle(order) : undefined
+    );
+  }
+
+  private async moveToStatus(reschedule: EventReschedule, status: EventRescheduleStatus): Promise<void> {
+    const now = Timestamp.now();
+    await this.getRescheduleRef(reschedule.id).update({
+      status,
+      cursor: FieldValue.delete(),
+      ...(status === EventRescheduleStatus.CLOSED ? { closedAt: now } : {}),
+      updatedAt: now,
+    });
+  }
+
+  async rescheduleEvent(organizerId: string, request: RescheduleEventRequest): Promise<EventReschedule> {
+    try {
+      const event = await this.eventService.getEvent(request.eventId);
+      if (event.organizerId !== organizerId) {
+        throw new EventRescheduleError('Unauthorized event reschedule', 'reschedule/unauthorized');
+      }
+      if (event.status !== EventStatus.PUBLISHED) {
+        throw new EventRescheduleError('Only published events are rescheduled; update the dates directly', 'reschedule/not-published');
+      }
+      if (
+        request.startDateTime.getTime() === event.startDateTime.getTime()
+        && request.endDateTime.getTime() === event.endDateTime.getTime()
+      ) {
+        throw new EventRescheduleError('The event already takes place on these dates', 'reschedule/same-dates');
+      }
+      await this.eventService.validateEventDates(request.startDateTime, request.endDateTime);
+
+      const active = await this.firestore
+        .collection(this.collectionName)
+        .where('eventId', '==', request.eventId)
+        .where('status', 'in', activeStatuses)
+        .limit(1)
+        .get();
+      if (!active.empty) {
+        throw new EventRescheduleError('Holders are still answering the previous reschedule', 'reschedule/in-progress');
+      }
+
+      const policy = eventReschedulePolicySchema.parse(event.reschedulePolicy ?? {});
+      const responseDeadline = request.responseDeadline ?? new Date(Math.min(
+        Date.now() + policy.responseWindowDays * this.dayMs,
+        request.startDateTime.getTime()
+      ));
+      if (responseDeadline <= new Date() || responseDeadline > request.startDateTime) {
+        throw new EventRescheduleError('Holders must be able to answer before the event starts', 'reschedule/invalid-deadline');
+      }
+
+      const now = Timestamp.now();
+      const ref = this.firestore.collection(this.collectionName).doc();
+      await ref.set({
+        eventId: event.id,
+        organizerId,
+        status: EventRescheduleStatus.NOTIFYING,
+        previousStartDateTime: Timestamp.fromDate(event.startDateTime),
+        previousEndDateTime: Timestamp.fromDate(event.endDateTime),
+        startDateTime: Timestamp.fromDate(request.startDateTime),
+        endDateTime: Timestamp.fromDate(request.endDateTime),
+        ...(request.reason ? { reason: request.reason } : {}),
+        defaultOption: request.defaultOption ?? policy.defaultOption,
+        responseDeadline: Timestamp.fromDate(responseDeadline),
+        stats: {},
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      // Without the move there is nothing for holders to answer
+      try {
+        await this.eventService.moveEventDates(event.id, request.startDateTime, request.endDateTime);
+      } catch (error) {
+        await ref.delete();
+        throw error;
+      }
+
+      return this.convertToReschedule(await ref.get());
+    } catch (error: any) {
+      if (error instanceof EventRescheduleError || error instanceof EventError) throw error;
+      throw new EventRescheduleError('Failed to reschedule event', 'reschedule/create-failed', error);
+    }
+  }
+
+  /**
+   * Move the reschedule one step forward and return it. Callers keep calling it while it is
+   * notifying or settling, and again at the response deadline; every step is safe to repeat.
+   */
+  async processReschedule(rescheduleId: string): Promise<EventReschedule> {
+    try {
+      const reschedule = this.convertToReschedule(await this.getRescheduleDoc(rescheduleId));
+
+      if (reschedule.status === EventRescheduleStatus.NOTIFYING) {
+        const event = await this.eventService.getEvent(reschedule.eventId);
+        const done = await this.forEachOrder(reschedule, async order => {
+          await this.notifyHolders(event, reschedule, order);
+          return getStatsIncrements({ ordersNotified: 1 });
+        });
+        if (done) {
+          await this.moveToStatus(reschedule, EventRescheduleStatus.OPEN);
+        }
+      } else if (reschedule.status === EventRescheduleStatus.OPEN) {
+        if (reschedule.responseDeadline <= new Date()) {
+          await this.moveToStatus(reschedule, EventRescheduleStatus.SETTLING);
+        }
+      } else if (reschedule.status === EventRescheduleStatus.SETTLING) {
+        const done = await this.forEachOrder(reschedule, async order => {
+          const option = await this.hasTransferredTickets(order) ? RescheduleOption.KEEP : reschedule.defaultOption;
+          const response = await this.recordResponse(reschedule, order, option, RescheduleResponseSource.DEFAULT);
+          // Also finishes refunds a holder asked for that were interrupted
+          if (response.refundStatus === RescheduleRefundStatus.PENDING) {
+            await this.settleRefund(reschedule, order, response);
+          }
+        });
+        if (done) {
+          await this.moveToStatus(reschedule, EventRescheduleStatus.CLOSED);
+        }
+      }
+
+      return this.convertToReschedule(await this.getRescheduleDoc(rescheduleId));
+    } catch (error: any) {
+      if (error instanceof EventRescheduleError || error instanceof EventError || error instanceof TicketError) throw error;
+      throw new EventRescheduleError('Failed to process reschedule', 'reschedule/process-failed', error);
+    }
+  }
+
+  async listActiveReschedules(): Promise<EventReschedule[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.collectionName)
+        .where('status', 'in', activeStatuses)
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToReschedule(doc));
+    } catch (error: any) {
+      throw new EventRescheduleError('Failed to list reschedules', 'reschedule/list-failed', error);
+    }
+  }
+
+  async getReschedule(rescheduleId: string): Promise<EventReschedule> {
+    try {
+      return this.convertToReschedule(await this.getRescheduleDoc(rescheduleId));
+    } catch (error: any) {
+      if (error instanceof EventRescheduleError) throw error;
+      throw new EventRescheduleError('Failed to get reschedule', 'reschedule/get-failed', error);
+    }
+  }
+
+  async getRescheduleResponse(customerId: string, rescheduleId: string, orderId: string): Promise<RescheduleResponse | null> {
+    try {
+      const order = await this.ticketService.getOrder(orderId);
+      if (order.customerId !== customerId) {
+        throw new EventRescheduleError('Unauthorized', 'reschedule/unauthorized');
+      }
+
+      const doc = await this.getResponseRef(rescheduleId, orderId).get();
+      return doc.exists ? this.convertToResponse(doc) : null;
+    } catch (error: any) {
+      if (error instanceof EventRescheduleError || error instanceof TicketError) throw error;
+      throw new EventRescheduleError('Failed to get reschedule response', 'reschedule/get-failed', error);
+    }
+  }
+
+  async respondToReschedule(customerId: string, request: RespondToRescheduleRequest): Promise<RescheduleResponse> {
+    try {
+      const reschedule = this.convertToReschedule(await this.getRescheduleDoc(request.rescheduleId));
+      const order = await this.ticketService.getOrder(request.orderId);
+      if (order.customerId !== customerId) {
+        throw new EventRescheduleError('Unauthorized', 'reschedule/unauthorized');
+      }
+      if (!this.isEligible(reschedule, order)) {
+        throw new EventRescheduleError('Order was not affected by this reschedule', 'reschedule/order-not-eligible');
+      }
+      if (request.option === RescheduleOption.REFUND && await this.hasTransferredTickets(order)) {
+        throw new EventRescheduleError('Tickets of this order were transferred and stay valid', 'reschedule/tickets-transferred');
+      }
+
+      const response = await this.recordResponse(reschedule, order, request.option, RescheduleResponseSource.HOLDER);
+      return await this.settleRefund(reschedule, order, response);
+    } catch (error: any) {
+      if (error instanceof EventRescheduleError || error instanceof TicketError) throw error;
+      throw new EventRescheduleError('Failed to respond to reschedule', 'reschedule/respond-failed', error);
+    }
+  }
+
+  async listEventReschedules(organizerId: string, eventId: string): Promise<EventReschedule[]> {
+    try {
+      const event = await this.eventService.getEvent(eventId);
+      if (event.organizerId !== organizerId) {
+        throw new EventRescheduleError('Unauthorized', 'reschedule/unauthorized');
+      }
+
+      const snapshot = await this.firestore
+        .collection(this.collectionName)
+        .where('eventId', '==', eventId)
+        .orderBy('createdAt', 'desc')
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToReschedule(doc));
+    } catch (error: any) {
+      if (error instanceof EventRescheduleError || error instanceof EventError) throw error;
+      throw new EventRescheduleError('Failed to list reschedules', 'reschedule/list-failed', error);
+    }
+  }
+
+  async listRescheduleResponses(organizerId: string, rescheduleId: string): Promise<RescheduleResponse[]> {
+    try {
+      await this.getOwnedReschedule(organizerId, rescheduleId);
+      const snapshot = await this.getRescheduleRef(rescheduleId)
+        .collection(this.responsesCollection)
+        .orderBy('respondedAt')
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToResponse(doc));
+    } catch (error: any) {
+      if (error instanceof EventRescheduleError) throw error;
+      throw new EventRescheduleError('Failed to list reschedule responses', 'reschedule/list-failed', error);
+    }
+  }
+
+  async retryFailedRefunds(organizerId: string, rescheduleId: string): Promise<RescheduleResponse[]> {
+    try {
+      const reschedule = await this.getOwnedReschedule(organizerId, rescheduleId);
+      const snapshot = await this.getRescheduleRef(rescheduleId)
+        .collection(this.responsesCollection)
+        .where('refundStatus', '==', RescheduleRefundStatus.FAILED)
+        .get();
+
+      const responses: RescheduleResponse[] = [];
+      for (const doc of snapshot.docs) {
+        const order = await this.ticketService.getOrder(doc.id);
+        responses.push(await this.settleRefund(reschedule, order, this.convertToResponse(doc)));
+      }
+      return responses;
+    } catch (error: any) {
+      if (error instanceof EventRescheduleError || error instanceof TicketError) throw error;
+      throw new EventRescheduleError('Failed to retry refunds', 'reschedule/retry-failed', error);
+    }
+  }
+}
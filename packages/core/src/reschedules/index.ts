@@ -0,0 +1,3 @@
+export * from './types';
+export * from './event-reschedule.service';
+export * from './firebase-event-reschedule.service';
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { RescheduleOption } from '../events/types';
+
+export enum EventRescheduleStatus {
+  NOTIFYING = 'NOTIFYING', // Telling ticket holders about the new dates
+  OPEN = 'OPEN',           // Holders can keep their tickets or ask for a refund
+  SETTLING = 'SETTLING',   // Deadline passed, the default is applied to holders who did not answer
+  CLOSED = 'CLOSED',
+}
+
+export enum RescheduleResponseSource {
+  HOLDER = 'HOLDER',
+  DEFAULT = 'DEFAULT', // Applied at the deadline
+}
+
+export enum RescheduleRefundStatus {
+  PENDING = 'PENDING',
+  REFUNDED = 'REFUNDED', // Free orders only have their tickets released
+  FAILED = 'FAILED',     // The holder keeps the tickets until a retry succeeds
+}
+
+export const eventRescheduleStatsSchema = z.object({
+  ordersNotified: z.number().int().min(0).default(0),
+  kept: z.number().int().min(0).default(0),
+  refundRequests: z.number().int().min(0).default(0),
+  refunded: z.number().int().min(0).default(0),
+  refundsFailed: z.number().int().min(0).default(0), // Failures not yet resolved by a retry
+  defaultsApplied: z.number().int().min(0).default(0),
+});
+
+export type EventRescheduleStats = z.infer<typeof eventRescheduleStatsSchema>;
+
+export const eventRescheduleSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  organizerId: z.string(),
+  status: z.nativeEnum(EventRescheduleStatus),
+  previousStartDateTime: z.date(),
+  previousEndDateTime: z.date(),
+  startDateTime: z.date(),
+  endDateTime: z.date(),
+  reason: z.string().optional(), // Shown to ticket holders
+  defaultOption: z.nativeEnum(RescheduleOption),
+  responseDeadline: z.date(),
+  cursor: z.string().optional(), // Last order handled by the current batch job
+  stats: eventRescheduleStatsSchema,
+  createdAt: z.date(),
+  closedAt: z.date().optional(),
+  updatedAt: z.date(),
+});
+
+export type EventReschedule = z.infer<typeof eventRescheduleSchema>;
+
+// One answer per order, since a refund gives back the order's payment; orders with transferred tickets are kept
+export const rescheduleResponseSchema = z.object({
+  id: z.string(), // Same as the order id
+  rescheduleId: z.string(),
+  eventId: z.string(),
+  orderId: z.string(),
+  customerId: z.string(),
+  option: z.nativeEnum(RescheduleOption),
+  source: z.nativeEnum(RescheduleResponseSource),
+  refundStatus: z.nativeEnum(RescheduleRefundStatus).optional(), // Only for refunds
+  refundAttempts: z.number().int().min(0).default(0),
+  refundError: z.string().optional(),
+  respondedAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type RescheduleResponse = z.infer<typeof rescheduleResponseSchema>;
+
+export interface RescheduleEventRequest {
+  eventId: string;
+  startDateTime: Date;
+  endDateTime: Date;
+  reason?: string;
+  defaultOption?: RescheduleOption;  // Falls back to the event's reschedule policy
+  responseDeadline?: Date;           // Falls back to the policy's response window
+}
+
+export interface RespondToRescheduleRequest {
+  rescheduleId: string;
+  orderId: string;
+  option: RescheduleOption;
+}
+
+// Error types
+export class EventRescheduleError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'EventRescheduleError';
+  }
+}
+
+export class EventRescheduleNotFoundError extends EventRescheduleError {
+  constructor(rescheduleId: string) {
+    super(
+      `Reschedule with ID ${rescheduleId} not found`,
+      'reschedule/not-found'
+    );
+    this.name = 'EventRescheduleNotFoundError';
+  }
+}
+
+export class RescheduleDeadlinePassedError extends EventRescheduleError {
+  constructor(rescheduleId: string) {
+    super(
+      `The response deadline of reschedule ${rescheduleId} has passed`,
+      'reschedule/deadline-passed'
+    );
+    this.name = 'RescheduleDeadlinePassedError';
+  }
+}
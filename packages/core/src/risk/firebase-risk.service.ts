@@ -0,0 +1,310 @@
+import { Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { Redis } from 'ioredis';
+import {
+  RiskAssessment,
+  RiskError,
+  RiskOutcome,
+  RiskPolicy,
+  RiskPolicyScope,
+  RiskReason,
+  RiskReview,
+  RiskReviewNotFoundError,
+  RiskReviewStatus,
+  RiskRule,
+  RiskRuleType,
+  RiskSignal,
+  RiskChallengeVerifier,
+  SaveRiskPolicyRequest,
+  riskPolicySchema,
+  riskReviewSchema,
+  riskRuleSchema,
+} from './types';
+import { IRiskService } from './risk.service';
+import {
+  defaultRiskPolicy,
+  describeRiskRule,
+  getRiskOutcome,
+  isVelocityRule,
+  observeRiskRule,
+  scoreRiskReasons,
+} from './scoring';
+import { IEventService } from '../events';
+
+export interface RiskReviewRequest {
+  orderId: string;
+  eventId: string;
+  customerId: string;
+  customerEmail: string;
+  ip: string;
+  assessment: RiskAssessment;
+}
+
+export class FirebaseRiskService implements IRiskService {
+  private readonly policiesCollection = 'riskPolicies';
+  private readonly reviewsCollection = 'riskReviews';
+  private readonly velocityRetentionMinutes = 7 * 24 * 60; // Longest window a velocity rule can look back
+
+  private getIpVelocityKey(ip: string) { return `risk:ip:${ip}:reservations`; }
+  private getCustomerVelocityKey(customerId: string) { return `risk:customer:${customerId}:reservations`; }
+
+  constructor(
+    private firestore: Firestore,
+    private redis: Redis,
+    private eventService: IEventService,
+    private challengeVerifier?: RiskChallengeVerifier
+  ) {}
+
+  private convertToPolicy(doc: FirebaseFirestore.DocumentSnapshot): RiskPolicy {
+    const data = doc.data()!;
+    return riskPolicySchema.parse({
+      ...data,
+      id: doc.id,
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToReview(doc: FirebaseFirestore.DocumentSnapshot): RiskReview {
+    const data = doc.data()!;
+    return riskReviewSchema.parse({
+      ...data,
+      id: doc.id,
+      decidedAt: data.decidedAt?.toDate(),
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private getPolicyRef(scope: RiskPolicyScope, scopeId: string) {
+    return this.firestore.collection(this.policiesCollection).doc(`${scope}_${scopeId}`);
+  }
+
+  private async verifyPolicyOwner(organizerId: string, scope: RiskPolicyScope, scopeId: string): Promise<void> {
+    const ownerId = scope === RiskPolicyScope.EVENT
+      ? (await this.eventService.getEvent(scopeId)).organizerId
+      : scopeId;
+    if (ownerId !== organizerId) {
+      throw new RiskError('Unauthorized: Not the event organizer', 'risk/unauthorized');
+    }
+  }
+
+  private validateRules(rules: RiskRule[]): RiskRule[] {
+    return rules.map((rule, index) => {
+      const result = riskRuleSchema.safeParse(rule);
+      if (!result.success) {
+        throw new RiskError(`Rule ${index + 1} is invalid: ${result.error.issues[0]?.message}`, 'risk/invalid-policy');
+      }
+      if (result.data.type === RiskRuleType.ORDER_AMOUNT && !result.data.currency) {
+        throw new RiskError(`Rule ${index + 1} needs a currency for its amount`, 'risk/invalid-policy');
+      }
+      if (isVelocityRule(result.data) && result.data.windowMinutes > this.velocityRetentionMinutes) {
+        throw new RiskError(`Rule ${index + 1} looks back further than 7 days`, 'risk/invalid-policy');
+      }
+      return result.data;
+    });
+  }
+
+  async getRiskPolicy(organizerId: string, scope: RiskPolicyScope, scopeId: string): Promise<RiskPolicy | null> {
+    try {
+      await this.verifyPolicyOwner(organizerId, scope, scopeId);
+
+      const doc = await this.getPolicyRef(scope, scopeId).get();
+      return doc.exists ? this.convertToPolicy(doc) : null;
+    } catch (error: any) {
+      if (error instanceof RiskError) throw error;
+      throw new RiskError('Failed to get risk policy', 'risk/get-failed', error);
+    }
+  }
+
+  async saveRiskPolicy(organizerId: string, request: SaveRiskPolicyRequest): Promise<RiskPolicy> {
+    try {
+      await this.verifyPolicyOwner(organizerId, request.scope, request.scopeId);
+
+      const challengeScore = request.challengeScore ?? defaultRiskPolicy.challengeScore;
+      const reviewScore = request.reviewScore ?? defaultRiskPolicy.reviewScore;
+      if (reviewScore < challengeScore) {
+        throw new RiskError('The review score cannot be lower than the challenge score', 'risk/invalid-policy');
+      }
+
+      const ref = this.getPolicyRef(request.scope, request.scopeId);
+      const existing = await ref.get();
+      const now = Timestamp.now();
+      await ref.set({
+        scope: request.scope,
+        scopeId: request.scopeId,
+        rules: this.validateRules(request.rules ?? []),
+        challengeScore,
+        reviewScore,
+        reviewHoldHours: request.reviewHoldHours ?? defaultRiskPolicy.reviewHoldHours,
+        createdAt: existing.exists ? existing.get('createdAt') : now,
+        updatedAt: now,
+      });
+
+      return this.convertToPolicy(await ref.get());
+    } catch (error: any) {
+      if (error instanceof RiskError) throw error;
+      throw new RiskError('Failed to save risk policy', 'risk/save-failed', error);
+    }
+  }
+
+  async deleteRiskPolicy(organizerId: string, scope: RiskPolicyScope, scopeId: string): Promise<void> {
+    try {
+      await this.verifyPolicyOwner(organizerId, scope, scopeId);
+      await this.getPolicyRef(scope, scopeId).delete();
+    } catch (error: any) {
+      if (error instanceof RiskError) throw error;
+      throw new RiskError('Failed to delete risk policy', 'risk/delete-failed', error);
+    }
+  }
+
+  /**
+   * Score a reservation attempt against the policy that applies to its event. Only reads
+   * the velocity counters; call recordAttempt once the reservation went through.
+   */
+  async assessRisk(signal: RiskSignal): Promise<RiskAssessment> {
+    try {
+      const event = await this.eventService.getEvent(signal.eventId);
+      const policies = await this.firestore.getAll(
+        this.getPolicyRef(RiskPolicyScope.EVENT, signal.eventId),
+        this.getPolicyRef(RiskPolicyScope.ORGANIZER, event.organizerId)
+      );
+      const policyDoc = policies.find(doc => doc.exists);
+      const policy = policyDoc ? this.convertToPolicy(policyDoc) : defaultRiskPolicy;
+
+      const reasons: RiskReason[] = [];
+      for (const rule of policy.rules) {
+        const velocity = isVelocityRule(rule) ? await this.countAttempts(rule, signal) : undefined;
+        const observed = observeRiskRule(rule, signal, velocity);
+        if (observed !== undefined && observed > rule.threshold) {
+          reasons.push({ rule: rule.type, score: rule.score, message: describeRiskRule(rule, observed) });
+        }
+      }
+
+      const score = scoreRiskReasons(reasons);
+      return {
+        score,
+        outcome: getRiskOutcome(score, policy),
+        reasons,
+        policyId: policyDoc?.id,
+      };
+    } catch (error: any) {
+      if (error instanceof RiskError) throw error;
+      throw new RiskError('Failed to assess risk', 'risk/assessment-failed', error);
+    }
+  }
+
+  async listRiskReviews(organizerId: string, eventId: string, status?: RiskReviewStatus): Promise<RiskReview[]> {
+    try {
+      await this.verifyPolicyOwner(organizerId, RiskPolicyScope.EVENT, eventId);
+
+      let query = this.firestore
+        .collection(this.reviewsCollection)
+        .where('eventId', '==', eventId);
+      if (status) {
+        query = query.where('status', '==', status);
+      }
+
+      const snapshot = await query.get();
+      // Oldest first, so holds closest to running out are reviewed first
+      return snapshot.docs
+        .map(doc => this.convertToReview(doc))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error: any) {
+      if (error instanceof RiskError) throw error;
+      throw new RiskError('Failed to list risk reviews', 'risk/list-failed', error);
+    }
+  }
+
+  private async countAttempts(rule: RiskRule, signal: RiskSignal): Promise<number> {
+    const key = rule.type === RiskRuleType.IP_VELOCITY
+      ? this.getIpVelocityKey(signal.ip)
+      : this.getCustomerVelocityKey(signal.customerId);
+    return this.redis.zcount(key, Date.now() - rule.windowMinutes * 60 * 1000, '+inf');
+  }
+
+  // Helpers used by the ticket service while reserving
+
+  /**
+   * Count a reservation that was actually made, so lookups and failed attempts do not
+   * make a buyer look riskier.
+   */
+  async recordAttempt(signal: RiskSignal, orderId: string): Promise<void> {
+    const now = Date.now();
+    const cutoff = now - this.velocityRetentionMinutes * 60 * 1000;
+    const ttlSeconds = this.velocityRetentionMinutes * 60;
+    const pipeline = this.redis.pipeline();
+    for (const key of [this.getIpVelocityKey(signal.ip), this.getCustomerVelocityKey(signal.customerId)]) {
+      pipeline.zadd(key, now, orderId);
+      pipeline.zremrangebyscore(key, '-inf', cutoff);
+      pipeline.expire(key, ttlSeconds);
+    }
+    await pipeline.exec();
+  }
+
+  /**
+   * Challenges can only be passed when a verifier is configured; without one the
+   * attempt is held for review instead.
+   */
+  async resolveChallenge(assessment: RiskAssessment, customerId: string, token?: string): Promise<RiskOutcome> {
+    if (assessment.outcome !== RiskOutcome.CHALLENGE) {
+      return assessment.outcome;
+    }
+    if (!this.challengeVerifier) {
+      return RiskOutcome.REVIEW;
+    }
+    if (!token || !(await this.challengeVerifier(customerId, token))) {
+      return RiskOutcome.CHALLENGE;
+    }
+    return RiskOutcome.ALLOW;
+  }
+
+  async getReviewHoldHours(policyId?: string): Promise<number> {
+    if (!policyId) {
+      return defaultRiskPolicy.reviewHoldHours;
+    }
+    const doc = await this.firestore.collection(this.policiesCollection).doc(policyId).get();
+    return doc.exists ? this.convertToPolicy(doc).reviewHoldHours : defaultRiskPolicy.reviewHoldHours;
+  }
+
+  openReview(transaction: Transaction, request: RiskReviewRequest): void {
+    const now = Timestamp.now();
+    transaction.set(this.firestore.collection(this.reviewsCollection).doc(request.orderId), {
+      ...request,
+      status: RiskReviewStatus.PENDING,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Read the pending review of an order inside a transaction. Only reads.
+   */
+  async getPendingReview(transaction: Transaction, orderId: string): Promise<RiskReview> {
+    const doc = await transaction.get(this.firestore.collection(this.reviewsCollection).doc(orderId));
+    if (!doc.exists) {
+      throw new RiskReviewNotFoundError(orderId);
+    }
+    const review = this.convertToReview(doc);
+    if (review.status !== RiskReviewStatus.PENDING) {
+      throw new RiskError('Order has already been reviewed', 'risk/already-reviewed');
+    }
+    return review;
+  }
+
+  closeReview(
+    transaction: Transaction,
+    orderId: string,
+    status: Exclude<RiskReviewStatus, RiskReviewStatus.PENDING>,
+    decidedBy?: string,
+    note?: string
+  ): void {
+    const now = Timestamp.now();
+    transaction.update(this.firestore.collection(this.reviewsCollection).doc(orderId), {
+      status,
+      decidedBy,
+      note,
+      decidedAt: now,
+      updatedAt: now,
+    });
+  }
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './scoring';
+export * from './risk.service';
+export * from './firebase-risk.service';
@@ -0,0 +1,22 @@
+import {
+  RiskAssessment,
+  RiskPolicy,
+  RiskPolicyScope,
+  RiskReview,
+  RiskReviewStatus,
+  RiskSignal,
+  SaveRiskPolicyRequest
+} from './types';
+
+export interface IRiskService {
+  // Policies
+  getRiskPolicy(organizerId: string, scope: RiskPolicyScope, scopeId: string): Promise<RiskPolicy | null>;
+  saveRiskPolicy(organizerId: string, request: SaveRiskPolicyRequest): Promise<RiskPolicy>;
+  deleteRiskPolicy(organizerId: string, scope: RiskPolicyScope, scopeId: string): Promise<void>;
+
+  // Scoring
+  assessRisk(signal: RiskSignal): Promise<RiskAssessment>;
+
+  // Review Queue
+  listRiskReviews(organizerId: string, eventId: string, status?: RiskReviewStatus): Promise<RiskReview[]>;
+}
@@ -0,0 +1,90 @@
+import { defaultRiskPolicy, describeRiskRule, getRiskOutcome, isVelocityRule, observeRiskRule, scoreRiskReasons } from './scoring';
+import { RiskOutcome, RiskReason, RiskRule, RiskRuleType, RiskSignal } from './types';
+
+const rule = (type: RiskRuleType, overrides: Partial<RiskRule> = {}): RiskRule => ({
+  type,
+  threshold: 0,
+  windowMinutes: 60,
+  score: 10,
+  ...overrides,
+});
+
+const reason = (score: number): RiskReason => ({ rule: RiskRuleType.TICKET_QUANTITY, score, message: '' });
+
+describe('risk scoring', () => {
+  const signal: RiskSignal = {
+    eventId: 'event-1',
+    customerId: 'customer-1',
+    ip: '203.0.113.7',
+    amount: 2500,
+    currency: 'PHP',
+    ticketCount: 4,
+    customerEmail: 'Buyer@Example.com ',
+    accountEmail: 'buyer@example.com',
+  };
+
+  describe('observeRiskRule', () => {
+    it('uses the counted attempts for velocity rules', () => {
+      expect(observeRiskRule(rule(RiskRuleType.IP_VELOCITY), signal, 6)).toBe(6);
+      expect(observeRiskRule(rule(RiskRuleType.CUSTOMER_VELOCITY), signal, 2)).toBe(2);
+      expect(defaultRiskPolicy.rules.filter(isVelocityRule).map(velocityRule => velocityRule.type)).toEqual([
+        RiskRuleType.IP_VELOCITY,
+        RiskRuleType.CUSTOMER_VELOCITY,
+      ]);
+    });
+
+    it('only compares order amounts in the rule currency', () => {
+      expect(observeRiskRule(rule(RiskRuleType.ORDER_AMOUNT, { currency: 'PHP' }), signal)).toBe(2500);
+      expect(observeRiskRule(rule(RiskRuleType.ORDER_AMOUNT, { currency: 'USD' }), signal)).toBeUndefined();
+    });
+
+    it('counts the tickets of the order', () => {
+      expect(observeRiskRule(rule(RiskRuleType.TICKET_QUANTITY), signal)).toBe(4);
+    });
+
+    it('compares emails regardless of case and spacing', () => {
+      const mismatch = rule(RiskRuleType.EMAIL_MISMATCH);
+
+      expect(observeRiskRule(mismatch, signal)).toBe(0);
+      expect(observeRiskRule(mismatch, { ...signal, customerEmail: 'friend@example.com' })).toBe(1);
+      expect(observeRiskRule(mismatch, { ...signal, accountEmail: undefined })).toBeUndefined();
+    });
+  });
+
+  describe('describeRiskRule', () => {
+    it('explains what was observed', () => {
+      expect(describeRiskRule(rule(RiskRuleType.IP_VELOCITY, { windowMinutes: 1440 }), 6))
+        .toBe('6 reservations from this IP in the last 1440 minutes');
+      expect(describeRiskRule(rule(RiskRuleType.ORDER_AMOUNT, { threshold: 1000, currency: 'USD' }), 1200))
+        .toBe('Order total of 1200 USD is over 1000');
+    });
+  });
+
+  describe('scoreRiskReasons', () => {
+    it('adds up the reasons', () => {
+      expect(scoreRiskReasons([])).toBe(0);
+      expect(scoreRiskReasons([reason(40), reason(20)])).toBe(60);
+    });
+
+    it('never goes over 100', () => {
+      expect(scoreRiskReasons([reason(40), reason(40), reason(30)])).toBe(100);
+    });
+  });
+
+  describe('getRiskOutcome', () => {
+    it.each([
+      [0, RiskOutcome.ALLOW],
+      [39, RiskOutcome.ALLOW],
+      [40, RiskOutcome.CHALLENGE],
+      [69, RiskOutcome.CHALLENGE],
+      [70, RiskOutcome.REVIEW],
+      [100, RiskOutcome.REVIEW],
+    ])('turns a score of %i into %s with the default policy', (score, outcome) => {
+      expect(getRiskOutcome(score, defaultRiskPolicy)).toBe(outcome);
+    });
+
+    it('sends orders to review when both thresholds are reached', () => {
+      expect(getRiskOutcome(50, { challengeScore: 50, reviewScore: 50 })).toBe(RiskOutcome.REVIEW);
+    });
+  });
+});
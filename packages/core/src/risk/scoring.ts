@@ -0,0 +1,72 @@
+import { RiskOutcome, RiskPolicy, RiskReason, RiskRule, RiskRuleType, RiskSignal } from './types';
+
+type RiskThresholds = Pick<RiskPolicy, 'rules' | 'challengeScore' | 'reviewScore' | 'reviewHoldHours'>;
+
+// Used for events and organizers that have not configured a policy
+export const defaultRiskPolicy: RiskThresholds = {
+  rules: [
+    { type: RiskRuleType.IP_VELOCITY, threshold: 5, windowMinutes: 24 * 60, score: 40 },
+    { type: RiskRuleType.CUSTOMER_VELOCITY, threshold: 10, windowMinutes: 60, score: 40 },
+    { type: RiskRuleType.ORDER_AMOUNT, threshold: 50000, currency: 'PHP', windowMinutes: 60, score: 30 },
+    { type: RiskRuleType.ORDER_AMOUNT, threshold: 1000, currency: 'USD', windowMinutes: 60, score: 30 },
+    { type: RiskRuleType.TICKET_QUANTITY, threshold: 10, windowMinutes: 60, score: 20 },
+    { type: RiskRuleType.EMAIL_MISMATCH, threshold: 0, windowMinutes: 60, score: 10 },
+  ],
+  challengeScore: 40,
+  reviewScore: 70,
+  reviewHoldHours: 24,
+};
+
+export function isVelocityRule(rule: RiskRule): boolean {
+  return rule.type === RiskRuleType.IP_VELOCITY || rule.type === RiskRuleType.CUSTOMER_VELOCITY;
+}
+
+/**
+ * Value a rule compares against its threshold. Velocity rules are observed from the
+ * counters, so their count is passed in; undefined means the rule does not apply.
+ */
+export function observeRiskRule(rule: RiskRule, signal: RiskSignal, velocity?: number): number | undefined {
+  switch (rule.type) {
+    case RiskRuleType.IP_VELOCITY:
+    case RiskRuleType.CUSTOMER_VELOCITY:
+      return velocity;
+    case RiskRuleType.ORDER_AMOUNT:
+      return rule.currency === signal.currency ? signal.amount : undefined;
+    case RiskRuleType.TICKET_QUANTITY:
+      return signal.ticketCount;
+    case RiskRuleType.EMAIL_MISMATCH:
+      if (!signal.accountEmail) {
+        return undefined;
+      }
+      return signal.accountEmail.trim().toLowerCase() !== signal.customerEmail.trim().toLowerCase() ? 1 : 0;
+  }
+}
+
+export function describeRiskRule(rule: RiskRule, observed: number): string {
+  switch (rule.type) {
+    case RiskRuleType.IP_VELOCITY:
+      return `${observed} reservations from this IP in the last ${rule.windowMinutes} minutes`;
+    case RiskRuleType.CUSTOMER_VELOCITY:
+      return `${observed} reservations by this customer in the last ${rule.windowMinutes} minutes`;
+    case RiskRuleType.ORDER_AMOUNT:
+      return `Order total of ${observed} ${rule.currency} is over ${rule.threshold}`;
+    case RiskRuleType.TICKET_QUANTITY:
+      return `${observed} tickets in one order`;
+    case RiskRuleType.EMAIL_MISMATCH:
+      return 'Tickets are sent to an email other than the account email';
+  }
+}
+
+export function scoreRiskReasons(reasons: RiskReason[]): number {
+  return Math.min(reasons.reduce((sum, reason) => sum + reason.score, 0), 100);
+}
+
+export function getRiskOutcome(score: number, policy: Pick<RiskPolicy, 'challengeScore' | 'reviewScore'>): RiskOutcome {
+  if (score >= policy.reviewScore) {
+    return RiskOutcome.REVIEW;
+  }
+  if (score >= policy.challengeScore) {
+    return RiskOutcome.CHALLENGE;
+  }
+  return RiskOutcome.ALLOW;
+}
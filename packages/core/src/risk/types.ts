@@ -0,0 +1,161 @@
+import { z } from 'zod';
+
+export enum RiskOutcome {
+  ALLOW = 'ALLOW',
+  CHALLENGE = 'CHALLENGE', // The buyer has to pass a challenge, e.g. a CAPTCHA, before reserving
+  REVIEW = 'REVIEW',       // Tickets are held until the organizer reviews the order
+}
+
+export enum RiskRuleType {
+  IP_VELOCITY = 'IP_VELOCITY',             // Reservations from one IP within the window
+  CUSTOMER_VELOCITY = 'CUSTOMER_VELOCITY', // Reservations by one customer within the window
+  ORDER_AMOUNT = 'ORDER_AMOUNT',           // Order total in the rule's currency
+  TICKET_QUANTITY = 'TICKET_QUANTITY',     // Tickets in one order
+  EMAIL_MISMATCH = 'EMAIL_MISMATCH',       // Tickets sent to an email other than the account's
+}
+
+export enum RiskPolicyScope {
+  EVENT = 'EVENT',
+  ORGANIZER = 'ORGANIZER',
+}
+
+export enum RiskReviewStatus {
+  PENDING = 'PENDING',
+  APPROVED = 'APPROVED', // Hold released, the buyer can pay
+  REJECTED = 'REJECTED', // Order cancelled
+  CLOSED = 'CLOSED',     // Order was cancelled or expired before a decision
+}
+
+// A rule adds its score when the observed value goes over the threshold
+export const riskRuleSchema = z.object({
+  type: z.nativeEnum(RiskRuleType),
+  threshold: z.number().min(0).default(0),
+  windowMinutes: z.number().int().positive().default(60), // Velocity rules only
+  currency: z.string().optional(), // Required for ORDER_AMOUNT, which only applies to orders in that currency
+  score: z.number().int().min(1).max(100),
+});
+
+export type RiskRule = z.infer<typeof riskRuleSchema>;
+
+// Event policies take precedence over the organizer's, which take precedence over the defaults
+export const riskPolicySchema = z.object({
+  id: z.string(), // `${scope}_${scopeId}`
+  scope: z.nativeEnum(RiskPolicyScope),
+  scopeId: z.string(), // Event ID or organizer ID
+  rules: z.array(riskRuleSchema),
+  challengeScore: z.number().int().min(1).max(100).default(40),
+  reviewScore: z.number().int().min(1).max(100).default(70),
+  reviewHoldHours: z.number().int().positive().default(24), // How long tickets stay held for review
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type RiskPolicy = z.infer<typeof riskPolicySchema>;
+
+export const riskReasonSchema = z.object({
+  rule: z.nativeEnum(RiskRuleType),
+  score: z.number().int(),
+  message: z.string(),
+});
+
+export type RiskReason = z.infer<typeof riskReasonSchema>;
+
+export const riskAssessmentSchema = z.object({
+  score: z.number().int().min(0).max(100),
+  outcome: z.nativeEnum(RiskOutcome),
+  reasons: z.array(riskReasonSchema),
+  policyId: z.string().optional(), // Missing when the defaults were used
+});
+
+export type RiskAssessment = z.infer<typeof riskAssessmentSchema>;
+
+export const riskDecisionSchema = z.object({
+  status: z.nativeEnum(RiskReviewStatus),
+  decidedBy: z.string().optional(), // Missing for decisions made by the system
+  note: z.string().optional(),
+  at: z.date(),
+});
+
+export type RiskDecision = z.infer<typeof riskDecisionSchema>;
+
+// Kept on every ticket of the order so a review can be audited and a false positive released
+export const ticketRiskSchema = riskAssessmentSchema.extend({
+  reviewStatus: z.nativeEnum(RiskReviewStatus).optional(),
+  decisions: z.array(riskDecisionSchema).default([]),
+});
+
+export type TicketRisk = z.infer<typeof ticketRiskSchema>;
+
+export const riskReviewSchema = z.object({
+  id: z.string(), // Same as the order ID
+  orderId: z.string(),
+  eventId: z.string(),
+  customerId: z.string(),
+  customerEmail: z.string(),
+  ip: z.string(),
+  assessment: riskAssessmentSchema,
+  status: z.nativeEnum(RiskReviewStatus),
+  decidedBy: z.string().optional(),
+  note: z.string().optional(),
+  decidedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type RiskReview = z.infer<typeof riskReviewSchema>;
+
+// What is known about a reservation attempt when it is scored
+export interface RiskSignal {
+  eventId: string;
+  customerId: string;
+  ip: string;
+  amount: number;
+  currency: string;
+  ticketCount: number;
+  customerEmail: string;
+  accountEmail?: string;
+}
+
+export interface SaveRiskPolicyRequest {
+  scope: RiskPolicyScope;
+  scopeId: string;
+  rules: RiskRule[];
+  challengeScore?: number;
+  reviewScore?: number;
+  reviewHoldHours?: number;
+}
+
+// Checks the answer to a challenge, e.g. by verifying a CAPTCHA token with its provider
+export type RiskChallengeVerifier = (customerId: string, token: string) => Promise<boolean>;
+
+// Error types
+export class RiskError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'RiskError';
+  }
+}
+
+export class RiskChallengeRequiredError extends RiskError {
+  constructor(public reasons: RiskReason[]) {
+    super(
+      'Complete the challenge to continue',
+      'risk/challenge-required'
+    );
+    this.name = 'RiskChallengeRequiredError';
+  }
+}
+
+export class RiskReviewNotFoundError extends RiskError {
+  constructor(orderId: string) {
+    super(
+      `Risk review for order ${orderId} not found`,
+      'risk/review-not-found'
+    );
+    this.name = 'RiskReviewNotFoundError';
+  }
+}
@@ -0,0 +1,13 @@
+import { Event } from '../events/types';
+import { EventSearchHit, EventSearchQuery } from './types';
+
+export interface IEventSearchEngine {
+  // Indexing
+  indexEvent(event: Event): Promise<void>;
+  removeEvent(eventId: string): Promise<void>;
+  retainEvents(eventIds: Set<string>): Promise<void>; // Drops every event not in the set
+  clear(): Promise<void>;
+
+  // Search, best match first
+  searchEvents(query: EventSearchQuery): Promise<EventSearchHit[]>;
+}
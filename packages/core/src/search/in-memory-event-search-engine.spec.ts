@@ -0,0 +1,122 @@
+import { Event, EventLocationType, EventStatus, EventVisibility } from '../events/types';
+import { InMemoryEventSearchEngine } from './in-memory-event-search-engine';
+import { EventSearchField } from './types';
+
+function createEvent(id: string, overrides: Partial<Event> = {}): Event {
+  return {
+    id,
+    organizerId: 'organizer-1',
+    title: 'Untitled',
+    description: '',
+    location: { type: EventLocationType.VIRTUAL, platform: 'Zoom', joinUrl: 'https://zoom.us/j/1' },
+    startDateTime: new Date('2026-11-01T18:00:00Z'),
+    endDateTime: new Date('2026-11-01T21:00:00Z'),
+    timezone: 'UTC',
+    capacity: 100,
+    capacityUsage: { reserved: 0, sold: 0, registered: 0 },
+    status: EventStatus.PUBLISHED,
+    visibility: EventVisibility.PUBLIC,
+    isPublished: true,
+    tags: [],
+    categories: [],
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    updatedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('InMemoryEventSearchEngine', () => {
+  let engine: InMemoryEventSearchEngine;
+
+  beforeEach(async () => {
+    engine = new InMemoryEventSearchEngine();
+    await engine.indexEvent(createEvent('title', { title: 'Jazz Night' }));
+    await engine.indexEvent(createEvent('description', { title: 'Evening Session', description: 'Live jazz until late' }));
+    await engine.indexEvent(createEvent('workshop', { title: 'Photography Workshop', tags: ['photography'] }));
+    await engine.indexEvent(createEvent('cafe', { title: 'Café Concert' }));
+  });
+
+  it('ranks title matches above description matches', async () => {
+    const hits = await engine.searchEvents({ text: 'jazz' });
+
+    expect(hits.map(hit => hit.eventId)).toEqual(['title', 'description']);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  it('ranks exact matches above prefix and typo matches', async () => {
+    // Each term is in one event only, so they are equally rare
+    await engine.indexEvent(createEvent('typo', { title: 'Swint Party' }));
+    await engine.indexEvent(createEvent('prefix', { title: 'Swinging Sixties' }));
+    await engine.indexEvent(createEvent('exact', { title: 'Swing Dance' }));
+
+    const hits = await engine.searchEvents({ text: 'swing' });
+
+    expect(hits.map(hit => hit.eventId)).toEqual(['exact', 'prefix', 'typo']);
+  });
+
+  it('only returns events matching every query term', async () => {
+    const hits = await engine.searchEvents({ text: 'jazz late' });
+
+    expect(hits.map(hit => hit.eventId)).toEqual(['description']);
+  });
+
+  it('matches words by their prefix', async () => {
+    const hits = await engine.searchEvents({ text: 'photo' });
+
+    expect(hits.map(hit => hit.eventId)).toEqual(['workshop']);
+  });
+
+  it('does not match single letters as prefixes', async () => {
+    expect(await engine.searchEvents({ text: 'p' })).toEqual([]);
+  });
+
+  it('tolerates typos in longer words only', async () => {
+    expect((await engine.searchEvents({ text: 'workshp' })).map(hit => hit.eventId)).toEqual(['workshop']);
+    expect((await engine.searchEvents({ text: 'photogarphy' })).map(hit => hit.eventId)).toEqual(['workshop']);
+    expect(await engine.searchEvents({ text: 'jzz' })).toEqual([]);
+  });
+
+  it('ignores accents and case', async () => {
+    const hits = await engine.searchEvents({ text: 'CAFE' });
+
+    expect(hits.map(hit => hit.eventId)).toEqual(['cafe']);
+    expect(hits[0]!.highlights[EventSearchField.TITLE]).toEqual(['<mark>Café</mark> Concert']);
+  });
+
+  it('highlights the matched words of every field', async () => {
+    const [hit] = await engine.searchEvents({ text: 'photography' });
+
+    expect(hit!.highlights).toEqual({
+      [EventSearchField.TITLE]: ['<mark>Photography</mark> Workshop'],
+      [EventSearchField.TAGS]: ['<mark>photography</mark>'],
+    });
+  });
+
+  it('escapes HTML in highlighted fields', async () => {
+    await engine.indexEvent(createEvent('script', {
+      title: 'Jazz <script>alert("x")</script> & Blues',
+    }));
+
+    const hits = await engine.searchEvents({ text: 'blues' });
+
+    expect(hits[0]!.highlights[EventSearchField.TITLE]).toEqual([
+      'Jazz &lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; <mark>Blues</mark>',
+    ]);
+  });
+
+  it('forgets events that are removed or not retained', async () => {
+    await engine.removeEvent('title');
+    await engine.retainEvents(new Set(['description', 'cafe']));
+
+    expect((await engine.searchEvents({ text: 'jazz' })).map(hit => hit.eventId)).toEqual(['description']);
+    expect(await engine.searchEvents({ text: 'photography' })).toEqual([]);
+  });
+
+  it('leaves out unpublished events', async () => {
+    await engine.indexEvent(createEvent('draft', { title: 'Jazz Draft', isPublished: false }));
+
+    const hits = await engine.searchEvents({ text: 'draft' });
+
+    expect(hits).toEqual([]);
+  });
+});
@@ -0,0 +1,191 @@
+import { Event } from '../events/types';
+import { describeEventLocation } from '../events/location';
+import { matchesEventSearchParams } from '../events/filters';
+import { IEventSearchEngine } from './event-search-engine';
+import { EventSearchField, EventSearchHighlights, EventSearchHit, EventSearchQuery } from './types';
+import { editDistance, highlight, maxTypos, tokenize } from './text';
+
+interface IndexedEvent {
+  event: Event;
+  values: Record<EventSearchField, string[]>;
+  terms: Map<string, Partial<Record<EventSearchField, number>>>; // Term -> occurrences per field
+}
+
+interface TermMatch {
+  term: string;
+  weight: number;
+}
+
+// Title matches count most, description matches least
+const fieldBoosts: Record<EventSearchField, number> = {
+  [EventSearchField.TITLE]: 3,
+  [EventSearchField.TAGS]: 2,
+  [EventSearchField.CATEGORIES]: 2,
+  [EventSearchField.LOCATION]: 1.5,
+  [EventSearchField.DESCRIPTION]: 1,
+};
+
+// Exact terms rank above prefixes, which rank above typos
+const exactWeight = 1;
+const prefixWeight = 0.8;
+const typoWeight = 0.6;
+const minPrefixLength = 2;
+
+/**
+ * Search engine that keeps its index in process memory. Suited to tests and small
+ * deployments; every process holds its own index, so it is rebuilt from Firestore on
+ * start and refreshed periodically to pick up changes made by other instances.
+ */
+export class InMemoryEventSearchEngine implements IEventSearchEngine {
+  private events = new Map<string, IndexedEvent>();
+  private postings = new Map<string, Set<string>>(); // Term -> IDs of events containing it
+
+  private getValues(event: Event): Record<EventSearchField, string[]> {
+    return {
+      [EventSearchField.TITLE]: [event.title],
+      [EventSearchField.DESCRIPTION]: [event.description],
+      [EventSearchField.TAGS]: event.tags,
+      [EventSearchField.CATEGORIES]: event.categories,
+      [EventSearchField.LOCATION]: [describeEventLocation(event.location)],
+    };
+  }
+
+  async indexEvent(event: Event): Promise<void> {
+    await this.removeEvent(event.id);
+
+    const values = this.getValues(event);
+    const terms = new Map<string, Partial<Record<EventSearchField, number>>>();
+    for (const field of Object.values(EventSearchField)) {
+      for (const term of values[field].flatMap(value => tokenize(value))) {
+        const counts = terms.get(term) ?? {};
+        counts[field] = (counts[field] ?? 0) + 1;
+        terms.set(term, counts);
+      }
+    }
+
+    for (const term of terms.keys()) {
+      const ids = this.postings.get(term) ?? new Set<string>();
+      ids.add(event.id);
+      this.postings.set(term, ids);
+    }
+    this.events.set(event.id, { event, values, terms });
+  }
+
+  async removeEvent(eventId: string): Promise<void> {
+    const indexed = this.events.get(eventId);
+    if (!indexed) {
+      return;
+    }
+
+    for (const term of indexed.terms.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(eventId);
+      if (ids?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.events.delete(eventId);
+  }
+
+  async retainEvents(eventIds: Set<string>): Promise<void> {
+    for (const eventId of [...this.events.keys()].filter(id => !eventIds.has(id))) {
+      await this.removeEvent(eventId);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.events.clear();
+    this.postings.clear();
+  }
+
+  // Indexed terms a query term may stand for: itself, words it starts, or near misspellings
+  private expandTerm(queryTerm: string): TermMatch[] {
+    const typos = maxTypos(queryTerm.length);
+    const matches: TermMatch[] = [];
+    for (const term of this.postings.keys()) {
+      if (term === queryTerm) {
+        matches.push({ term, weight: exactWeight });
+      } else if (queryTerm.length >= minPrefixLength && term.startsWith(queryTerm)) {
+        matches.push({ term, weight: prefixWeight });
+      } else if (typos > 0 && editDistance(queryTerm, term, typos) <= typos) {
+        matches.push({ term, weight: typoWeight });
+      }
+    }
+    return matches;
+  }
+
+  private scoreTerm(indexed: IndexedEvent, term: string): number {
+    const counts = indexed.terms.get(term) ?? {};
+    return Object.entries(counts).reduce(
+      (sum, [field, count]) => sum + fieldBoosts[field as EventSearchField] * (1 + Math.log(count)),
+      0
+    );
+  }
+
+  private getHighlights(indexed: IndexedEvent, terms: Set<string>): EventSearchHighlights {
+    const highlights: EventSearchHighlights = {};
+    for (const field of Object.values(EventSearchField)) {
+      const marked = indexed.values[field]
+        .map(value => highlight(value, terms))
+        .filter((value): value is string => value !== null);
+      if (marked.length > 0) {
+        highlights[field] = marked;
+      }
+    }
+    return highlights;
+  }
+
+  /**
+   * Every query term has to match an event, exactly, as a prefix or with a typo. Events
+   * score by how rare their matching terms are and which fields they are in.
+   */
+  async searchEvents(query: EventSearchQuery): Promise<EventSearchHit[]> {
+    const queryTerms = [...new Set(tokenize(query.text))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const scores = new Map<string, number>();
+    const matchedTerms = new Map<string, Set<string>>();
+    for (const [index, queryTerm] of queryTerms.entries()) {
+      const best = new Map<string, number>();
+      for (const match of this.expandTerm(queryTerm)) {
+        const ids = this.postings.get(match.term)!;
+        const idf = Math.log(1 + this.events.size / ids.size);
+        for (const id of ids) {
+          // Events that missed an earlier query term are already out
+          if (index > 0 && !scores.has(id)) continue;
+
+          const score = match.weight * idf * this.scoreTerm(this.events.get(id)!, match.term);
+          best.set(id, Math.max(best.get(id) ?? 0, score));
+          matchedTerms.set(id, (matchedTerms.get(id) ?? new Set<string>()).add(match.term));
+        }
+      }
+
+      for (const id of [...scores.keys()].filter(id => !best.has(id))) {
+        scores.delete(id);
+      }
+      for (const [id, score] of best) {
+        scores.set(id, (scores.get(id) ?? 0) + score);
+      }
+      if (scores.size === 0) {
+        return [];
+      }
+    }
+
+    const offset = Number(query.offset ?? 0);
+    const limit = query.limit ? Number(query.limit) : undefined;
+    return [...scores.entries()]
+      .map(([id, score]) => ({ indexed: this.events.get(id)!, score }))
+      .filter(({ indexed }) => matchesEventSearchParams(indexed.event, query))
+      // Ties go to the event that starts first
+      .sort((a, b) => b.score - a.score ||
+        a.indexed.event.startDateTime.getTime() - b.indexed.event.startDateTime.getTime())
+      .slice(offset, limit !== undefined ? offset + limit : undefined)
+      .map(({ indexed, score }) => ({
+        eventId: indexed.event.id,
+        score: Math.round(score * 1000) / 1000,
+        highlights: this.getHighlights(indexed, matchedTerms.get(indexed.event.id)!),
+      }));
+  }
+}
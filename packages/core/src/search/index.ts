@@ -0,0 +1,3 @@
+export * from './types';
+export * from './event-search-engine';
+export * from './in-memory-event-search-engine';
@@ -0,0 +1,76 @@
+// Strips accents and case so "Café" and "cafe" index to the same term
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+const wordPattern = /[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string): string[] {
+  return (text.match(wordPattern) ?? []).map(normalizeTerm);
+}
+
+/**
+ * Levenshtein distance, giving up once it is over `max` so long terms that are
+ * clearly different cost little to compare.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      rowMin = Math.min(rowMin, current[j]!);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+// Typos allowed for a query term of the given length; short terms must match exactly
+export function maxTypos(length: number): number {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+const htmlEscapes: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => htmlEscapes[char]!);
+}
+
+/**
+ * Wrap the words of `text` whose terms are in `terms` with <mark></mark>. The rest of the
+ * text is HTML-escaped, since it comes from organizers and the result is rendered as HTML.
+ * Returns null when nothing matched.
+ */
+export function highlight(text: string, terms: Set<string>): string | null {
+  let matched = false;
+  let marked = '';
+  let last = 0;
+  for (const match of text.matchAll(wordPattern)) {
+    const word = match[0];
+    if (!terms.has(normalizeTerm(word))) {
+      continue;
+    }
+    matched = true;
+    marked += `${escapeHtml(text.slice(last, match.index))}<mark>${escapeHtml(word)}</mark>`;
+    last = match.index! + word.length;
+  }
+  return matched ? marked + escapeHtml(text.slice(last)) : null;
+}
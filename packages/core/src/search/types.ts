@@ -0,0 +1,40 @@
+import { Event, EventSearchParams } from '../events/types';
+
+export enum EventSearchField {
+  TITLE = 'title',
+  DESCRIPTION = 'description',
+  TAGS = 'tags',
+  CATEGORIES = 'categories',
+  LOCATION = 'location',
+}
+
+// HTML-escaped field values with matched words wrapped in <mark></mark>; list fields give one entry per matching value
+export type EventSearchHighlights = Partial<Record<EventSearchField, string[]>>;
+
+export interface EventSearchHit {
+  eventId: string;
+  score: number;
+  highlights: EventSearchHighlights;
+}
+
+export interface EventSearchResult {
+  event: Event;
+  score: number;
+  highlights: EventSearchHighlights;
+}
+
+export interface EventSearchQuery extends EventSearchParams {
+  text: string;
+}
+
+// Error types
+export class SearchError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'SearchError';
+  }
+}
@@ -0,0 +1,194 @@
+import { Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { FirebaseSeatingService } from './firebase-seating.service';
+import { CreateSeatMapRequest, SeatHold, SeatStatus, SeatUnavailableError } from './types';
+import { IEventService } from '../events';
+import { FakeFirestore } from '../testing/fake-firestore';
+import { createEvent } from '../testing/fixtures';
+
+describe('FirebaseSeatingService', () => {
+  const heldUntil = Timestamp.fromDate(new Date('2026-11-03T10:15:00Z'));
+  const event = createEvent();
+
+  let firestore: FakeFirestore;
+  let service: FirebaseSeatingService;
+
+  const seatMap: CreateSeatMapRequest = {
+    eventId: event.id,
+    name: 'Main hall',
+    sections: [
+      {
+        id: 'orchestra',
+        name: 'Orchestra',
+        rows: [{ label: 'A', seats: [{ number: '1', ticketTypeId: 'premium', accessible: true }, { number: '2', ticketTypeId: 'premium', accessible: false }] }],
+      },
+      {
+        id: 'balcony',
+        name: 'Balcony',
+        rows: [{ label: 'A', seats: [{ number: '1', ticketTypeId: 'general', accessible: false }] }],
+      },
+    ],
+  };
+
+  const getSeat = async (seatId: string) => (await firestore.collection('seats').doc(`${event.id}_${seatId}`).get()).data()!;
+
+  // Hold seats the way the ticket service does while reserving
+  const hold = (holds: SeatHold[]) => firestore.runTransaction(async transaction => {
+    await service.getSeatsForHold(transaction as unknown as Transaction, event.id, holds.map(hold => hold.seatId));
+    service.holdSeats(transaction as unknown as Transaction, event.id, holds, heldUntil);
+  });
+
+  const settle = (seatIds: string[], sold: boolean) => firestore.runTransaction(async transaction => {
+    service.settleSeats(transaction as unknown as Transaction, event.id, seatIds, sold);
+  });
+
+  const captureError = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (error) {
+      return error as any;
+    }
+    return undefined;
+  };
+
+  beforeEach(async () => {
+    firestore = new FakeFirestore();
+    await firestore.collection('ticketTypes').doc('premium').set({ eventId: event.id });
+    await firestore.collection('ticketTypes').doc('general').set({ eventId: event.id });
+
+    service = new FirebaseSeatingService(
+      firestore as unknown as Firestore,
+      { getEvent: jest.fn(async () => event) } as unknown as IEventService
+    );
+    await service.createSeatMap(event.organizerId, seatMap);
+  });
+
+  describe('createSeatMap', () => {
+    it('creates a document for every seat', async () => {
+      expect(await getSeat('orchestra-A-2')).toMatchObject({
+        sectionName: 'Orchestra',
+        row: 'A',
+        number: '2',
+        ticketTypeId: 'premium',
+        status: SeatStatus.AVAILABLE,
+      });
+      expect((await service.getSeatMap(event.id)).seatCount).toBe(3);
+    });
+
+    it.each([
+      ['a second map for the event', seatMap, 'seating/map-exists'],
+      ['price levels of another event', { ...seatMap, eventId: 'event-2' }, 'seating/invalid-ticket-type'],
+    ])('refuses %s', async (_reason, request, code) => {
+      expect((await captureError(() => service.createSeatMap(event.organizerId, request)))?.code).toBe(code);
+    });
+
+    it('refuses seats listed twice', async () => {
+      await firestore.collection('seatMaps').doc(event.id).delete();
+      const [section] = seatMap.sections;
+      const duplicated = { ...seatMap, sections: [{ ...section!, rows: [section!.rows[0]!, section!.rows[0]!] }] };
+
+      expect((await captureError(() => service.createSeatMap(event.organizerId, duplicated)))?.code).toBe('seating/duplicate-seats');
+    });
+  });
+
+  describe('seat holds', () => {
+    it('holds seats for an order until it is settled', async () => {
+      await hold([{ seatId: 'orchestra-A-1', orderId: 'order-1', ticketId: 'ticket-1' }]);
+
+      expect(await getSeat('orchestra-A-1')).toMatchObject({
+        status: SeatStatus.HELD,
+        orderId: 'order-1',
+        ticketId: 'ticket-1',
+        heldUntil,
+      });
+    });
+
+    it('never puts a held seat on a second order', async () => {
+      await hold([{ seatId: 'orchestra-A-1', orderId: 'order-1', ticketId: 'ticket-1' }]);
+
+      const error = await captureError(() => hold([
+        { seatId: 'orchestra-A-2', orderId: 'order-2', ticketId: 'ticket-2' },
+        { seatId: 'orchestra-A-1', orderId: 'order-2', ticketId: 'ticket-3' },
+      ]));
+
+      expect(error).toBeInstanceOf(SeatUnavailableError);
+      expect(error.message).toBe('Seat orchestra-A-1 is not available');
+      expect(await getSeat('orchestra-A-2')).toMatchObject({ status: SeatStatus.AVAILABLE });
+      expect(await getSeat('orchestra-A-1')).toMatchObject({ orderId: 'order-1' });
+    });
+
+    it('refuses seats that are not on the map', async () => {
+      expect(await captureError(() => hold([{ seatId: 'balcony-Z-9', orderId: 'order-1', ticketId: 'ticket-1' }])))
+        .toBeInstanceOf(SeatUnavailableError);
+    });
+
+    it('marks held seats as sold once the order is paid', async () => {
+      await hold([{ seatId: 'orchestra-A-1', orderId: 'order-1', ticketId: 'ticket-1' }]);
+
+      await settle(['orchestra-A-1'], true);
+
+      const seat = await getSeat('orchestra-A-1');
+      expect(seat).toMatchObject({ status: SeatStatus.SOLD, orderId: 'order-1', ticketId: 'ticket-1' });
+      expect(seat.heldUntil).toBeUndefined();
+      expect(await captureError(() => hold([{ seatId: 'orchestra-A-1', orderId: 'order-2', ticketId: 'ticket-2' }])))
+        .toBeInstanceOf(SeatUnavailableError);
+    });
+
+    it('puts released seats back on sale', async () => {
+      await hold([{ seatId: 'orchestra-A-1', orderId: 'order-1', ticketId: 'ticket-1' }]);
+
+      await settle(['orchestra-A-1'], false);
+
+      const seat = await getSeat('orchestra-A-1');
+      expect(seat.status).toBe(SeatStatus.AVAILABLE);
+      expect(seat).not.toHaveProperty('orderId');
+      expect(seat).not.toHaveProperty('ticketId');
+      expect(seat).not.toHaveProperty('heldUntil');
+
+      await hold([{ seatId: 'orchestra-A-1', orderId: 'order-2', ticketId: 'ticket-2' }]);
+      expect(await getSeat('orchestra-A-1')).toMatchObject({ status: SeatStatus.HELD, orderId: 'order-2' });
+    });
+  });
+
+  describe('blocked seats', () => {
+    it('cannot be held until they are unblocked', async () => {
+      await service.blockSeats(event.organizerId, event.id, ['balcony-A-1']);
+
+      expect(await captureError(() => hold([{ seatId: 'balcony-A-1', orderId: 'order-1', ticketId: 'ticket-1' }])))
+        .toBeInstanceOf(SeatUnavailableError);
+
+      await service.unblockSeats(event.organizerId, event.id, ['balcony-A-1']);
+      await hold([{ seatId: 'balcony-A-1', orderId: 'order-1', ticketId: 'ticket-1' }]);
+    });
+
+    it('can only be taken from available seats', async () => {
+      await hold([{ seatId: 'orchestra-A-1', orderId: 'order-1', ticketId: 'ticket-1' }]);
+
+      expect(await captureError(() => service.blockSeats(event.organizerId, event.id, ['orchestra-A-1'])))
+        .toBeInstanceOf(SeatUnavailableError);
+      expect(await captureError(() => service.unblockSeats(event.organizerId, event.id, ['orchestra-A-2'])))
+        .toBeInstanceOf(SeatUnavailableError);
+    });
+
+    it('are only blocked by the organizer', async () => {
+      expect((await captureError(() => service.blockSeats('organizer-2', event.id, ['balcony-A-1'])))?.code)
+        .toBe('seating/unauthorized');
+    });
+  });
+
+  describe('getSeatAvailability', () => {
+    it('counts available seats per section without showing who holds them', async () => {
+      await hold([{ seatId: 'orchestra-A-1', orderId: 'order-1', ticketId: 'ticket-1' }]);
+
+      const availability = await service.getSeatAvailability(event.id);
+
+      expect(availability.sections).toEqual([
+        { sectionId: 'balcony', name: 'Balcony', total: 1, available: 1 },
+        { sectionId: 'orchestra', name: 'Orchestra', total: 2, available: 1 },
+      ]);
+      const held = availability.seats.find(seat => seat.id === 'orchestra-A-1');
+      expect(held).toMatchObject({ status: SeatStatus.HELD });
+      expect(held).not.toHaveProperty('orderId');
+      expect(held).not.toHaveProperty('heldUntil');
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
+import {
+  SeatMap,
+  Seat,
+  SeatStatus,
+  SeatAvailability,
+  SeatHold,
+  SectionAvailability,
+  CreateSeatMapRequest,
+  SeatingError,
+  SeatMapNotFoundError,
+  SeatUnavailableError,
+  seatMapSchema,
+  seatSchema,
+} from './types';
+import { ISeatingService } from './seating.service';
+import { IEventService } from '../events';
+
+export class FirebaseSeatingService implements ISeatingService {
+  private readonly seatMapsCollection = 'seatMaps';
+  private readonly seatsCollection = 'seats';
+  private readonly ticketTypesCollection = 'ticketTypes';
+  private readonly batchSize = 500; // Firestore write limit per batch
+
+  constructor(
+    private firestore: Firestore,
+    private eventService: IEventService
+  ) {}
+
+  private getSeatRef(eventId: string, seatId: string) {
+    return this.firestore.collection(this.seatsCollection).doc(`${eventId}_${seatId}`);
+  }
+
+  private convertToSeatMap(doc: FirebaseFirestore.DocumentSnapshot): SeatMap {
+    const data = doc.data()!;
+    return seatMapSchema.parse({
+      ...data,
+      id: doc.id,
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private convertToSeat(doc: FirebaseFirestore.DocumentSnapshot): Seat {
+    const data = doc.data()!;
+    return seatSchema.parse({
+      ...data,
+      heldUntil: data.heldUntil?.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private async verifyOrganizerOwnsEvent(organizerId: string, eventId: string): Promise<void> {
+    const event = await this.eventService.getEvent(eventId);
+    if (event.organizerId !== organizerId) {
+      throw new SeatingError('Unauthorized: Not the event organizer', 'seating/unauthorized');
+    }
+  }
+
+  async createSeatMap(organizerId: string, request: CreateSeatMapRequest): Promise<SeatMap> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, request.eventId);
+
+      const seatMapRef = this.firestore.collection(this.seatMapsCollection).doc(request.eventId);
+      if ((await seatMapRef.get()).exists) {
+        throw new SeatingError('Event already has a seat map', 'seating/map-exists');
+      }
+
+      // Every price level must be a ticket type of the same event
+      const ticketTypeIds = [...new Set(request.sections.flatMap(section =>
+        section.rows.flatMap(row => row.seats.map(seat => seat.ticketTypeId))
+      ))];
+      const ticketTypeDocs = await this.firestore.getAll(
+        ...ticketTypeIds.map(id => this.firestore.collection(this.ticketTypesCollection).doc(id))
+      );
+      const invalid = ticketTypeDocs.find(doc => !doc.exists || doc.get('eventId') !== request.eventId);
+      if (invalid) {
+        throw new SeatingError(`Ticket type ${invalid.id} does not belong to this event`, 'seating/invalid-ticket-type');
+      }
+
+      const now = Timestamp.now();
+      const seats = request.sections.flatMap(section =>
+        section.rows.flatMap(row => row.seats.map(seat => ({
+          id: `${section.id}-${row.label}-${seat.number}`,
+          eventId: request.eventId,
+          sectionId: section.id,
+          sectionName: section.name,
+          row: row.label,
+          number: seat.number,
+          ticketTypeId: seat.ticketTypeId,
+          accessible: seat.accessible ?? false,
+          status: SeatStatus.AVAILABLE,
+          updatedAt: now,
+        })))
+      );
+      if (new Set(seats.map(seat => seat.id)).size !== seats.length) {
+        throw new SeatingError('Seat map contains duplicate seats', 'seating/duplicate-seats');
+      }
+
+      for (let i = 0; i < seats.length; i += this.batchSize) {
+        const batch = this.firestore.batch();
+        for (const seat of seats.slice(i, i + this.batchSize)) {
+          batch.set(this.getSeatRef(request.eventId, seat.id), seat);
+        }
+        await batch.commit();
+      }
+
+      await seatMapRef.set({
+        eventId: request.eventId,
+        name: request.name,
+        sections: request.sections,
+        seatCount: seats.length,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      return this.convertToSeatMap(await seatMapRef.get());
+    } catch (error: any) {
+      if (error instanceof SeatingError) throw error;
+      throw new SeatingError('Failed to create seat map', 'seating/creation-failed', error);
+    }
+  }
+
+  async getSeatMap(eventId: string): Promise<SeatMap> {
+    try {
+      const doc = await this.firestore.collection(this.seatMapsCollection).doc(eventId).get();
+      if (!doc.exists) {
+        throw new SeatMapNotFoundError(eventId);
+      }
+      return this.convertToSeatMap(doc);
+    } catch (error: any) {
+      if (error instanceof SeatingError) throw error;
+      throw new SeatingError('Failed to get seat map', 'seating/get-failed', error);
+    }
+  }
+
+  private async setSeatsBlocked(organizerId: string, eventId: string, seatIds: string[], blocked: boolean): Promise<Seat[]> {
+    await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
+    return this.firestore.runTransaction(async (transaction: Transaction) => {
+      const refs = seatIds.map(seatId => this.getSeatRef(eventId, seatId));
+      const docs = await transaction.getAll(...refs);
+      const from = blocked ? SeatStatus.AVAILABLE : SeatStatus.BLOCKED;
+
+      const now = Timestamp.now();
+      return docs.map((doc, index) => {
+        if (!doc.exists || doc.get('status') !== from) {
+          throw new SeatUnavailableError(seatIds[index]!);
+        }
+        const status = blocked ? SeatStatus.BLOCKED : SeatStatus.AVAILABLE;
+        transaction.update(doc.ref, { status, updatedAt: now });
+        return { ...this.convertToSeat(doc), status, updatedAt: now.toDate() };
+      });
+    });
+  }
+
+  async blockSeats(organizerId: string, eventId: string, seatIds: string[]): Promise<Seat[]> {
+    try {
+      return await this.setSeatsBlocked(organizerId, eventId, seatIds, true);
+    } catch (error: any) {
+      if (error instanceof SeatingError) throw error;
+      throw new SeatingError('Failed to block seats', 'seating/update-failed', error);
+    }
+  }
+
+  async unblockSeats(organizerId: string, eventId: string, seatIds: string[]): Promise<Seat[]> {
+    try {
+      return await this.setSeatsBlocked(organizerId, eventId, seatIds, false);
+    } catch (error: any) {
+      if (error instanceof SeatingError) throw error;
+      throw new SeatingError('Failed to unblock seats', 'seating/update-failed', error);
+    }
+  }
+
+  async getSeatAvailability(eventId: string): Promise<SeatAvailability> {
+    try {
+      // Not cached: seat status changes with every reservation
+      const snapshot = await this.firestore
+        .collection(this.seatsCollection)
+        .where('eventId', '==', eventId)
+        .get();
+      if (snapshot.empty) {
+        throw new SeatMapNotFoundError(eventId);
+      }
+
+      const sections = new Map<string, SectionAvailability>();
+      const seats = snapshot.docs.map(doc => {
+        const { orderId, ticketId, heldUntil, ...seat } = this.convertToSeat(doc);
+        const section = sections.get(seat.sectionId) ?? {
+          sectionId: seat.sectionId,
+          name: seat.sectionName,
+          total: 0,
+          available: 0,
+        };
+        section.total++;
+        if (seat.status === SeatStatus.AVAILABLE) section.available++;
+        sections.set(seat.sectionId, section);
+        return seat;
+      });
+
+      return { eventId, sections: [...sections.values()], seats };
+    } catch (error: any) {
+      if (error instanceof SeatingError) throw error;
+      throw new SeatingError('Failed to get seat availability', 'seating/availability-failed', error);
+    }
+  }
+
+  // Transactional helpers used by the ticket service
+
+  /**
+   * Read the requested seats inside a reservation transaction and make sure every one
+   * of them is free. A held seat stays unavailable until its order is released, so a
+   * seat can never end up on two orders.
+   */
+  async getSeatsForHold(transaction: Transaction, eventId: string, seatIds: string[]): Promise<Seat[]> {
+    const docs = await transaction.getAll(...seatIds.map(seatId => this.getSeatRef(eventId, seatId)));
+    return docs.map((doc, index) => {
+      if (!doc.exists || doc.get('status') !== SeatStatus.AVAILABLE) {
+        throw new SeatUnavailableError(seatIds[index]!);
+      }
+      return this.convertToSeat(doc);
+    });
+  }
+
+  holdSeats(transaction: Transaction, eventId: string, holds: SeatHold[], heldUntil: Timestamp): void {
+    const now = Timestamp.now();
+    for (const hold of holds) {
+      transaction.update(this.getSeatRef(eventId, hold.seatId), {
+        status: SeatStatus.HELD,
+        orderId: hold.orderId,
+        ticketId: hold.ticketId,
+        heldUntil,
+        updatedAt: now,
+      });
+    }
+  }
+
+  /**
+   * Mark held seats as sold, or free them again when their tickets are cancelled. Writes only.
+   */
+  settleSeats(transaction: Transaction, eventId: string, seatIds: string[], sold: boolean): void {
+    const now = Timestamp.now();
+    for (const seatId of seatIds) {
+      transaction.update(this.getSeatRef(eventId, seatId), sold
+        ? { status: SeatStatus.SOLD, heldUntil: FieldValue.delete(), updatedAt: now }
+        : {
+          status: SeatStatus.AVAILABLE,
+          orderId: FieldValue.delete(),
+          ticketId: FieldValue.delete(),
+          heldUntil: FieldValue.delete(),
+          updatedAt: now,
+        }
+      );
+    }
+  }
+}
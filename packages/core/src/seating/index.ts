@@ -0,0 +1,3 @@
+export * from './types';
+export * from './seating.service';
+export * from './firebase-seating.service';
\ No newline at end of file
@@ -0,0 +1,17 @@
+import {
+  SeatMap,
+  Seat,
+  SeatAvailability,
+  CreateSeatMapRequest
+} from './types';
+
+export interface ISeatingService {
+  // Seat Map Management
+  createSeatMap(organizerId: string, request: CreateSeatMapRequest): Promise<SeatMap>;
+  getSeatMap(eventId: string): Promise<SeatMap>;
+  blockSeats(organizerId: string, eventId: string, seatIds: string[]): Promise<Seat[]>;
+  unblockSeats(organizerId: string, eventId: string, seatIds: string[]): Promise<Seat[]>;
+
+  // Availability
+  getSeatAvailability(eventId: string): Promise<SeatAvailability>;
+}
@@ -0,0 +1,109 @@
+import { z } from 'zod';
+
+export enum SeatStatus {
+  AVAILABLE = 'AVAILABLE',
+  HELD = 'HELD',        // Attached to a reservation that has not been paid yet
+  SOLD = 'SOLD',
+  BLOCKED = 'BLOCKED',  // Taken off sale by the organizer (production holds, broken seats)
+}
+
+export const seatMapSeatSchema = z.object({
+  number: z.string().min(1),
+  ticketTypeId: z.string(), // Price level of the seat
+  accessible: z.boolean().default(false),
+});
+
+export const seatMapRowSchema = z.object({
+  label: z.string().min(1),
+  seats: z.array(seatMapSeatSchema).min(1),
+});
+
+export const seatMapSectionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  rows: z.array(seatMapRowSchema).min(1),
+});
+
+export const seatMapSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  name: z.string().min(1),
+  sections: z.array(seatMapSectionSchema).min(1),
+  seatCount: z.number().int().positive(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type SeatMapSection = z.infer<typeof seatMapSectionSchema>;
+export type SeatMap = z.infer<typeof seatMapSchema>;
+
+// One document per seat so holds and sales can be taken inside transactions
+export const seatSchema = z.object({
+  id: z.string(), // `${sectionId}-${row}-${number}`, unique within the event
+  eventId: z.string(),
+  sectionId: z.string(),
+  sectionName: z.string(),
+  row: z.string(),
+  number: z.string(),
+  ticketTypeId: z.string(),
+  accessible: z.boolean().default(false),
+  status: z.nativeEnum(SeatStatus),
+  orderId: z.string().optional(),
+  ticketId: z.string().optional(),
+  heldUntil: z.date().optional(),
+  updatedAt: z.date(),
+});
+
+export type Seat = z.infer<typeof seatSchema>;
+
+export type PublicSeat = Omit<Seat, 'orderId' | 'ticketId' | 'heldUntil'>;
+
+export interface SectionAvailability {
+  sectionId: string;
+  name: string;
+  total: number;
+  available: number;
+}
+
+export interface SeatAvailability {
+  eventId: string;
+  sections: SectionAvailability[];
+  seats: PublicSeat[];
+}
+
+export interface CreateSeatMapRequest {
+  eventId: string;
+  name: string;
+  sections: SeatMapSection[];
+}
+
+export interface SeatHold {
+  seatId: string;
+  orderId: string;
+  ticketId: string;
+}
+
+export class SeatingError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'SeatingError';
+  }
+}
+
+export class SeatMapNotFoundError extends SeatingError {
+  constructor(eventId: string) {
+    super(`Seat map for event ${eventId} not found`, 'seating/map-not-found');
+    this.name = 'SeatMapNotFoundError';
+  }
+}
+
+export class SeatUnavailableError extends SeatingError {
+  constructor(seatId: string) {
+    super(`Seat ${seatId} is not available`, 'seating/seat-unavailable');
+    this.name = 'SeatUnavailableError';
+  }
+}
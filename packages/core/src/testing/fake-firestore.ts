@@ -0,0 +1,376 @@
+import { FieldPath, FieldValue, Timestamp } from 'firebase-admin/firestore';
+
+// In-memory stand-in for the parts of Firestore the services use, for specs only. Writes
+// apply the real FieldValue sentinels; undefined fields are dropped instead of rejected.
+
+type Data = Record<string, any>;
+type WriteMode = 'create' | 'set' | 'merge' | 'update' | 'delete';
+
+interface Write {
+  path: string;
+  mode: WriteMode;
+  data?: Data;
+}
+
+const isPlainObject = (value: unknown): value is Data =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+const clone = (value: any): any => {
+  if (Array.isArray(value)) return value.map(clone);
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, clone(field)]));
+  return value; // Timestamps and other values are immutable
+};
+
+const comparable = (value: any): any => {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+};
+
+const valuesEqual = (a: any, b: any): boolean => {
+  if (a instanceof Timestamp || b instanceof Timestamp) return comparable(a) === comparable(b);
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((item, index) => valuesEqual(item, b[index]));
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => valuesEqual(a[key], b[key]));
+  }
+  return a === b;
+};
+
+const getField = (data: Data | undefined, field: string): any =>
+  field.split('.').reduce((value, key) => (isPlainObject(value) ? value[key] : undefined), data as any);
+
+// Resolve a sentinel against the current value; undefined means the field is removed
+const resolveValue = (current: any, value: any): any => {
+  if (!(value instanceof FieldValue)) return clone(value);
+
+  const sentinel = value as any;
+  switch (sentinel.methodName) {
+    case 'FieldValue.increment':
+      return (typeof current === 'number' ? current : 0) + sentinel.operand;
+    case 'FieldValue.arrayUnion': {
+      const items = Array.isArray(current) ? [...current] : [];
+      for (const element of sentinel.elements) {
+        if (!items.some(item => valuesEqual(item, element))) items.push(clone(element));
+      }
+      return items;
+    }
+    case 'FieldValue.arrayRemove':
+      return (Array.isArray(current) ? current : []).filter(item => !sentinel.elements.some((element: any) => valuesEqual(item, element)));
+    case 'FieldValue.serverTimestamp':
+      return Timestamp.now();
+    case 'FieldValue.delete':
+      return undefined;
+    default:
+      throw new Error(`Unsupported field value ${sentinel.methodName}`);
+  }
+};
+
+const setField = (data: Data, keys: string[], value: any): void => {
+  const [key, ...rest] = keys;
+  if (rest.length > 0) {
+    if (!isPlainObject(data[key!])) data[key!] = {};
+    setField(data[key!], rest, value);
+    return;
+  }
+
+  const resolved = resolveValue(data[key!], value);
+  if (resolved === undefined) {
+    delete data[key!];
+  } else {
+    data[key!] = resolved;
+  }
+};
+
+const mergeFields = (data: Data, changes: Data, merge: boolean): Data => {
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value)) {
+      data[key] = mergeFields(merge && isPlainObject(data[key]) ? data[key] : {}, value, merge);
+    } else {
+      setField(data, [key], value);
+    }
+  }
+  return data;
+};
+
+export class FakeDocumentSnapshot {
+  readonly id: string;
+  readonly exists: boolean;
+
+  constructor(readonly ref: FakeDocumentReference, private readonly fields: Data | undefined) {
+    this.id = ref.id;
+    this.exists = fields !== undefined;
+  }
+
+  data(): Data | undefined {
+    return clone(this.fields);
+  }
+
+  get(field: string): any {
+    return clone(getField(this.fields, field));
+  }
+}
+
+export class FakeQuerySnapshot {
+  constructor(readonly docs: FakeDocumentSnapshot[]) {}
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  forEach(callback: (doc: FakeDocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+type Filter = (doc: FakeDocumentSnapshot) => boolean;
+
+const matches = (actual: any, op: string, expected: any): boolean => {
+  const [left, right] = [comparable(actual), comparable(expected)];
+  switch (op) {
+    case '==': return valuesEqual(actual, expected);
+    case '!=': return actual !== undefined && !valuesEqual(actual, expected);
+    case '<': return actual !== undefined && left < right;
+    case '<=': return actual !== undefined && left <= right;
+    case '>': return actual !== undefined && left > right;
+    case '>=': return actual !== undefined && left >= right;
+    case 'in': return expected.some((value: any) => valuesEqual(actual, value));
+    case 'not-in': return actual !== undefined && !expected.some((value: any) => valuesEqual(actual, value));
+    case 'array-contains': return Array.isArray(actual) && actual.some(item => valuesEqual(item, expected));
+    case 'array-contains-any': return Array.isArray(actual) && actual.some(item => expected.some((value: any) => valuesEqual(item, value)));
+    default: throw new Error(`Unsupported query operator ${op}`);
+  }
+};
+
+const readField = (doc: FakeDocumentSnapshot, field: string | FieldPath): any =>
+  field instanceof FieldPath ? doc.id : doc.get(field);
+
+export class FakeQuery {
+  constructor(
+    protected readonly firestore: FakeFirestore,
+    readonly path: string,
+    private readonly filters: Filter[] = [],
+    private readonly orders: { field: string | FieldPath; direction: 'asc' | 'desc' }[] = [],
+    private readonly limitCount?: number
+  ) {}
+
+  where(field: string | FieldPath, op: string, value: any): FakeQuery {
+    const filter: Filter = doc => matches(readField(doc, field), op, value);
+    return new FakeQuery(this.firestore, this.path, [...this.filters, filter], this.orders, this.limitCount);
+  }
+
+  orderBy(field: string | FieldPath, direction: 'asc' | 'desc' = 'asc'): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, this.filters, [...this.orders, { field, direction }], this.limitCount);
+  }
+
+  limit(count: number): FakeQuery {
+    return new FakeQuery(this.firestore, this.path, this.filters, this.orders, count);
+  }
+
+  snapshot(): FakeQuerySnapshot {
+    let docs = this.firestore.listDocuments(this.path).filter(doc => this.filters.every(filter => filter(doc)));
+    if (this.orders.length > 0) {
+      docs = [...docs].sort((a, b) => {
+        for (const { field, direction } of this.orders) {
+          const [left, right] = [comparable(readField(a, field)), comparable(readField(b, field))];
+          if (left !== right) return (left < right ? -1 : 1) * (direction === 'asc' ? 1 : -1);
+        }
+        return 0;
+      });
+    }
+    return new FakeQuerySnapshot(docs.slice(0, this.limitCount));
+  }
+
+  async get(): Promise<FakeQuerySnapshot> {
+    return this.snapshot();
+  }
+}
+
+export class FakeCollectionReference extends FakeQuery {
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  doc(id: string = this.firestore.autoId()): FakeDocumentReference {
+    return new FakeDocumentReference(this.firestore, `${this.path}/${id}`);
+  }
+
+  async add(data: Data): Promise<FakeDocumentReference> {
+    const ref = this.doc();
+    await ref.create(data);
+    return ref;
+  }
+}
+
+export class FakeDocumentReference {
+  constructor(private readonly firestore: FakeFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  get parent(): FakeCollectionReference {
+    return new FakeCollectionReference(this.firestore, this.path.slice(0, this.path.lastIndexOf('/')));
+  }
+
+  collection(name: string): FakeCollectionReference {
+    return new FakeCollectionReference(this.firestore, `${this.path}/${name}`);
+  }
+
+  snapshot(): FakeDocumentSnapshot {
+    return new FakeDocumentSnapshot(this, this.firestore.documents.get(this.path));
+  }
+
+  async get(): Promise<FakeDocumentSnapshot> {
+    return this.snapshot();
+  }
+
+  async create(data: Data): Promise<void> {
+    this.firestore.commit([{ path: this.path, mode: 'create', data }]);
+  }
+
+  async set(data: Data, options?: { merge?: boolean }): Promise<void> {
+    this.firestore.commit([{ path: this.path, mode: options?.merge ? 'merge' : 'set', data }]);
+  }
+
+  async update(data: Data): Promise<void> {
+    this.firestore.commit([{ path: this.path, mode: 'update', data }]);
+  }
+
+  async delete(): Promise<void> {
+    this.firestore.commit([{ path: this.path, mode: 'delete' }]);
+  }
+}
+
+export class FakeWriteBatch {
+  protected readonly writes: Write[] = [];
+
+  constructor(protected readonly firestore: FakeFirestore) {}
+
+  create(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push({ path: ref.path, mode: 'create', data });
+    return this;
+  }
+
+  set(ref: FakeDocumentReference, data: Data, options?: { merge?: boolean }): this {
+    this.writes.push({ path: ref.path, mode: options?.merge ? 'merge' : 'set', data });
+    return this;
+  }
+
+  update(ref: FakeDocumentReference, data: Data): this {
+    this.writes.push({ path: ref.path, mode: 'update', data });
+    return this;
+  }
+
+  delete(ref: FakeDocumentReference): this {
+    this.writes.push({ path: ref.path, mode: 'delete' });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    this.firestore.commit(this.writes);
+  }
+}
+
+// Transactions run one at a time, so they never conflict; like Firestore, reads must come first
+export class FakeTransaction extends FakeWriteBatch {
+  private assertNoWrites(): void {
+    if (this.writes.length > 0) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes.');
+    }
+  }
+
+  async get(target: FakeDocumentReference): Promise<FakeDocumentSnapshot>;
+  async get(target: FakeQuery): Promise<FakeQuerySnapshot>;
+  async get(target: FakeDocumentReference | FakeQuery): Promise<FakeDocumentSnapshot | FakeQuerySnapshot> {
+    this.assertNoWrites();
+    return target.snapshot();
+  }
+
+  async getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]> {
+    this.assertNoWrites();
+    return refs.map(ref => ref.snapshot());
+  }
+}
+
+export class FakeFirestore {
+  readonly documents = new Map<string, Data>();
+  private nextId = 0;
+
+  collection(path: string): FakeCollectionReference {
+    return new FakeCollectionReference(this, path);
+  }
+
+  doc(path: string): FakeDocumentReference {
+    return new FakeDocumentReference(this, path);
+  }
+
+  async getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]> {
+    return refs.map(ref => ref.snapshot());
+  }
+
+  batch(): FakeWriteBatch {
+    return new FakeWriteBatch(this);
+  }
+
+  async runTransaction<T>(update: (transaction: FakeTransaction) => Promise<T>): Promise<T> {
+    const transaction = new FakeTransaction(this);
+    const result = await update(transaction);
+    await transaction.commit();
+    return result;
+  }
+
+  autoId(): string {
+    return `doc-${++this.nextId}`;
+  }
+
+  // Direct children of a collection
+  listDocuments(collectionPath: string): FakeDocumentSnapshot[] {
+    const depth = collectionPath.split('/').length + 1;
+    return [...this.documents.keys()]
+      .filter(path => path.startsWith(`${collectionPath}/`) && path.split('/').length === depth)
+      .sort()
+      .map(path => this.doc(path).snapshot());
+  }
+
+  // Checks every write first, so a failing batch leaves nothing behind
+  commit(writes: Write[]): void {
+    const pending = new Map<string, Data | undefined>();
+    const read = (path: string) => (pending.has(path) ? pending.get(path) : this.documents.get(path));
+
+    for (const { path, mode, data } of writes) {
+      const current = read(path);
+      if (mode === 'create' && current !== undefined) {
+        throw Object.assign(new Error(`Document already exists: ${path}`), { code: 6 });
+      }
+      if (mode === 'update' && current === undefined) {
+        throw Object.assign(new Error(`No document to update: ${path}`), { code: 5 });
+      }
+
+      if (mode === 'delete') {
+        pending.set(path, undefined);
+      } else if (mode === 'update') {
+        const updated = clone(current!);
+        for (const [field, value] of Object.entries(data!)) {
+          if (value !== undefined) setField(updated, field.split('.'), value);
+        }
+        pending.set(path, updated);
+      } else {
+        pending.set(path, mergeFields(mode === 'merge' && current ? clone(current) : {}, data!, mode === 'merge'));
+      }
+    }
+
+    for (const [path, data] of pending) {
+      if (data === undefined) {
+        this.documents.delete(path);
+      } else {
+        this.documents.set(path, data);
+      }
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { Event, EventLocationType, EventStatus, EventVisibility } from '../events/types';
+import { Order, OrderStatus, Ticket, TicketStatus } from '../tickets/types';
+
+// Entities for specs that drive services with mocked dependencies
+
+const createdAt = new Date('2026-10-01T00:00:00Z');
+
+export const createEvent = (overrides: Partial<Event> = {}): Event => ({
+  id: 'event-1',
+  organizerId: 'organizer-1',
+  title: 'Launch Night',
+  description: '',
+  location: { type: EventLocationType.VIRTUAL, platform: 'Zoom', joinUrl: 'https://zoom.us/j/1' },
+  startDateTime: new Date('2026-12-01T18:00:00Z'),
+  endDateTime: new Date('2026-12-01T22:00:00Z'),
+  timezone: 'Asia/Manila',
+  capacity: 100,
+  capacityUsage: { reserved: 0, sold: 0, registered: 0 },
+  status: EventStatus.PUBLISHED,
+  visibility: EventVisibility.PUBLIC,
+  isPublished: true,
+  tags: [],
+  categories: [],
+  createdAt,
+  updatedAt: createdAt,
+  ...overrides,
+});
+
+export const createOrder = (overrides: Partial<Order> = {}): Order => ({
+  id: 'order-1',
+  eventId: 'event-1',
+  customerId: 'buyer-1',
+  status: OrderStatus.COMPLETED,
+  items: [{
+    ticketTypeId: 'general',
+    ticketTypeName: 'General',
+    quantity: 2,
+    unitPrice: { amount: 500, currency: 'PHP' },
+    subtotal: 1000,
+    discount: 0,
+    ticketIds: ['ticket-1', 'ticket-2'],
+  }],
+  addOns: [],
+  total: { amount: 1000, currency: 'PHP' },
+  paymentId: 'payment-1',
+  customerName: 'Buyer One',
+  customerEmail: 'buyer@example.com',
+  reservedAt: createdAt,
+  expiresAt: new Date('2026-10-01T00:15:00Z'),
+  purchasedAt: createdAt,
+  createdAt,
+  updatedAt: createdAt,
+  ...overrides,
+});
+
+export const createTicket = (overrides: Partial<Ticket> = {}): Ticket => ({
+  id: 'ticket-1',
+  eventId: 'event-1',
+  ticketTypeId: 'general',
+  orderId: 'order-1',
+  customerId: 'buyer-1',
+  status: TicketStatus.SOLD,
+  approvalHistory: [],
+  price: { amount: 500, currency: 'PHP' },
+  customerName: 'Buyer One',
+  customerEmail: 'buyer@example.com',
+  answers: [],
+  previousHolders: [],
+  reservedAt: createdAt,
+  purchasedAt: createdAt,
+  sessionCheckIns: {},
+  createdAt,
+  updatedAt: createdAt,
+  ...overrides,
+});
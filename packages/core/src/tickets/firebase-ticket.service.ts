@@ -1,33 +1,97 @@
-import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { FieldValue, Firestore, Timestamp, Transaction } from 'firebase-admin/firestore';
 import { Redis } from 'ioredis';
 import {
   Ticket,
   TicketType,
+  TicketPrice,
+  PriceTier,
+  Order,
+  OrderItem,
+  OrderAddOn,
+  OrderStatus,
   TicketError,
   TicketTypeNotFoundError,
   TicketNotFoundError,
+  OrderNotFoundError,
   TicketSoldOutError,
+  TicketReservationExpiredError,
+  TicketAlreadyUsedError,
+  TicketTransfer,
+  TicketTransferStatus,
+  TicketTransferNotFoundError,
+  TicketTransferNotAllowedError,
+  InitiateTransferRequest,
+  AcceptTransferRequest,
   MaxTicketsPerCustomerError,
   CreateTicketTypeRequest,
   UpdateTicketTypeRequest,
   ReserveTicketRequest,
+  ReserveAddOnsRequest,
   PurchaseTicketRequest,
   ticketSchema,
   ticketTypeSchema,
+  orderSchema,
+  ticketTransferSchema,
   TicketStatus,
+  TicketStatusChange,
+  ticketStatusChangeSchema,
   TicketApprovalStatus,
+  RegistrationAnswer,
+  RegistrationAnswers,
+  BulkApprovalResult,
+  RegistrationQuestionScope,
 } from './types';
 import { ITicketService } from './ticket.service';
+import { TicketCredentialSigner } from './ticket-credential';
+import { resolvePriceTier, validatePriceTiers } from './price-tiers';
+import { collectAnswers, validateRegistrationQuestions } from './registration-questions';
+import { assertTicketTransition, isTicketReleased } from './ticket-status';
+import { applyInventoryChange, assertInventoryAvailable, getTicketInventory } from './inventory';
 import { IPaymentService, PaymentStatus } from '../payments';
+import {
+  IEventService,
+  EventError,
+  EventCapacityError,
+  EventSessionFullError,
+  EventSessionStatus,
+  EventStatus,
+  eventCapacityUsageSchema,
+  getCapacityStatus,
+  EventViewer,
+} from '../events';
+import { FirebasePromoCodeService, PreparedRedemption, PreparedUnlock, PromoCodeError } from '../promotions';
+import { FirebaseSeatingService, Seat, SeatHold, SeatingError } from '../seating';
+import { AddOnError, FirebaseAddOnService, PreparedAddOn } from '../addons';
+import {
+  FirebaseRiskService,
+  RiskAssessment,
+  RiskChallengeRequiredError,
+  RiskError,
+  RiskOutcome,
+  RiskReviewStatus,
+  RiskSignal,
+} from '../risk';
+import { RedisWaitingRoomService, WaitingRoomError } from '../waiting-room';
+
+// Who moved a ticket to its new status and why, kept in the ticket's status history
+interface TicketStatusContext {
+  changedBy?: string; // Missing for changes made by the system
+  reason: string;
+}
 
 export class FirebaseTicketService implements ITicketService {
   private readonly ticketTypesCollection = 'ticketTypes';
   private readonly ticketsCollection = 'tickets';
+  private readonly ordersCollection = 'orders';
+  private readonly transfersCollection = 'ticketTransfers';
   private readonly eventsCollection = 'events';
+  private readonly sessionsCollection = 'eventSessions';
+  private readonly statusHistoryCollection = 'statusHistory'; // Subcollection of each ticket
   private readonly reservationExpiryMinutes = 15; // 15 minutes to complete purchase
+  private readonly transferExpiryDays = 7;
+  private readonly approvedPaymentWindowHours = 48; // Time to pay once every request of an order is decided
   private readonly maxReservationsPerHour = 10;
   private readonly maxPurchasesPerDay = 20;
-  private readonly suspiciousIpThreshold = 5;
   private readonly cacheTTL = 3600; // 1 hour cache TTL
 
   // Cache keys
@@ -40,7 +104,14 @@ export class FirebaseTicketService implements ITicketService {
   constructor(
     private firestore: Firestore,
     private paymentService: IPaymentService,
-    private redis: Redis
+    private redis: Redis,
+    private eventService: IEventService,
+    private credentialSigner: TicketCredentialSigner,
+    private promoCodeService: FirebasePromoCodeService,
+    private seatingService: FirebaseSeatingService,
+    private addOnService: FirebaseAddOnService,
+    private riskService: FirebaseRiskService,
+    private waitingRoomService: RedisWaitingRoomService
   ) {}
 
   // Rate limiting helpers
@@ -68,36 +139,6 @@ export class FirebaseTicketService implements ITicketService {
     }
   }
 
-  // Fraud detection helpers
-  private async checkForFraudulentActivity(customerId: string, ip: string, ticketType: TicketType): Promise<void> {
-    // Check for suspicious IP activity
-    const ipKey = `suspicious:ip:${ip}:count`;
-    const ipCount = await this.redis.incr(ipKey);
-    await this.redis.expire(ipKey, 86400); // 24 hours
-
-    if (ipCount > this.suspiciousIpThreshold) {
-      throw new TicketError('Suspicious activity detected', 'ticket/fraud-detected');
-    }
-
-    // Check for multiple different payment methods
-    const paymentMethodsKey = `payment-methods:${customerId}:count`;
-    const paymentMethodCount = await this.redis.get(paymentMethodsKey);
-    if (paymentMethodCount && parseInt(paymentMethodCount) > 3) {
-      throw new TicketError('Too many payment methods', 'ticket/fraud-detected');
-    }
-
-    // Check for high-value purchases
-    if (ticketType.price.amount > 1000) {
-      const highValueKey = `high-value:${customerId}:count`;
-      const highValueCount = await this.redis.incr(highValueKey);
-      await this.redis.expire(highValueKey, 86400);
-
-      if (highValueCount > 2) {
-        throw new TicketError('Too many high-value purchases', 'ticket/fraud-detected');
-      }
-    }
-  }
-
   private async getTicketTypeDoc(ticketTypeId: string) {
     const doc = await this.firestore.collection(this.ticketTypesCollection).doc(ticketTypeId).get();
     if (!doc.exists) {
@@ -119,6 +160,11 @@ export class FirebaseTicketService implements ITicketService {
     return ticketTypeSchema.parse({
       ...data,
       id: doc.id,
+      inventory: getTicketInventory(data),
+      priceTiers: (data.priceTiers ?? []).map((tier: FirebaseFirestore.DocumentData) => ({
+        ...tier,
+        endsAt: tier.endsAt?.toDate(),
+      })),
       saleStartDate: data.saleStartDate?.toDate(),
       saleEndDate: data.saleEndDate?.toDate(),
       createdAt: data.createdAt.toDate(),
@@ -126,20 +172,599 @@ export class FirebaseTicketService implements ITicketService {
     });
   }
 
+  private toPriceTierData(tiers: PriceTier[]) {
+    return tiers.map(tier => ({
+      ...tier,
+      endsAt: tier.endsAt ? Timestamp.fromDate(tier.endsAt) : null,
+    }));
+  }
+
+  // Date-based tiers move on their own, so the current tier is resolved after the cache
+  private withCurrentTier(ticketType: TicketType): TicketType {
+    const { tier, nextTier } = resolvePriceTier(
+      ticketType,
+      ticketType.inventory.reserved + ticketType.inventory.sold
+    );
+    return { ...ticketType, currentTier: tier, nextTier };
+  }
+
   private convertToTicket(doc: FirebaseFirestore.DocumentSnapshot): Ticket {
     const data = doc.data()!;
     return ticketSchema.parse({
       ...data,
       id: doc.id,
+      previousHolders: (data.previousHolders ?? []).map((holder: FirebaseFirestore.DocumentData) => ({
+        ...holder,
+        transferredAt: holder.transferredAt.toDate(),
+      })),
+      approvalHistory: (data.approvalHistory ?? []).map((entry: FirebaseFirestore.DocumentData) => ({
+        ...entry,
+        at: entry.at.toDate(),
+      })),
+      risk: data.risk ? {
+        ...data.risk,
+        decisions: (data.risk.decisions ?? []).map((decision: FirebaseFirestore.DocumentData) => ({
+          ...decision,
+          at: decision.at.toDate(),
+        })),
+      } : undefined,
       reservedAt: data.reservedAt.toDate(),
       expiresAt: data.expiresAt?.toDate(),
       purchasedAt: data.purchasedAt?.toDate(),
+      checkedInAt: data.checkedInAt?.toDate(),
+      sessionCheckIns: Object.fromEntries(
+        Object.entries(data.sessionCheckIns ?? {}).map(([sessionId, at]) => [sessionId, (at as Timestamp).toDate()])
+      ),
+      cancelledAt: data.cancelledAt?.toDate(),
+      refundedAt: data.refundedAt?.toDate(),
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private async getOrderDoc(orderId: string) {
+    const doc = await this.firestore.collection(this.ordersCollection).doc(orderId).get();
+    if (!doc.exists) {
+      throw new OrderNotFoundError(orderId);
+    }
+    return doc;
+  }
+
+  private convertToOrder(doc: FirebaseFirestore.DocumentSnapshot): Order {
+    const data = doc.data()!;
+    return orderSchema.parse({
+      ...data,
+      id: doc.id,
+      reservedAt: data.reservedAt.toDate(),
+      expiresAt: data.expiresAt.toDate(),
+      purchasedAt: data.purchasedAt?.toDate(),
       cancelledAt: data.cancelledAt?.toDate(),
+      refundedAt: data.refundedAt?.toDate(),
       createdAt: data.createdAt.toDate(),
       updatedAt: data.updatedAt.toDate(),
     });
   }
 
+  private convertToTransfer(doc: FirebaseFirestore.DocumentSnapshot): TicketTransfer {
+    const data = doc.data()!;
+    return ticketTransferSchema.parse({
+      ...data,
+      id: doc.id,
+      expiresAt: data.expiresAt.toDate(),
+      acceptedAt: data.acceptedAt?.toDate(),
+      cancelledAt: data.cancelledAt?.toDate(),
+      createdAt: data.createdAt.toDate(),
+      updatedAt: data.updatedAt.toDate(),
+    });
+  }
+
+  private getOrderTicketIds(order: Order): string[] {
+    return order.items.flatMap(item => item.ticketIds);
+  }
+
+  /**
+   * Check session capacity for a reservation inside its transaction. Single-session tickets
+   * count against their session; passes count against every upcoming session. Only reads,
+   * and returns how many places to allocate per session.
+   */
+  private async checkSessionCapacity(
+    transaction: Transaction,
+    eventId: string,
+    ticketTypes: TicketType[],
+    quantities: Map<string, number>
+  ): Promise<Map<string, number>> {
+    const allocations = new Map<string, number>();
+    let passesRequested = 0;
+    for (const ticketType of ticketTypes) {
+      const quantity = quantities.get(ticketType.id)!;
+      if (ticketType.sessionId) {
+        allocations.set(ticketType.sessionId, (allocations.get(ticketType.sessionId) ?? 0) + quantity);
+      } else {
+        passesRequested += quantity;
+      }
+    }
+
+    const sessionsSnapshot = await transaction.get(
+      this.firestore.collection(this.sessionsCollection).where('eventId', '==', eventId)
+    );
+    if (sessionsSnapshot.empty) {
+      return allocations;
+    }
+
+    const eventTicketTypes = await transaction.get(
+      this.firestore.collection(this.ticketTypesCollection).where('eventId', '==', eventId)
+    );
+    const passesCommitted = eventTicketTypes.docs
+      .filter(doc => !doc.get('sessionId'))
+      .reduce((sum, doc) => {
+        const inventory = getTicketInventory(doc.data());
+        return sum + inventory.reserved + inventory.sold;
+      }, 0);
+
+    const now = new Date();
+    for (const [sessionId] of allocations) {
+      const doc = sessionsSnapshot.docs.find(doc => doc.id === sessionId);
+      if (!doc || doc.get('status') === EventSessionStatus.CANCELLED || doc.get('endDateTime').toDate() < now) {
+        throw new TicketError(`Session ${sessionId} is no longer on sale`, 'ticket/session-unavailable');
+      }
+    }
+
+    for (const doc of sessionsSnapshot.docs) {
+      if (doc.get('status') === EventSessionStatus.CANCELLED || doc.get('endDateTime').toDate() < now) continue;
+      if (!allocations.has(doc.id) && passesRequested === 0) continue;
+
+      const taken = (doc.get('allocated') ?? 0) + (allocations.get(doc.id) ?? 0) + passesCommitted + passesRequested;
+      if (taken > doc.get('capacity')) {
+        throw new EventSessionFullError(doc.id);
+      }
+    }
+
+    return allocations;
+  }
+
+  // Counter of the event capacity pool that holds tickets in the given status
+  private getCapacityField(status: TicketStatus): 'reserved' | 'sold' | null {
+    if (status === TicketStatus.RESERVED) return 'reserved';
+    if (status === TicketStatus.SOLD) return 'sold';
+    return null;
+  }
+
+  private convertToStatusChange(doc: FirebaseFirestore.DocumentSnapshot): TicketStatusChange {
+    const data = doc.data()!;
+    return ticketStatusChangeSchema.parse({
+      ...data,
+      id: doc.id,
+      at: data.at.toDate(),
+    });
+  }
+
+  private recordStatusChange(
+    transaction: Transaction,
+    ticketRef: FirebaseFirestore.DocumentReference,
+    from: TicketStatus | null,
+    to: TicketStatus,
+    context: TicketStatusContext,
+    at: Timestamp
+  ): void {
+    transaction.set(ticketRef.collection(this.statusHistoryCollection).doc(), {
+      ticketId: ticketRef.id,
+      from,
+      to,
+      changedBy: context.changedBy,
+      reason: context.reason,
+      at,
+    });
+  }
+
+  /**
+   * Move tickets to a new status and update their ticket type counters inside an
+   * existing transaction. Throws when a ticket cannot make the move. Callers must finish
+   * their own reads before calling this, since it reads the ticket types before writing.
+   */
+  private async applyTicketTransitions(
+    transaction: Transaction,
+    ticketDocs: FirebaseFirestore.DocumentSnapshot[],
+    to: TicketStatus,
+    context: TicketStatusContext,
+    updates: Record<string, unknown> = {}
+  ): Promise<Ticket[]> {
+    const tickets = ticketDocs.map(doc => this.convertToTicket(doc));
+    if (tickets.length === 0) {
+      return tickets;
+    }
+    for (const ticket of tickets) {
+      assertTicketTransition(ticket.id, ticket.status, to);
+    }
+
+    const ticketTypeIds = [...new Set(tickets.map(ticket => ticket.ticketTypeId))];
+    const ticketTypeDocs = await transaction.getAll(
+      ...ticketTypeIds.map(id => this.firestore.collection(this.ticketTypesCollection).doc(id))
+    );
+
+    const now = Timestamp.now();
+    for (const ticketTypeDoc of ticketTypeDocs) {
+      if (!ticketTypeDoc.exists) continue;
+
+      const inventory = tickets
+        .filter(ticket => ticket.ticketTypeId === ticketTypeDoc.id)
+        .reduce(
+          (current, ticket) => applyInventoryChange(current, ticket.status, to),
+          getTicketInventory(ticketTypeDoc.data()!)
+        );
+      transaction.update(ticketTypeDoc.ref, { inventory, updatedAt: now });
+    }
+
+    for (const [index, doc] of ticketDocs.entries()) {
+      const ticket = tickets[index]!;
+      transaction.update(doc.ref, {
+        ...updates,
+        ...(to === TicketStatus.SOLD ? this.getCredentialUpdate(ticket) : {}),
+        status: to,
+        updatedAt: now,
+      });
+      this.recordStatusChange(transaction, doc.ref, ticket.status, to, context, now);
+    }
+
+    // Keep the event capacity pool in step with its tickets
+    const capacityChanges = new Map<string, Record<string, number>>();
+    for (const ticket of tickets.filter(ticket => ticket.status !== to)) {
+      const changes = capacityChanges.get(ticket.eventId) ?? {};
+      const from = this.getCapacityField(ticket.status);
+      const target = this.getCapacityField(to);
+      if (from) changes[from] = (changes[from] ?? 0) - 1;
+      if (target) changes[target] = (changes[target] ?? 0) + 1;
+      capacityChanges.set(ticket.eventId, changes);
+    }
+    for (const [eventId, changes] of capacityChanges) {
+      transaction.update(
+        this.firestore.collection(this.eventsCollection).doc(eventId),
+        Object.fromEntries(Object.entries(changes).map(([field, count]) => [
+          `capacityUsage.${field}`,
+          FieldValue.increment(count),
+        ]))
+      );
+    }
+
+    // Single-session tickets give their place back to the session when released
+    if (isTicketReleased(to)) {
+      for (const ticket of tickets.filter(ticket => ticket.sessionId)) {
+        transaction.update(this.firestore.collection(this.sessionsCollection).doc(ticket.sessionId!), {
+          allocated: FieldValue.increment(-1),
+          updatedAt: now,
+        });
+      }
+    }
+
+    // Seats follow their tickets: sold with them, or back on sale when they are released
+    if (to === TicketStatus.SOLD || isTicketReleased(to)) {
+      for (const ticket of tickets.filter(ticket => ticket.seatId)) {
+        this.seatingService.settleSeats(transaction, ticket.eventId, [ticket.seatId!], to === TicketStatus.SOLD);
+      }
+    }
+
+    return tickets;
+  }
+
+  // Credential helpers
+  private getCredentialUpdate(ticket: Ticket) {
+    const credentialVersion = (ticket.credentialVersion ?? 0) + 1;
+    return {
+      credential: this.credentialSigner.issue(ticket, credentialVersion),
+      credentialVersion,
+    };
+  }
+
+  // Approval helpers
+  private getApprovalUpdate(status: TicketApprovalStatus, reason?: string) {
+    const now = Timestamp.now();
+    return {
+      approvalStatus: status,
+      approvalHistory: FieldValue.arrayUnion({ status, ...(reason ? { reason } : {}), at: now }),
+      updatedAt: now,
+    };
+  }
+
+  // Risk helpers
+  private getTicketRisk(assessment: RiskAssessment, underReview: boolean, now: Timestamp) {
+    return {
+      ...assessment,
+      reviewStatus: underReview ? RiskReviewStatus.PENDING : undefined,
+      decisions: underReview ? [{ status: RiskReviewStatus.PENDING, at: now }] : [],
+    };
+  }
+
+  private getRiskDecisionUpdate(status: RiskReviewStatus, decidedBy?: string, note?: string) {
+    const now = Timestamp.now();
+    return {
+      'risk.reviewStatus': status,
+      'risk.decisions': FieldValue.arrayUnion({
+        status,
+        ...(decidedBy ? { decidedBy } : {}),
+        ...(note ? { note } : {}),
+        at: now,
+      }),
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Record the organizer's decision on every ticket of an order under review and close
+   * the review. Returns the order's tickets as they were before the decision.
+   */
+  private async decideRiskReview(
+    organizerId: string,
+    orderId: string,
+    status: RiskReviewStatus.APPROVED | RiskReviewStatus.REJECTED,
+    note?: string
+  ): Promise<{ order: Order; tickets: Ticket[] }> {
+    const order = await this.getOrder(orderId);
+    await this.verifyOrganizerOwnsEvent(organizerId, order.eventId);
+    if (order.status !== OrderStatus.RESERVED) {
+      throw new TicketError('Order is not reserved', 'ticket/invalid-status');
+    }
+
+    const tickets = await this.firestore.runTransaction(async (transaction: Transaction) => {
+      await this.riskService.getPendingReview(transaction, orderId);
+      const ticketDocs = await transaction.getAll(
+        ...this.getOrderTicketIds(order).map(id => this.firestore.collection(this.ticketsCollection).doc(id))
+      );
+
+      const now = Timestamp.now();
+      // Approved orders without approval requests get the usual time to pay from now on
+      const expiresAt = Timestamp.fromMillis(now.toMillis() + this.reservationExpiryMinutes * 60 * 1000);
+      const needsApproval = ticketDocs.some(doc => doc.get('approvalStatus') !== undefined);
+      const extendHold = status === RiskReviewStatus.APPROVED && !needsApproval;
+
+      const existing = ticketDocs.filter(doc => doc.exists);
+      for (const doc of existing) {
+        transaction.update(doc.ref, {
+          ...this.getRiskDecisionUpdate(status, organizerId, note),
+          ...(extendHold ? { expiresAt } : {}),
+        });
+      }
+      if (extendHold) {
+        transaction.update(this.firestore.collection(this.ordersCollection).doc(orderId), {
+          expiresAt,
+          updatedAt: now,
+        });
+      }
+      this.riskService.closeReview(transaction, orderId, status, organizerId, note);
+
+      return existing.map(doc => this.convertToTicket(doc));
+    });
+
+    await this.invalidateTicketCaches(tickets);
+    return { order, tickets };
+  }
+
+  private async registerTicketHolders(orderId: string): Promise<void> {
+    const tickets = await this.listOrderTickets(orderId);
+    for (const ticket of tickets.filter(ticket => ticket.status === TicketStatus.SOLD)) {
+      await this.eventService.registerTicketHolder(ticket.customerId, ticket.eventId, ticket.id);
+    }
+  }
+
+  /**
+   * Cancel the provider payment of an order that is waiting for payment. Returns the
+   * payment's status afterwards, COMPLETED when the buyer paid first, or undefined when
+   * the order never started a checkout.
+   */
+  private async voidOrderPayment(order: Order): Promise<PaymentStatus | undefined> {
+    if (order.status !== OrderStatus.PENDING_PAYMENT || !order.paymentId) {
+      return undefined;
+    }
+
+    const payment = await this.paymentService.getPayment(order.paymentId);
+    if (payment.status !== PaymentStatus.PENDING) {
+      return payment.status;
+    }
+
+    try {
+      return (await this.paymentService.cancelPayment(order.paymentId)).status;
+    } catch (error) {
+      // The provider refuses to cancel a payment that went through before its webhook arrived
+      const current = await this.paymentService.getPayment(order.paymentId);
+      if (current.status === PaymentStatus.COMPLETED) {
+        return current.status;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Move a single ticket to a new status and update its ticket type counters atomically.
+   * Returns null when the ticket is already in that status, which happens when another
+   * request (or the expiry cleanup) got to it first.
+   */
+  private async transitionTicket(
+    ticketId: string,
+    to: TicketStatus,
+    context: TicketStatusContext,
+    updates: Record<string, unknown> = {}
+  ): Promise<Ticket | null> {
+    const ticketRef = this.firestore.collection(this.ticketsCollection).doc(ticketId);
+
+    const ticket = await this.firestore.runTransaction(async (transaction: Transaction) => {
+      const doc = await transaction.get(ticketRef);
+      if (!doc.exists) {
+        throw new TicketNotFoundError(ticketId);
+      }
+
+      const current = this.convertToTicket(doc);
+      if (current.status === to) {
+        return null;
+      }
+
+      await this.applyTicketTransitions(transaction, [doc], to, context, updates);
+      return current;
+    });
+
+    if (ticket) {
+      await this.invalidateTicketCaches([ticket]);
+    }
+
+    return ticket;
+  }
+
+  /**
+   * Move an order and all of its still-reserved tickets to new statuses in one transaction.
+   * Returns null when the order is no longer in one of the expected statuses.
+   */
+  private async transitionOrder(
+    orderId: string,
+    expectedStatuses: OrderStatus[],
+    to: OrderStatus,
+    ticketStatus: TicketStatus,
+    context: TicketStatusContext,
+    updates: { order?: Record<string, unknown>; tickets?: Record<string, unknown> } = {}
+  ): Promise<Order | null> {
+    const orderRef = this.firestore.collection(this.ordersCollection).doc(orderId);
+
+    const result = await this.firestore.runTransaction(async (transaction: Transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists) {
+        throw new OrderNotFoundError(orderId);
+      }
+
+      const order = this.convertToOrder(orderDoc);
+      if (!expectedStatuses.includes(order.status)) {
+        return null;
+      }
+
+      const ticketDocs = await transaction.getAll(
+        ...this.getOrderTicketIds(order).map(id => this.firestore.collection(this.ticketsCollection).doc(id))
+      );
+      // Tickets rejected during approval are already cancelled and keep their status
+      const reservedDocs = ticketDocs.filter(doc => doc.exists && doc.get('status') === TicketStatus.RESERVED);
+
+      const tickets = await this.applyTicketTransitions(transaction, reservedDocs, ticketStatus, context, updates.tickets);
+      if (to === OrderStatus.EXPIRED) {
+        for (const doc of reservedDocs.filter(doc => doc.get('approvalStatus') === TicketApprovalStatus.PENDING)) {
+          transaction.update(doc.ref, this.getApprovalUpdate(TicketApprovalStatus.EXPIRED));
+        }
+      }
+      transaction.update(orderRef, {
+        ...updates.order,
+        status: to,
+        updatedAt: Timestamp.now(),
+      });
+
+      // Reviews still open when the order goes away are closed with it
+      if (to === OrderStatus.CANCELLED || to === OrderStatus.EXPIRED) {
+        const underReview = reservedDocs.filter(doc => doc.get('risk.reviewStatus') === RiskReviewStatus.PENDING);
+        for (const doc of underReview) {
+          transaction.update(doc.ref, this.getRiskDecisionUpdate(RiskReviewStatus.CLOSED));
+        }
+        if (underReview.length > 0) {
+          this.riskService.closeReview(transaction, order.id, RiskReviewStatus.CLOSED);
+        }
+      }
+
+      // Add-ons are sold with the order or go back on sale with it
+      if (to === OrderStatus.COMPLETED || to === OrderStatus.CANCELLED || to === OrderStatus.EXPIRED) {
+        this.addOnService.settleAddOns(transaction, order.addOns, to === OrderStatus.COMPLETED);
+      }
+
+      // Unpaid orders give their promo code use and unlock code allocation back
+      if (order.discount && (to === OrderStatus.CANCELLED || to === OrderStatus.EXPIRED)) {
+        this.promoCodeService.releaseRedemption(transaction, order.discount.promoCodeId, order.id);
+      }
+      if (order.unlock && (to === OrderStatus.CANCELLED || to === OrderStatus.EXPIRED)) {
+        this.promoCodeService.releaseUnlock(transaction, order.unlock.unlockCodeId, order.id, order.unlock.quantity);
+      }
+
+      return { order, tickets };
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    await this.invalidateTicketCaches(result.tickets);
+    return this.getOrder(orderId);
+  }
+
+  /**
+   * Move the sold tickets of a paid order to REFUNDED or CANCELLED. Tickets that were
+   * already cancelled or refunded keep their status; the order stays completed.
+   */
+  private async releaseOrderTickets(
+    orderId: string,
+    to: TicketStatus.REFUNDED | TicketStatus.CANCELLED,
+    context: TicketStatusContext,
+    updates: { order?: Record<string, unknown>; tickets?: Record<string, unknown> } = {}
+  ): Promise<Ticket[]> {
+    const orderRef = this.firestore.collection(this.ordersCollection).doc(orderId);
+
+    const tickets = await this.firestore.runTransaction(async (transaction: Transaction) => {
+      const orderDoc = await transaction.get(orderRef);
+      if (!orderDoc.exists) {
+        throw new OrderNotFoundError(orderId);
+      }
+
+      const order = this.convertToOrder(orderDoc);
+      const ticketDocs = await transaction.getAll(
+        ...this.getOrderTicketIds(order).map(id => this.firestore.collection(this.ticketsCollection).doc(id))
+      );
+      const soldDocs = ticketDocs.filter(doc => doc.exists && doc.get('status') === TicketStatus.SOLD);
+
+      const released = await this.applyTicketTransitions(transaction, soldDocs, to, context, updates.tickets);
+      transaction.update(orderRef, {
+        ...updates.order,
+        updatedAt: Timestamp.now(),
+      });
+      return released;
+    });
+
+    await this.invalidateTicketCaches(tickets);
+    return tickets;
+  }
+
+  // Add-on helpers
+  private validateAddOnCurrency(addOns: PreparedAddOn[], currency: string): void {
+    const mismatch = addOns.find(line => line.addOn.price.currency !== currency);
+    if (mismatch) {
+      throw new TicketError(`${mismatch.addOn.name} is priced in another currency`, 'ticket/currency-mismatch');
+    }
+  }
+
+  private toOrderAddOns(addOns: PreparedAddOn[], ticketId: string): OrderAddOn[] {
+    return addOns.map(({ addOn, variant, quantity }) => ({
+      addOnId: addOn.id,
+      variantId: variant.id,
+      name: addOn.name,
+      variantName: variant.name,
+      quantity,
+      unitPrice: addOn.price,
+      subtotal: Math.round(addOn.price.amount * quantity * 100) / 100,
+      ticketId,
+    }));
+  }
+
+  private groupAddOnsByTicket(orders: Order[]): Map<string, OrderAddOn[]> {
+    const addOns = new Map<string, OrderAddOn[]>();
+    for (const order of orders.filter(order => order.status === OrderStatus.COMPLETED)) {
+      for (const addOn of order.addOns) {
+        addOns.set(addOn.ticketId, [...(addOns.get(addOn.ticketId) ?? []), addOn]);
+      }
+    }
+    return addOns;
+  }
+
+  private async invalidateTicketCaches(tickets: Ticket[]): Promise<void> {
+    await this.invalidateCache([...new Set(tickets.flatMap(ticket => [
+      this.getTicketCacheKey(ticket.id),
+      this.getTicketTypeCacheKey(ticket.ticketTypeId),
+      this.getEventTicketTypesCacheKey(ticket.eventId),
+      this.getEventTicketsCacheKey(ticket.eventId),
+      this.getCustomerTicketsCacheKey(ticket.customerId),
+    ]))]);
+  }
+
+  /**
+   * Ownership only: organizers keep managing their events after they sell out or start.
+   * Capacity is enforced where tickets are reserved, from the event's capacity pool.
+   */
   private async verifyOrganizerOwnsEvent(organizerId: string, eventId: string, ip?: string): Promise<void> {
     // Check rate limit for organizer operations
     if (ip) {
@@ -163,38 +788,6 @@ export class FirebaseTicketService implements ITicketService {
       throw new TicketError('Unauthorized: Not the event organizer', 'ticket/unauthorized');
     }
 
-    // Check if event is active
-    const now = new Date();
-    const endDateTime = eventData.endDateTime?.toDate();
-    if (endDateTime && endDateTime < now) {
-      throw new TicketError('Event has ended', 'ticket/event-ended');
-    }
-
-    // Check if event is published/visible
-    if (eventData.visibility === 'PRIVATE' && !eventData.isPublished) {
-      throw new TicketError('Event is not published', 'ticket/event-not-published');
-    }
-
-    // Check if ticket sales are allowed
-    const startDateTime = eventData.startDateTime?.toDate();
-    if (startDateTime && startDateTime < now) {
-      throw new TicketError('Event has already started', 'ticket/event-started');
-    }
-
-    // Check if event has reached capacity
-    const capacity = eventData.capacity || 0;
-    if (capacity > 0) {
-      const ticketsSnapshot = await this.firestore
-        .collection(this.ticketsCollection)
-        .where('eventId', '==', eventId)
-        .where('status', '==', TicketStatus.SOLD)
-        .get();
-
-      if (ticketsSnapshot.size >= capacity) {
-        throw new TicketError('Event has reached capacity', 'ticket/event-full');
-      }
-    }
-
     // Check if organizer's account is active
     const organizerDoc = await this.firestore.collection('users').doc(organizerId).get();
     if (!organizerDoc.exists) {
@@ -236,7 +829,7 @@ export class FirebaseTicketService implements ITicketService {
       const cacheKey = this.getTicketTypeCacheKey(ticketTypeId);
       const cached = await this.getCached<TicketType>(cacheKey);
       if (cached) {
-        return cached;
+        return this.withCurrentTier(cached);
       }
 
       const doc = await this.getTicketTypeDoc(ticketTypeId);
@@ -245,7 +838,7 @@ export class FirebaseTicketService implements ITicketService {
       // Cache the result
       await this.setCache(cacheKey, ticketType);
       
-      return ticketType;
+      return this.withCurrentTier(ticketType);
     } catch (error: any) {
       if (error instanceof TicketError) throw error;
       throw new TicketError('Failed to get ticket type', 'ticket/get-failed', error);
@@ -274,31 +867,51 @@ export class FirebaseTicketService implements ITicketService {
     }
   }
 
-  async listEventTicketTypes(eventId: string): Promise<TicketType[]> {
+  /**
+   * Pass a viewer to list ticket types on behalf of a buyer; private events then need
+   * an invitation or a redeemed access code, and hidden ticket types are left out unless
+   * the unlock code covers them.
+   */
+  async listEventTicketTypes(eventId: string, viewer?: EventViewer, unlockCode?: string): Promise<TicketType[]> {
     try {
-      // Check cache first
-      const cacheKey = this.getEventTicketTypesCacheKey(eventId);
-      const cached = await this.getCached<TicketType[]>(cacheKey);
-      if (cached) {
-        return cached;
+      if (viewer && !(await this.eventService.isEventVisible(eventId, viewer.userId, viewer.email))) {
+        throw new TicketError('Event is private', 'ticket/event-access-denied');
       }
 
-      const snapshot = await this.firestore
-        .collection(this.ticketTypesCollection)
-        .where('eventId', '==', eventId)
-        .get();
+      const ticketTypes = await this.getEventTicketTypes(eventId);
+      if (!viewer) {
+        return ticketTypes;
+      }
 
-      const ticketTypes = snapshot.docs.map(doc => this.convertToTicketType(doc));
-      
-      // Cache the result
-      await this.setCache(cacheKey, ticketTypes);
-      
-      return ticketTypes;
+      const unlocked = unlockCode ? await this.promoCodeService.getUnlockedTicketTypeIds(eventId, unlockCode) : [];
+      return ticketTypes.filter(ticketType => !ticketType.hidden || unlocked.includes(ticketType.id));
     } catch (error: any) {
+      if (error instanceof TicketError) throw error;
       throw new TicketError('Failed to list ticket types', 'ticket/list-failed', error);
     }
   }
 
+  private async getEventTicketTypes(eventId: string): Promise<TicketType[]> {
+    // Check cache first
+    const cacheKey = this.getEventTicketTypesCacheKey(eventId);
+    const cached = await this.getCached<TicketType[]>(cacheKey);
+    if (cached) {
+      return cached.map(ticketType => this.withCurrentTier(ticketType));
+    }
+
+    const snapshot = await this.firestore
+      .collection(this.ticketTypesCollection)
+      .where('eventId', '==', eventId)
+      .get();
+
+    const ticketTypes = snapshot.docs.map(doc => this.convertToTicketType(doc));
+    
+    // Cache the result
+    await this.setCache(cacheKey, ticketTypes);
+    
+    return ticketTypes.map(ticketType => this.withCurrentTier(ticketType));
+  }
+
   async listCustomerTickets(customerId: string): Promise<Ticket[]> {
     try {
       // Check cache first
@@ -352,12 +965,28 @@ export class FirebaseTicketService implements ITicketService {
   async createTicketType(organizerId: string, request: CreateTicketTypeRequest): Promise<TicketType> {
     try {
       await this.verifyOrganizerOwnsEvent(organizerId, request.eventId);
+      validatePriceTiers(request.priceTiers ?? [], request.price, request.quantity);
+
+      if (request.sessionId) {
+        const session = await this.eventService.getEventSession(request.sessionId);
+        if (session.eventId !== request.eventId) {
+          throw new TicketError('Session does not belong to this event', 'ticket/event-mismatch');
+        }
+      }
 
       const now = Timestamp.now();
       const ticketTypeData = {
         ...request,
+        priceTiers: this.toPriceTierData(request.priceTiers ?? []),
+        questions: validateRegistrationQuestions(request.questions ?? []),
         saleStartDate: request.saleStartDate ? Timestamp.fromDate(request.saleStartDate) : null,
         saleEndDate: request.saleEndDate ? Timestamp.fromDate(request.saleEndDate) : null,
+        inventory: {
+          available: request.quantity,
+          reserved: 0,
+          sold: 0,
+          cancelled: 0,
+        },
         createdAt: now,
         updatedAt: now,
       };
@@ -374,6 +1003,7 @@ export class FirebaseTicketService implements ITicketService {
       
       return result;
     } catch (error: any) {
+      if (error instanceof TicketError) throw error;
       throw new TicketError('Failed to create ticket type', 'ticket/creation-failed', error);
     }
   }
@@ -384,15 +1014,42 @@ export class FirebaseTicketService implements ITicketService {
       const ticketType = this.convertToTicketType(doc);
 
       await this.verifyOrganizerOwnsEvent(organizerId, ticketType.eventId);
+      validatePriceTiers(
+        request.priceTiers ?? ticketType.priceTiers,
+        request.price ?? ticketType.price,
+        request.quantity ?? ticketType.quantity
+      );
 
       const updateData = {
         ...request,
+        priceTiers: request.priceTiers ? this.toPriceTierData(request.priceTiers) : undefined,
+        questions: request.questions ? validateRegistrationQuestions(request.questions) : undefined,
         saleStartDate: request.saleStartDate ? Timestamp.fromDate(request.saleStartDate) : undefined,
         saleEndDate: request.saleEndDate ? Timestamp.fromDate(request.saleEndDate) : undefined,
         updatedAt: Timestamp.now(),
       };
 
-      await doc.ref.update(updateData);
+      await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const currentDoc = await transaction.get(doc.ref);
+        const inventory = getTicketInventory(currentDoc.data()!);
+
+        // Resizing a ticket type only changes what is still available for sale
+        if (request.quantity !== undefined) {
+          const committed = inventory.reserved + inventory.sold;
+          if (request.quantity < committed) {
+            throw new TicketError(
+              `Quantity cannot be lower than the ${committed} tickets already reserved or sold`,
+              'ticket/invalid-quantity'
+            );
+          }
+          transaction.update(doc.ref, {
+            ...updateData,
+            inventory: { ...inventory, available: request.quantity - committed },
+          });
+        } else {
+          transaction.update(doc.ref, updateData);
+        }
+      });
       const updatedDoc = await doc.ref.get();
 
       const result = this.convertToTicketType(updatedDoc);
@@ -428,156 +1085,713 @@ export class FirebaseTicketService implements ITicketService {
     }
   }
 
-  async reserveTickets(customerId: string, request: ReserveTicketRequest, ip: string): Promise<Ticket[]> {
-    const batch = this.firestore.batch();
+  async reserveTickets(customerId: string, request: ReserveTicketRequest, ip: string): Promise<Order> {
     try {
+      if (request.items.length === 0) {
+        throw new TicketError('Order must contain at least one ticket', 'ticket/empty-order');
+      }
+
+      // Merge repeated ticket types so limits and availability are checked against the full quantity
+      const quantities = new Map<string, number>();
+      const seatIds = new Map<string, string[]>();
+      const attendees = new Map<string, RegistrationAnswers[]>();
+      for (const item of request.items) {
+        quantities.set(item.ticketTypeId, (quantities.get(item.ticketTypeId) ?? 0) + item.quantity);
+        if (item.seatIds) {
+          seatIds.set(item.ticketTypeId, [...(seatIds.get(item.ticketTypeId) ?? []), ...item.seatIds]);
+        }
+        if (item.attendees) {
+          attendees.set(item.ticketTypeId, [...(attendees.get(item.ticketTypeId) ?? []), ...item.attendees]);
+        }
+      }
+
+      const requestedSeatIds = [...seatIds.values()].flat();
+      if (new Set(requestedSeatIds).size !== requestedSeatIds.length) {
+        throw new TicketError('A seat can only be reserved once per order', 'ticket/duplicate-seat');
+      }
+
+      // Buyers of events with a waiting room must have been admitted from it
+      await this.waitingRoomService.assertAdmitted(request.eventId, customerId, request.admissionToken);
+
       // Rate limiting and fraud checks
       await this.checkReservationRateLimit(customerId, ip);
-      const ticketType = await this.getTicketType(request.ticketTypeId);
-      await this.checkForFraudulentActivity(customerId, ip, ticketType);
+      if (!(await this.eventService.canUserAccessEvent(request.eventId, customerId, request.accountEmail))) {
+        throw new TicketError('Tickets for this private event need an invitation or access code', 'ticket/event-access-denied');
+      }
+      const ticketTypes = await Promise.all([...quantities.keys()].map(id => this.getTicketType(id)));
 
-      await this.validateTicketAvailability(request.ticketTypeId, request.quantity);
-      await this.validateCustomerTicketLimit(customerId, request.ticketTypeId, request.quantity);
+      for (const ticketType of ticketTypes) {
+        if (ticketType.eventId !== request.eventId) {
+          throw new TicketError(`Ticket type ${ticketType.id} does not belong to this event`, 'ticket/event-mismatch');
+        }
 
-      const now = Timestamp.now();
-      const expiresAt = Timestamp.fromMillis(now.toMillis() + this.reservationExpiryMinutes * 60 * 1000);
+        const seatCount = seatIds.get(ticketType.id)?.length ?? 0;
+        if (ticketType.reservedSeating ? seatCount !== quantities.get(ticketType.id) : seatCount > 0) {
+          throw new TicketError(
+            ticketType.reservedSeating
+              ? `Pick one seat for every ${ticketType.name} ticket`
+              : `${ticketType.name} tickets are general admission`,
+            'ticket/invalid-seats'
+          );
+        }
+      }
 
-      const tickets: Ticket[] = [];
-      for (let i = 0; i < request.quantity; i++) {
-        const ticketRef = this.firestore.collection(this.ticketsCollection).doc();
-        const ticketData = {
-          eventId: ticketType.eventId,
-          ticketTypeId: ticketType.id,
-          customerId,
-          status: TicketStatus.RESERVED,
-          approvalStatus: ticketType.requireApproval ? TicketApprovalStatus.PENDING : undefined,
-          price: ticketType.price,
-          customerName: request.customerName,
-          customerEmail: request.customerEmail,
-          reservedAt: now,
-          expiresAt,
-          createdAt: now,
-          updatedAt: now,
-        };
+      // Registration answers are validated up front and handed out per ticket like seats
+      const answerQueues = new Map<string, RegistrationAnswer[][]>();
+      for (const ticketType of ticketTypes) {
+        const quantity = quantities.get(ticketType.id)!;
+        const ticketAttendees = attendees.get(ticketType.id) ?? [];
+        if (ticketAttendees.length > quantity) {
+          throw new TicketError(`More attendees than ${ticketType.name} tickets`, 'ticket/invalid-attendees');
+        }
 
-        batch.set(ticketRef, ticketData);
-        const ticket = ticketSchema.parse({
-          ...ticketData,
-          id: ticketRef.id,
-          reservedAt: now.toDate(),
-          expiresAt: expiresAt.toDate(),
-          createdAt: now.toDate(),
-          updatedAt: now.toDate(),
-        });
-        tickets.push(ticket);
+        const orderAnswers = collectAnswers(ticketType.questions, RegistrationQuestionScope.ORDER, request.answers);
+        answerQueues.set(ticketType.id, Array.from({ length: quantity }, (_, i) => [
+          ...orderAnswers,
+          ...collectAnswers(ticketType.questions, RegistrationQuestionScope.ATTENDEE, ticketAttendees[i]),
+        ]));
       }
 
-      await batch.commit();
-      return tickets;
-    } catch (error: any) {
-      if (error instanceof TicketError) throw error;
-      throw new TicketError('Failed to reserve tickets', 'ticket/reservation-failed', error);
+      const currency = ticketTypes[0]!.price.currency;
+      if (ticketTypes.some(ticketType => ticketType.price.currency !== currency)) {
+        throw new TicketError('All tickets in an order must use the same currency', 'ticket/currency-mismatch');
+      }
+
+      // Scored on list prices; the final total is only known inside the transaction
+      const riskSignal: RiskSignal = {
+        eventId: request.eventId,
+        customerId,
+        ip,
+        amount: ticketTypes.reduce(
+          (sum, ticketType) => sum + (ticketType.currentTier?.price ?? ticketType.price).amount * quantities.get(ticketType.id)!,
+          0
+        ),
+        currency,
+        ticketCount: [...quantities.values()].reduce((sum, quantity) => sum + quantity, 0),
+        customerEmail: request.customerEmail,
+        accountEmail: request.accountEmail,
+      };
+      const risk = await this.riskService.assessRisk(riskSignal);
+      const riskOutcome = await this.riskService.resolveChallenge(risk, customerId, request.challengeToken);
+      if (riskOutcome === RiskOutcome.CHALLENGE) {
+        throw new RiskChallengeRequiredError(risk.reasons);
+      }
+      const underReview = riskOutcome === RiskOutcome.REVIEW;
+      const reviewHoldHours = underReview ? await this.riskService.getReviewHoldHours(risk.policyId) : 0;
+
+      // Cheap pre-checks; availability is enforced again inside the transaction
+      for (const ticketType of ticketTypes) {
+        const quantity = quantities.get(ticketType.id)!;
+        await this.validateTicketAvailability(ticketType.id, quantity);
+        await this.validateCustomerTicketLimit(customerId, ticketType.id, quantity);
+      }
+
+      const order = await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const ticketTypeDocs = await transaction.getAll(
+          ...ticketTypes.map(ticketType => this.firestore.collection(this.ticketTypesCollection).doc(ticketType.id))
+        );
+
+        // Resolve the tier of every ticket, splitting a ticket type into one line per tier
+        const now = Timestamp.now();
+        const lines: { ticketType: TicketType; tier?: PriceTier; price: TicketPrice; quantity: number }[] = [];
+        for (const [index, ticketTypeDoc] of ticketTypeDocs.entries()) {
+          const ticketType = ticketTypes[index]!;
+          const quantity = quantities.get(ticketType.id)!;
+
+          if (!ticketTypeDoc.exists) {
+            throw new TicketTypeNotFoundError(ticketType.id);
+          }
+
+          const inventory = getTicketInventory(ticketTypeDoc.data()!);
+          assertInventoryAvailable(ticketType.id, inventory, quantity);
+
+          const current = this.convertToTicketType(ticketTypeDoc);
+          const committed = inventory.reserved + inventory.sold;
+          for (let i = 0; i < quantity; i++) {
+            const { tier, price } = resolvePriceTier(current, committed + i, now.toDate());
+            const last = lines[lines.length - 1];
+            if (last && last.ticketType.id === ticketType.id && last.tier?.name === tier?.name) {
+              last.quantity++;
+            } else {
+              lines.push({ ticketType, tier, price, quantity: 1 });
+            }
+          }
+        }
+
+        // Seats are read with the rest of the transaction so a seat can never be sold twice
+        const seats = requestedSeatIds.length > 0
+          ? await this.seatingService.getSeatsForHold(transaction, request.eventId, requestedSeatIds)
+          : [];
+        const seatQueues = new Map<string, Seat[]>();
+        for (const seat of seats) {
+          const ticketTypeId = [...seatIds.entries()].find(([, ids]) => ids.includes(seat.id))![0];
+          if (seat.ticketTypeId !== ticketTypeId) {
+            throw new TicketError(`Seat ${seat.id} is not sold as this ticket type`, 'ticket/invalid-seats');
+          }
+          seatQueues.set(ticketTypeId, [...(seatQueues.get(ticketTypeId) ?? []), seat]);
+        }
+
+        const sessionAllocations = await this.checkSessionCapacity(transaction, request.eventId, ticketTypes, quantities);
+
+        // Every ticket type draws from the event's capacity pool, shared with free registrations
+        const ticketCount = [...quantities.values()].reduce((sum, quantity) => sum + quantity, 0);
+        const eventDoc = await transaction.get(this.firestore.collection(this.eventsCollection).doc(request.eventId));
+        if (!eventDoc.exists) {
+          throw new TicketError('Event not found', 'ticket/event-not-found');
+        }
+        // Read in the transaction so no order slips in behind a cancellation cascade
+        if (eventDoc.get('status') === EventStatus.CANCELLED) {
+          throw new TicketError('Event has been cancelled', 'ticket/event-cancelled');
+        }
+        const capacity = getCapacityStatus(
+          eventDoc.get('capacity'),
+          eventCapacityUsageSchema.parse(eventDoc.get('capacityUsage') ?? {})
+        );
+        if (capacity.available < ticketCount) {
+          throw new EventCapacityError(request.eventId);
+        }
+        const preparedAddOns = await this.addOnService.prepareAddOns(transaction, request.eventId, request.addOns ?? []);
+        this.validateAddOnCurrency(preparedAddOns, currency);
+
+        let redemption: PreparedRedemption | null = null;
+        if (request.promoCode) {
+          redemption = await this.promoCodeService.prepareRedemption(
+            transaction,
+            request.eventId,
+            request.promoCode,
+            customerId,
+            lines.map(line => ({
+              ticketTypeId: line.ticketType.id,
+              unitPrice: line.price.amount,
+              quantity: line.quantity,
+            }))
+          );
+        }
+
+        // Hidden ticket types are only sold against an unlock code, which tracks its allocation
+        const hiddenLines = ticketTypes
+          .filter(ticketType => ticketType.hidden)
+          .map(ticketType => ({ ticketTypeId: ticketType.id, quantity: quantities.get(ticketType.id)! }));
+        let unlock: PreparedUnlock | null = null;
+        if (hiddenLines.length > 0) {
+          if (!request.unlockCode) {
+            throw new TicketError('An unlock code is required for these tickets', 'ticket/unlock-code-required');
+          }
+          unlock = await this.promoCodeService.prepareUnlock(transaction, request.eventId, request.unlockCode, hiddenLines);
+        }
+
+        // Orders waiting for approval or a risk review are held until the shortest window closes
+        const approvalWindows = ticketTypes
+          .filter(ticketType => ticketType.requireApproval)
+          .map(ticketType => ticketType.approvalWindowHours);
+        const holdMillis = approvalWindows.length > 0 || underReview
+          ? Math.min(...approvalWindows, ...(underReview ? [reviewHoldHours] : [])) * 60 * 60 * 1000
+          : this.reservationExpiryMinutes * 60 * 1000;
+        const expiresAt = Timestamp.fromMillis(now.toMillis() + holdMillis);
+        const orderRef = this.firestore.collection(this.ordersCollection).doc();
+
+        for (const [index, ticketTypeDoc] of ticketTypeDocs.entries()) {
+          const ticketType = ticketTypes[index]!;
+          transaction.update(ticketTypeDoc.ref, {
+            inventory: applyInventoryChange(
+              getTicketInventory(ticketTypeDoc.data()!),
+              null,
+              TicketStatus.RESERVED,
+              quantities.get(ticketType.id)!
+            ),
+            updatedAt: now,
+          });
+        }
+
+        const items: OrderItem[] = [];
+        const seatHolds: SeatHold[] = [];
+        for (const [index, line] of lines.entries()) {
+          const { ticketType, tier, quantity } = line;
+          const discountPerTicket = redemption?.discount.perTicket[index] ?? 0;
+          const price = {
+            amount: Math.round((line.price.amount - discountPerTicket) * 100) / 100,
+            currency: line.price.currency,
+          };
+
+          const ticketIds: string[] = [];
+          for (let i = 0; i < quantity; i++) {
+            const ticketRef = this.firestore.collection(this.ticketsCollection).doc();
+            const seat = seatQueues.get(ticketType.id)?.shift();
+            if (seat) {
+              seatHolds.push({ seatId: seat.id, orderId: orderRef.id, ticketId: ticketRef.id });
+            }
+            transaction.set(ticketRef, {
+              eventId: ticketType.eventId,
+              ticketTypeId: ticketType.id,
+              orderId: orderRef.id,
+              customerId,
+              status: TicketStatus.RESERVED,
+              approvalStatus: ticketType.requireApproval ? TicketApprovalStatus.PENDING : undefined,
+              approvalHistory: ticketType.requireApproval ? [{ status: TicketApprovalStatus.PENDING, at: now }] : [],
+              risk: this.getTicketRisk(risk, underReview, now),
+              price,
+              priceTier: tier?.name,
+              seatId: seat?.id,
+              sessionId: ticketType.sessionId,
+              ...(discountPerTicket > 0 ? {
+                originalPrice: line.price,
+                promoCode: redemption!.promoCode.code,
+                discountAmount: discountPerTicket,
+              } : {}),
+              customerName: request.customerName,
+              customerEmail: request.customerEmail,
+              answers: answerQueues.get(ticketType.id)!.shift(),
+              reservedAt: now,
+              expiresAt,
+              createdAt: now,
+              updatedAt: now,
+            });
+            this.recordStatusChange(transaction, ticketRef, null, TicketStatus.RESERVED, {
+              changedBy: customerId,
+              reason: 'Reserved',
+            }, now);
+            ticketIds.push(ticketRef.id);
+          }
+
+          items.push({
+            ticketTypeId: ticketType.id,
+            ticketTypeName: ticketType.name,
+            quantity,
+            unitPrice: line.price,
+            priceTier: tier?.name,
+            subtotal: Math.round(line.price.amount * quantity * 100) / 100,
+            discount: Math.round(discountPerTicket * quantity * 100) / 100,
+            ticketIds,
+          });
+        }
+
+        const addOns = this.toOrderAddOns(preparedAddOns, items[0]!.ticketIds[0]!);
+        const orderData = {
+          eventId: request.eventId,
+          customerId,
+          status: OrderStatus.RESERVED,
+          items,
+          addOns,
+          total: {
+            amount: Math.round((
+              items.reduce((sum, item) => sum + item.subtotal - item.discount, 0) +
+              addOns.reduce((sum, addOn) => sum + addOn.subtotal, 0)
+            ) * 100) / 100,
+            currency,
+          },
+          ...(redemption ? {
+            discount: {
+              promoCodeId: redemption.promoCode.id,
+              code: redemption.promoCode.code,
+              amount: redemption.discount.amount,
+            },
+          } : {}),
+          ...(unlock ? {
+            unlock: {
+              unlockCodeId: unlock.unlockCode.id,
+              code: unlock.unlockCode.code,
+              quantity: unlock.quantity,
+            },
+          } : {}),
+          customerName: request.customerName,
+          customerEmail: request.customerEmail,
+          reservedAt: now,
+          expiresAt,
+          createdAt: now,
+          updatedAt: now,
+        };
+        transaction.set(orderRef, orderData);
+        this.seatingService.holdSeats(transaction, request.eventId, seatHolds, expiresAt);
+        this.addOnService.reserveAddOns(transaction, addOns);
+        transaction.update(eventDoc.ref, { 'capacityUsage.reserved': FieldValue.increment(ticketCount) });
+        for (const [sessionId, quantity] of sessionAllocations) {
+          transaction.update(this.firestore.collection(this.sessionsCollection).doc(sessionId), {
+            allocated: FieldValue.increment(quantity),
+            updatedAt: now,
+          });
+        }
+        if (redemption) {
+          this.promoCodeService.recordRedemption(transaction, redemption, orderRef.id, customerId, currency);
+        }
+        if (unlock) {
+          this.promoCodeService.recordUnlock(transaction, unlock, orderRef.id, customerId);
+        }
+        if (underReview) {
+          this.riskService.openReview(transaction, {
+            orderId: orderRef.id,
+            eventId: request.eventId,
+            customerId,
+            customerEmail: request.customerEmail,
+            ip,
+            assessment: risk,
+          });
+        }
+
+        return orderSchema.parse({
+          ...orderData,
+          id: orderRef.id,
+          reservedAt: now.toDate(),
+          expiresAt: expiresAt.toDate(),
+          createdAt: now.toDate(),
+          updatedAt: now.toDate(),
+        });
+      });
+
+      // Only reservations that went through count towards velocity rules
+      await this.riskService.recordAttempt(riskSignal, order.id);
+
+      // Cache invalidation
+      await this.invalidateCache([
+        ...ticketTypes.map(ticketType => this.getTicketTypeCacheKey(ticketType.id)),
+        this.getEventTicketTypesCacheKey(request.eventId),
+        this.getEventTicketsCacheKey(request.eventId),
+        this.getCustomerTicketsCacheKey(customerId),
+      ]);
+
+      return order;
+    } catch (error: any) {
+      if (
+        error instanceof TicketError ||
+        error instanceof PromoCodeError ||
+        error instanceof SeatingError ||
+        error instanceof EventError ||
+        error instanceof AddOnError ||
+        error instanceof RiskError ||
+        error instanceof WaitingRoomError
+      ) throw error;
+      throw new TicketError('Failed to reserve tickets', 'ticket/reservation-failed', error);
+    }
+  }
+
+  /**
+   * Create one payment for the whole order and attach it to the order and its tickets.
+   * Inventory stays reserved until the webhook confirms payment. The order only moves to
+   * PENDING_PAYMENT while it is still reserved and unexpired; otherwise the payment is voided.
+   */
+  private async startOrderPayment(
+    orderRef: FirebaseFirestore.DocumentReference,
+    order: Order,
+    ticketIds: string[],
+    updates: { order?: Record<string, unknown>; tickets?: Record<string, unknown> } = {}
+  ): Promise<void> {
+    const payment = await this.paymentService.createPayment({
+      amount: order.total.amount,
+      currency: order.total.currency,
+      customerId: order.customerId,
+      customerEmail: order.customerEmail,
+      metadata: {
+        orderId: order.id,
+        eventId: order.eventId,
+        ticketCount: String(ticketIds.length),
+        ...(order.discount ? {
+          promoCode: order.discount.code,
+          promoCodeId: order.discount.promoCodeId,
+          discountAmount: String(order.discount.amount),
+        } : {}),
+      },
+      // An order is only ever charged once, so concurrent purchases share one payment
+      idempotencyKey: `order-payment_${order.id}`,
+    });
+
+    const outcome = await this.firestore.runTransaction(async (transaction: Transaction) => {
+      const doc = await transaction.get(orderRef);
+      if (!doc.exists) {
+        throw new OrderNotFoundError(order.id);
+      }
+
+      const current = this.convertToOrder(doc);
+      if (current.status === OrderStatus.PENDING_PAYMENT && current.paymentId === payment.id) {
+        return 'started';
+      }
+      if (current.status !== OrderStatus.RESERVED) {
+        return 'invalid-status';
+      }
+      if (current.expiresAt < new Date()) {
+        return 'expired';
+      }
+
+      const now = Timestamp.now();
+      transaction.update(orderRef, {
+        ...updates.order,
+        status: OrderStatus.PENDING_PAYMENT,
+        paymentId: payment.id,
+        paymentStatus: payment.status,
+        updatedAt: now,
+      });
+      for (const ticketId of ticketIds) {
+        transaction.update(this.firestore.collection(this.ticketsCollection).doc(ticketId), {
+          ...updates.tickets,
+          paymentId: payment.id,
+          paymentStatus: payment.status,
+          updatedAt: now,
+        });
+      }
+      return 'started';
+    });
+
+    if (outcome !== 'started') {
+      // The order was cancelled or expired while the payment was being created
+      await this.paymentService.cancelPayment(payment.id);
+      if (outcome === 'expired') {
+        throw new TicketReservationExpiredError(order.id);
+      }
+      throw new TicketError('Order is not reserved', 'ticket/invalid-status');
     }
+
+    await this.invalidateCache(ticketIds.map(id => this.getTicketCacheKey(id)));
   }
 
-  async purchaseTickets(customerId: string, request: PurchaseTicketRequest, ip: string): Promise<Ticket[]> {
-    const batch = this.firestore.batch();
+  async purchaseTickets(customerId: string, request: PurchaseTicketRequest, ip: string): Promise<Order> {
     try {
       // Rate limiting and fraud checks
       await this.checkPurchaseRateLimit(customerId, ip);
-      const doc = await this.getTicketDoc(request.reservationId);
-      const ticket = await this.getTicket(request.reservationId);
-      const ticketType = await this.getTicketType(ticket.ticketTypeId);
-      await this.checkForFraudulentActivity(customerId, ip, ticketType);
+      const doc = await this.getOrderDoc(request.orderId);
+      const order = this.convertToOrder(doc);
 
       // Validate reservation
-      if (ticket.status !== TicketStatus.RESERVED) {
-        throw new TicketError('Ticket is not reserved', 'ticket/invalid-status');
-      }
-      if (ticket.customerId !== customerId) {
+      if (order.customerId !== customerId) {
         throw new TicketError('Unauthorized purchase', 'ticket/unauthorized');
       }
+      if (order.status !== OrderStatus.RESERVED) {
+        throw new TicketError('Order is not reserved', 'ticket/invalid-status');
+      }
+      if (order.expiresAt < new Date()) {
+        throw new TicketReservationExpiredError(order.id);
+      }
 
-      // Check if ticket requires payment
-      if (ticket.price.amount > 0) {
-        // Create payment
-        const payment = await this.paymentService.createPayment({
-          amount: ticket.price.amount,
-          currency: ticket.price.currency,
-          customerId: ticket.customerId,
-          customerEmail: ticket.customerEmail,
-          metadata: {
-            ticketId: ticket.id,
-            eventId: ticket.eventId,
-            ticketTypeId: ticket.ticketTypeId,
-          },
-        });
+      const tickets = await this.listOrderTickets(order.id);
+      if (tickets.some(ticket => ticket.approvalStatus === TicketApprovalStatus.PENDING)) {
+        throw new TicketError('Tickets are waiting for organizer approval', 'ticket/approval-pending');
+      }
+      if (tickets.some(ticket => ticket.risk?.reviewStatus === RiskReviewStatus.PENDING)) {
+        throw new TicketError('Order is being reviewed by the organizer', 'ticket/review-pending');
+      }
 
-        // Update ticket with payment info
-        await doc.ref.update({
-          paymentId: payment.id,
-          paymentStatus: payment.status,
-          updatedAt: Timestamp.now(),
-        });
+      // Check if order requires payment
+      if (order.total.amount > 0) {
+        await this.startOrderPayment(doc.ref, order, this.getOrderTicketIds(order));
 
         // Return the payment ID to the client for processing
-        return [{ ...ticket, paymentId: payment.id }] as Ticket[];
+        return this.getOrder(order.id);
       }
 
-      // For free tickets, mark as purchased immediately
+      // For free orders, mark every ticket as purchased immediately
       const now = Timestamp.now();
-      await doc.ref.update({
-        status: TicketStatus.SOLD,
-        purchasedAt: now,
-        updatedAt: now,
-      });
+      const purchased = await this.transitionOrder(
+        order.id,
+        [OrderStatus.RESERVED],
+        OrderStatus.COMPLETED,
+        TicketStatus.SOLD,
+        { changedBy: customerId, reason: 'Free order completed' },
+        {
+          order: { purchasedAt: now },
+          tickets: { purchasedAt: now },
+        }
+      );
+      if (!purchased) {
+        throw new TicketError('Order is not reserved', 'ticket/invalid-status');
+      }
 
-      return [ticket];
+      await this.registerTicketHolders(purchased.id);
+      return purchased;
     } catch (error: any) {
       if (error instanceof TicketError) throw error;
       throw new TicketError('Failed to purchase tickets', 'ticket/purchase-failed', error);
     }
   }
 
-  async cancelReservation(customerId: string, reservationId: string): Promise<void> {
+  async cancelReservation(customerId: string, orderId: string): Promise<void> {
     try {
-      const doc = await this.getTicketDoc(reservationId);
-      const ticket = await this.getTicket(reservationId);
+      const order = await this.getOrder(orderId);
 
-      if (ticket.customerId !== customerId) {
+      if (order.customerId !== customerId) {
         throw new TicketError('Unauthorized cancellation', 'ticket/unauthorized');
       }
+      if (order.status !== OrderStatus.RESERVED && order.status !== OrderStatus.PENDING_PAYMENT) {
+        throw new TicketError('Order is not reserved', 'ticket/invalid-status');
+      }
 
-      if (ticket.status !== TicketStatus.RESERVED) {
-        throw new TicketError('Ticket is not reserved', 'ticket/invalid-status');
+      // Stop the checkout before releasing the tickets; a buyer who already paid keeps them
+      const paymentStatus = await this.voidOrderPayment(order);
+      if (paymentStatus === PaymentStatus.COMPLETED) {
+        await this.completePaidOrder(orderId);
+        throw new TicketError('Order has already been paid', 'ticket/already-paid');
       }
 
-      await doc.ref.update({
-        status: TicketStatus.CANCELLED,
-        cancelledAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
-      });
+      const now = Timestamp.now();
+      const cancelled = await this.transitionOrder(
+        orderId,
+        [order.status],
+        OrderStatus.CANCELLED,
+        TicketStatus.CANCELLED,
+        { changedBy: customerId, reason: 'Reservation cancelled by the buyer' },
+        {
+          order: { ...(paymentStatus ? { paymentStatus } : {}), cancelledAt: now },
+          tickets: { cancelledAt: now },
+        }
+      );
+
+      // A checkout started while this ran is stopped on the next pass
+      if (!cancelled) {
+        await this.cancelReservation(customerId, orderId);
+      }
     } catch (error: any) {
       if (error instanceof TicketError) throw error;
       throw new TicketError('Failed to cancel reservation', 'ticket/cancellation-failed', error);
     }
   }
 
-  async cancelTicket(ticketId: string): Promise<Ticket> {
+  async getOrder(orderId: string): Promise<Order> {
     try {
-      const doc = await this.getTicketDoc(ticketId);
-      const ticket = await this.getTicket(ticketId);
+      const doc = await this.getOrderDoc(orderId);
+      return this.convertToOrder(doc);
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to get order', 'ticket/get-failed', error);
+    }
+  }
 
-      if (ticket.status === TicketStatus.CANCELLED) {
-        throw new TicketError('Ticket is already cancelled', 'ticket/already-cancelled');
+  async listCustomerOrders(customerId: string): Promise<Order[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.ordersCollection)
+        .where('customerId', '==', customerId)
+        .orderBy('createdAt', 'desc')
+        .get();
+
+      return snapshot.docs.map(doc => this.convertToOrder(doc));
+    } catch (error: any) {
+      throw new TicketError('Failed to list customer orders', 'ticket/list-failed', error);
+    }
+  }
+
+  async listOrderTickets(orderId: string): Promise<Ticket[]> {
+    try {
+      const order = await this.getOrder(orderId);
+      return Promise.all(this.getOrderTicketIds(order).map(ticketId => this.getTicket(ticketId)));
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to list order tickets', 'ticket/list-failed', error);
+    }
+  }
+  async reserveAddOns(customerId: string, request: ReserveAddOnsRequest, ip: string): Promise<Order> {
+    try {
+      if (request.addOns.length === 0) {
+        throw new TicketError('Choose at least one add-on', 'ticket/empty-order');
       }
 
-      await doc.ref.update({
-        status: TicketStatus.CANCELLED,
-        cancelledAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
+      await this.checkReservationRateLimit(customerId, ip);
+      const ticket = await this.getTicket(request.ticketId);
+      if (ticket.customerId !== customerId) {
+        throw new TicketError('Unauthorized add-on purchase', 'ticket/unauthorized');
+      }
+      if (ticket.status !== TicketStatus.SOLD) {
+        throw new TicketError('Add-ons can only be bought for purchased tickets', 'ticket/invalid-status');
+      }
+
+      const order = await this.firestore.runTransaction(async (transaction: Transaction) => {
+        // Read in the transaction so no order slips in behind a cancellation cascade
+        const eventDoc = await transaction.get(this.firestore.collection(this.eventsCollection).doc(ticket.eventId));
+        if (!eventDoc.exists) {
+          throw new TicketError('Event not found', 'ticket/event-not-found');
+        }
+        if (eventDoc.get('status') === EventStatus.CANCELLED) {
+          throw new TicketError('Event has been cancelled', 'ticket/event-cancelled');
+        }
+
+        const prepared = await this.addOnService.prepareAddOns(transaction, ticket.eventId, request.addOns);
+        this.validateAddOnCurrency(prepared, ticket.price.currency);
+
+        const now = Timestamp.now();
+        const expiresAt = Timestamp.fromMillis(now.toMillis() + this.reservationExpiryMinutes * 60 * 1000);
+        const orderRef = this.firestore.collection(this.ordersCollection).doc();
+        const addOns = this.toOrderAddOns(prepared, ticket.id);
+
+        const orderData = {
+          eventId: ticket.eventId,
+          customerId,
+          status: OrderStatus.RESERVED,
+          items: [],
+          addOns,
+          ticketId: ticket.id,
+          total: {
+            amount: Math.round(addOns.reduce((sum, addOn) => sum + addOn.subtotal, 0) * 100) / 100,
+            currency: ticket.price.currency,
+          },
+          customerName: ticket.customerName,
+          customerEmail: ticket.customerEmail,
+          reservedAt: now,
+          expiresAt,
+          createdAt: now,
+          updatedAt: now,
+        };
+        transaction.set(orderRef, orderData);
+        this.addOnService.reserveAddOns(transaction, addOns);
+
+        return orderSchema.parse({
+          ...orderData,
+          id: orderRef.id,
+          reservedAt: now.toDate(),
+          expiresAt: expiresAt.toDate(),
+          createdAt: now.toDate(),
+          updatedAt: now.toDate(),
+        });
       });
 
+      return order;
+    } catch (error: any) {
+      if (error instanceof TicketError || error instanceof AddOnError) throw error;
+      throw new TicketError('Failed to reserve add-ons', 'ticket/reservation-failed', error);
+    }
+  }
+
+  async listTicketAddOns(ticketId: string): Promise<OrderAddOn[]> {
+    try {
+      const ticket = await this.getTicket(ticketId);
+      const snapshot = await this.firestore
+        .collection(this.ordersCollection)
+        .where('ticketId', '==', ticketId)
+        .get();
+
+      const orders = snapshot.docs.map(doc => this.convertToOrder(doc));
+      if (ticket.orderId) {
+        orders.push(await this.getOrder(ticket.orderId));
+      }
+
+      return this.groupAddOnsByTicket(orders).get(ticketId) ?? [];
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to list ticket add-ons', 'ticket/list-failed', error);
+    }
+  }
+
+  async listEventTicketAddOns(eventId: string): Promise<Map<string, OrderAddOn[]>> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.ordersCollection)
+        .where('eventId', '==', eventId)
+        .where('status', '==', OrderStatus.COMPLETED)
+        .get();
+
+      return this.groupAddOnsByTicket(snapshot.docs.map(doc => this.convertToOrder(doc)));
+    } catch (error: any) {
+      throw new TicketError('Failed to list event add-ons', 'ticket/list-failed', error);
+    }
+  }
+
+
+  async cancelTicket(ticketId: string, cancelledBy?: string, reason?: string): Promise<Ticket> {
+    try {
+      const cancelled = await this.transitionTicket(
+        ticketId,
+        TicketStatus.CANCELLED,
+        { changedBy: cancelledBy, reason: reason ?? 'Ticket cancelled' },
+        { cancelledAt: Timestamp.now() }
+      );
+      if (!cancelled) {
+        throw new TicketError('Ticket is already cancelled', 'ticket/already-cancelled');
+      }
+
       return this.getTicket(ticketId);
     } catch (error: any) {
       if (error instanceof TicketError) throw error;
@@ -585,47 +1799,538 @@ export class FirebaseTicketService implements ITicketService {
     }
   }
 
-  async approveTicket(organizerId: string, ticketId: string): Promise<Ticket> {
+  /**
+   * Every status the ticket has been through, oldest first.
+   */
+  async listTicketStatusHistory(organizerId: string, ticketId: string): Promise<TicketStatusChange[]> {
     try {
       const doc = await this.getTicketDoc(ticketId);
-      const ticket = await this.getTicket(ticketId);
+      await this.verifyOrganizerOwnsEvent(organizerId, doc.get('eventId'));
 
-      await this.verifyOrganizerOwnsEvent(organizerId, ticket.eventId);
+      const snapshot = await doc.ref
+        .collection(this.statusHistoryCollection)
+        .orderBy('at', 'asc')
+        .get();
+      return snapshot.docs.map(doc => this.convertToStatusChange(doc));
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to list ticket status history', 'ticket/list-failed', error);
+    }
+  }
 
-      if (!ticket.approvalStatus || ticket.approvalStatus !== TicketApprovalStatus.PENDING) {
-        throw new TicketError('Ticket is not pending approval', 'ticket/invalid-status');
+  async markTicketCheckedIn(ticketId: string, checkedInAt: Date = new Date(), sessionId?: string): Promise<Ticket> {
+    try {
+      const ticketRef = this.firestore.collection(this.ticketsCollection).doc(ticketId);
+
+      // Transaction so two scanners reading the same QR code cannot both admit the guest
+      const ticket = await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const doc = await transaction.get(ticketRef);
+        if (!doc.exists) {
+          throw new TicketNotFoundError(ticketId);
+        }
+
+        const current = this.convertToTicket(doc);
+        if (current.status === TicketStatus.CANCELLED) {
+          throw new TicketError('Ticket has been cancelled', 'ticket/cancelled');
+        }
+        if (current.status === TicketStatus.REFUNDED) {
+          throw new TicketError('Ticket has been refunded', 'ticket/refunded');
+        }
+        if (current.status !== TicketStatus.SOLD) {
+          throw new TicketError('Ticket has not been purchased', 'ticket/invalid-status');
+        }
+        if (sessionId && current.sessionId && current.sessionId !== sessionId) {
+          throw new TicketError('Ticket is not valid for this session', 'ticket/wrong-session');
+        }
+
+        // Passes are admitted once per session; checkedInAt keeps the first admission
+        if (sessionId ? current.sessionCheckIns[sessionId] : current.checkedInAt) {
+          throw new TicketAlreadyUsedError(ticketId);
+        }
+
+        transaction.update(ticketRef, {
+          ...(current.checkedInAt ? {} : { checkedInAt: Timestamp.fromDate(checkedInAt) }),
+          ...(sessionId ? { [`sessionCheckIns.${sessionId}`]: Timestamp.fromDate(checkedInAt) } : {}),
+          updatedAt: Timestamp.now(),
+        });
+        return current;
+      });
+
+      await this.invalidateTicketCaches([ticket]);
+      return {
+        ...ticket,
+        checkedInAt: ticket.checkedInAt ?? checkedInAt,
+        sessionCheckIns: sessionId ? { ...ticket.sessionCheckIns, [sessionId]: checkedInAt } : ticket.sessionCheckIns,
+      };
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to check in ticket', 'ticket/check-in-failed', error);
+    }
+  }
+
+  /**
+   * Undo a check-in whose follow-up step failed. Only the marks made at `checkedInAt` are
+   * cleared, so an admission recorded by another scan in the meantime is kept.
+   */
+  async revertTicketCheckIn(ticketId: string, checkedInAt: Date, sessionId?: string): Promise<void> {
+    try {
+      const ticketRef = this.firestore.collection(this.ticketsCollection).doc(ticketId);
+
+      const ticket = await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const doc = await transaction.get(ticketRef);
+        if (!doc.exists) {
+          throw new TicketNotFoundError(ticketId);
+        }
+
+        const current = this.convertToTicket(doc);
+        const isMark = (at?: Date) => at?.getTime() === checkedInAt.getTime();
+        const update = {
+          ...(isMark(current.checkedInAt) ? { checkedInAt: FieldValue.delete() } : {}),
+          ...(sessionId && isMark(current.sessionCheckIns[sessionId])
+            ? { [`sessionCheckIns.${sessionId}`]: FieldValue.delete() }
+            : {}),
+        };
+        if (Object.keys(update).length === 0) {
+          return null;
+        }
+
+        transaction.update(ticketRef, { ...update, updatedAt: Timestamp.now() });
+        return current;
+      });
+
+      if (ticket) {
+        await this.invalidateTicketCaches([ticket]);
       }
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to revert ticket check-in', 'ticket/check-in-failed', error);
+    }
+  }
 
-      await doc.ref.update({
-        approvalStatus: TicketApprovalStatus.APPROVED,
-        updatedAt: Timestamp.now(),
+  async initiateTransfer(customerId: string, request: InitiateTransferRequest): Promise<TicketTransfer> {
+    try {
+      const ticket = this.convertToTicket(await this.getTicketDoc(request.ticketId));
+
+      if (ticket.customerId !== customerId) {
+        throw new TicketError('Unauthorized transfer', 'ticket/unauthorized');
+      }
+      if (ticket.status !== TicketStatus.SOLD) {
+        throw new TicketTransferNotAllowedError('only purchased tickets can be transferred');
+      }
+      if (ticket.checkedInAt) {
+        throw new TicketTransferNotAllowedError('ticket has already been used');
+      }
+      if (ticket.customerEmail.toLowerCase() === request.recipientEmail.toLowerCase()) {
+        throw new TicketTransferNotAllowedError('recipient already holds this ticket');
+      }
+
+      const ticketType = await this.getTicketType(ticket.ticketTypeId);
+      if (!ticketType.allowTransfers) {
+        throw new TicketTransferNotAllowedError('the organizer has disabled transfers for this ticket type');
+      }
+
+      // Checked and created in one transaction so a ticket never has two pending transfers
+      const docRef = await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const pending = await transaction.get(
+          this.firestore
+            .collection(this.transfersCollection)
+            .where('ticketId', '==', ticket.id)
+            .where('status', '==', TicketTransferStatus.PENDING)
+            .limit(1)
+        );
+        if (!pending.empty) {
+          throw new TicketTransferNotAllowedError('a transfer is already pending');
+        }
+
+        const now = Timestamp.now();
+        const ref = this.firestore.collection(this.transfersCollection).doc();
+        transaction.set(ref, {
+          ticketId: ticket.id,
+          eventId: ticket.eventId,
+          status: TicketTransferStatus.PENDING,
+          fromCustomerId: customerId,
+          fromCustomerName: ticket.customerName,
+          recipientEmail: request.recipientEmail.toLowerCase(),
+          expiresAt: Timestamp.fromMillis(now.toMillis() + this.transferExpiryDays * 24 * 60 * 60 * 1000),
+          createdAt: now,
+          updatedAt: now,
+        });
+        return ref;
       });
 
-      return this.getTicket(ticketId);
+      return this.convertToTransfer(await docRef.get());
     } catch (error: any) {
       if (error instanceof TicketError) throw error;
-      throw new TicketError('Failed to approve ticket', 'ticket/approval-failed', error);
+      throw new TicketError('Failed to initiate transfer', 'ticket/transfer-failed', error);
     }
   }
 
-  async rejectTicket(organizerId: string, ticketId: string): Promise<Ticket> {
+  async acceptTransfer(recipientId: string, request: AcceptTransferRequest): Promise<Ticket> {
     try {
-      const doc = await this.getTicketDoc(ticketId);
-      const ticket = await this.getTicket(ticketId);
+      const transferRef = this.firestore.collection(this.transfersCollection).doc(request.transferId);
+      const transferDoc = await transferRef.get();
+      if (!transferDoc.exists) {
+        throw new TicketTransferNotFoundError(request.transferId);
+      }
+
+      const transfer = this.convertToTransfer(transferDoc);
+      if (transfer.recipientEmail !== request.recipientEmail.toLowerCase()) {
+        throw new TicketError('Transfer was sent to another email address', 'ticket/unauthorized');
+      }
+      if (transfer.fromCustomerId === recipientId) {
+        throw new TicketTransferNotAllowedError('recipient already holds this ticket');
+      }
+
+      const ticket = await this.getTicket(transfer.ticketId);
+      await this.validateCustomerTicketLimit(recipientId, ticket.ticketTypeId, 1);
+
+      const ticketRef = this.firestore.collection(this.ticketsCollection).doc(transfer.ticketId);
+      const accepted = await this.firestore.runTransaction(async (transaction: Transaction) => {
+        const [currentTransferDoc, currentTicketDoc] = await transaction.getAll(transferRef, ticketRef);
+        const currentTransfer = this.convertToTransfer(currentTransferDoc!);
+        const current = this.convertToTicket(currentTicketDoc!);
+
+        if (currentTransfer.status !== TicketTransferStatus.PENDING) {
+          throw new TicketTransferNotAllowedError('transfer is no longer pending');
+        }
+
+        const now = Timestamp.now();
+        if (currentTransfer.expiresAt < now.toDate()) {
+          transaction.update(transferRef, { status: TicketTransferStatus.EXPIRED, updatedAt: now });
+          return null;
+        }
+
+        // The sender may have used, cancelled or re-sold the ticket since offering it
+        if (
+          current.status !== TicketStatus.SOLD ||
+          current.checkedInAt ||
+          current.customerId !== currentTransfer.fromCustomerId
+        ) {
+          throw new TicketTransferNotAllowedError('ticket is no longer held by the sender');
+        }
+
+        const recipient = {
+          ...current,
+          customerId: recipientId,
+          customerName: request.recipientName,
+          customerEmail: request.recipientEmail,
+        };
+
+        const holder = {
+          customerId: current.customerId,
+          customerName: current.customerName,
+          customerEmail: current.customerEmail,
+          transferredAt: now,
+        };
+
+        // Reissuing the credential invalidates any QR code the previous holder kept
+        transaction.update(ticketRef, {
+          customerId: recipient.customerId,
+          customerName: recipient.customerName,
+          customerEmail: recipient.customerEmail,
+          previousHolders: FieldValue.arrayUnion(holder),
+          ...this.getCredentialUpdate(recipient),
+          updatedAt: now,
+        });
+        transaction.update(transferRef, {
+          status: TicketTransferStatus.ACCEPTED,
+          acceptedBy: recipientId,
+          acceptedAt: now,
+          updatedAt: now,
+        });
+
+        return { previous: current, holder };
+      });
+
+      if (!accepted) {
+        throw new TicketTransferNotAllowedError('transfer has expired');
+      }
+
+      const { previous, holder } = accepted;
+      try {
+        await this.eventService.transferTicketParticipation(transfer.ticketId, recipientId);
+      } catch (error) {
+        await this.revertTransferAcceptance(transferRef, ticketRef, recipientId, holder);
+        throw error;
+      }
+      await this.invalidateTicketCaches([previous, { ...previous, customerId: recipientId }]);
+
+      return this.getTicket(transfer.ticketId);
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to accept transfer', 'ticket/transfer-failed', error);
+    }
+  }
+
+  /**
+   * Give a ticket back to its sender when the participation could not follow it, and
+   * reopen the transfer so it can be accepted again. The sender gets a fresh credential.
+   */
+  private async revertTransferAcceptance(
+    transferRef: FirebaseFirestore.DocumentReference,
+    ticketRef: FirebaseFirestore.DocumentReference,
+    recipientId: string,
+    holder: { customerId: string; customerName: string; customerEmail: string; transferredAt: Timestamp }
+  ): Promise<void> {
+    const ticket = await this.firestore.runTransaction(async (transaction: Transaction) => {
+      const [transferDoc, ticketDoc] = await transaction.getAll(transferRef, ticketRef);
+      const current = this.convertToTicket(ticketDoc!);
+      if (current.customerId !== recipientId || transferDoc!.get('status') !== TicketTransferStatus.ACCEPTED) {
+        return null;
+      }
+
+      const now = Timestamp.now();
+      const sender = {
+        ...current,
+        customerId: holder.customerId,
+        customerName: holder.customerName,
+        customerEmail: holder.customerEmail,
+      };
+      transaction.update(ticketRef, {
+        customerId: sender.customerId,
+        customerName: sender.customerName,
+        customerEmail: sender.customerEmail,
+        previousHolders: FieldValue.arrayRemove(holder),
+        ...this.getCredentialUpdate(sender),
+        updatedAt: now,
+      });
+      transaction.update(transferRef, {
+        status: TicketTransferStatus.PENDING,
+        acceptedBy: FieldValue.delete(),
+        acceptedAt: FieldValue.delete(),
+        updatedAt: now,
+      });
+      return current;
+    });
+
+    if (ticket) {
+      await this.invalidateTicketCaches([ticket, { ...ticket, customerId: holder.customerId }]);
+    }
+  }
 
+  async cancelTransfer(customerId: string, transferId: string): Promise<TicketTransfer> {
+    try {
+      const transferRef = this.firestore.collection(this.transfersCollection).doc(transferId);
+      const doc = await transferRef.get();
+      if (!doc.exists) {
+        throw new TicketTransferNotFoundError(transferId);
+      }
+
+      const transfer = this.convertToTransfer(doc);
+      if (transfer.fromCustomerId !== customerId) {
+        throw new TicketError('Unauthorized transfer cancellation', 'ticket/unauthorized');
+      }
+      if (transfer.status !== TicketTransferStatus.PENDING) {
+        throw new TicketTransferNotAllowedError('transfer is no longer pending');
+      }
+
+      const now = Timestamp.now();
+      await transferRef.update({
+        status: TicketTransferStatus.CANCELLED,
+        cancelledAt: now,
+        updatedAt: now,
+      });
+
+      return this.convertToTransfer(await transferRef.get());
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to cancel transfer', 'ticket/transfer-failed', error);
+    }
+  }
+
+  async listIncomingTransfers(recipientEmail: string): Promise<TicketTransfer[]> {
+    try {
+      const snapshot = await this.firestore
+        .collection(this.transfersCollection)
+        .where('recipientEmail', '==', recipientEmail.toLowerCase())
+        .where('status', '==', TicketTransferStatus.PENDING)
+        .get();
+
+      const now = new Date();
+      return snapshot.docs
+        .map(doc => this.convertToTransfer(doc))
+        .filter(transfer => transfer.expiresAt > now);
+    } catch (error: any) {
+      throw new TicketError('Failed to list incoming transfers', 'ticket/list-failed', error);
+    }
+  }
+
+  /**
+   * Record the organizer's decision on one pending ticket. Rejected tickets are cancelled
+   * right away; approved ones wait for the rest of their order to be decided.
+   */
+  private async decideApproval(
+    organizerId: string,
+    ticketId: string,
+    status: TicketApprovalStatus.APPROVED | TicketApprovalStatus.REJECTED,
+    reason?: string,
+    verifiedEvents: Set<string> = new Set()
+  ): Promise<Ticket> {
+    const doc = await this.getTicketDoc(ticketId);
+    const ticket = this.convertToTicket(doc);
+
+    if (!verifiedEvents.has(ticket.eventId)) {
       await this.verifyOrganizerOwnsEvent(organizerId, ticket.eventId);
+      verifiedEvents.add(ticket.eventId);
+    }
 
-      if (!ticket.approvalStatus || ticket.approvalStatus !== TicketApprovalStatus.PENDING) {
+    // Checked and decided in one transaction so an expiring or cancelled request is never approved
+    const decided = await this.firestore.runTransaction(async (transaction: Transaction) => {
+      const current = await transaction.get(doc.ref);
+      const pending = this.convertToTicket(current);
+      if (pending.approvalStatus !== TicketApprovalStatus.PENDING || pending.status !== TicketStatus.RESERVED) {
         throw new TicketError('Ticket is not pending approval', 'ticket/invalid-status');
       }
 
-      await doc.ref.update({
-        approvalStatus: TicketApprovalStatus.REJECTED,
-        status: TicketStatus.CANCELLED,
-        cancelledAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
+      if (status === TicketApprovalStatus.APPROVED) {
+        transaction.update(doc.ref, this.getApprovalUpdate(status, reason));
+      } else {
+        await this.applyTicketTransitions(
+          transaction,
+          [current],
+          TicketStatus.CANCELLED,
+          { changedBy: organizerId, reason: reason ?? 'Approval request rejected' },
+          {
+            ...this.getApprovalUpdate(status, reason),
+            cancelledAt: Timestamp.now(),
+          }
+        );
+      }
+      return pending;
+    });
+    await this.invalidateTicketCaches([decided]);
+
+    return this.getTicket(ticketId);
+  }
+
+  /**
+   * Once every ticket of an order has been decided, send the buyer to payment for the
+   * approved tickets, complete the order when there is nothing to pay, or cancel it when
+   * every ticket was rejected. Returns null while decisions are still outstanding.
+   */
+  private async settleApprovalOrder(orderId: string, organizerId: string): Promise<Order | null> {
+    const doc = await this.getOrderDoc(orderId);
+    const order = this.convertToOrder(doc);
+    if (order.status !== OrderStatus.RESERVED) {
+      return null;
+    }
+
+    const tickets = await this.listOrderTickets(orderId);
+    if (tickets.some(ticket =>
+      ticket.approvalStatus === TicketApprovalStatus.PENDING ||
+      ticket.risk?.reviewStatus === RiskReviewStatus.PENDING
+    )) {
+      return null;
+    }
+
+    const now = Timestamp.now();
+    const approved = tickets.filter(ticket => ticket.status === TicketStatus.RESERVED);
+    if (approved.length === 0) {
+      return this.transitionOrder(
+        orderId,
+        [OrderStatus.RESERVED],
+        OrderStatus.CANCELLED,
+        TicketStatus.CANCELLED,
+        { changedBy: organizerId, reason: 'Every approval request was rejected' },
+        { order: { cancelledAt: now } }
+      );
+    }
+
+    // Add-ons hang off the first ticket of the order; when it was rejected they move to an approved one
+    const approvedIds = new Set(approved.map(ticket => ticket.id));
+    const addOns = order.addOns.map(addOn =>
+      approvedIds.has(addOn.ticketId) ? addOn : { ...addOn, ticketId: approved[0]!.id }
+    );
+
+    // Rejected tickets are no longer charged
+    const total = {
+      amount: Math.round((
+        approved.reduce((sum, ticket) => sum + ticket.price.amount, 0) +
+        addOns.reduce((sum, addOn) => sum + addOn.subtotal, 0)
+      ) * 100) / 100,
+      currency: order.total.currency,
+    };
+
+    if (total.amount > 0) {
+      const expiresAt = Timestamp.fromMillis(now.toMillis() + this.approvedPaymentWindowHours * 60 * 60 * 1000);
+      await this.startOrderPayment(doc.ref, { ...order, addOns, total }, approved.map(ticket => ticket.id), {
+        order: { addOns, total, expiresAt },
+        tickets: { expiresAt },
       });
+      return this.getOrder(orderId);
+    }
+
+    const completed = await this.transitionOrder(
+      orderId,
+      [OrderStatus.RESERVED],
+      OrderStatus.COMPLETED,
+      TicketStatus.SOLD,
+      { changedBy: organizerId, reason: 'Approved free order completed' },
+      {
+        order: { addOns, total, purchasedAt: now },
+        tickets: { purchasedAt: now },
+      }
+    );
+    if (completed) {
+      await this.registerTicketHolders(completed.id);
+    }
+    return completed;
+  }
+
+  private async decideApprovals(
+    organizerId: string,
+    ticketIds: string[],
+    status: TicketApprovalStatus.APPROVED | TicketApprovalStatus.REJECTED,
+    reason?: string
+  ): Promise<BulkApprovalResult> {
+    const verifiedEvents = new Set<string>();
+    const decided: Ticket[] = [];
+    const failed: BulkApprovalResult['failed'] = [];
+
+    // One ticket failing must not undo the decisions already made
+    for (const ticketId of new Set(ticketIds)) {
+      try {
+        decided.push(await this.decideApproval(organizerId, ticketId, status, reason, verifiedEvents));
+      } catch (error: any) {
+        if (!(error instanceof TicketError)) throw error;
+        failed.push({ ticketId, code: error.code, message: error.message });
+      }
+    }
 
+    const orders: Order[] = [];
+    for (const orderId of new Set(decided.map(ticket => ticket.orderId).filter((id): id is string => !!id))) {
+      const order = await this.settleApprovalOrder(orderId, organizerId);
+      if (order) {
+        orders.push(order);
+      }
+    }
+
+    return {
+      tickets: await Promise.all(decided.map(ticket => this.getTicket(ticket.id))),
+      failed,
+      orders,
+    };
+  }
+
+  async approveTicket(organizerId: string, ticketId: string, reason?: string): Promise<Ticket> {
+    try {
+      const ticket = await this.decideApproval(organizerId, ticketId, TicketApprovalStatus.APPROVED, reason);
+      if (ticket.orderId) {
+        await this.settleApprovalOrder(ticket.orderId, organizerId);
+      }
+      return this.getTicket(ticketId);
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to approve ticket', 'ticket/approval-failed', error);
+    }
+  }
+
+  async rejectTicket(organizerId: string, ticketId: string, reason?: string): Promise<Ticket> {
+    try {
+      const ticket = await this.decideApproval(organizerId, ticketId, TicketApprovalStatus.REJECTED, reason);
+      if (ticket.orderId) {
+        await this.settleApprovalOrder(ticket.orderId, organizerId);
+      }
       return this.getTicket(ticketId);
     } catch (error: any) {
       if (error instanceof TicketError) throw error;
@@ -633,54 +2338,96 @@ export class FirebaseTicketService implements ITicketService {
     }
   }
 
-  async listPendingApprovals(eventId: string): Promise<Ticket[]> {
+  async approveTickets(organizerId: string, ticketIds: string[], reason?: string): Promise<BulkApprovalResult> {
+    try {
+      return await this.decideApprovals(organizerId, ticketIds, TicketApprovalStatus.APPROVED, reason);
+    } catch (error: any) {
+      throw new TicketError('Failed to approve tickets', 'ticket/approval-failed', error);
+    }
+  }
+
+  async rejectTickets(organizerId: string, ticketIds: string[], reason?: string): Promise<BulkApprovalResult> {
     try {
+      return await this.decideApprovals(organizerId, ticketIds, TicketApprovalStatus.REJECTED, reason);
+    } catch (error: any) {
+      throw new TicketError('Failed to reject tickets', 'ticket/rejection-failed', error);
+    }
+  }
+
+  async listPendingApprovals(organizerId: string, eventId: string): Promise<Ticket[]> {
+    try {
+      await this.verifyOrganizerOwnsEvent(organizerId, eventId);
+
       const snapshot = await this.firestore
         .collection(this.ticketsCollection)
         .where('eventId', '==', eventId)
         .where('approvalStatus', '==', TicketApprovalStatus.PENDING)
         .get();
 
-      const tickets = await Promise.all(snapshot.docs.map(doc => this.getTicket(doc.id)));
-      return tickets;
+      // Oldest requests first, since they are the closest to expiring
+      return snapshot.docs
+        .map(doc => this.convertToTicket(doc))
+        .sort((a, b) => a.reservedAt.getTime() - b.reservedAt.getTime());
     } catch (error: any) {
+      if (error instanceof TicketError) throw error;
       throw new TicketError('Failed to list pending approvals', 'ticket/list-failed', error);
     }
   }
 
-  async getTicketTypeStats(ticketTypeId: string): Promise<{ total: number; available: number; reserved: number; sold: number; cancelled: number; }> {
+  /**
+   * Release an order held for a risk review, e.g. after a false positive. Orders with
+   * approval requests continue through approval; others get a fresh window to pay.
+   */
+  async approveRiskReview(organizerId: string, orderId: string, note?: string): Promise<Order> {
     try {
-      const ticketType = await this.getTicketType(ticketTypeId);
-      const snapshot = await this.firestore
-        .collection(this.ticketsCollection)
-        .where('ticketTypeId', '==', ticketTypeId)
-        .get();
+      const { tickets } = await this.decideRiskReview(organizerId, orderId, RiskReviewStatus.APPROVED, note);
+      if (tickets.some(ticket => ticket.approvalStatus !== undefined)) {
+        return (await this.settleApprovalOrder(orderId, organizerId)) ?? this.getOrder(orderId);
+      }
+      return this.getOrder(orderId);
+    } catch (error: any) {
+      if (error instanceof TicketError || error instanceof RiskError) throw error;
+      throw new TicketError('Failed to approve risk review', 'ticket/review-failed', error);
+    }
+  }
 
-      const stats = {
-        total: ticketType.quantity,
-        reserved: 0,
-        sold: 0,
-        cancelled: 0,
-        available: 0,
-      };
+  async rejectRiskReview(organizerId: string, orderId: string, note?: string): Promise<Order> {
+    try {
+      await this.decideRiskReview(organizerId, orderId, RiskReviewStatus.REJECTED, note);
 
-      for (const doc of snapshot.docs) {
-        const ticket = await this.getTicket(doc.id);
-        switch (ticket.status) {
-          case TicketStatus.RESERVED:
-            stats.reserved++;
-            break;
-          case TicketStatus.SOLD:
-            stats.sold++;
-            break;
-          case TicketStatus.CANCELLED:
-            stats.cancelled++;
-            break;
+      const now = Timestamp.now();
+      const cancelled = await this.transitionOrder(
+        orderId,
+        [OrderStatus.RESERVED],
+        OrderStatus.CANCELLED,
+        TicketStatus.CANCELLED,
+        { changedBy: organizerId, reason: note ?? 'Rejected after risk review' },
+        {
+          order: { cancelledAt: now },
+          tickets: { cancelledAt: now },
         }
-      }
+      );
+      return cancelled ?? this.getOrder(orderId);
+    } catch (error: any) {
+      if (error instanceof TicketError || error instanceof RiskError) throw error;
+      throw new TicketError('Failed to reject risk review', 'ticket/review-failed', error);
+    }
+  }
 
-      stats.available = stats.total - stats.reserved - stats.sold;
-      return stats;
+  async getTicketTypeStats(ticketTypeId: string): Promise<{ total: number; available: number; reserved: number; sold: number; cancelled: number; }> {
+    try {
+      // Read straight from Firestore; the cached ticket type may hold stale counters
+      const doc = await this.getTicketTypeDoc(ticketTypeId);
+      const data = doc.data()!;
+      const inventory = getTicketInventory(data);
+
+      return {
+        total: data.quantity,
+        available: inventory.available,
+        reserved: inventory.reserved,
+        sold: inventory.sold,
+        cancelled: inventory.cancelled,
+      };
     } catch (error: any) {
       if (error instanceof TicketError) throw error;
       throw new TicketError('Failed to get ticket type stats', 'ticket/stats-failed', error);
@@ -714,46 +2461,227 @@ export class FirebaseTicketService implements ITicketService {
     }
   }
 
+  async expireOrder(orderId: string): Promise<Order | null> {
+    try {
+      const order = await this.getOrder(orderId);
+      if (order.expiresAt > new Date()) {
+        return null;
+      }
+      if (order.status !== OrderStatus.RESERVED && order.status !== OrderStatus.PENDING_PAYMENT) {
+        return null;
+      }
+
+      // The checkout is stopped before the tickets go back on sale; paid orders are left to the webhook
+      const paymentStatus = await this.voidOrderPayment(order);
+      if (paymentStatus === PaymentStatus.COMPLETED) {
+        return null;
+      }
+
+      const now = Timestamp.now();
+      return await this.transitionOrder(
+        orderId,
+        [order.status],
+        OrderStatus.EXPIRED,
+        TicketStatus.CANCELLED,
+        { reason: 'Reservation expired' },
+        {
+          order: { ...(paymentStatus ? { paymentStatus } : {}), cancelledAt: now },
+          tickets: { cancelledAt: now },
+        }
+      );
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to expire order', 'ticket/expiry-failed', error);
+    }
+  }
+
   async cleanupExpiredReservations(): Promise<void> {
     try {
       const now = Timestamp.now();
       const snapshot = await this.firestore
-        .collection(this.ticketsCollection)
-        .where('status', '==', TicketStatus.RESERVED)
+        .collection(this.ordersCollection)
+        .where('status', 'in', [OrderStatus.RESERVED, OrderStatus.PENDING_PAYMENT])
         .where('expiresAt', '<=', now)
         .get();
 
-      const batch = this.firestore.batch();
-      const tickets = await Promise.all(snapshot.docs.map(doc => this.getTicket(doc.id)));
-      
-      for (const ticket of tickets) {
-        const docRef = this.firestore.collection(this.ticketsCollection).doc(ticket.id);
-        batch.update(docRef, {
-          status: TicketStatus.CANCELLED,
-          cancelledAt: now,
-          updatedAt: now,
-        });
+      // One transaction per order so a purchase racing the cleanup is never overwritten
+      for (const doc of snapshot.docs) {
+        await this.expireOrder(doc.id);
       }
+    } catch (error: any) {
+      throw new TicketError('Failed to cleanup expired reservations', 'ticket/cleanup-failed', error);
+    }
+  }
 
-      await batch.commit();
+  // Event cancellation helpers, used by the cancellation cascade and kept off ITicketService
 
-      // Invalidate caches
-      const cacheKeys = tickets.flatMap(ticket => [
-        this.getTicketCacheKey(ticket.id),
-        this.getEventTicketsCacheKey(ticket.eventId),
-        this.getCustomerTicketsCacheKey(ticket.customerId)
-      ]);
-      await this.invalidateCache(cacheKeys);
+  /**
+   * One page of an event's orders in id order, so a cascade can pick up after the last
+   * order it handled.
+   */
+  async listEventOrdersPage(eventId: string, startAfter: string | undefined, limit: number): Promise<Order[]> {
+    try {
+      let query = this.firestore
+        .collection(this.ordersCollection)
+        .where('eventId', '==', eventId)
+        .orderBy('__name__')
+        .limit(limit);
+      if (startAfter) {
+        query = query.startAfter(startAfter);
+      }
+
+      const snapshot = await query.get();
+      return snapshot.docs.map(doc => this.convertToOrder(doc));
     } catch (error: any) {
-      throw new TicketError('Failed to cleanup expired reservations', 'ticket/cleanup-failed', error);
+      throw new TicketError('Failed to list event orders', 'ticket/list-failed', error);
     }
   }
 
+  /**
+   * Cancel an unpaid order of a cancelled event once its checkout has been stopped. When
+   * the buyer paid before that, the order is completed instead and returned so the caller
+   * can refund it. Returns null when the order was cancelled or expired in the meantime.
+   */
+  async cancelUnpaidOrder(orderId: string, reason: string): Promise<Order | null> {
+    try {
+      const order = await this.getOrder(orderId);
+      if (order.status === OrderStatus.COMPLETED) {
+        return order;
+      }
+      if (order.status !== OrderStatus.RESERVED && order.status !== OrderStatus.PENDING_PAYMENT) {
+        return null;
+      }
+
+      const paymentStatus = await this.voidOrderPayment(order);
+      if (paymentStatus === PaymentStatus.COMPLETED) {
+        return (await this.completePaidOrder(orderId)) ?? this.getOrder(orderId);
+      }
+
+      const now = Timestamp.now();
+      const cancelled = await this.transitionOrder(
+        orderId,
+        [order.status],
+        OrderStatus.CANCELLED,
+        TicketStatus.CANCELLED,
+        { reason },
+        {
+          order: { ...(paymentStatus ? { paymentStatus } : {}), cancelledAt: now },
+          tickets: { cancelledAt: now },
+        }
+      );
+
+      // A checkout started while this ran is stopped on the next pass
+      return cancelled ?? this.cancelUnpaidOrder(orderId, reason);
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to cancel order', 'ticket/cancellation-failed', error);
+    }
+  }
+
+  /**
+   * Give back the payment of a completed order. Returns false when it was refunded already;
+   * throws when the provider refuses, leaving the order and its tickets as they are.
+   */
+  async refundOrderPayment(order: Order, idempotencyKey: string): Promise<boolean> {
+    if (!order.paymentId) {
+      throw new TicketError('Order has no payment to refund', 'ticket/no-payment');
+    }
+
+    const payment = await this.paymentService.getPayment(order.paymentId);
+    if (payment.status === PaymentStatus.REFUNDED) {
+      return false;
+    }
+
+    await this.paymentService.refundPayment({ paymentId: order.paymentId, idempotencyKey });
+    return true;
+  }
+
+  /**
+   * Take the sold tickets of a completed order off sale when its event is cancelled or
+   * moved: REFUNDED once its payment was given back, CANCELLED when there was nothing to
+   * refund or the refund failed.
+   */
+  async releaseCancelledOrder(orderId: string, refunded: boolean, reason: string): Promise<Ticket[]> {
+    try {
+      const now = Timestamp.now();
+      if (refunded) {
+        return await this.releaseOrderTickets(orderId, TicketStatus.REFUNDED, { reason }, {
+          order: { paymentStatus: PaymentStatus.REFUNDED, refundedAt: now },
+          tickets: { paymentStatus: PaymentStatus.REFUNDED, refundedAt: now },
+        });
+      }
+
+      return await this.releaseOrderTickets(orderId, TicketStatus.CANCELLED, { reason }, {
+        tickets: { cancelledAt: now },
+      });
+    } catch (error: any) {
+      if (error instanceof TicketError) throw error;
+      throw new TicketError('Failed to release order tickets', 'ticket/cancellation-failed', error);
+    }
+  }
+
+  // Sell the tickets of an order whose payment went through
+  private async completePaidOrder(orderId: string): Promise<Order | null> {
+    const now = Timestamp.now();
+    const completed = await this.transitionOrder(
+      orderId,
+      [OrderStatus.PENDING_PAYMENT],
+      OrderStatus.COMPLETED,
+      TicketStatus.SOLD,
+      { reason: 'Payment completed' },
+      {
+        order: { paymentStatus: PaymentStatus.COMPLETED, purchasedAt: now },
+        tickets: { paymentStatus: PaymentStatus.COMPLETED, purchasedAt: now },
+      }
+    );
+    if (completed) {
+      await this.registerTicketHolders(completed.id);
+    }
+    return completed;
+  }
+
+  /**
+   * Give back a payment that completed after its order expired or was cancelled. The
+   * tickets are gone, so the buyer is refunded; when the provider refuses, the order keeps
+   * a COMPLETED payment status for follow-up and the webhook fails so it is delivered again.
+   */
+  private async refundLatePayment(orderId: string, paymentId: string): Promise<void> {
+    const order = await this.getOrder(orderId);
+    if (
+      order.paymentId !== paymentId ||
+      (order.status !== OrderStatus.EXPIRED && order.status !== OrderStatus.CANCELLED) ||
+      order.paymentStatus === PaymentStatus.REFUNDED
+    ) {
+      return;
+    }
+
+    const orderRef = this.firestore.collection(this.ordersCollection).doc(orderId);
+    try {
+      await this.paymentService.refundPayment({
+        paymentId,
+        idempotencyKey: `late-payment_${orderId}`,
+      });
+    } catch (error) {
+      await orderRef.update({
+        paymentStatus: PaymentStatus.COMPLETED,
+        updatedAt: Timestamp.now(),
+      });
+      throw error;
+    }
+
+    const now = Timestamp.now();
+    await orderRef.update({
+      paymentStatus: PaymentStatus.REFUNDED,
+      refundedAt: now,
+      updatedAt: now,
+    });
+  }
+
   // Add method to handle payment webhook
   async handlePaymentWebhook(paymentId: string, status: PaymentStatus): Promise<void> {
     try {
       const snapshot = await this.firestore
-        .collection(this.ticketsCollection)
+        .collection(this.ordersCollection)
         .where('paymentId', '==', paymentId)
         .limit(1)
         .get();
@@ -761,23 +2689,38 @@ export class FirebaseTicketService implements ITicketService {
       const doc = snapshot.docs[0];
       if (doc) {
         const now = Timestamp.now();
-        const updates: any = {
-          paymentStatus: status,
-          updatedAt: now,
-        };
 
         if (status === PaymentStatus.COMPLETED) {
-          updates.status = TicketStatus.SOLD;
-          updates.purchasedAt = now;
+          const completed = await this.completePaidOrder(doc.id);
+          if (!completed) {
+            await this.refundLatePayment(doc.id, paymentId);
+          }
+        } else if (status === PaymentStatus.REFUNDED) {
+          await this.releaseOrderTickets(doc.id, TicketStatus.REFUNDED, { reason: 'Payment refunded' }, {
+            order: { paymentStatus: status, refundedAt: now },
+            tickets: { paymentStatus: status, refundedAt: now },
+          });
         } else if (status === PaymentStatus.FAILED || status === PaymentStatus.CANCELLED) {
-          updates.status = TicketStatus.CANCELLED;
-          updates.cancelledAt = now;
+          await this.transitionOrder(
+            doc.id,
+            [OrderStatus.RESERVED, OrderStatus.PENDING_PAYMENT],
+            OrderStatus.CANCELLED,
+            TicketStatus.CANCELLED,
+            { reason: `Payment ${status.toLowerCase()}` },
+            {
+              order: { paymentStatus: status, cancelledAt: now },
+              tickets: { paymentStatus: status, cancelledAt: now },
+            }
+          );
+        } else {
+          await doc.ref.update({
+            paymentStatus: status,
+            updatedAt: now,
+          });
         }
-
-        await doc.ref.update(updates);
       }
     } catch (error: any) {
       throw new TicketError('Failed to handle payment webhook', 'ticket/webhook-failed', error);
     }
   }
-} 
\ No newline at end of file
+}
@@ -1,3 +1,9 @@
 export * from './types';
 export * from './ticket.service';
-export * from './firebase-ticket.service'; 
\ No newline at end of file
+export * from './firebase-ticket.service';
+export * from './ticket-credential';
+export * from './price-tiers';
+export * from './registration-questions';
+export * from './ticket-status';
+export * from './inventory';
+export * from './order-batches';
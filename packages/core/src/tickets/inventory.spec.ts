@@ -0,0 +1,64 @@
+import { applyInventoryChange, assertInventoryAvailable, getTicketInventory } from './inventory';
+import { TicketInventory, TicketSoldOutError, TicketStatus } from './types';
+
+describe('ticket inventory', () => {
+  const fresh: TicketInventory = { available: 10, reserved: 0, sold: 0, cancelled: 0 };
+
+  it('starts legacy ticket types with their full quantity available', () => {
+    expect(getTicketInventory({ quantity: 25 })).toEqual({ available: 25, reserved: 0, sold: 0, cancelled: 0 });
+    expect(getTicketInventory({ quantity: 25, inventory: fresh })).toBe(fresh);
+  });
+
+  it('moves reserved tickets out of available', () => {
+    expect(applyInventoryChange(fresh, null, TicketStatus.RESERVED, 3)).toEqual({
+      available: 7,
+      reserved: 3,
+      sold: 0,
+      cancelled: 0,
+    });
+  });
+
+  it('moves paid reservations from reserved to sold', () => {
+    const reserved = applyInventoryChange(fresh, null, TicketStatus.RESERVED, 3);
+    expect(applyInventoryChange(reserved, TicketStatus.RESERVED, TicketStatus.SOLD, 2)).toEqual({
+      available: 7,
+      reserved: 1,
+      sold: 2,
+      cancelled: 0,
+    });
+  });
+
+  it.each([TicketStatus.CANCELLED, TicketStatus.REFUNDED])('puts %s tickets back on sale', (status) => {
+    const sold = applyInventoryChange(applyInventoryChange(fresh, null, TicketStatus.RESERVED, 2), TicketStatus.RESERVED, TicketStatus.SOLD, 2);
+    expect(applyInventoryChange(sold, TicketStatus.SOLD, status)).toEqual({
+      available: 9,
+      reserved: 0,
+      sold: 1,
+      cancelled: 1,
+    });
+  });
+
+  it('keeps available, reserved and sold adding up to the quantity', () => {
+    let inventory = applyInventoryChange(fresh, null, TicketStatus.RESERVED, 4);
+    inventory = applyInventoryChange(inventory, TicketStatus.RESERVED, TicketStatus.SOLD, 3);
+    inventory = applyInventoryChange(inventory, TicketStatus.RESERVED, TicketStatus.CANCELLED);
+    inventory = applyInventoryChange(inventory, TicketStatus.SOLD, TicketStatus.REFUNDED);
+
+    expect(inventory.available + inventory.reserved + inventory.sold).toBe(10);
+    expect(inventory).toEqual({ available: 8, reserved: 0, sold: 2, cancelled: 2 });
+  });
+
+  it('refuses reservations larger than what is left', () => {
+    const inventory = applyInventoryChange(fresh, null, TicketStatus.RESERVED, 8);
+
+    expect(() => assertInventoryAvailable('vip', inventory, 2)).not.toThrow();
+    expect(() => assertInventoryAvailable('vip', inventory, 3)).toThrow(TicketSoldOutError);
+  });
+
+  it('refuses any reservation once sold out', () => {
+    const soldOut = applyInventoryChange(fresh, null, TicketStatus.RESERVED, 10);
+
+    expect(soldOut.available).toBe(0);
+    expect(() => assertInventoryAvailable('vip', soldOut, 1)).toThrow(TicketSoldOutError);
+  });
+});
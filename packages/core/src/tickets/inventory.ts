@@ -0,0 +1,45 @@
+import { TicketInventory, TicketSoldOutError, TicketStatus } from './types';
+import { isTicketReleased } from './ticket-status';
+
+// Ticket types created before counters existed start with their full quantity available
+export function getTicketInventory(data: { [field: string]: any }): TicketInventory {
+  return data.inventory ?? {
+    available: data.quantity,
+    reserved: 0,
+    sold: 0,
+    cancelled: 0,
+  };
+}
+
+/**
+ * Apply a status change for `quantity` tickets to a set of counters.
+ * `from` is null for tickets that are being created by a reservation.
+ */
+export function applyInventoryChange(
+  inventory: TicketInventory,
+  from: TicketStatus | null,
+  to: TicketStatus,
+  quantity: number = 1
+): TicketInventory {
+  const next = { ...inventory };
+
+  if (from === null) next.available -= quantity;
+  if (from === TicketStatus.RESERVED) next.reserved -= quantity;
+  if (from === TicketStatus.SOLD) next.sold -= quantity;
+
+  if (to === TicketStatus.RESERVED) next.reserved += quantity;
+  if (to === TicketStatus.SOLD) next.sold += quantity;
+  if (isTicketReleased(to)) {
+    next.cancelled += quantity;
+    next.available += quantity;
+  }
+
+  return next;
+}
+
+// Reservations never take more than what is left, so a ticket type cannot be oversold
+export function assertInventoryAvailable(ticketTypeId: string, inventory: TicketInventory, quantity: number): void {
+  if (inventory.available < quantity) {
+    throw new TicketSoldOutError(ticketTypeId);
+  }
+}
@@ -0,0 +1,111 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { FirebaseTicketService } from './firebase-ticket.service';
+import { getStatsIncrements, processOrderBatch, refundOrderAttempt } from './order-batches';
+import { Order } from './types';
+import { PaymentError } from '../payments';
+import { FakeFirestore } from '../testing/fake-firestore';
+import { createOrder } from '../testing/fixtures';
+
+describe('order batches', () => {
+  let firestore: FakeFirestore;
+  let ticketService: { listEventOrdersPage: jest.Mock; refundOrderPayment: jest.Mock };
+
+  const orders = (count: number, from = 1) =>
+    Array.from({ length: count }, (_, index) => createOrder({ id: `order-${String(from + index).padStart(3, '0')}` }));
+
+  const progressRef = () => firestore.collection('jobs').doc('job-1') as unknown as FirebaseFirestore.DocumentReference;
+
+  beforeEach(async () => {
+    firestore = new FakeFirestore();
+    await firestore.collection('jobs').doc('job-1').set({ stats: {} });
+    ticketService = { listEventOrdersPage: jest.fn(), refundOrderPayment: jest.fn() };
+  });
+
+  describe('processOrderBatch', () => {
+    const run = (cursor: string | undefined, handle: (order: Order) => Promise<Record<string, unknown> | void> = async () => undefined) =>
+      processOrderBatch(ticketService as unknown as FirebaseTicketService, { eventId: 'event-1', cursor, progressRef: progressRef() }, handle);
+
+    it('saves the cursor and the update of every order it handles', async () => {
+      ticketService.listEventOrdersPage.mockResolvedValue(orders(2));
+      const handle = jest.fn(async () => getStatsIncrements({ ordersProcessed: 1 }));
+
+      expect(await run(undefined, handle)).toBe(true);
+      expect(handle).toHaveBeenCalledTimes(2);
+
+      const job = (await firestore.collection('jobs').doc('job-1').get()).data()!;
+      expect(job.cursor).toBe('order-002');
+      expect(job.stats).toEqual({ ordersProcessed: 2 });
+    });
+
+    it('walks an event across pages until a page comes back short', async () => {
+      ticketService.listEventOrdersPage
+        .mockResolvedValueOnce(orders(50))
+        .mockResolvedValueOnce(orders(3, 51));
+
+      expect(await run(undefined)).toBe(false);
+      const { cursor } = (await firestore.collection('jobs').doc('job-1').get()).data()!;
+      expect(cursor).toBe('order-050');
+
+      expect(await run(cursor)).toBe(true);
+      expect(ticketService.listEventOrdersPage.mock.calls).toEqual([
+        ['event-1', undefined, 50],
+        ['event-1', 'order-050', 50],
+      ]);
+      expect((await firestore.collection('jobs').doc('job-1').get()).get('cursor')).toBe('order-053');
+    });
+
+    it('keeps the cursor on the last order handled when one fails', async () => {
+      ticketService.listEventOrdersPage.mockResolvedValue(orders(3));
+      const handle = jest.fn(async (order: Order) => {
+        if (order.id === 'order-002') throw new Error('provider down');
+      });
+
+      await expect(run(undefined, handle)).rejects.toThrow('provider down');
+      expect((await firestore.collection('jobs').doc('job-1').get()).get('cursor')).toBe('order-001');
+    });
+  });
+
+  describe('refundOrderAttempt', () => {
+    const order = createOrder();
+
+    it.each([
+      [true, 'refunded'],
+      [false, 'already-refunded'],
+    ])('reports a refund call returning %s as %s', async (refunded, outcome) => {
+      ticketService.refundOrderPayment.mockResolvedValue(refunded);
+
+      expect(await refundOrderAttempt(ticketService as unknown as FirebaseTicketService, order, 'event-cancel', 1))
+        .toEqual({ outcome });
+    });
+
+    it('ties the idempotency key to the attempt', async () => {
+      ticketService.refundOrderPayment.mockResolvedValue(true);
+
+      await refundOrderAttempt(ticketService as unknown as FirebaseTicketService, order, 'event-cancel', 1);
+      await refundOrderAttempt(ticketService as unknown as FirebaseTicketService, order, 'event-cancel', 2);
+
+      expect(ticketService.refundOrderPayment.mock.calls).toEqual([
+        [order, 'event-cancel_order-1_1'],
+        [order, 'event-cancel_order-1_2'],
+      ]);
+    });
+
+    it('returns the error of a failed refund instead of throwing', async () => {
+      ticketService.refundOrderPayment.mockRejectedValue(new PaymentError('Card network unavailable', 'payment/refund-failed'));
+
+      expect(await refundOrderAttempt(ticketService as unknown as FirebaseTicketService, order, 'event-cancel', 1)).toEqual({
+        outcome: 'failed',
+        error: { code: 'payment/refund-failed', message: 'Card network unavailable' },
+      });
+    });
+  });
+
+  describe('getStatsIncrements', () => {
+    it('leaves out counters that did not change', () => {
+      const increments = getStatsIncrements({ ordersProcessed: 1, refundsIssued: 0, refundsFailed: undefined });
+
+      expect(Object.keys(increments)).toEqual(['stats.ordersProcessed']);
+      expect(increments['stats.ordersProcessed']!.isEqual(FieldValue.increment(1))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { FirebaseTicketService } from './firebase-ticket.service';
+import { Order } from './types';
+
+// Helpers for the background jobs that walk every order of an event, such as cancellations and reschedules
+
+const orderBatchSize = 50; // Orders per run; each one may call the payment provider
+
+export type OrderRefundOutcome = 'refunded' | 'already-refunded' | 'failed';
+
+export interface OrderRefundError {
+  code?: string;
+  message: string;
+}
+
+export interface OrderRefundResult {
+  outcome: OrderRefundOutcome;
+  error?: OrderRefundError; // Set when the refund failed
+}
+
+export interface OrderBatch {
+  eventId: string;
+  cursor?: string; // Last order handled by the previous batch
+  progressRef: FirebaseFirestore.DocumentReference; // Document the cursor is saved on
+}
+
+// Increments for a `stats` map, leaving out counters that did not change
+export function getStatsIncrements(changes: Record<string, number | undefined>): Record<string, FirebaseFirestore.FieldValue> {
+  return Object.fromEntries(
+    Object.entries(changes)
+      .filter(([, count]) => count)
+      .map(([field, count]) => [`stats.${field}`, FieldValue.increment(count!)])
+  );
+}
+
+/**
+ * Run one page of an event's orders through `handle`. The cursor is saved after every
+ * order, together with whatever update `handle` returns, so an interrupted batch resumes
+ * where it stopped. Returns true once every order was seen.
+ */
+export async function processOrderBatch(
+  ticketService: FirebaseTicketService,
+  batch: OrderBatch,
+  handle: (order: Order) => Promise<Record<string, unknown> | void>
+): Promise<boolean> {
+  const orders = await ticketService.listEventOrdersPage(batch.eventId, batch.cursor, orderBatchSize);
+
+  for (const order of orders) {
+    const update = await handle(order);
+    await batch.progressRef.update({
+      ...update,
+      cursor: order.id,
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  return orders.length < orderBatchSize;
+}
+
+/**
+ * Refund a paid order without throwing. The idempotency key is tied to the attempt, so
+ * running a batch again never refunds twice while a retry gets through after a failure.
+ */
+export async function refundOrderAttempt(
+  ticketService: FirebaseTicketService,
+  order: Order,
+  keyPrefix: string,
+  attempt: number
+): Promise<OrderRefundResult> {
+  try {
+    const refunded = await ticketService.refundOrderPayment(order, `${keyPrefix}_${order.id}_${attempt}`);
+    return { outcome: refunded ? 'refunded' : 'already-refunded' };
+  } catch (error: any) {
+    return { outcome: 'failed', error: { code: error?.code, message: error?.message ?? 'Refund failed' } };
+  }
+}
@@ -0,0 +1,100 @@
+import { resolvePriceTier, validatePriceTiers } from './price-tiers';
+import { PriceTier, TicketError, TicketType } from './types';
+
+const earlyBird: PriceTier = {
+  name: 'Early Bird',
+  price: { amount: 500, currency: 'PHP' },
+  endsAt: new Date('2026-10-10T00:00:00Z'),
+  maxSold: 20,
+};
+const regular: PriceTier = {
+  name: 'Regular',
+  price: { amount: 800, currency: 'PHP' },
+  endsAt: new Date('2026-10-31T00:00:00Z'),
+};
+const late: PriceTier = {
+  name: 'Late',
+  price: { amount: 1000, currency: 'PHP' },
+};
+
+function createTicketType(priceTiers: PriceTier[]): TicketType {
+  return {
+    id: 'general',
+    eventId: 'event-1',
+    name: 'General Admission',
+    price: { amount: 900, currency: 'PHP' },
+    priceTiers,
+    quantity: 100,
+    maxPerCustomer: 4,
+    requireApproval: false,
+    allowTransfers: true,
+    reservedSeating: false,
+    hidden: false,
+    approvalWindowHours: 72,
+    questions: [],
+    inventory: { available: 100, reserved: 0, sold: 0, cancelled: 0 },
+    createdAt: new Date('2026-09-01T00:00:00Z'),
+    updatedAt: new Date('2026-09-01T00:00:00Z'),
+  };
+}
+
+describe('price tiers', () => {
+  const ticketType = createTicketType([earlyBird, regular, late]);
+  const beforeEarlyBirdEnds = new Date('2026-10-05T00:00:00Z');
+
+  describe('resolvePriceTier', () => {
+    it('sells at the first open tier and announces the next one', () => {
+      expect(resolvePriceTier(ticketType, 0, beforeEarlyBirdEnds)).toEqual({
+        price: earlyBird.price,
+        tier: earlyBird,
+        nextTier: regular,
+      });
+    });
+
+    it('closes a tier once enough tickets are reserved or sold', () => {
+      expect(resolvePriceTier(ticketType, 19, beforeEarlyBirdEnds).tier).toBe(earlyBird);
+      expect(resolvePriceTier(ticketType, 20, beforeEarlyBirdEnds).tier).toBe(regular);
+    });
+
+    it('closes a tier at its end date', () => {
+      expect(resolvePriceTier(ticketType, 0, new Date('2026-10-10T00:00:00Z')).tier).toBe(regular);
+    });
+
+    it('skips tiers that have ended when announcing the next one', () => {
+      const resolved = resolvePriceTier(ticketType, 20, new Date('2026-11-01T00:00:00Z'));
+
+      expect(resolved).toEqual({ price: late.price, tier: late, nextTier: undefined });
+    });
+
+    it('reads end dates of cached ticket types', () => {
+      const cached = createTicketType([{ ...earlyBird, endsAt: '2026-10-10T00:00:00.000Z' as any }, late]);
+
+      expect(resolvePriceTier(cached, 0, new Date('2026-10-11T00:00:00Z')).tier).toEqual(late);
+    });
+
+    it('falls back to the base price once every tier has closed', () => {
+      const closed = createTicketType([earlyBird, regular]);
+
+      expect(resolvePriceTier(closed, 0, new Date('2026-11-01T00:00:00Z'))).toEqual({ price: closed.price });
+      expect(resolvePriceTier(createTicketType([]), 0)).toEqual({ price: closed.price });
+    });
+  });
+
+  describe('validatePriceTiers', () => {
+    const price = { amount: 900, currency: 'PHP' };
+
+    it('accepts tiers that close in order', () => {
+      expect(() => validatePriceTiers([earlyBird, regular, late], price, 100)).not.toThrow();
+    });
+
+    it.each<[string, PriceTier[]]>([
+      ['a tier in another currency', [{ ...earlyBird, price: { amount: 10, currency: 'USD' } }]],
+      ['a tier closing after more tickets than are on sale', [{ ...earlyBird, maxSold: 101 }]],
+      ['a tier ending before the previous one', [regular, earlyBird]],
+      ['a tier closing before the previous one', [earlyBird, { ...late, maxSold: 10 }]],
+    ])('refuses %s', (_reason, tiers) => {
+      expect(() => validatePriceTiers(tiers, price, 100)).toThrow(TicketError);
+      expect(() => validatePriceTiers(tiers, price, 100)).toThrow(expect.objectContaining({ code: 'ticket/invalid-price-tiers' }));
+    });
+  });
+});
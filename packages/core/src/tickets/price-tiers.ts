@@ -0,0 +1,60 @@
+import { PriceTier, TicketError, TicketPrice, TicketType } from './types';
+
+export interface ResolvedPriceTier {
+  price: TicketPrice;
+  tier?: PriceTier;
+  nextTier?: PriceTier;
+}
+
+// Cached ticket types come back from JSON, so endsAt may be an ISO string
+function hasEnded(tier: PriceTier, now: Date): boolean {
+  return !!tier.endsAt && new Date(tier.endsAt).getTime() <= now.getTime();
+}
+
+function isTierOpen(tier: PriceTier, committed: number, now: Date): boolean {
+  return !hasEnded(tier, now) && (tier.maxSold === undefined || committed < tier.maxSold);
+}
+
+/**
+ * Find the tier the next ticket sells at, given how many tickets are already reserved
+ * or sold. Falls back to the base price once every tier has closed.
+ */
+export function resolvePriceTier(ticketType: TicketType, committed: number, now: Date = new Date()): ResolvedPriceTier {
+  const tiers = ticketType.priceTiers;
+  const index = tiers.findIndex(tier => isTierOpen(tier, committed, now));
+  if (index === -1) {
+    return { price: ticketType.price };
+  }
+
+  return {
+    price: tiers[index]!.price,
+    tier: tiers[index],
+    nextTier: tiers.slice(index + 1).find(tier => !hasEnded(tier, now)),
+  };
+}
+
+/**
+ * Tiers must share the ticket type's currency and close in order, or a later tier
+ * could never be reached.
+ */
+export function validatePriceTiers(tiers: PriceTier[], price: TicketPrice, quantity: number): void {
+  const invalid = (message: string) => new TicketError(message, 'ticket/invalid-price-tiers');
+
+  for (const [index, tier] of tiers.entries()) {
+    if (tier.price.currency !== price.currency) {
+      throw invalid(`Tier ${tier.name} must use ${price.currency}`);
+    }
+    if (tier.maxSold !== undefined && tier.maxSold > quantity) {
+      throw invalid(`Tier ${tier.name} closes after more tickets than are on sale`);
+    }
+
+    const previous = tiers[index - 1];
+    if (!previous) continue;
+    if (tier.endsAt && previous.endsAt && tier.endsAt <= previous.endsAt) {
+      throw invalid(`Tier ${tier.name} must end after tier ${previous.name}`);
+    }
+    if (tier.maxSold !== undefined && previous.maxSold !== undefined && tier.maxSold <= previous.maxSold) {
+      throw invalid(`Tier ${tier.name} must close after more tickets than tier ${previous.name}`);
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { collectAnswers, validateRegistrationQuestions } from './registration-questions';
+import {
+  InvalidRegistrationAnswersError,
+  RegistrationQuestion,
+  RegistrationQuestionScope,
+  RegistrationQuestionType,
+} from './types';
+
+const createQuestion = (overrides: Partial<RegistrationQuestion> = {}): RegistrationQuestion => ({
+  id: 'company',
+  label: 'Company',
+  type: RegistrationQuestionType.TEXT,
+  required: false,
+  scope: RegistrationQuestionScope.ATTENDEE,
+  options: [],
+  ...overrides,
+});
+
+describe('registration questions', () => {
+  describe('validateRegistrationQuestions', () => {
+    it('fills in the defaults of questions from request bodies', () => {
+      const [question] = validateRegistrationQuestions([
+        { id: 'company', label: 'Company', type: RegistrationQuestionType.TEXT } as RegistrationQuestion,
+      ]);
+
+      expect(question).toEqual({
+        id: 'company',
+        label: 'Company',
+        type: RegistrationQuestionType.TEXT,
+        required: false,
+        scope: RegistrationQuestionScope.ATTENDEE,
+        options: [],
+      });
+    });
+
+    it.each([
+      ['Question Company is incomplete', [createQuestion({ type: 'DATE' as RegistrationQuestionType })]],
+      ['Question ID company is used more than once', [createQuestion(), createQuestion({ label: 'Employer' })]],
+      ['Question Size needs at least two options', [createQuestion({ label: 'Size', type: RegistrationQuestionType.SELECT, options: ['M'] })]],
+      ['Question Company is free text and cannot have options', [createQuestion({ options: ['Acme'] })]],
+      ['Question Size has duplicate options', [createQuestion({ label: 'Size', type: RegistrationQuestionType.SELECT, options: ['M', 'M'] })]],
+    ])('refuses the form: %s', (message, questions) => {
+      expect(() => validateRegistrationQuestions(questions)).toThrow(message);
+      expect(() => validateRegistrationQuestions(questions)).toThrow(expect.objectContaining({ code: 'ticket/invalid-questions' }));
+    });
+  });
+
+  describe('collectAnswers', () => {
+    const questions = [
+      createQuestion({ required: true }),
+      createQuestion({ id: 'size', label: 'T-shirt size', type: RegistrationQuestionType.SELECT, options: ['S', 'M', 'L'] }),
+      createQuestion({ id: 'topics', label: 'Topics', type: RegistrationQuestionType.CHECKBOX, options: ['AI', 'Web'] }),
+      createQuestion({ id: 'terms', label: 'I accept the terms', type: RegistrationQuestionType.CHECKBOX, required: true }),
+      createQuestion({ id: 'invoice', label: 'Invoice name', scope: RegistrationQuestionScope.ORDER }),
+    ];
+
+    it('keeps the answers to the scope in the order of the form', () => {
+      expect(collectAnswers(questions, RegistrationQuestionScope.ATTENDEE, {
+        terms: true,
+        topics: ['Web'],
+        company: '  Acme  ',
+        size: 'M',
+      })).toEqual([
+        { questionId: 'company', label: 'Company', scope: RegistrationQuestionScope.ATTENDEE, value: 'Acme' },
+        { questionId: 'size', label: 'T-shirt size', scope: RegistrationQuestionScope.ATTENDEE, value: 'M' },
+        { questionId: 'topics', label: 'Topics', scope: RegistrationQuestionScope.ATTENDEE, value: ['Web'] },
+        { questionId: 'terms', label: 'I accept the terms', scope: RegistrationQuestionScope.ATTENDEE, value: true },
+      ]);
+    });
+
+    it('leaves out optional questions that were not answered', () => {
+      expect(collectAnswers(questions, RegistrationQuestionScope.ORDER, {})).toEqual([]);
+      expect(collectAnswers(questions, RegistrationQuestionScope.ATTENDEE, { company: 'Acme', terms: true }))
+        .toEqual([expect.objectContaining({ questionId: 'company' }), expect.objectContaining({ questionId: 'terms' })]);
+    });
+
+    it('ignores answers to questions that are not asked', () => {
+      expect(collectAnswers(questions, RegistrationQuestionScope.ORDER, { invoice: 'Acme Inc.', company: 'Acme', unknown: 'x' }))
+        .toEqual([{ questionId: 'invoice', label: 'Invoice name', scope: RegistrationQuestionScope.ORDER, value: 'Acme Inc.' }]);
+      expect(collectAnswers([], RegistrationQuestionScope.ATTENDEE, { company: 'Acme' })).toEqual([]);
+    });
+
+    it.each([
+      ['a missing required answer', { terms: true }, 'Company: Required'],
+      ['a blank required answer', { company: '   ', terms: true }, 'Company: An answer is required'],
+      ['a box that must be ticked', { company: 'Acme', terms: false }, 'I accept the terms'],
+      ['a choice that is not an option', { company: 'Acme', terms: true, size: 'XXL' }, 'T-shirt size'],
+      ['a multiple choice with an unknown option', { company: 'Acme', terms: true, topics: ['AI', 'Crypto'] }, 'Topics'],
+      ['an answer of the wrong type', { company: 'Acme', terms: true, size: ['M'] }, 'T-shirt size'],
+      ['an answer over the length limit', { company: 'A'.repeat(1001), terms: true }, 'Company'],
+    ])('refuses %s', (_reason, answers, message) => {
+      expect(() => collectAnswers(questions, RegistrationQuestionScope.ATTENDEE, answers)).toThrow(InvalidRegistrationAnswersError);
+      expect(() => collectAnswers(questions, RegistrationQuestionScope.ATTENDEE, answers)).toThrow(message);
+    });
+
+    it('asks for at least one option of a required multiple choice', () => {
+      const required = [createQuestion({ id: 'topics', label: 'Topics', type: RegistrationQuestionType.CHECKBOX, options: ['AI', 'Web'], required: true })];
+
+      expect(() => collectAnswers(required, RegistrationQuestionScope.ATTENDEE, { topics: [] })).toThrow('Topics: Pick at least one option');
+    });
+  });
+});
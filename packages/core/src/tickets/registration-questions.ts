@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import {
+  InvalidRegistrationAnswersError,
+  RegistrationAnswer,
+  RegistrationAnswers,
+  RegistrationQuestion,
+  RegistrationQuestionScope,
+  RegistrationQuestionType,
+  TicketError,
+  registrationQuestionSchema,
+} from './types';
+
+const defaultMaxLength = 1000;
+
+function answerSchema(question: RegistrationQuestion): z.ZodTypeAny {
+  let schema: z.ZodTypeAny;
+  switch (question.type) {
+    case RegistrationQuestionType.TEXT: {
+      const text = z.string().trim().max(question.maxLength ?? defaultMaxLength);
+      schema = question.required ? text.min(1, 'An answer is required') : text;
+      break;
+    }
+    case RegistrationQuestionType.SELECT:
+      schema = z.enum(question.options as [string, ...string[]]);
+      break;
+    default:
+      if (question.options.length > 0) {
+        const choices = z.array(z.enum(question.options as [string, ...string[]]));
+        schema = question.required ? choices.min(1, 'Pick at least one option') : choices;
+      } else {
+        schema = question.required ? z.literal(true) : z.boolean();
+      }
+  }
+  return question.required ? schema : schema.optional();
+}
+
+/**
+ * Check an organizer's form before it is saved; questions come from request bodies, so
+ * they are parsed here to apply the schema defaults.
+ */
+export function validateRegistrationQuestions(questions: RegistrationQuestion[]): RegistrationQuestion[] {
+  const invalid = (message: string) => new TicketError(message, 'ticket/invalid-questions');
+
+  const parsed = questions.map(question => {
+    const result = registrationQuestionSchema.safeParse(question);
+    if (!result.success) {
+      throw invalid(`Question ${question.label ?? question.id} is incomplete`);
+    }
+    return result.data;
+  });
+
+  const ids = new Set<string>();
+  for (const question of parsed) {
+    if (ids.has(question.id)) {
+      throw invalid(`Question ID ${question.id} is used more than once`);
+    }
+    ids.add(question.id);
+
+    if (question.type === RegistrationQuestionType.SELECT && question.options.length < 2) {
+      throw invalid(`Question ${question.label} needs at least two options`);
+    }
+    if (question.type === RegistrationQuestionType.TEXT && question.options.length > 0) {
+      throw invalid(`Question ${question.label} is free text and cannot have options`);
+    }
+    if (new Set(question.options).size !== question.options.length) {
+      throw invalid(`Question ${question.label} has duplicate options`);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Validate the answers to one scope of a ticket type's form. Answers to questions that
+ * are not asked are ignored, since order answers are shared by every ticket type.
+ */
+export function collectAnswers(
+  questions: RegistrationQuestion[],
+  scope: RegistrationQuestionScope,
+  answers: RegistrationAnswers = {}
+): RegistrationAnswer[] {
+  const asked = questions.filter(question => question.scope === scope);
+  if (asked.length === 0) {
+    return [];
+  }
+
+  const schema = z.object(Object.fromEntries(asked.map(question => [question.id, answerSchema(question)])));
+  const result = schema.safeParse(answers);
+  if (!result.success) {
+    const issue = result.error.issues[0]!;
+    const question = asked.find(question => question.id === issue.path[0]);
+    throw new InvalidRegistrationAnswersError(question ? `${question.label}: ${issue.message}` : issue.message);
+  }
+
+  return asked.flatMap(question => {
+    const value = result.data[question.id];
+    if (value === undefined || value === '') {
+      return [];
+    }
+    return [{ questionId: question.id, label: question.label, scope, value }];
+  });
+}
@@ -0,0 +1,59 @@
+import { TicketCredentialSigner } from './ticket-credential';
+import { InvalidTicketCredentialError } from './types';
+
+describe('TicketCredentialSigner', () => {
+  const signer = new TicketCredentialSigner('credential-secret');
+  const ticket = { id: 'ticket-1', eventId: 'event-1', ticketTypeId: 'general', customerId: 'customer-1' };
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-11-03T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('verifies the credentials it issues', () => {
+    const token = signer.issue(ticket, 2);
+
+    expect(token).toMatch(/^sft1\.[\w-]+\.[\w-]+$/);
+    expect(signer.verify(` ${token}\n`)).toEqual({
+      tid: 'ticket-1',
+      eid: 'event-1',
+      ttid: 'general',
+      hid: 'customer-1',
+      ver: 2,
+      iat: Date.parse('2026-11-03T10:00:00Z') / 1000,
+    });
+  });
+
+  it('refuses credentials signed with another secret', () => {
+    const token = new TicketCredentialSigner('other-secret').issue(ticket, 1);
+
+    expect(() => signer.verify(token)).toThrow('signature mismatch');
+  });
+
+  it('refuses credentials whose claims were changed', () => {
+    const [prefix, , signature] = signer.issue(ticket, 1).split('.');
+    const [, payload] = signer.issue({ ...ticket, id: 'ticket-2' }, 1).split('.');
+
+    expect(() => signer.verify(`${prefix}.${payload}.${signature}`)).toThrow('signature mismatch');
+  });
+
+  it('refuses truncated signatures', () => {
+    const token = signer.issue(ticket, 1);
+
+    expect(() => signer.verify(token.slice(0, -4))).toThrow('signature mismatch');
+  });
+
+  it.each([
+    ['an unknown prefix', (token: string) => token.replace(/^sft1/, 'sft2')],
+    ['a missing signature', (token: string) => token.split('.').slice(0, 2).join('.')],
+    ['an empty token', () => ''],
+  ])('refuses credentials with %s', (_reason, mangle) => {
+    const token = mangle(signer.issue(ticket, 1));
+
+    expect(() => signer.verify(token)).toThrow(InvalidTicketCredentialError);
+    expect(() => signer.verify(token)).toThrow('Malformed ticket credential');
+  });
+});
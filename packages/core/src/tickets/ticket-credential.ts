@@ -0,0 +1,60 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { Ticket, InvalidTicketCredentialError } from './types';
+
+// Bump when the claim layout changes so old scanners reject tokens they cannot read
+const CREDENTIAL_PREFIX = 'sft1';
+
+export interface TicketCredentialClaims {
+  tid: string;  // Ticket ID
+  eid: string;  // Event ID
+  ttid: string; // Ticket type ID
+  hid: string;  // Holder (customer) ID
+  ver: number;  // Credential version, bumped whenever the ticket is reissued
+  iat: number;  // Issued at (epoch seconds)
+}
+
+/**
+ * Issues and verifies the HMAC-signed token that is rendered as a ticket's QR code.
+ * Format: `sft1.<base64url claims>.<base64url signature>`
+ */
+export class TicketCredentialSigner {
+  constructor(private secret: string) {}
+
+  private signPayload(payload: string): Buffer {
+    return createHmac('sha256', this.secret).update(`${CREDENTIAL_PREFIX}.${payload}`).digest();
+  }
+
+  issue(ticket: Pick<Ticket, 'id' | 'eventId' | 'ticketTypeId' | 'customerId'>, version: number): string {
+    const claims: TicketCredentialClaims = {
+      tid: ticket.id,
+      eid: ticket.eventId,
+      ttid: ticket.ticketTypeId,
+      hid: ticket.customerId,
+      ver: version,
+      iat: Math.floor(Date.now() / 1000),
+    };
+
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = this.signPayload(payload).toString('base64url');
+    return `${CREDENTIAL_PREFIX}.${payload}.${signature}`;
+  }
+
+  verify(token: string): TicketCredentialClaims {
+    const [prefix, payload, signature] = token.trim().split('.');
+    if (prefix !== CREDENTIAL_PREFIX || !payload || !signature) {
+      throw new InvalidTicketCredentialError('Malformed ticket credential');
+    }
+
+    const expected = this.signPayload(payload);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new InvalidTicketCredentialError('Ticket credential signature mismatch');
+    }
+
+    try {
+      return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as TicketCredentialClaims;
+    } catch {
+      throw new InvalidTicketCredentialError('Malformed ticket credential');
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { assertTicketTransition, canTransitionTicket, isTicketReleased } from './ticket-status';
+import { InvalidTicketTransitionError, TicketStatus } from './types';
+
+describe('ticket status transitions', () => {
+  it.each([
+    [TicketStatus.AVAILABLE, TicketStatus.RESERVED],
+    [TicketStatus.RESERVED, TicketStatus.SOLD],
+    [TicketStatus.RESERVED, TicketStatus.CANCELLED],
+    [TicketStatus.SOLD, TicketStatus.CANCELLED],
+    [TicketStatus.SOLD, TicketStatus.REFUNDED],
+  ])('allows %s to %s', (from, to) => {
+    expect(canTransitionTicket(from, to)).toBe(true);
+    expect(() => assertTicketTransition('ticket-1', from, to)).not.toThrow();
+  });
+
+  it.each([
+    [TicketStatus.AVAILABLE, TicketStatus.SOLD],
+    [TicketStatus.RESERVED, TicketStatus.REFUNDED],
+    [TicketStatus.SOLD, TicketStatus.RESERVED],
+    [TicketStatus.SOLD, TicketStatus.SOLD],
+  ])('refuses %s to %s', (from, to) => {
+    expect(canTransitionTicket(from, to)).toBe(false);
+    expect(() => assertTicketTransition('ticket-1', from, to)).toThrow(InvalidTicketTransitionError);
+  });
+
+  it.each([TicketStatus.CANCELLED, TicketStatus.REFUNDED])('keeps %s tickets final', (from) => {
+    for (const to of Object.values(TicketStatus)) {
+      expect(canTransitionTicket(from, to)).toBe(false);
+    }
+  });
+
+  it('reports the ticket and both statuses when refusing', () => {
+    let error: any;
+    try {
+      assertTicketTransition('ticket-1', TicketStatus.REFUNDED, TicketStatus.SOLD);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(InvalidTicketTransitionError);
+    expect(error.code).toBe('ticket/invalid-transition');
+    expect(error.from).toBe(TicketStatus.REFUNDED);
+    expect(error.to).toBe(TicketStatus.SOLD);
+    expect(error.message).toContain('ticket-1');
+  });
+
+  it('treats only cancelled and refunded tickets as released', () => {
+    expect(Object.values(TicketStatus).filter(isTicketReleased)).toEqual([
+      TicketStatus.CANCELLED,
+      TicketStatus.REFUNDED,
+    ]);
+  });
+});
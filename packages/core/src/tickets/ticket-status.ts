@@ -0,0 +1,25 @@
+import { InvalidTicketTransitionError, TicketStatus } from './types';
+
+// Every status a ticket may move to from each status. Cancelled and refunded tickets are final.
+export const ticketStatusTransitions: Record<TicketStatus, TicketStatus[]> = {
+  [TicketStatus.AVAILABLE]: [TicketStatus.RESERVED],
+  [TicketStatus.RESERVED]: [TicketStatus.SOLD, TicketStatus.CANCELLED],
+  [TicketStatus.SOLD]: [TicketStatus.CANCELLED, TicketStatus.REFUNDED],
+  [TicketStatus.CANCELLED]: [],
+  [TicketStatus.REFUNDED]: [],
+};
+
+export function canTransitionTicket(from: TicketStatus, to: TicketStatus): boolean {
+  return ticketStatusTransitions[from].includes(to);
+}
+
+export function assertTicketTransition(ticketId: string, from: TicketStatus, to: TicketStatus): void {
+  if (!canTransitionTicket(from, to)) {
+    throw new InvalidTicketTransitionError(ticketId, from, to);
+  }
+}
+
+// Tickets in these statuses no longer hold inventory, capacity, session places or seats
+export function isTicketReleased(status: TicketStatus): boolean {
+  return status === TicketStatus.CANCELLED || status === TicketStatus.REFUNDED;
+}
@@ -1,12 +1,21 @@
 import {
   Ticket,
   TicketType,
+  Order,
+  OrderAddOn,
+  TicketTransfer,
+  InitiateTransferRequest,
+  AcceptTransferRequest,
   CreateTicketTypeRequest,
   UpdateTicketTypeRequest,
   ReserveTicketRequest,
+  ReserveAddOnsRequest,
   PurchaseTicketRequest,
-  TicketApprovalStatus
+  BulkApprovalResult,
+  TicketApprovalStatus,
+  TicketStatusChange
 } from './types';
+import { EventViewer } from '../events';
 
 export interface ITicketService {
   // Ticket Type Management
@@ -14,23 +23,48 @@ export interface ITicketService {
   getTicketType(ticketTypeId: string): Promise<TicketType>;
   updateTicketType(organizerId: string, request: UpdateTicketTypeRequest): Promise<TicketType>;
   deleteTicketType(organizerId: string, ticketTypeId: string): Promise<void>;
-  listEventTicketTypes(eventId: string): Promise<TicketType[]>;
+  listEventTicketTypes(eventId: string, viewer?: EventViewer, unlockCode?: string): Promise<TicketType[]>;
   
   // Ticket Purchase Flow
-  reserveTickets(customerId: string, request: ReserveTicketRequest, ip: string): Promise<Ticket[]>;
-  purchaseTickets(customerId: string, request: PurchaseTicketRequest, ip: string): Promise<Ticket[]>;
-  cancelReservation(customerId: string, reservationId: string): Promise<void>;
+  reserveTickets(customerId: string, request: ReserveTicketRequest, ip: string): Promise<Order>;
+  purchaseTickets(customerId: string, request: PurchaseTicketRequest, ip: string): Promise<Order>;
+  cancelReservation(customerId: string, orderId: string): Promise<void>;
+
+  // Orders
+  getOrder(orderId: string): Promise<Order>;
+  listCustomerOrders(customerId: string): Promise<Order[]>;
+  listOrderTickets(orderId: string): Promise<Ticket[]>;
+
+  // Add-ons
+  reserveAddOns(customerId: string, request: ReserveAddOnsRequest, ip: string): Promise<Order>;
+  listTicketAddOns(ticketId: string): Promise<OrderAddOn[]>;
+  listEventTicketAddOns(eventId: string): Promise<Map<string, OrderAddOn[]>>;
   
   // Ticket Management
   getTicket(ticketId: string): Promise<Ticket>;
   listCustomerTickets(customerId: string): Promise<Ticket[]>;
   listEventTickets(eventId: string): Promise<Ticket[]>;
-  cancelTicket(ticketId: string): Promise<Ticket>;
+  cancelTicket(ticketId: string, cancelledBy?: string, reason?: string): Promise<Ticket>;
+  listTicketStatusHistory(organizerId: string, ticketId: string): Promise<TicketStatusChange[]>;
+  markTicketCheckedIn(ticketId: string, checkedInAt?: Date, sessionId?: string): Promise<Ticket>;
+  revertTicketCheckIn(ticketId: string, checkedInAt: Date, sessionId?: string): Promise<void>;
   
+  // Ticket Transfers
+  initiateTransfer(customerId: string, request: InitiateTransferRequest): Promise<TicketTransfer>;
+  acceptTransfer(recipientId: string, request: AcceptTransferRequest): Promise<Ticket>;
+  cancelTransfer(customerId: string, transferId: string): Promise<TicketTransfer>;
+  listIncomingTransfers(recipientEmail: string): Promise<TicketTransfer[]>;
+
   // Ticket Approval
-  approveTicket(organizerId: string, ticketId: string): Promise<Ticket>;
-  rejectTicket(organizerId: string, ticketId: string): Promise<Ticket>;
-  listPendingApprovals(eventId: string): Promise<Ticket[]>;
+  approveTicket(organizerId: string, ticketId: string, reason?: string): Promise<Ticket>;
+  rejectTicket(organizerId: string, ticketId: string, reason?: string): Promise<Ticket>;
+  approveTickets(organizerId: string, ticketIds: string[], reason?: string): Promise<BulkApprovalResult>;
+  rejectTickets(organizerId: string, ticketIds: string[], reason?: string): Promise<BulkApprovalResult>;
+  listPendingApprovals(organizerId: string, eventId: string): Promise<Ticket[]>;
+
+  // Risk Review
+  approveRiskReview(organizerId: string, orderId: string, note?: string): Promise<Order>;
+  rejectRiskReview(organizerId: string, orderId: string, note?: string): Promise<Order>;
   
   // Ticket Stats
   getTicketTypeStats(ticketTypeId: string): Promise<{
@@ -46,6 +80,7 @@ export interface ITicketService {
   validateCustomerTicketLimit(customerId: string, ticketTypeId: string, quantity: number): Promise<void>;
   
   // Reservation Management
+  expireOrder(orderId: string): Promise<Order | null>;
   cleanupExpiredReservations(): Promise<void>;
   
   // Payment Webhook
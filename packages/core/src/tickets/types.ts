@@ -1,16 +1,35 @@
 import { z } from 'zod';
+import { AddOnSelection } from '../addons/types';
+import { ticketRiskSchema } from '../risk/types';
 
 export enum TicketStatus {
   AVAILABLE = 'AVAILABLE',
   RESERVED = 'RESERVED',
   SOLD = 'SOLD',
   CANCELLED = 'CANCELLED',
+  REFUNDED = 'REFUNDED', // Sold, then paid back; the place goes back on sale
+}
+
+export enum OrderStatus {
+  RESERVED = 'RESERVED',                // Tickets held, checkout not started
+  PENDING_PAYMENT = 'PENDING_PAYMENT',  // Payment created, waiting for the provider
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+}
+
+export enum TicketTransferStatus {
+  PENDING = 'PENDING',
+  ACCEPTED = 'ACCEPTED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
 }
 
 export enum TicketApprovalStatus {
   PENDING = 'PENDING',
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
+  EXPIRED = 'EXPIRED', // The organizer did not decide within the approval window
 }
 
 // Will be expanded when implementing paid tickets
@@ -21,15 +40,84 @@ export const ticketPriceSchema = z.object({
 
 export type TicketPrice = z.infer<typeof ticketPriceSchema>;
 
+// Inventory counters kept on the ticket type document and only mutated inside transactions
+export const ticketInventorySchema = z.object({
+  available: z.number().int().min(0),
+  reserved: z.number().int().min(0),
+  sold: z.number().int().min(0),
+  cancelled: z.number().int().min(0),
+});
+
+export type TicketInventory = z.infer<typeof ticketInventorySchema>;
+
+// A tier applies until either of its boundaries is reached; the last tier usually has neither
+export const priceTierSchema = z.object({
+  name: z.string().min(1), // e.g. Early Bird, Regular, Late
+  price: ticketPriceSchema,
+  endsAt: z.date().optional(),
+  maxSold: z.number().int().positive().optional(), // Tickets reserved or sold when the tier closes
+});
+
+export type PriceTier = z.infer<typeof priceTierSchema>;
+
+export enum RegistrationQuestionType {
+  TEXT = 'TEXT',
+  SELECT = 'SELECT',
+  CHECKBOX = 'CHECKBOX',
+}
+
+export enum RegistrationQuestionScope {
+  ATTENDEE = 'ATTENDEE', // Answered once for every ticket
+  ORDER = 'ORDER',       // Answered once by the buyer
+}
+
+export const registrationQuestionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  type: z.nativeEnum(RegistrationQuestionType),
+  required: z.boolean().default(false),
+  scope: z.nativeEnum(RegistrationQuestionScope).default(RegistrationQuestionScope.ATTENDEE),
+  // Choices for SELECT; a CHECKBOX with options is multiple choice, without them a single tick box
+  options: z.array(z.string().min(1)).default([]),
+  maxLength: z.number().int().positive().optional(), // TEXT only
+});
+
+export type RegistrationQuestion = z.infer<typeof registrationQuestionSchema>;
+
+export const registrationAnswerValueSchema = z.union([z.string(), z.array(z.string()), z.boolean()]);
+
+export type RegistrationAnswerValue = z.infer<typeof registrationAnswerValueSchema>;
+
+// The label is copied so answers stay readable after the question is edited
+export const registrationAnswerSchema = z.object({
+  questionId: z.string(),
+  label: z.string(),
+  scope: z.nativeEnum(RegistrationQuestionScope),
+  value: registrationAnswerValueSchema,
+});
+
+export type RegistrationAnswer = z.infer<typeof registrationAnswerSchema>;
+
 export const ticketTypeSchema = z.object({
   id: z.string(),
   eventId: z.string(),
   name: z.string().min(1),
   description: z.string().optional(),
-  price: ticketPriceSchema,
+  price: ticketPriceSchema, // Used when there are no tiers or every tier has closed
+  priceTiers: z.array(priceTierSchema).default([]),
+  // Resolved when read, never stored
+  currentTier: priceTierSchema.optional(),
+  nextTier: priceTierSchema.optional(),
   quantity: z.number().int().positive(),
   maxPerCustomer: z.number().int().positive().default(1),
   requireApproval: z.boolean().default(false),
+  allowTransfers: z.boolean().default(true),
+  reservedSeating: z.boolean().default(false), // Tickets are sold against seats of the event's seat map
+  hidden: z.boolean().default(false), // Only listed and sold to buyers with an unlock code
+  sessionId: z.string().optional(), // Valid for one session only; otherwise a pass for every session
+  approvalWindowHours: z.number().int().positive().default(72), // How long requests wait for a decision
+  questions: z.array(registrationQuestionSchema).default([]),
+  inventory: ticketInventorySchema,
   // Dates
   saleStartDate: z.date().optional(),
   saleEndDate: z.date().optional(),
@@ -39,39 +127,187 @@ export const ticketTypeSchema = z.object({
 
 export type TicketType = z.infer<typeof ticketTypeSchema>;
 
+export const ticketHolderSchema = z.object({
+  customerId: z.string(),
+  customerName: z.string(),
+  customerEmail: z.string().email(),
+  transferredAt: z.date(),
+});
+
+export type TicketHolder = z.infer<typeof ticketHolderSchema>;
+
+// Shown to the applicant, so the reason is written for them
+export const ticketApprovalEventSchema = z.object({
+  status: z.nativeEnum(TicketApprovalStatus),
+  reason: z.string().optional(),
+  at: z.date(),
+});
+
+export type TicketApprovalEvent = z.infer<typeof ticketApprovalEventSchema>;
+
+// Append-only, kept in the ticket's statusHistory subcollection
+export const ticketStatusChangeSchema = z.object({
+  id: z.string(),
+  ticketId: z.string(),
+  from: z.nativeEnum(TicketStatus).nullable(), // Null when the ticket was created
+  to: z.nativeEnum(TicketStatus),
+  changedBy: z.string().optional(), // Missing for changes made by the system
+  reason: z.string(),
+  at: z.date(),
+});
+
+export type TicketStatusChange = z.infer<typeof ticketStatusChangeSchema>;
+
 export const ticketSchema = z.object({
   id: z.string(),
   eventId: z.string(),
   ticketTypeId: z.string(),
+  orderId: z.string().optional(),
   customerId: z.string(),
   status: z.nativeEnum(TicketStatus),
   approvalStatus: z.nativeEnum(TicketApprovalStatus).optional(),
+  approvalHistory: z.array(ticketApprovalEventSchema).default([]),
+  risk: ticketRiskSchema.optional(), // Fraud assessment made at reservation and any review of it
   price: ticketPriceSchema,
+  priceTier: z.string().optional(), // Name of the tier the ticket was reserved at
+  seatId: z.string().optional(),
+  sessionId: z.string().optional(),
+  // Promo code applied at reservation; price is what the customer pays after the discount
+  originalPrice: ticketPriceSchema.optional(),
+  promoCode: z.string().optional(),
+  discountAmount: z.number().min(0).optional(),
   // Payment info - will be expanded later
   paymentId: z.string().optional(),
   paymentStatus: z.string().optional(),
+  // Signed QR credential, issued once the ticket is sold
+  credential: z.string().optional(),
+  credentialVersion: z.number().int().optional(),
   // Metadata
   customerName: z.string(),
   customerEmail: z.string().email(),
+  answers: z.array(registrationAnswerSchema).default([]),
+  previousHolders: z.array(ticketHolderSchema).default([]),
   // Dates
   reservedAt: z.date(),
   expiresAt: z.date().optional(), // For reservation expiry
   purchasedAt: z.date().optional(),
+  checkedInAt: z.date().optional(),
+  sessionCheckIns: z.record(z.date()).default({}), // Session ID -> check-in time
   cancelledAt: z.date().optional(),
+  refundedAt: z.date().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export type Ticket = z.infer<typeof ticketSchema>;
 
+export const orderItemSchema = z.object({
+  ticketTypeId: z.string(),
+  ticketTypeName: z.string(),
+  quantity: z.number().int().positive(),
+  unitPrice: ticketPriceSchema,
+  priceTier: z.string().optional(), // Items are split when a reservation spans tiers
+  subtotal: z.number().min(0), // Before discounts
+  discount: z.number().min(0).default(0),
+  ticketIds: z.array(z.string()),
+});
+
+export type OrderItem = z.infer<typeof orderItemSchema>;
+
+// Add-ons are handed over with a ticket at check-in
+export const orderAddOnSchema = z.object({
+  addOnId: z.string(),
+  variantId: z.string(),
+  name: z.string(),
+  variantName: z.string(),
+  quantity: z.number().int().positive(),
+  unitPrice: ticketPriceSchema,
+  subtotal: z.number().min(0),
+  ticketId: z.string(),
+});
+
+export type OrderAddOn = z.infer<typeof orderAddOnSchema>;
+
+export const orderDiscountSchema = z.object({
+  promoCodeId: z.string(),
+  code: z.string(),
+  amount: z.number().min(0),
+});
+
+export type OrderDiscount = z.infer<typeof orderDiscountSchema>;
+
+// Unlock code used for the hidden ticket types of the order
+export const orderUnlockSchema = z.object({
+  unlockCodeId: z.string(),
+  code: z.string(),
+  quantity: z.number().int().positive(),
+});
+
+export type OrderUnlock = z.infer<typeof orderUnlockSchema>;
+
+export const orderSchema = z.object({
+  id: z.string(),
+  eventId: z.string(),
+  customerId: z.string(),
+  status: z.nativeEnum(OrderStatus),
+  items: z.array(orderItemSchema), // Empty for add-ons bought after the tickets
+  addOns: z.array(orderAddOnSchema).default([]),
+  ticketId: z.string().optional(), // Ticket that add-ons were bought for later
+  total: ticketPriceSchema, // After discounts
+  discount: orderDiscountSchema.optional(),
+  unlock: orderUnlockSchema.optional(),
+  // Payment info
+  paymentId: z.string().optional(),
+  paymentStatus: z.string().optional(),
+  // Metadata
+  customerName: z.string(),
+  customerEmail: z.string().email(),
+  // Dates
+  reservedAt: z.date(),
+  expiresAt: z.date(),
+  purchasedAt: z.date().optional(),
+  cancelledAt: z.date().optional(),
+  refundedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Order = z.infer<typeof orderSchema>;
+
+export const ticketTransferSchema = z.object({
+  id: z.string(),
+  ticketId: z.string(),
+  eventId: z.string(),
+  status: z.nativeEnum(TicketTransferStatus),
+  fromCustomerId: z.string(),
+  fromCustomerName: z.string(),
+  recipientEmail: z.string().email(),
+  acceptedBy: z.string().optional(),
+  // Dates
+  expiresAt: z.date(),
+  acceptedAt: z.date().optional(),
+  cancelledAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type TicketTransfer = z.infer<typeof ticketTransferSchema>;
+
 export interface CreateTicketTypeRequest {
   eventId: string;
   name: string;
   description?: string;
   price: TicketPrice;
+  priceTiers?: PriceTier[];
   quantity: number;
   maxPerCustomer?: number;
   requireApproval?: boolean;
+  allowTransfers?: boolean;
+  reservedSeating?: boolean;
+  hidden?: boolean;
+  sessionId?: string;
+  approvalWindowHours?: number;
+  questions?: RegistrationQuestion[];
   saleStartDate?: Date;
   saleEndDate?: Date;
 }
@@ -80,18 +316,63 @@ export interface UpdateTicketTypeRequest extends Partial<CreateTicketTypeRequest
   id: string;
 }
 
-export interface ReserveTicketRequest {
+export interface ReserveTicketItem {
   ticketTypeId: string;
   quantity: number;
+  seatIds?: string[]; // Required for reserved seating, one per ticket
+  attendees?: RegistrationAnswers[]; // Answers to attendee questions, one entry per ticket
+}
+
+// Question ID -> answer
+export type RegistrationAnswers = Record<string, RegistrationAnswerValue>;
+
+export interface ReserveTicketRequest {
+  eventId: string;
+  items: ReserveTicketItem[];
   customerName: string;
   customerEmail: string;
+  accountEmail?: string; // Verified email of the buyer's account, used to match invitations
+  promoCode?: string;
+  unlockCode?: string; // Required when the order contains hidden ticket types
+  challengeToken?: string; // Answer to a risk challenge, e.g. a CAPTCHA token
+  admissionToken?: string; // Issued by the waiting room when the event has one
+  answers?: RegistrationAnswers; // Answers to order questions of every ticket type in the order
+  addOns?: AddOnSelection[]; // Handed over with the first ticket of the order
+}
+
+export interface ReserveAddOnsRequest {
+  ticketId: string;
+  addOns: AddOnSelection[];
+}
+
+export interface TicketApprovalFailure {
+  ticketId: string;
+  code: string;
+  message: string;
+}
+
+export interface BulkApprovalResult {
+  tickets: Ticket[];
+  failed: TicketApprovalFailure[];
+  orders: Order[]; // Orders that left approval: sent to payment, completed or cancelled
 }
 
 export interface PurchaseTicketRequest {
-  reservationId: string;
+  orderId: string;
   // Payment details will be added later
 }
 
+export interface InitiateTransferRequest {
+  ticketId: string;
+  recipientEmail: string;
+}
+
+export interface AcceptTransferRequest {
+  transferId: string;
+  recipientName: string;
+  recipientEmail: string; // Verified email of the accepting account
+}
+
 // Error types
 export class TicketError extends Error {
   constructor(
@@ -124,6 +405,16 @@ export class TicketNotFoundError extends TicketError {
   }
 }
 
+export class OrderNotFoundError extends TicketError {
+  constructor(orderId: string) {
+    super(
+      `Order with ID ${orderId} not found`,
+      'ticket/order-not-found'
+    );
+    this.name = 'OrderNotFoundError';
+  }
+}
+
 export class TicketSoldOutError extends TicketError {
   constructor(ticketTypeId: string) {
     super(
@@ -134,6 +425,16 @@ export class TicketSoldOutError extends TicketError {
   }
 }
 
+export class InvalidTicketTransitionError extends TicketError {
+  constructor(ticketId: string, public from: TicketStatus, public to: TicketStatus) {
+    super(
+      `Ticket ${ticketId} cannot move from ${from} to ${to}`,
+      'ticket/invalid-transition'
+    );
+    this.name = 'InvalidTicketTransitionError';
+  }
+}
+
 export class TicketReservationExpiredError extends TicketError {
   constructor(ticketId: string) {
     super(
@@ -152,4 +453,54 @@ export class MaxTicketsPerCustomerError extends TicketError {
     );
     this.name = 'MaxTicketsPerCustomerError';
   }
-} 
\ No newline at end of file
+} 
+
+export class InvalidTicketCredentialError extends TicketError {
+  constructor(reason: string) {
+    super(
+      `Invalid ticket credential: ${reason}`,
+      'ticket/invalid-credential'
+    );
+    this.name = 'InvalidTicketCredentialError';
+  }
+}
+
+export class TicketAlreadyUsedError extends TicketError {
+  constructor(ticketId: string) {
+    super(
+      `Ticket ${ticketId} has already been checked in`,
+      'ticket/already-used'
+    );
+    this.name = 'TicketAlreadyUsedError';
+  }
+}
+
+export class InvalidRegistrationAnswersError extends TicketError {
+  constructor(reason: string) {
+    super(
+      `Invalid registration answers: ${reason}`,
+      'ticket/invalid-answers'
+    );
+    this.name = 'InvalidRegistrationAnswersError';
+  }
+}
+
+export class TicketTransferNotFoundError extends TicketError {
+  constructor(transferId: string) {
+    super(
+      `Ticket transfer with ID ${transferId} not found`,
+      'ticket/transfer-not-found'
+    );
+    this.name = 'TicketTransferNotFoundError';
+  }
+}
+
+export class TicketTransferNotAllowedError extends TicketError {
+  constructor(reason: string) {
+    super(
+      `Ticket cannot be transferred: ${reason}`,
+      'ticket/transfer-not-allowed'
+    );
+    this.name = 'TicketTransferNotAllowedError';
+  }
+}
@@ -0,0 +1,71 @@
+import { AdmissionTokenSigner } from './admission-token';
+import { AdmissionRequiredError } from './types';
+
+describe('AdmissionTokenSigner', () => {
+  const signer = new AdmissionTokenSigner('admission-secret');
+  const issuedAt = new Date('2026-11-03T10:00:00Z');
+  const expiresAt = new Date('2026-11-03T10:15:00Z');
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(issuedAt);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('verifies the tokens it issues', () => {
+    const token = signer.issue('event-1', 'customer-1', expiresAt);
+
+    expect(token).toMatch(/^swr1\.[\w-]+\.[\w-]+$/);
+    expect(signer.verify(token, 'event-1', 'customer-1')).toEqual({
+      eid: 'event-1',
+      cid: 'customer-1',
+      iat: issuedAt.getTime() / 1000,
+      exp: expiresAt.getTime() / 1000,
+    });
+  });
+
+  it('accepts tokens until they expire', () => {
+    const token = signer.issue('event-1', 'customer-1', expiresAt);
+
+    jest.setSystemTime(expiresAt);
+    expect(() => signer.verify(token, 'event-1', 'customer-1')).not.toThrow();
+
+    jest.setSystemTime(expiresAt.getTime() + 1000);
+    expect(() => signer.verify(token, 'event-1', 'customer-1')).toThrow(AdmissionRequiredError);
+    expect(() => signer.verify(token, 'event-1', 'customer-1')).toThrow('admission has expired');
+  });
+
+  it.each([
+    ['another event', 'event-2', 'customer-1'],
+    ['another buyer', 'event-1', 'customer-2'],
+  ])('refuses tokens presented for %s', (_reason, eventId, customerId) => {
+    const token = signer.issue('event-1', 'customer-1', expiresAt);
+
+    expect(() => signer.verify(token, eventId, customerId)).toThrow('issued for someone else');
+  });
+
+  it('refuses tokens signed with another secret', () => {
+    const token = new AdmissionTokenSigner('other-secret').issue('event-1', 'customer-1', expiresAt);
+
+    expect(() => signer.verify(token, 'event-1', 'customer-1')).toThrow('signature mismatch');
+  });
+
+  it('refuses tokens whose claims were changed', () => {
+    const [prefix, , signature] = signer.issue('event-1', 'customer-1', expiresAt).split('.');
+    const [, payload] = signer.issue('event-1', 'customer-1', new Date('2026-11-04T10:00:00Z')).split('.');
+
+    expect(() => signer.verify(`${prefix}.${payload}.${signature}`, 'event-1', 'customer-1')).toThrow('signature mismatch');
+  });
+
+  it.each([
+    ['an unknown prefix', (token: string) => token.replace(/^swr1/, 'sft1')],
+    ['a missing signature', (token: string) => token.split('.').slice(0, 2).join('.')],
+    ['an empty token', () => ''],
+  ])('refuses tokens with %s', (_reason, mangle) => {
+    const token = mangle(signer.issue('event-1', 'customer-1', expiresAt));
+
+    expect(() => signer.verify(token, 'event-1', 'customer-1')).toThrow('malformed admission token');
+  });
+});
@@ -0,0 +1,67 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AdmissionRequiredError } from './types';
+
+const ADMISSION_PREFIX = 'swr1';
+
+export interface AdmissionTokenClaims {
+  eid: string; // Event ID
+  cid: string; // Customer ID
+  iat: number; // Issued at (epoch seconds)
+  exp: number; // Expires at (epoch seconds)
+}
+
+/**
+ * Issues and verifies the HMAC-signed token given to buyers admitted from a waiting room.
+ * Format: `swr1.<base64url claims>.<base64url signature>`
+ */
+export class AdmissionTokenSigner {
+  constructor(private secret: string) {}
+
+  private signPayload(payload: string): Buffer {
+    return createHmac('sha256', this.secret).update(`${ADMISSION_PREFIX}.${payload}`).digest();
+  }
+
+  issue(eventId: string, customerId: string, expiresAt: Date): string {
+    const claims: AdmissionTokenClaims = {
+      eid: eventId,
+      cid: customerId,
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(expiresAt.getTime() / 1000),
+    };
+
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    const signature = this.signPayload(payload).toString('base64url');
+    return `${ADMISSION_PREFIX}.${payload}.${signature}`;
+  }
+
+  /**
+   * Throws unless the token was issued to this buyer for this event and has not expired.
+   */
+  verify(token: string, eventId: string, customerId: string): AdmissionTokenClaims {
+    const [prefix, payload, signature] = token.trim().split('.');
+    if (prefix !== ADMISSION_PREFIX || !payload || !signature) {
+      throw new AdmissionRequiredError('malformed admission token');
+    }
+
+    const expected = this.signPayload(payload);
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      throw new AdmissionRequiredError('admission token signature mismatch');
+    }
+
+    let claims: AdmissionTokenClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as AdmissionTokenClaims;
+    } catch {
+      throw new AdmissionRequiredError('malformed admission token');
+    }
+
+    if (claims.eid !== eventId || claims.cid !== customerId) {
+      throw new AdmissionRequiredError('admission token was issued for someone else');
+    }
+    if (claims.exp * 1000 < Date.now()) {
+      throw new AdmissionRequiredError('admission has expired, join the queue again');
+    }
+    return claims;
+  }
+}
@@ -0,0 +1,4 @@
+export * from './types';
+export * from './admission-token';
+export * from './waiting-room.service';
+export * from './redis-waiting-room.service';
@@ -0,0 +1,204 @@
+import { Redis } from 'ioredis';
+import {
+  WaitingRoomPosition,
+  WaitingRoomStatus,
+  WaitingRoomError,
+  NotInWaitingRoomError,
+  AdmissionRequiredError,
+} from './types';
+import { IWaitingRoomService } from './waiting-room.service';
+import { AdmissionTokenSigner } from './admission-token';
+import { Event, EventWaitingRoom, IEventService, eventWaitingRoomSchema } from '../events';
+
+// Admits as many buyers as the rate allows since the last admission, never more than have
+// joined, so an idle queue does not bank admissions for the next burst.
+// KEYS: state hash, join counter. ARGV: now, ms between admissions, earliest admission, TTL.
+const ADVANCE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local interval = tonumber(ARGV[2])
+local opensAt = tonumber(ARGV[3])
+local admitted = tonumber(redis.call('HGET', KEYS[1], 'admitted') or '0')
+local last = tonumber(redis.call('HGET', KEYS[1], 'lastAdmitAt') or ARGV[1])
+local joined = tonumber(redis.call('GET', KEYS[2]) or '0')
+if last < opensAt then last = opensAt end
+if now >= last then
+  local released = math.floor((now - last) / interval)
+  admitted = math.min(admitted + released, joined)
+  last = last + released * interval
+  if admitted >= joined then last = now end
+end
+redis.call('HSET', KEYS[1], 'admitted', admitted, 'lastAdmitAt', last)
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+return admitted
+`;
+
+export class RedisWaitingRoomService implements IWaitingRoomService {
+  private readonly queueTtlSeconds = 2 * 24 * 60 * 60; // Queues are dropped two days after the last join
+
+  private getQueueKey(eventId: string) { return `waiting-room:${eventId}:queue`; }
+  private getJoinCounterKey(eventId: string) { return `waiting-room:${eventId}:joined`; }
+  private getStateKey(eventId: string) { return `waiting-room:${eventId}:state`; }
+  private getAdmittedKey(eventId: string) { return `waiting-room:${eventId}:admitted`; }
+
+  constructor(
+    private redis: Redis,
+    private eventService: IEventService,
+    private signer: AdmissionTokenSigner
+  ) {}
+
+  private getSettings(event: Event): EventWaitingRoom | null {
+    return event.waitingRoom?.enabled ? eventWaitingRoomSchema.parse(event.waitingRoom) : null;
+  }
+
+  private getAdmissionInterval(settings: EventWaitingRoom): number {
+    return 60000 / settings.admissionsPerMinute;
+  }
+
+  private async advance(eventId: string, settings: EventWaitingRoom): Promise<number> {
+    const admitted = await this.redis.eval(
+      ADVANCE_SCRIPT,
+      2,
+      this.getStateKey(eventId),
+      this.getJoinCounterKey(eventId),
+      Date.now(),
+      this.getAdmissionInterval(settings),
+      settings.opensAt ? new Date(settings.opensAt).getTime() : 0,
+      this.queueTtlSeconds
+    );
+    return Number(admitted);
+  }
+
+  /**
+   * Work out where a queued buyer stands. An admission lasts for the TTL from the moment
+   * the buyer was first seen admitted; after that the buyer has to queue again.
+   */
+  private async resolvePosition(
+    event: Event,
+    settings: EventWaitingRoom,
+    customerId: string,
+    ticket: number
+  ): Promise<WaitingRoomPosition | null> {
+    const admitted = await this.advance(event.id, settings);
+    const interval = this.getAdmissionInterval(settings);
+
+    if (ticket > admitted) {
+      const position = ticket - admitted - 1;
+      const untilOpen = settings.opensAt ? Math.max(new Date(settings.opensAt).getTime() - Date.now(), 0) : 0;
+      return {
+        eventId: event.id,
+        customerId,
+        status: WaitingRoomStatus.WAITING,
+        position,
+        estimatedWaitSeconds: Math.ceil((untilOpen + (position + 1) * interval) / 1000),
+      };
+    }
+
+    const admittedKey = this.getAdmittedKey(event.id);
+    await this.redis.hsetnx(admittedKey, customerId, Date.now());
+    await this.redis.expire(admittedKey, this.queueTtlSeconds);
+    const admittedAt = Number(await this.redis.hget(admittedKey, customerId));
+    const admissionExpiresAt = new Date(admittedAt + settings.admissionTtlMinutes * 60 * 1000);
+    if (admissionExpiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    return {
+      eventId: event.id,
+      customerId,
+      status: WaitingRoomStatus.ADMITTED,
+      position: 0,
+      estimatedWaitSeconds: 0,
+      admissionToken: this.signer.issue(event.id, customerId, admissionExpiresAt),
+      admissionExpiresAt,
+    };
+  }
+
+  // Events without a waiting room admit everyone straight away
+  private admitImmediately(event: Event, customerId: string): WaitingRoomPosition {
+    const admissionExpiresAt = new Date(Date.now() + eventWaitingRoomSchema.parse({}).admissionTtlMinutes * 60 * 1000);
+    return {
+      eventId: event.id,
+      customerId,
+      status: WaitingRoomStatus.ADMITTED,
+      position: 0,
+      estimatedWaitSeconds: 0,
+      admissionToken: this.signer.issue(event.id, customerId, admissionExpiresAt),
+      admissionExpiresAt,
+    };
+  }
+
+  private async enqueue(eventId: string, customerId: string): Promise<number> {
+    const ticket = await this.redis.incr(this.getJoinCounterKey(eventId));
+    await this.redis
+      .pipeline()
+      .zadd(this.getQueueKey(eventId), ticket, customerId)
+      .hdel(this.getAdmittedKey(eventId), customerId)
+      .expire(this.getJoinCounterKey(eventId), this.queueTtlSeconds)
+      .expire(this.getQueueKey(eventId), this.queueTtlSeconds)
+      .exec();
+    return ticket;
+  }
+
+  async joinWaitingRoom(customerId: string, eventId: string): Promise<WaitingRoomPosition> {
+    try {
+      const event = await this.eventService.getEvent(eventId);
+      const settings = this.getSettings(event);
+      if (!settings) {
+        return this.admitImmediately(event, customerId);
+      }
+
+      // Joining again keeps the buyer's place, unless their admission has run out
+      const existing = await this.redis.zscore(this.getQueueKey(eventId), customerId);
+      if (existing !== null) {
+        const position = await this.resolvePosition(event, settings, customerId, Number(existing));
+        if (position) {
+          return position;
+        }
+      }
+
+      const ticket = await this.enqueue(eventId, customerId);
+      return (await this.resolvePosition(event, settings, customerId, ticket))!;
+    } catch (error: any) {
+      if (error instanceof WaitingRoomError) throw error;
+      throw new WaitingRoomError('Failed to join the waiting room', 'waiting-room/join-failed', error);
+    }
+  }
+
+  async getWaitingRoomPosition(customerId: string, eventId: string): Promise<WaitingRoomPosition> {
+    try {
+      const event = await this.eventService.getEvent(eventId);
+      const settings = this.getSettings(event);
+      if (!settings) {
+        return this.admitImmediately(event, customerId);
+      }
+
+      const existing = await this.redis.zscore(this.getQueueKey(eventId), customerId);
+      const position = existing !== null
+        ? await this.resolvePosition(event, settings, customerId, Number(existing))
+        : null;
+      if (!position) {
+        throw new NotInWaitingRoomError(eventId);
+      }
+      return position;
+    } catch (error: any) {
+      if (error instanceof WaitingRoomError) throw error;
+      throw new WaitingRoomError('Failed to get waiting room position', 'waiting-room/get-failed', error);
+    }
+  }
+
+  // Helpers used by the ticket service while reserving
+
+  /**
+   * Throws unless the buyer holds a valid admission for an event with a waiting room.
+   */
+  async assertAdmitted(eventId: string, customerId: string, token?: string): Promise<void> {
+    const event = await this.eventService.getEvent(eventId);
+    if (!this.getSettings(event)) {
+      return;
+    }
+    if (!token) {
+      throw new AdmissionRequiredError('join the waiting room first');
+    }
+    this.signer.verify(token, event.id, customerId);
+  }
+}
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+export enum WaitingRoomStatus {
+  WAITING = 'WAITING',
+  ADMITTED = 'ADMITTED',
+}
+
+// What a queued buyer sees when they poll
+export const waitingRoomPositionSchema = z.object({
+  eventId: z.string(),
+  customerId: z.string(),
+  status: z.nativeEnum(WaitingRoomStatus),
+  position: z.number().int().min(0), // Buyers ahead in the queue; 0 once admitted
+  estimatedWaitSeconds: z.number().int().min(0),
+  admissionToken: z.string().optional(), // Only once admitted
+  admissionExpiresAt: z.date().optional(),
+});
+
+export type WaitingRoomPosition = z.infer<typeof waitingRoomPositionSchema>;
+
+// Error types
+export class WaitingRoomError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'WaitingRoomError';
+  }
+}
+
+export class NotInWaitingRoomError extends WaitingRoomError {
+  constructor(eventId: string) {
+    super(
+      `Not in the waiting room for event ${eventId}`,
+      'waiting-room/not-in-queue'
+    );
+    this.name = 'NotInWaitingRoomError';
+  }
+}
+
+export class AdmissionRequiredError extends WaitingRoomError {
+  constructor(reason: string) {
+    super(
+      `Admission from the waiting room is required: ${reason}`,
+      'waiting-room/admission-required'
+    );
+    this.name = 'AdmissionRequiredError';
+  }
+}
@@ -0,0 +1,6 @@
+import { WaitingRoomPosition } from './types';
+
+export interface IWaitingRoomService {
+  joinWaitingRoom(customerId: string, eventId: string): Promise<WaitingRoomPosition>;
+  getWaitingRoomPosition(customerId: string, eventId: string): Promise<WaitingRoomPosition>;
+}